@@ -0,0 +1,15 @@
+import type { Metadata } from "next";
+import AdminConfigEditor from "../../components/AdminConfigEditor";
+
+export const metadata: Metadata = {
+  title: "Model configuration – EdgeTier ROI Calculator",
+  robots: { index: false },
+};
+
+export default function AdminPage() {
+  return (
+    <main className="min-h-screen bg-slate-100 py-10">
+      <AdminConfigEditor />
+    </main>
+  );
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import {
+  parseModelConfig,
+  serializeModelConfig,
+  type ModelConfig,
+} from "../../../../lib/roi/config";
+import { adminAuthError } from "../../../../lib/server/adminAuth";
+import {
+  readModelConfig,
+  writeModelConfig,
+} from "../../../../lib/server/modelConfigStore";
+
+export const dynamic = "force-dynamic";
+
+const configResponse = (config: ModelConfig) =>
+  new Response(serializeModelConfig(config), {
+    headers: { "Content-Type": "application/json" },
+  });
+
+const authError = (request: Request) =>
+  adminAuthError(
+    request,
+    "Admin editing is disabled. Set ADMIN_PASSWORD on the server."
+  );
+
+export async function GET(request: Request) {
+  const denied = authError(request);
+  if (denied) return denied;
+  return configResponse(await readModelConfig());
+}
+
+export async function PUT(request: Request) {
+  const denied = authError(request);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON." },
+      { status: 400 }
+    );
+  }
+
+  const { config, issues } = parseModelConfig(body);
+  if (!config) {
+    return NextResponse.json(
+      { error: "The config has errors.", issues },
+      { status: 400 }
+    );
+  }
+
+  // Saved results cite the version, so a changed config needs a new one
+  const current = await readModelConfig();
+  if (
+    config.version === current.version &&
+    serializeModelConfig(config) !== serializeModelConfig(current)
+  ) {
+    return NextResponse.json(
+      {
+        error: "The config has errors.",
+        issues: [
+          {
+            path: "version",
+            message: `Bump the version when changing the config (currently ${current.version}).`,
+          },
+        ],
+      },
+      { status: 400 }
+    );
+  }
+
+  await writeModelConfig(config);
+  return configResponse(config);
+}
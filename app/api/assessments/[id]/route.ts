@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import {
+  parseAssessmentUpdate,
+  reviseAssessment,
+} from "../../../../lib/roi/assessments";
+import { adminAuthError } from "../../../../lib/server/adminAuth";
+import {
+  deleteAssessment,
+  getAssessment,
+  updateAssessment,
+} from "../../../../lib/server/assessmentStore";
+import { readModelConfig } from "../../../../lib/server/modelConfigStore";
+
+export const dynamic = "force-dynamic";
+
+type Context = { params: { id: string } };
+
+// Prospect names and notes are confidential, so the shared store sits
+// behind the admin password; without one the browser keeps its own copies
+const authError = (request: Request) =>
+  adminAuthError(
+    request,
+    "Shared assessments are disabled. Set ADMIN_PASSWORD on the server."
+  );
+
+const notFound = () =>
+  NextResponse.json({ error: "Assessment not found." }, { status: 404 });
+
+export async function GET(request: Request, { params }: Context) {
+  const denied = authError(request);
+  if (denied) return denied;
+  const assessment = await getAssessment(params.id);
+  return assessment ? NextResponse.json({ assessment }) : notFound();
+}
+
+// Name and notes change in place; new inputs add a revision to the history
+export async function PUT(request: Request, { params }: Context) {
+  const denied = authError(request);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON.", issues: [] },
+      { status: 400 }
+    );
+  }
+
+  const { update, issues } = parseAssessmentUpdate(body);
+  if (!update) {
+    return NextResponse.json(
+      { error: "The assessment has errors.", issues },
+      { status: 400 }
+    );
+  }
+
+  const config = await readModelConfig();
+  const assessment = await updateAssessment(params.id, (existing) =>
+    reviseAssessment(existing, update, config)
+  );
+  return assessment ? NextResponse.json({ assessment }) : notFound();
+}
+
+export async function DELETE(request: Request, { params }: Context) {
+  const denied = authError(request);
+  if (denied) return denied;
+  return (await deleteAssessment(params.id))
+    ? new NextResponse(null, { status: 204 })
+    : notFound();
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import {
+  createAssessment,
+  parseAssessmentDraft,
+} from "../../../lib/roi/assessments";
+import { adminAuthError } from "../../../lib/server/adminAuth";
+import {
+  insertAssessment,
+  listAssessments,
+} from "../../../lib/server/assessmentStore";
+import { readModelConfig } from "../../../lib/server/modelConfigStore";
+
+export const dynamic = "force-dynamic";
+
+// Prospect names and notes are confidential, so the shared store sits
+// behind the admin password; without one the browser keeps its own copies
+const authError = (request: Request) =>
+  adminAuthError(
+    request,
+    "Shared assessments are disabled. Set ADMIN_PASSWORD on the server."
+  );
+
+export async function GET(request: Request) {
+  const denied = authError(request);
+  if (denied) return denied;
+  return NextResponse.json({ assessments: await listAssessments() });
+}
+
+// Results are worked out here against the live config rather than trusted
+// from the browser
+export async function POST(request: Request) {
+  const denied = authError(request);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON.", issues: [] },
+      { status: 400 }
+    );
+  }
+
+  const { draft, issues } = parseAssessmentDraft(body);
+  if (!draft) {
+    return NextResponse.json(
+      { error: "The assessment has errors.", issues },
+      { status: 400 }
+    );
+  }
+
+  const assessment = await insertAssessment(
+    createAssessment(draft, await readModelConfig())
+  );
+  return NextResponse.json({ assessment }, { status: 201 });
+}
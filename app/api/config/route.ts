@@ -0,0 +1,12 @@
+import { serializeModelConfig } from "../../../lib/roi/config";
+import { readModelConfig } from "../../../lib/server/modelConfigStore";
+
+// Read on every request so admin edits show up straight away
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const config = await readModelConfig();
+  return new Response(serializeModelConfig(config), {
+    headers: { "Content-Type": "application/json" },
+  });
+}
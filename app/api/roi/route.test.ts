@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_MODEL_CONFIG } from "../../../lib/roi/config";
+import { DEFAULT_ROI_INPUTS, calculateRoi } from "../../../lib/roi/engine";
+import { ROI_API_SCHEMA_VERSION } from "../../../lib/roi/roiRequest";
+import { POST } from "./route";
+
+// Pin the config so a saved data/model-config.json can't move the numbers
+vi.mock("../../../lib/server/modelConfigStore", () => ({
+  readModelConfig: async () => DEFAULT_MODEL_CONFIG,
+}));
+
+const post = (body: string) =>
+  POST(
+    new Request("http://localhost/api/roi", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    })
+  );
+
+describe("POST /api/roi", () => {
+  it("returns the engine's results for a valid request", async () => {
+    const response = await post(
+      JSON.stringify({ schemaVersion: 1, inputs: DEFAULT_ROI_INPUTS })
+    );
+    expect(response.status).toBe(200);
+
+    const body = await response.json();
+    const expected = calculateRoi({
+      ...DEFAULT_ROI_INPUTS,
+      config: DEFAULT_MODEL_CONFIG,
+    });
+    expect(body.schemaVersion).toBe(ROI_API_SCHEMA_VERSION);
+    expect(body.configVersion).toBe(DEFAULT_MODEL_CONFIG.version);
+    expect(body.results.netGain).toBeCloseTo(expected.netGain, 6);
+    expect(body.results.roiPct).toBeCloseTo(expected.roiPct, 6);
+    expect(body.results.paybackMonths).toBeCloseTo(expected.paybackMonths, 6);
+  });
+
+  it("ignores compliance risk below the regulated levels", async () => {
+    const inputs = {
+      ...DEFAULT_ROI_INPUTS,
+      complexityLevel: 1,
+      includeComplianceImpact: true,
+      compliance: { costPerIncident: 50_000 },
+    } as const;
+    const response = await post(JSON.stringify({ schemaVersion: 1, inputs }));
+    expect(response.status).toBe(200);
+
+    const { results } = await response.json();
+    const expected = calculateRoi({ ...inputs, config: DEFAULT_MODEL_CONFIG });
+    expect(results.riskCostAvoided).toBe(0);
+    expect(results.netGain).toBeCloseTo(expected.netGain, 6);
+    expect(results.netGain).toBeCloseTo(
+      calculateRoi({ ...DEFAULT_ROI_INPUTS, complexityLevel: 1 }).netGain,
+      6
+    );
+  });
+
+  it("rejects a body that isn't JSON", async () => {
+    const response = await post("{ not json");
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      schemaVersion: ROI_API_SCHEMA_VERSION,
+      error: "Request body must be JSON.",
+      issues: [],
+    });
+  });
+
+  it("lists each problem in a malformed request", async () => {
+    const response = await post(
+      JSON.stringify({
+        inputs: { ...DEFAULT_ROI_INPUTS, teamSizeBand: "huge", colour: "red" },
+      })
+    );
+    expect(response.status).toBe(400);
+
+    const body = await response.json();
+    expect(body.error).toBe("The request has errors.");
+    expect(body.issues).toEqual(
+      expect.arrayContaining([
+        { path: "inputs.teamSizeBand", message: expect.any(String) },
+        { path: "inputs.colour", message: "Unknown field." },
+      ])
+    );
+  });
+
+  it("rejects exact figures outside the wizard's bounds", async () => {
+    const response = await post(
+      JSON.stringify({
+        inputs: {
+          ...DEFAULT_ROI_INPUTS,
+          exact: { numAgents: 0, ahtMins: 500 },
+        },
+      })
+    );
+    expect(response.status).toBe(400);
+
+    const { issues } = await response.json();
+    expect(issues.map((issue: { path: string }) => issue.path)).toEqual([
+      "inputs.exact.numAgents",
+      "inputs.exact.ahtMins",
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { calculateRoi } from "../../../lib/roi/engine";
+import {
+  ROI_API_SCHEMA_VERSION,
+  parseRoiRequest,
+  type RoiApiResponse,
+} from "../../../lib/roi/roiRequest";
+import { readModelConfig } from "../../../lib/server/modelConfigStore";
+
+export const dynamic = "force-dynamic";
+
+// Same engine and runtime config as the wizard, so the numbers match the UI
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        schemaVersion: ROI_API_SCHEMA_VERSION,
+        error: "Request body must be JSON.",
+        issues: [],
+      },
+      { status: 400 }
+    );
+  }
+
+  const { inputs, issues } = parseRoiRequest(body);
+  if (!inputs) {
+    return NextResponse.json(
+      {
+        schemaVersion: ROI_API_SCHEMA_VERSION,
+        error: "The request has errors.",
+        issues,
+      },
+      { status: 400 }
+    );
+  }
+
+  const config = await readModelConfig();
+  const results = calculateRoi({ ...inputs, config });
+  const response: RoiApiResponse = {
+    schemaVersion: ROI_API_SCHEMA_VERSION,
+    configVersion: config.version,
+    inputs,
+    results,
+  };
+  return NextResponse.json(response);
+}
@@ -14,7 +14,7 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en">
-      <body className="bg-slate-100">{children}</body>
+      <body className="bg-slate-100 print:bg-white">{children}</body>
     </html>
   );
 }
@@ -2,7 +2,7 @@ import EdgeTierRoiSimple from "../components/EdgeTierRoiSimple";
 
 export default function Home() {
   return (
-    <main className="min-h-screen bg-slate-100 py-10">
+    <main className="min-h-screen bg-slate-100 py-10 print:min-h-0 print:bg-white print:py-0">
       <EdgeTierRoiSimple />
     </main>
   );
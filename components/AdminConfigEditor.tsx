@@ -0,0 +1,299 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  DEFAULT_MODEL_CONFIG,
+  parseModelConfig,
+  serializeModelConfig,
+  type ConfigIssue,
+  type ModelConfig,
+} from "../lib/roi/config";
+import {
+  DEFAULT_ROI_INPUTS,
+  calculateRoi,
+  type RoiResult,
+} from "../lib/roi/engine";
+import { formatCurrency, formatPercent, localeFor } from "../lib/roi/format";
+
+type Status =
+  | { kind: "idle" }
+  | { kind: "busy" }
+  | { kind: "error"; message: string }
+  | { kind: "saved"; version: string };
+
+const PASSWORD_HEADER = "x-admin-password";
+
+const readError = async (response: Response) => {
+  try {
+    const body = await response.json();
+    return {
+      message: typeof body.error === "string" ? body.error : "Request failed.",
+      issues: Array.isArray(body.issues) ? (body.issues as ConfigIssue[]) : [],
+    };
+  } catch {
+    return { message: `Request failed (${response.status}).`, issues: [] };
+  }
+};
+
+const parseDraft = (
+  draft: string
+): { config?: ModelConfig; issues: ConfigIssue[] } => {
+  try {
+    return parseModelConfig(JSON.parse(draft));
+  } catch (error) {
+    return {
+      issues: [
+        {
+          path: "",
+          message: `Not valid JSON: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+};
+
+const AdminConfigEditor: React.FC = () => {
+  const [password, setPassword] = useState("");
+  const [saved, setSaved] = useState<ModelConfig | null>(null);
+  const [draft, setDraft] = useState("");
+  const [serverIssues, setServerIssues] = useState<ConfigIssue[]>([]);
+  const [status, setStatus] = useState<Status>({ kind: "idle" });
+
+  const parsed = useMemo(() => parseDraft(draft), [draft]);
+  const issues = parsed.config ? serverIssues : parsed.issues;
+  const unchanged =
+    saved !== null &&
+    parsed.config !== undefined &&
+    serializeModelConfig(parsed.config) === serializeModelConfig(saved);
+
+  // Default wizard answers under the saved and edited configs
+  const preview = useMemo(() => {
+    if (!saved || !parsed.config) return null;
+    return {
+      before: calculateRoi({ ...DEFAULT_ROI_INPUTS, config: saved }),
+      after: calculateRoi({ ...DEFAULT_ROI_INPUTS, config: parsed.config }),
+    };
+  }, [saved, parsed.config]);
+
+  const load = (config: ModelConfig) => {
+    setSaved(config);
+    setDraft(serializeModelConfig(config));
+    setServerIssues([]);
+  };
+
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus({ kind: "busy" });
+    try {
+      const response = await fetch("/api/admin/config", {
+        headers: { [PASSWORD_HEADER]: password },
+      });
+      if (!response.ok) {
+        const { message } = await readError(response);
+        setStatus({ kind: "error", message });
+        return;
+      }
+      const { config } = parseModelConfig(await response.json());
+      load(config ?? DEFAULT_MODEL_CONFIG);
+      setStatus({ kind: "idle" });
+    } catch {
+      setStatus({ kind: "error", message: "Couldn't reach the server." });
+    }
+  };
+
+  const save = async () => {
+    if (!parsed.config) return;
+    setStatus({ kind: "busy" });
+    try {
+      const response = await fetch("/api/admin/config", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          [PASSWORD_HEADER]: password,
+        },
+        body: serializeModelConfig(parsed.config),
+      });
+      if (!response.ok) {
+        const { message, issues: rejected } = await readError(response);
+        setServerIssues(rejected);
+        setStatus({ kind: "error", message });
+        return;
+      }
+      const { config } = parseModelConfig(await response.json());
+      load(config ?? parsed.config);
+      setStatus({ kind: "saved", version: parsed.config.version });
+    } catch {
+      setStatus({ kind: "error", message: "Couldn't reach the server." });
+    }
+  };
+
+  const statusMessage =
+    status.kind === "error" ? (
+      <p className="text-[11px] text-rose-600">{status.message}</p>
+    ) : status.kind === "saved" ? (
+      <p className="text-[11px] text-emerald-700">
+        Saved version {status.version}. New estimates use it straight away.
+      </p>
+    ) : null;
+
+  if (!saved) {
+    return (
+      <form
+        onSubmit={unlock}
+        className="mx-auto flex max-w-sm flex-col gap-3 rounded-3xl bg-white p-6 text-xs shadow-sm"
+      >
+        <h1 className="text-lg font-semibold text-slate-900">
+          Model configuration
+        </h1>
+        <label htmlFor="admin-password" className="text-slate-700">
+          Admin password
+        </label>
+        <input
+          id="admin-password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-900"
+        />
+        <button
+          type="submit"
+          disabled={status.kind === "busy" || password === ""}
+          className="rounded-full bg-emerald-600 px-3 py-1.5 font-semibold text-white shadow-sm hover:bg-emerald-700 disabled:opacity-50"
+        >
+          Unlock
+        </button>
+        {statusMessage}
+      </form>
+    );
+  }
+
+  const previewRows = preview
+    ? [
+        {
+          label: "Annual benefit",
+          format: (r: RoiResult) =>
+            formatCurrency(r.totalAnnualBenefit, r.currency),
+        },
+        {
+          label: "EdgeTier investment",
+          format: (r: RoiResult) =>
+            formatCurrency(r.edgetierAnnualCost, r.currency),
+        },
+        {
+          label: "ROI",
+          format: (r: RoiResult) =>
+            formatPercent(r.roiPct, localeFor(r.currency)),
+        },
+        {
+          label: "Payback",
+          format: (r: RoiResult) => `${r.paybackMonths.toFixed(1)} months`,
+        },
+      ]
+    : [];
+
+  return (
+    <div className="mx-auto flex max-w-3xl flex-col gap-4 rounded-3xl bg-white p-6 text-xs shadow-sm">
+      <header className="flex items-end justify-between gap-2">
+        <div>
+          <h1 className="text-lg font-semibold text-slate-900">
+            Model configuration
+          </h1>
+          <p className="text-slate-500">
+            Live version {saved.version}. Changes need a new version number.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setDraft(serializeModelConfig(saved))}
+            className="rounded-full bg-slate-100 px-3 py-1.5 text-slate-700 hover:bg-slate-200"
+          >
+            Discard edits
+          </button>
+          <button
+            type="button"
+            onClick={() => setDraft(serializeModelConfig(DEFAULT_MODEL_CONFIG))}
+            className="rounded-full bg-slate-100 px-3 py-1.5 text-slate-700 hover:bg-slate-200"
+          >
+            Load built-in defaults
+          </button>
+        </div>
+      </header>
+
+      <textarea
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          setServerIssues([]);
+        }}
+        spellCheck={false}
+        aria-invalid={issues.length > 0}
+        aria-label="Model configuration JSON"
+        className={`h-96 w-full rounded-xl border p-3 font-mono text-[11px] text-slate-900 ${
+          issues.length > 0 ? "border-rose-400" : "border-slate-200"
+        }`}
+      />
+      <p className="text-[11px] text-slate-500">
+        Use null for the top price tier&apos;s maxAgents to leave it open-ended.
+        complexityAhtMins and defaultCostPerAgent are the General defaults;
+        when a prospect picks an industry, its benchmark figures are used
+        instead.
+      </p>
+
+      {issues.length > 0 && (
+        <ul className="space-y-1 rounded-xl bg-rose-50 p-3 text-[11px] text-rose-700">
+          {issues.map((issue) => (
+            <li key={`${issue.path}:${issue.message}`}>
+              {issue.path && (
+                <span className="font-mono font-semibold">{issue.path}: </span>
+              )}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {preview && (
+        <table className="w-full text-right text-[11px]">
+          <thead className="text-slate-500">
+            <tr>
+              <th className="py-1 text-left font-medium">
+                Preview with default answers
+              </th>
+              <th className="py-1 font-medium">Live ({saved.version})</th>
+              <th className="py-1 font-medium">
+                Edited ({parsed.config?.version})
+              </th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-800">
+            {previewRows.map((row) => (
+              <tr key={row.label} className="border-t border-slate-100">
+                <td className="py-1 text-left">{row.label}</td>
+                <td className="py-1">{row.format(preview.before)}</td>
+                <td className="py-1 font-medium">
+                  {row.format(preview.after)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        {statusMessage ?? <span />}
+        <button
+          type="button"
+          onClick={save}
+          disabled={status.kind === "busy" || !parsed.config || unchanged}
+          className="rounded-full bg-emerald-600 px-3 py-1.5 font-semibold text-white shadow-sm hover:bg-emerald-700 disabled:opacity-50"
+        >
+          Save and publish
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AdminConfigEditor;
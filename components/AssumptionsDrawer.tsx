@@ -0,0 +1,168 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  ASSUMPTION_FIELDS,
+  ASSUMPTION_KEYS,
+  changedAssumptionKeys,
+  defaultAssumptionsFor,
+  isValidAssumption,
+  resolveAssumptions,
+  type AssumptionKey,
+  type AssumptionOverrides,
+} from "../lib/roi/assumptions";
+import type { IndustryId } from "../lib/roi/benchmarks";
+import type { ModelConfig } from "../lib/roi/config";
+import type { CurrencyCode } from "../lib/roi/currency";
+import { formatCurrency, formatNumber, localeFor } from "../lib/roi/format";
+
+type Props = {
+  overrides: AssumptionOverrides;
+  onChange: (overrides: AssumptionOverrides) => void;
+  currency: CurrencyCode;
+  industry?: IndustryId;
+  config?: ModelConfig;
+};
+
+const AssumptionsDrawer: React.FC<Props> = ({
+  overrides,
+  onChange,
+  currency,
+  industry,
+  config,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [drafts, setDrafts] = useState<
+    Partial<Record<AssumptionKey, string>>
+  >({});
+
+  const defaults = defaultAssumptionsFor(currency, industry, config);
+  const resolved = resolveAssumptions(overrides, defaults);
+  const changed = changedAssumptionKeys(resolved, defaults);
+  const locale = localeFor(currency);
+
+  const formatDefault = (key: AssumptionKey) =>
+    key === "annualCostPerAgent"
+      ? formatCurrency(defaults[key], currency)
+      : defaults[key].toLocaleString(locale);
+
+  const handleChange = (key: AssumptionKey, raw: string) => {
+    setDrafts((prev) => ({ ...prev, [key]: raw }));
+    const value = Number(raw);
+    if (raw.trim() !== "" && isValidAssumption(key, value)) {
+      onChange({ ...overrides, [key]: value });
+    }
+  };
+
+  const resetAll = () => {
+    setDrafts({});
+    onChange({});
+  };
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        aria-expanded={open}
+        className="flex w-full items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="font-semibold text-slate-900">
+          Assumptions
+          {changed.length > 0 && (
+            <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-medium text-amber-800">
+              {changed.length} changed
+            </span>
+          )}
+        </span>
+        <span className="text-slate-500">{open ? "Hide" : "Edit"}</span>
+      </button>
+
+      {open && (
+        <div className="space-y-3 border-t border-slate-100 px-4 py-3">
+          <p className="text-[11px] text-slate-500">
+            Adjust these to match your market. Changed values are marked and
+            flow straight into the results above.
+          </p>
+
+          {ASSUMPTION_KEYS.map((key) => {
+            const field = ASSUMPTION_FIELDS[key];
+            const draft = drafts[key];
+            const value = draft ?? String(resolved[key]);
+            const invalid =
+              draft !== undefined &&
+              (draft.trim() === "" || !isValidAssumption(key, Number(draft)));
+            const isChanged = changed.includes(key);
+            const inputId = `assumption-${key}`;
+
+            return (
+              <div key={key}>
+                <div className="flex items-baseline justify-between">
+                  <label
+                    htmlFor={inputId}
+                    className="font-medium text-slate-800"
+                  >
+                    {isChanged && (
+                      <span
+                        className="mr-1 inline-block h-2 w-2 rounded-full bg-amber-500"
+                        aria-label="Changed from default"
+                      />
+                    )}
+                    {field.label}
+                  </label>
+                  <span className="text-[11px] text-slate-500">
+                    {field.unit}
+                  </span>
+                </div>
+                <input
+                  id={inputId}
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  value={value}
+                  onChange={(e) => handleChange(key, e.target.value)}
+                  aria-invalid={invalid}
+                  className={`mt-1 w-full rounded-lg border px-3 py-1.5 text-sm text-slate-900 ${
+                    invalid
+                      ? "border-rose-400"
+                      : isChanged
+                        ? "border-amber-400"
+                        : "border-slate-200"
+                  }`}
+                />
+                {invalid ? (
+                  <p className="mt-1 text-[11px] text-rose-600">
+                    Enter a value between {formatNumber(field.min, locale)}{" "}
+                    and {formatNumber(field.max, locale)}.
+                  </p>
+                ) : (
+                  isChanged && (
+                    <p className="mt-1 text-[11px] text-amber-700">
+                      Default: {formatDefault(key)}
+                    </p>
+                  )
+                )}
+              </div>
+            );
+          })}
+
+          <button
+            type="button"
+            onClick={resetAll}
+            disabled={changed.length === 0}
+            className={`rounded-full px-3 py-1.5 text-xs font-medium ${
+              changed.length === 0
+                ? "cursor-not-allowed bg-slate-100 text-slate-400"
+                : "bg-slate-900 text-white hover:bg-slate-700"
+            }`}
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssumptionsDrawer;
@@ -0,0 +1,241 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  CAPACITY_FIELDS,
+  CAPACITY_KEYS,
+  CAPACITY_MODE_LABELS,
+  isValidCapacityValue,
+  type CapacityInputs,
+  type CapacityKey,
+  type CapacityMode,
+} from "../lib/roi/capacity";
+import type { CurrencyCode } from "../lib/roi/currency";
+import type { RoiResult } from "../lib/roi/engine";
+import { formatCurrency, formatNumber, localeFor } from "../lib/roi/format";
+import { includesStream, type PriceBook } from "../lib/roi/pricing";
+
+type Props = {
+  capacity: CapacityInputs;
+  onChange: (capacity: CapacityInputs) => void;
+  results: RoiResult;
+  currency: CurrencyCode;
+  priceBook: PriceBook;
+};
+
+const MODE_DESCRIPTIONS: Record<CapacityMode, string> = {
+  redeploy:
+    "Keep headcount and put freed time into service levels, coaching or new work.",
+  avoidHiring:
+    "Leave some leavers' roles unfilled, so freed capacity shrinks the hiring plan.",
+};
+
+// Fields only relevant once attrition is switched on
+const ATTRITION_KEYS: CapacityKey[] = [
+  "attritionPct",
+  "costToHire",
+  "rampWeeks",
+  "rampProductivityPct",
+  "rampReductionPct",
+];
+
+const CapacityPanel: React.FC<Props> = ({
+  capacity,
+  onChange,
+  results,
+  currency,
+  priceBook,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [drafts, setDrafts] = useState<Partial<Record<CapacityKey, string>>>(
+    {}
+  );
+  const locale = localeFor(currency);
+  const resolved = results.capacity;
+  const { settings } = resolved;
+
+  const handleChange = (key: CapacityKey, raw: string) => {
+    setDrafts((prev) => ({ ...prev, [key]: raw }));
+    const value = Number(raw);
+    if (raw.trim() !== "" && isValidCapacityValue(key, value)) {
+      onChange({ ...capacity, [key]: value });
+    }
+  };
+
+  const visibleKeys = CAPACITY_KEYS.filter(
+    (key) => settings.includeAttrition || !ATTRITION_KEYS.includes(key)
+  );
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        aria-expanded={open}
+        className="flex w-full items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="font-semibold text-slate-900">
+          Capacity and headcount
+          <span className="ml-2 font-normal text-slate-500">
+            {resolved.fteSaved.toFixed(1)} FTE freed
+          </span>
+        </span>
+        <span className="text-slate-500">{open ? "Hide" : "Show"}</span>
+      </button>
+
+      {open && (
+        <div className="space-y-3 border-t border-slate-100 px-4 py-3">
+          <dl className="rounded-xl bg-slate-50 p-3">
+            <div className="flex justify-between">
+              <dt>Handling and QA hours saved</dt>
+              <dd className="font-medium">
+                {formatNumber(results.totalHoursSaved, locale)}
+              </dd>
+            </div>
+            <div className="flex justify-between">
+              <dt>Hours from contacts avoided</dt>
+              <dd className="font-medium">
+                {formatNumber(results.hoursSavedDeflection, locale)}
+              </dd>
+            </div>
+            <div className="flex justify-between">
+              <dt>Productive hours per FTE</dt>
+              <dd className="font-medium">
+                {formatNumber(resolved.productiveHoursPerFte, locale)}
+              </dd>
+            </div>
+            <div className="flex justify-between border-t border-slate-200 pt-1">
+              <dt>Capacity freed</dt>
+              <dd className="font-semibold">
+                {resolved.fteSaved.toFixed(1)} FTE
+              </dd>
+            </div>
+          </dl>
+
+          <div className="grid gap-2 md:grid-cols-2">
+            {(Object.keys(CAPACITY_MODE_LABELS) as CapacityMode[]).map(
+              (mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => onChange({ ...capacity, mode })}
+                  className={`rounded-xl border px-3 py-2 text-left ${
+                    settings.mode === mode
+                      ? "border-emerald-500 bg-emerald-50 text-emerald-800"
+                      : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
+                  }`}
+                >
+                  <span className="block font-semibold">
+                    {CAPACITY_MODE_LABELS[mode]}
+                  </span>
+                  <span className="text-[11px] text-slate-500">
+                    {MODE_DESCRIPTIONS[mode]}
+                  </span>
+                </button>
+              )
+            )}
+          </div>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.includeAttrition}
+              onChange={(e) =>
+                onChange({ ...capacity, includeAttrition: e.target.checked })
+              }
+              className="h-3 w-3 accent-emerald-600"
+            />
+            <span className="text-slate-700">
+              Include attrition, hiring costs and faster ramp
+            </span>
+          </label>
+
+          {visibleKeys.map((key) => {
+            const field = CAPACITY_FIELDS[key];
+            const draft = drafts[key];
+            const value = draft ?? String(settings[key]);
+            const invalid =
+              draft !== undefined &&
+              (draft.trim() === "" || !isValidCapacityValue(key, Number(draft)));
+            const inputId = `capacity-${key}`;
+
+            return (
+              <div key={key}>
+                <div className="flex items-baseline justify-between">
+                  <label
+                    htmlFor={inputId}
+                    className="font-medium text-slate-800"
+                  >
+                    {field.label}
+                  </label>
+                  <span className="text-[11px] text-slate-500">
+                    {field.unit}
+                  </span>
+                </div>
+                <input
+                  id={inputId}
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  value={value}
+                  onChange={(e) => handleChange(key, e.target.value)}
+                  aria-invalid={invalid}
+                  className={`mt-1 w-full rounded-lg border px-3 py-1.5 text-sm text-slate-900 ${
+                    invalid ? "border-rose-400" : "border-slate-200"
+                  }`}
+                />
+                {invalid && (
+                  <p className="mt-1 text-[11px] text-rose-600">
+                    Enter a value between {formatNumber(field.min, locale)}{" "}
+                    and {formatNumber(field.max, locale)}.
+                  </p>
+                )}
+              </div>
+            );
+          })}
+
+          {settings.includeAttrition && (
+            <dl className="rounded-xl bg-slate-50 p-3">
+              <div className="flex justify-between">
+                <dt>Agents leaving per year</dt>
+                <dd className="font-medium">
+                  {resolved.leaversPerYear.toFixed(1)}
+                </dd>
+              </div>
+              <div className="flex justify-between">
+                <dt>Hires avoided</dt>
+                <dd className="font-medium">
+                  {resolved.avoidedHires.toFixed(1)}
+                </dd>
+              </div>
+              <div className="flex justify-between">
+                <dt>Hiring cost avoided</dt>
+                <dd className="font-medium">
+                  {formatCurrency(results.savingsHiring, currency)}
+                </dd>
+              </div>
+              <div className="flex justify-between">
+                <dt>
+                  Faster ramp ({formatNumber(resolved.rampHoursSaved, locale)}{" "}
+                  hours)
+                </dt>
+                <dd className="font-medium">
+                  {formatCurrency(results.savingsRamp, currency)}
+                </dd>
+              </div>
+              {!includesStream(results.pricing.modules, "aht", priceBook) && (
+                <p className="mt-1 text-[11px] text-slate-500">
+                  Faster ramp needs the{" "}
+                  {priceBook.modules.agentAssist.label} module.
+                </p>
+              )}
+            </dl>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CapacityPanel;
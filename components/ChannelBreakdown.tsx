@@ -0,0 +1,80 @@
+"use client";
+
+import React from "react";
+import { CHANNEL_PROFILES } from "../lib/roi/channels";
+import type { CurrencyCode } from "../lib/roi/currency";
+import type { RoiResult } from "../lib/roi/engine";
+import { formatCurrency, formatNumber, localeFor } from "../lib/roi/format";
+
+type Props = {
+  results: RoiResult;
+  currency: CurrencyCode;
+};
+
+const ChannelBreakdown: React.FC<Props> = ({ results, currency }) => {
+  const locale = localeFor(currency);
+  const channelTotal = results.channels.reduce(
+    (sum, channel) => sum + channel.totalSavings,
+    0
+  );
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white px-4 py-3 text-xs">
+      <p className="font-semibold text-slate-900">Savings by channel</p>
+      <p className="text-[11px] text-slate-500">
+        Operational savings only; revenue protected isn&apos;t split by
+        channel.
+      </p>
+      <table className="mt-2 w-full">
+        <thead>
+          <tr className="text-left text-[11px] text-slate-500">
+            <th className="py-1 font-medium">Channel</th>
+            <th className="py-1 text-right font-medium">Contacts / yr</th>
+            <th className="py-1 text-right font-medium">Agent mins</th>
+            <th className="py-1 text-right font-medium">Handling</th>
+            <th className="py-1 text-right font-medium">QA</th>
+            <th className="py-1 text-right font-medium">Reduction</th>
+            <th className="py-1 text-right font-medium">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.channels.map((channel) => (
+            <tr key={channel.channel} className="border-t border-slate-100">
+              <td className="py-1 font-medium text-slate-700">
+                {CHANNEL_PROFILES[channel.channel].label}
+              </td>
+              <td className="py-1 text-right">
+                {formatNumber(channel.contactsPerYear, locale)}
+              </td>
+              <td className="py-1 text-right">
+                {channel.agentMinsPerContact.toFixed(1)}
+              </td>
+              <td className="py-1 text-right">
+                {formatCurrency(channel.savingsAht, currency)}
+              </td>
+              <td className="py-1 text-right">
+                {formatCurrency(channel.savingsQa, currency)}
+              </td>
+              <td className="py-1 text-right">
+                {formatCurrency(channel.savingsDeflection, currency)}
+              </td>
+              <td className="py-1 text-right font-semibold">
+                {formatCurrency(channel.totalSavings, currency)}
+              </td>
+            </tr>
+          ))}
+          <tr className="border-t border-slate-200 font-semibold">
+            <td className="py-1" colSpan={6}>
+              All channels
+            </td>
+            <td className="py-1 text-right">
+              {formatCurrency(channelTotal, currency)}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ChannelBreakdown;
@@ -0,0 +1,110 @@
+"use client";
+
+import React from "react";
+import {
+  CHANNELS,
+  CHANNEL_FIELDS,
+  CHANNEL_FIELD_BOUNDS,
+  CHANNEL_PROFILES,
+  DEFAULT_CHANNEL_MIX,
+  channelShareTotal,
+  isValidChannelValue,
+  type Channel,
+  type ChannelField,
+  type ChannelMix,
+} from "../lib/roi/channels";
+
+type Props = {
+  mix: ChannelMix;
+  onChange: (mix: ChannelMix) => void;
+};
+
+const ChannelMixEditor: React.FC<Props> = ({ mix, onChange }) => {
+  const total = channelShareTotal(mix);
+  const totalOff = !Number.isFinite(total) || Math.abs(total - 100) > 0.5;
+
+  const update = (channel: Channel, field: ChannelField, raw: string) =>
+    onChange({
+      ...mix,
+      [channel]: {
+        ...mix[channel],
+        // Keep an empty box empty rather than snapping it to zero
+        [field]: raw.trim() === "" ? Number.NaN : Number(raw),
+      },
+    });
+
+  return (
+    <div className="mt-4 rounded-xl bg-slate-50 p-3 text-xs">
+      <div className="flex items-center justify-between">
+        <p className="font-semibold text-slate-800">Volume by channel</p>
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_CHANNEL_MIX)}
+          className="text-[11px] font-medium text-emerald-700 hover:underline"
+        >
+          Reset to typical mix
+        </button>
+      </div>
+
+      <table className="mt-2 w-full">
+        <thead>
+          <tr className="text-left text-[11px] text-slate-500">
+            <th className="py-1 font-medium">Channel</th>
+            {CHANNEL_FIELDS.map((field) => (
+              <th key={field} className="py-1 font-medium">
+                {CHANNEL_FIELD_BOUNDS[field].label} (
+                {CHANNEL_FIELD_BOUNDS[field].unit})
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {CHANNELS.map((channel) => (
+            <tr key={channel}>
+              <td className="py-1 pr-2 font-medium text-slate-700">
+                {CHANNEL_PROFILES[channel].label}
+              </td>
+              {CHANNEL_FIELDS.map((field) => {
+                const bounds = CHANNEL_FIELD_BOUNDS[field];
+                const value = mix[channel][field];
+                const invalid = !isValidChannelValue(field, value);
+                return (
+                  <td key={field} className="py-1 pr-2">
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min={bounds.min}
+                      max={bounds.max}
+                      step={bounds.step}
+                      value={Number.isNaN(value) ? "" : value}
+                      onChange={(e) => update(channel, field, e.target.value)}
+                      aria-label={`${CHANNEL_PROFILES[channel].label} ${bounds.label}`}
+                      aria-invalid={invalid}
+                      className={`w-full rounded-lg border px-2 py-1 text-xs text-slate-900 ${
+                        invalid ? "border-rose-400" : "border-slate-200"
+                      }`}
+                    />
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {totalOff ? (
+        <p className="mt-1 text-[11px] text-rose-600">
+          Shares add up to {Number.isFinite(total) ? total : "–"}%. Adjust them
+          to total 100%.
+        </p>
+      ) : (
+        <p className="mt-1 text-[11px] text-slate-500">
+          Concurrency is how many chats or messages an agent works at once.
+          These handle times replace the single estimate in question 3.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ChannelMixEditor;
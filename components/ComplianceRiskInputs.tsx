@@ -0,0 +1,92 @@
+"use client";
+
+import React from "react";
+import {
+  COMPLIANCE_FIELDS,
+  COMPLIANCE_FIELD_KEYS,
+  parseComplianceValue,
+  type ComplianceField,
+  type ComplianceResult,
+} from "../lib/roi/compliance";
+import type { CurrencyCode } from "../lib/roi/currency";
+import { formatCurrency, formatNumber, localeFor } from "../lib/roi/format";
+
+type Props = {
+  drafts: Record<ComplianceField, string>;
+  onChange: (field: ComplianceField, value: string) => void;
+  compliance: ComplianceResult | null;
+  // False when the QA module isn't licensed, so nothing is counted
+  included: boolean;
+  currency: CurrencyCode;
+};
+
+const ComplianceRiskInputs: React.FC<Props> = ({
+  drafts,
+  onChange,
+  compliance,
+  included,
+  currency,
+}) => {
+  const locale = localeFor(currency);
+
+  return (
+    <div className="mt-4 space-y-3 rounded-xl bg-slate-50 p-3 text-xs">
+      {COMPLIANCE_FIELD_KEYS.map((field) => {
+        const bounds = COMPLIANCE_FIELDS[field];
+        const { error } = parseComplianceValue(field, drafts[field]);
+        const inputId = `compliance-${field}`;
+        const placeholder =
+          bounds.defaultValue !== undefined
+            ? `Default ${bounds.defaultValue}`
+            : `e.g. ${formatCurrency(25000, currency)}`;
+
+        return (
+          <div key={field}>
+            <label htmlFor={inputId} className="font-semibold text-slate-800">
+              {bounds.label} (
+              {bounds.money ? `${currency} ${bounds.unit}` : bounds.unit})
+            </label>
+            <input
+              id={inputId}
+              type="number"
+              inputMode="decimal"
+              min={bounds.min}
+              max={bounds.max}
+              step={bounds.integer ? 1 : "any"}
+              value={drafts[field]}
+              onChange={(e) => onChange(field, e.target.value)}
+              placeholder={placeholder}
+              aria-invalid={Boolean(error)}
+              className={`mt-1 w-full rounded-lg border px-3 py-1.5 text-sm text-slate-900 ${
+                error ? "border-rose-400" : "border-slate-200"
+              }`}
+            />
+            {error && <p className="mt-1 text-[11px] text-rose-600">{error}</p>}
+          </div>
+        );
+      })}
+
+      {compliance ? (
+        <p className="text-[11px] text-slate-600">
+          About {formatNumber(compliance.incidentsPerYear, locale)} incidents a
+          year; sampling {compliance.sampledCoveragePct}% of contacts misses{" "}
+          {formatNumber(compliance.incidentsMissed, locale)}. Reviewing every
+          contact catches{" "}
+          <span className="font-semibold">
+            {formatNumber(compliance.incidentsCaught, locale)} of them
+          </span>
+          , avoiding {formatCurrency(compliance.riskCostAvoided, currency)} a
+          year.
+          {!included &&
+            " This isn't counted because the QA module isn't included in pricing."}
+        </p>
+      ) : (
+        <p className="text-[11px] text-slate-500">
+          Add the average cost of an incident to include this benefit.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ComplianceRiskInputs;
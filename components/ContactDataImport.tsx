@@ -0,0 +1,400 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  IMPORT_COLUMNS,
+  REPEAT_CONTACT_WINDOW_DAYS,
+  analyseContactData,
+  guessColumnMapping,
+  missingColumns,
+  prefillFromContactData,
+  type ColumnMapping,
+  type ContactDataPrefill,
+  type DateOrder,
+  type HandleTimeUnit,
+  type ImportKind,
+} from "../lib/import/contactData";
+import { parseCsv, type ParsedCsv } from "../lib/import/csv";
+import type { ComplexityLevel } from "../lib/roi/constants";
+import { EXACT_INPUT_BOUNDS } from "../lib/roi/exact";
+import { formatNumber } from "../lib/roi/format";
+
+type Props = {
+  // Handle time the model uses for each complexity level, so the imported
+  // AHT lands on the closest one
+  ahtMinsForLevel: (level: ComplexityLevel) => number;
+  onApply: (prefill: ContactDataPrefill) => void;
+  locale: string;
+};
+
+const KIND_LABELS: Record<ImportKind, string> = {
+  interactions: "One row per contact",
+  summary: "One row per day",
+};
+
+// Keeps a tab responsive; larger exports can be filtered to a sample first
+const MAX_FILE_BYTES = 25 * 1024 * 1024;
+const ERRORS_SHOWN = 20;
+
+const ContactDataImport: React.FC<Props> = ({
+  ahtMinsForLevel,
+  onApply,
+  locale,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [fileError, setFileError] = useState("");
+  const [kind, setKind] = useState<ImportKind>("interactions");
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [handleTimeUnit, setHandleTimeUnit] =
+    useState<HandleTimeUnit>("seconds");
+  const [dateOrder, setDateOrder] = useState<DateOrder>("dmy");
+  const [applied, setApplied] = useState(false);
+
+  const missing = missingColumns(kind, mapping);
+  const analysis = useMemo(
+    () =>
+      csv && missingColumns(kind, mapping).length === 0
+        ? analyseContactData(kind, csv, mapping, { handleTimeUnit, dateOrder })
+        : undefined,
+    [csv, kind, mapping, handleTimeUnit, dateOrder]
+  );
+  const summary = analysis?.summary;
+
+  const changeKind = (next: ImportKind) => {
+    setKind(next);
+    setHandleTimeUnit(next === "interactions" ? "seconds" : "minutes");
+    setMapping(csv ? guessColumnMapping(next, csv.header) : {});
+    setApplied(false);
+  };
+
+  // The file is read and aggregated here in the browser; nothing is uploaded
+  const loadFile = async (file: File | undefined) => {
+    setCsv(null);
+    setApplied(false);
+    setFileError("");
+    if (!file) return;
+    setFileName(file.name);
+    if (file.size > MAX_FILE_BYTES) {
+      setFileError("That file is over 25 MB. Export a shorter date range.");
+      return;
+    }
+    const { csv: parsed, error } = parseCsv(await file.text());
+    if (!parsed) {
+      setFileError(error ?? "Couldn't read that file.");
+      return;
+    }
+    setCsv(parsed);
+    setMapping(guessColumnMapping(kind, parsed.header));
+  };
+
+  const prefill = summary
+    ? prefillFromContactData(summary, ahtMinsForLevel)
+    : null;
+
+  const apply = () => {
+    if (!prefill) return;
+    onApply(prefill);
+    setApplied(true);
+  };
+
+  const rows = summary
+    ? [
+        {
+          label:
+            summary.kind === "interactions"
+              ? "Agents in the export"
+              : "Agents on the busiest day",
+          value: formatNumber(summary.agentCount, locale),
+        },
+        {
+          label: "Contacts per agent per day",
+          value: summary.contactsPerAgentPerDay.toFixed(1),
+        },
+        {
+          label: "Average handle time",
+          value: `${summary.ahtMins.toFixed(1)} min`,
+        },
+        {
+          label: `Repeat contacts within ${REPEAT_CONTACT_WINDOW_DAYS} days`,
+          value:
+            summary.repeatContactRatePct === null
+              ? summary.kind === "interactions"
+                ? "Map a customer ID column"
+                : "Not in the file"
+              : `${summary.repeatContactRatePct.toFixed(1)}%`,
+        },
+        {
+          label: "Period covered",
+          value: `${summary.days} days, ${formatNumber(
+            summary.contacts,
+            locale
+          )} contacts`,
+        },
+      ]
+    : [];
+  const largestBucket = summary?.ahtDistribution
+    ? Math.max(...summary.ahtDistribution.buckets.map(({ count }) => count))
+    : 0;
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        className="flex w-full items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="font-semibold text-slate-900">
+          Import a helpdesk export instead
+        </span>
+        <span className="text-slate-500">{open ? "Hide" : "Show"}</span>
+      </button>
+
+      {open && (
+        <div className="space-y-3 border-t border-slate-100 px-4 py-3">
+          <p className="text-[11px] text-slate-500">
+            Upload a CSV of contacts or daily totals and we&apos;ll fill in
+            steps 1–3 with your real numbers. The file is read in your browser
+            and never uploaded.
+          </p>
+
+          <div className="flex gap-1">
+            {(Object.keys(KIND_LABELS) as ImportKind[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => changeKind(option)}
+                className={`rounded-full px-2 py-0.5 text-[11px] ${
+                  kind === option
+                    ? "bg-emerald-600 text-white"
+                    : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+                }`}
+              >
+                {KIND_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            aria-label="CSV file"
+            onChange={(e) => loadFile(e.target.files?.[0])}
+            className="block w-full text-[11px] text-slate-600"
+          />
+          {fileError && (
+            <p className="text-[11px] text-rose-600">
+              {fileName}: {fileError}
+            </p>
+          )}
+
+          {csv && (
+            <>
+              <div className="grid gap-2 md:grid-cols-2">
+                {IMPORT_COLUMNS[kind].map((column) => (
+                  <label key={column.field} className="flex flex-col gap-1">
+                    <span className="font-semibold text-slate-800">
+                      {column.label}
+                      {!column.required && (
+                        <span className="font-normal text-slate-500">
+                          {" "}
+                          (optional)
+                        </span>
+                      )}
+                    </span>
+                    <select
+                      value={mapping[column.field] ?? ""}
+                      onChange={(e) => {
+                        setMapping((prev) => ({
+                          ...prev,
+                          [column.field]:
+                            e.target.value === ""
+                              ? undefined
+                              : Number(e.target.value),
+                        }));
+                        setApplied(false);
+                      }}
+                      className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700"
+                    >
+                      <option value="">Not in this file</option>
+                      {csv.header.map((name, index) => (
+                        <option key={`${index}-${name}`} value={index}>
+                          {name || `Column ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+                <label className="flex flex-col gap-1">
+                  <span className="font-semibold text-slate-800">
+                    Handle time unit
+                  </span>
+                  <select
+                    value={handleTimeUnit}
+                    onChange={(e) =>
+                      setHandleTimeUnit(e.target.value as HandleTimeUnit)
+                    }
+                    className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700"
+                  >
+                    <option value="seconds">Seconds</option>
+                    <option value="minutes">Minutes</option>
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="font-semibold text-slate-800">
+                    Dates like 03/04/2024 mean
+                  </span>
+                  <select
+                    value={dateOrder}
+                    onChange={(e) => setDateOrder(e.target.value as DateOrder)}
+                    className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700"
+                  >
+                    <option value="dmy">3 April (day first)</option>
+                    <option value="mdy">March 4 (month first)</option>
+                  </select>
+                </label>
+              </div>
+
+              {missing.length > 0 && (
+                <p className="text-[11px] text-rose-600">
+                  Choose a column for{" "}
+                  {missing.map((column) => column.label).join(", ")}.
+                </p>
+              )}
+
+              {analysis && !summary && (
+                <p className="text-[11px] text-rose-600">
+                  None of the {formatNumber(csv.rows.length, locale)} rows
+                  could be used. Check the column mapping and units.
+                </p>
+              )}
+
+              {summary && (
+                <>
+                  <table className="w-full text-right text-[11px]">
+                    <tbody className="text-slate-800">
+                      {rows.map((row) => (
+                        <tr key={row.label} className="border-t border-slate-100">
+                          <td className="py-1 text-left">{row.label}</td>
+                          <td className="py-1 font-medium">{row.value}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  {summary.ahtDistribution && (
+                    <div className="space-y-1">
+                      <p className="font-semibold text-slate-800">
+                        Handle time spread
+                      </p>
+                      <p className="text-[11px] text-slate-500">
+                        Quarter of contacts under{" "}
+                        {summary.ahtDistribution.p25.toFixed(1)} min, half under{" "}
+                        {summary.ahtDistribution.median.toFixed(1)} min, 90%
+                        under {summary.ahtDistribution.p90.toFixed(1)} min.
+                      </p>
+                      {summary.ahtDistribution.buckets.map((bucket) => (
+                        <div
+                          key={bucket.label}
+                          className="flex items-center gap-2 text-[11px]"
+                        >
+                          <span className="w-24 shrink-0 text-slate-600">
+                            {bucket.label}
+                          </span>
+                          <span className="h-2 flex-1 rounded-full bg-slate-100">
+                            <span
+                              className="block h-2 rounded-full bg-emerald-500"
+                              style={{
+                                width: `${
+                                  largestBucket > 0
+                                    ? (bucket.count / largestBucket) * 100
+                                    : 0
+                                }%`,
+                              }}
+                            />
+                          </span>
+                          <span className="w-12 text-right text-slate-600">
+                            {formatNumber(bucket.count, locale)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {summary.contactsByReason.length > 0 && (
+                    <p className="text-[11px] text-slate-500">
+                      Top reasons:{" "}
+                      {summary.contactsByReason
+                        .slice(0, 5)
+                        .map(
+                          ({ name, count }) =>
+                            `${name} (${formatNumber(count, locale)})`
+                        )
+                        .join(", ")}
+                      .
+                    </p>
+                  )}
+
+                  {prefill && prefill.outOfRange.length > 0 && (
+                    <ul className="space-y-0.5 rounded-xl bg-amber-50 p-3 text-[11px] text-amber-800">
+                      {prefill.outOfRange.map(({ field, value }) => {
+                        const bounds = EXACT_INPUT_BOUNDS[field];
+                        return (
+                          <li key={field}>
+                            {bounds.label} of {formatNumber(value, locale)}{" "}
+                            is outside {formatNumber(bounds.min, locale)}–
+                            {formatNumber(bounds.max, locale)} {bounds.unit},
+                            so that step keeps its band estimate.
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+
+                  <button
+                    type="button"
+                    onClick={apply}
+                    className="rounded-full bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-emerald-700"
+                  >
+                    Use these numbers
+                  </button>
+                  {applied && (
+                    <p className="text-[11px] text-emerald-700">
+                      Steps 1–3 now use your exact figures. You can still
+                      adjust them on each step.
+                    </p>
+                  )}
+                </>
+              )}
+
+              {analysis && analysis.errors.length > 0 && (
+                <div className="rounded-xl bg-rose-50 p-3 text-[11px] text-rose-700">
+                  <p className="font-semibold">
+                    {formatNumber(analysis.errors.length, locale)} of{" "}
+                    {formatNumber(analysis.rowsRead, locale)} rows were skipped:
+                  </p>
+                  <ul className="mt-1 space-y-0.5">
+                    {analysis.errors.slice(0, ERRORS_SHOWN).map((error) => (
+                      <li key={error.line}>
+                        Line {error.line}: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                  {analysis.errors.length > ERRORS_SHOWN && (
+                    <p className="mt-1">
+                      …and {analysis.errors.length - ERRORS_SHOWN} more.
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContactDataImport;
@@ -0,0 +1,73 @@
+"use client";
+
+import React from "react";
+import { PREVENTION_LEVERS } from "../lib/roi/contactReasons";
+import type { CurrencyCode } from "../lib/roi/currency";
+import type { RoiResult } from "../lib/roi/engine";
+import { formatCurrency, formatNumber, localeFor } from "../lib/roi/format";
+
+type Props = {
+  results: RoiResult;
+  currency: CurrencyCode;
+};
+
+const ContactReasonBreakdown: React.FC<Props> = ({ results, currency }) => {
+  const locale = localeFor(currency);
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white px-4 py-3 text-xs">
+      <p className="font-semibold text-slate-900">Contacts avoided by reason</p>
+      <p className="text-[11px] text-slate-500">
+        Each reason&apos;s share of the reduction savings, split by how much
+        of the deflection rate it drives.
+      </p>
+      <table className="mt-2 w-full">
+        <thead>
+          <tr className="text-left text-[11px] text-slate-500">
+            <th className="py-1 font-medium">Reason</th>
+            <th className="py-1 font-medium">How it&apos;s prevented</th>
+            <th className="py-1 text-right font-medium">Contacts / yr</th>
+            <th className="py-1 text-right font-medium">Preventable</th>
+            <th className="py-1 text-right font-medium">Avoided / yr</th>
+            <th className="py-1 text-right font-medium">Savings</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.contactReasons.map((reason, index) => (
+            <tr key={index} className="border-t border-slate-100">
+              <td className="py-1 font-medium text-slate-700">
+                {reason.label}
+              </td>
+              <td className="py-1 text-slate-600">
+                {PREVENTION_LEVERS[reason.lever].label}
+              </td>
+              <td className="py-1 text-right">
+                {formatNumber(reason.contactsPerYear, locale)}
+              </td>
+              <td className="py-1 text-right">{reason.preventablePct}%</td>
+              <td className="py-1 text-right">
+                {formatNumber(reason.contactsAvoidedPerYear, locale)}
+              </td>
+              <td className="py-1 text-right font-semibold">
+                {formatCurrency(reason.savingsDeflection, currency)}
+              </td>
+            </tr>
+          ))}
+          <tr className="border-t border-slate-200 font-semibold">
+            <td className="py-1" colSpan={4}>
+              All reasons
+            </td>
+            <td className="py-1 text-right">
+              {formatNumber(results.contactsAvoidedPerYear, locale)}
+            </td>
+            <td className="py-1 text-right">
+              {formatCurrency(results.savingsDeflection, currency)}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ContactReasonBreakdown;
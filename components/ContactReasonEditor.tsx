@@ -0,0 +1,200 @@
+"use client";
+
+import React from "react";
+import {
+  CONTACT_REASON_FIELD_BOUNDS,
+  CONTACT_REASON_LABEL_MAX_LENGTH,
+  DEFAULT_CONTACT_REASONS,
+  MAX_CONTACT_REASONS,
+  PREVENTION_LEVERS,
+  PREVENTION_LEVER_IDS,
+  contactReasonShareTotal,
+  contactReasonsDeflectionPct,
+  isValidContactReasonLabel,
+  isValidContactReasonValue,
+  isValidContactReasons,
+  type ContactReason,
+  type ContactReasonField,
+  type PreventionLever,
+} from "../lib/roi/contactReasons";
+
+type Props = {
+  reasons: ContactReason[];
+  onChange: (reasons: ContactReason[]) => void;
+};
+
+const ContactReasonEditor: React.FC<Props> = ({ reasons, onChange }) => {
+  const total = contactReasonShareTotal(reasons);
+  const valid = isValidContactReasons(reasons);
+
+  const update = (index: number, change: Partial<ContactReason>) =>
+    onChange(
+      reasons.map((reason, i) => (i === index ? { ...reason, ...change } : reason))
+    );
+
+  const updateNumber = (index: number, field: ContactReasonField, raw: string) =>
+    // Keep an empty box empty rather than snapping it to zero
+    update(index, { [field]: raw.trim() === "" ? Number.NaN : Number(raw) });
+
+  // A new lever brings its typical preventable rate with it
+  const changeLever = (index: number, lever: PreventionLever) =>
+    update(index, {
+      lever,
+      preventablePct: PREVENTION_LEVERS[lever].defaultPreventablePct,
+    });
+
+  const addReason = () =>
+    onChange([
+      ...reasons,
+      {
+        label: "",
+        sharePct: 5,
+        lever: "selfService",
+        preventablePct: PREVENTION_LEVERS.selfService.defaultPreventablePct,
+      },
+    ]);
+
+  return (
+    <div className="mt-4 rounded-xl bg-slate-50 p-3 text-xs">
+      <div className="flex items-center justify-between">
+        <p className="font-semibold text-slate-800">Top contact reasons</p>
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_CONTACT_REASONS)}
+          className="text-[11px] font-medium text-emerald-700 hover:underline"
+        >
+          Reset to typical reasons
+        </button>
+      </div>
+
+      <table className="mt-2 w-full">
+        <thead>
+          <tr className="text-left text-[11px] text-slate-500">
+            <th className="py-1 font-medium">Reason</th>
+            <th className="py-1 font-medium">
+              {CONTACT_REASON_FIELD_BOUNDS.sharePct.label} (%)
+            </th>
+            <th className="py-1 font-medium">How it&apos;s prevented</th>
+            <th className="py-1 font-medium">
+              {CONTACT_REASON_FIELD_BOUNDS.preventablePct.label} (%)
+            </th>
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody>
+          {reasons.map((reason, index) => {
+            const labelInvalid = !isValidContactReasonLabel(reason.label);
+            const name = reason.label || `Reason ${index + 1}`;
+            return (
+              <tr key={index}>
+                <td className="py-1 pr-2">
+                  <input
+                    value={reason.label}
+                    maxLength={CONTACT_REASON_LABEL_MAX_LENGTH}
+                    onChange={(e) => update(index, { label: e.target.value })}
+                    placeholder="e.g. Delivery delay"
+                    aria-label={`Reason ${index + 1} name`}
+                    aria-invalid={labelInvalid}
+                    className={`w-full rounded-lg border px-2 py-1 text-xs text-slate-900 ${
+                      labelInvalid ? "border-rose-400" : "border-slate-200"
+                    }`}
+                  />
+                </td>
+                {(["sharePct", "lever", "preventablePct"] as const).map(
+                  (field) =>
+                    field === "lever" ? (
+                      <td key={field} className="py-1 pr-2">
+                        <select
+                          value={reason.lever}
+                          onChange={(e) =>
+                            changeLever(index, e.target.value as PreventionLever)
+                          }
+                          title={PREVENTION_LEVERS[reason.lever].description}
+                          aria-label={`${name} prevention`}
+                          className="w-full rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700"
+                        >
+                          {PREVENTION_LEVER_IDS.map((lever) => (
+                            <option key={lever} value={lever}>
+                              {PREVENTION_LEVERS[lever].label}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    ) : (
+                      <td key={field} className="py-1 pr-2">
+                        <input
+                          type="number"
+                          inputMode="decimal"
+                          min={CONTACT_REASON_FIELD_BOUNDS[field].min}
+                          max={CONTACT_REASON_FIELD_BOUNDS[field].max}
+                          step={1}
+                          value={Number.isNaN(reason[field]) ? "" : reason[field]}
+                          onChange={(e) =>
+                            updateNumber(index, field, e.target.value)
+                          }
+                          aria-label={`${name} ${CONTACT_REASON_FIELD_BOUNDS[field].label}`}
+                          aria-invalid={
+                            !isValidContactReasonValue(field, reason[field])
+                          }
+                          className={`w-full rounded-lg border px-2 py-1 text-xs text-slate-900 ${
+                            isValidContactReasonValue(field, reason[field])
+                              ? "border-slate-200"
+                              : "border-rose-400"
+                          }`}
+                        />
+                      </td>
+                    )
+                )}
+                <td className="py-1 text-right">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onChange(reasons.filter((_reason, i) => i !== index))
+                    }
+                    disabled={reasons.length === 1}
+                    aria-label={`Remove ${name}`}
+                    className="rounded-full px-2 py-0.5 text-[11px] text-slate-500 hover:bg-slate-200 disabled:opacity-40"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {reasons.length < MAX_CONTACT_REASONS && (
+        <button
+          type="button"
+          onClick={addReason}
+          className="mt-1 text-[11px] font-medium text-emerald-700 hover:underline"
+        >
+          Add a reason
+        </button>
+      )}
+
+      {Number.isFinite(total) && total > 100.5 ? (
+        <p className="mt-1 text-[11px] text-rose-600">
+          Shares add up to {total}%. They can cover up to 100% of contacts.
+        </p>
+      ) : valid ? (
+        <p className="mt-1 text-[11px] text-slate-500">
+          These reasons cover {total}% of contacts and could avoid{" "}
+          <span className="font-semibold">
+            {contactReasonsDeflectionPct(reasons).toFixed(1)}%
+          </span>{" "}
+          of all volume. Other contacts count as not preventable. This replaces
+          the flat deflection rate for your AI level.
+        </p>
+      ) : (
+        <p className="mt-1 text-[11px] text-rose-600">
+          Give each reason a name, a share and a preventable rate from 0 to
+          100%.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ContactReasonEditor;
@@ -0,0 +1,69 @@
+"use client";
+
+import React from "react";
+import { lineItemsToCsv } from "../lib/export/csv";
+import { lineItemsToXlsx } from "../lib/export/xlsx";
+import type { RoiInputs, RoiResult } from "../lib/roi/engine";
+import { buildLineItems } from "../lib/roi/lineItems";
+
+type Props = {
+  inputs: RoiInputs;
+  results: RoiResult;
+};
+
+const download = (content: BlobPart, type: string, extension: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `edgetier-roi-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const DataExportButtons: React.FC<Props> = ({ inputs, results }) => {
+  const exportCsv = () =>
+    download(
+      // BOM so Excel picks up UTF-8 (€, £, en dashes)
+      `\uFEFF${lineItemsToCsv(buildLineItems(inputs, results))}`,
+      "text/csv;charset=utf-8",
+      "csv"
+    );
+
+  const exportXlsx = () =>
+    download(
+      lineItemsToXlsx(buildLineItems(inputs, results)),
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "xlsx"
+    );
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white p-4 text-xs">
+      <p className="font-semibold text-slate-900">Download the model</p>
+      <p className="text-[11px] text-slate-500">
+        Every input, assumption and intermediate value. The Excel version
+        keeps live formulas, so finance can change any cell and recalculate.
+      </p>
+      <div className="mt-3 flex gap-2">
+        <button
+          type="button"
+          onClick={exportXlsx}
+          className="rounded-full bg-slate-900 px-3 py-1.5 text-xs font-medium text-white hover:bg-slate-700"
+        >
+          Excel (.xlsx)
+        </button>
+        <button
+          type="button"
+          onClick={exportCsv}
+          className="rounded-full border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+        >
+          CSV
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DataExportButtons;
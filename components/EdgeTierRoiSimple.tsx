@@ -1,164 +1,493 @@
 "use client";
 
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  COMPLEXITY_LEVELS,
+  CONTACTS_PER_AGENT_MAP,
+  TEAM_SIZE_MAP,
+  type AiLevel,
+  type ComplexityLevel,
+  type ContactVolumeBand,
+  type RevenueBand,
+  type TeamSizeBand,
+} from "../lib/roi/constants";
+import type { ContactDataPrefill } from "../lib/import/contactData";
+import type { AssumptionOverrides } from "../lib/roi/assumptions";
+import {
+  BENCHMARK_LIBRARY,
+  INDUSTRY_IDS,
+  ahtMinsFor,
+  benchmarkFor,
+  contactBandFor,
+  isIndustryId,
+  retentionDefaultsFor,
+  type IndustryId,
+} from "../lib/roi/benchmarks";
+import type { CapacityInputs } from "../lib/roi/capacity";
+import {
+  DEFAULT_MODEL_CONFIG,
+  parseModelConfig,
+  type ModelConfig,
+} from "../lib/roi/config";
+import {
+  DEFAULT_CHANNEL_MIX,
+  isValidChannelMix,
+  type ChannelMix,
+} from "../lib/roi/channels";
+import {
+  COMPLIANCE_FIELD_KEYS,
+  isRegulatedComplexity,
+  parseComplianceValue,
+  type ComplianceField,
+  type ComplianceInputs,
+} from "../lib/roi/compliance";
+import {
+  DEFAULT_CONTACT_REASONS,
+  isValidContactReasons,
+  type ContactReason,
+} from "../lib/roi/contactReasons";
+import {
+  BASE_CURRENCY,
+  CURRENCIES,
+  CURRENCY_CODES,
+  revenueBandLabel,
+  type CurrencyCode,
+} from "../lib/roi/currency";
+import {
+  DEFAULT_ROI_INPUTS,
+  calculateRoi,
+  type RoiInputs,
+} from "../lib/roi/engine";
+import {
+  parseExactValue,
+  type ExactField,
+  type ExactInputs,
+  type InputSource,
+} from "../lib/roi/exact";
+import {
+  formatCurrency,
+  formatNumber,
+  formatPercent,
+  localeFor,
+} from "../lib/roi/format";
+import type { PricingOptions } from "../lib/roi/pricing";
+import {
+  DEFAULT_QUEUE_SETTINGS,
+  calculateQueue,
+  type QueueSettings,
+} from "../lib/roi/queueing";
+import {
+  RETENTION_FIELD_KEYS,
+  parseRetentionValue,
+  type RetentionField,
+  type RetentionInputs,
+} from "../lib/roi/retention";
+import { isValidRolloutPlan, type RolloutPlan } from "../lib/roi/rollout";
+import { decodeScenario } from "../lib/roi/scenarioUrl";
+import {
+  MAX_SITES,
+  MIN_SITES,
+  isValidSites,
+  type SiteProfile,
+} from "../lib/roi/sites";
+import { defaultTcoSettings, type TcoSettings } from "../lib/roi/tco";
+import AssumptionsDrawer from "./AssumptionsDrawer";
+import CapacityPanel from "./CapacityPanel";
+import ChannelBreakdown from "./ChannelBreakdown";
+import ChannelMixEditor from "./ChannelMixEditor";
+import ComplianceRiskInputs from "./ComplianceRiskInputs";
+import ContactDataImport from "./ContactDataImport";
+import ContactReasonBreakdown from "./ContactReasonBreakdown";
+import ContactReasonEditor from "./ContactReasonEditor";
+import DataExportButtons from "./DataExportButtons";
+import ExactNumberInput from "./ExactNumberInput";
+import MonteCarloPanel from "./MonteCarloPanel";
+import MultiYearView from "./MultiYearView";
+import PricingPanel from "./PricingPanel";
+import QueuePanel from "./QueuePanel";
+import RetentionModelInputs from "./RetentionModelInputs";
+import RoiReport from "./RoiReport";
+import RolloutPlanner from "./RolloutPlanner";
+import SavedAssessments from "./SavedAssessments";
+import ScenarioComparison from "./ScenarioComparison";
+import SensitivityPanel from "./SensitivityPanel";
+import ShareScenarioLink from "./ShareScenarioLink";
+import SiteBreakdown from "./SiteBreakdown";
+import SiteManager from "./SiteManager";
 
 type WizardStep = 1 | 2 | 3 | 4 | 5 | 6 | 7;
 
-const WORKING_HOURS_PER_YEAR = 1760;
-const DEFAULT_COST_PER_AGENT = 45000; // simple internal assumption
-
-const TEAM_SIZE_MAP = {
-  "1-10": 8,
-  "11-25": 20,
-  "26-50": 40,
-  "51-100": 80,
-  "101-250": 150,
-  "250+": 300,
-} as const;
-type TeamSizeBand = keyof typeof TEAM_SIZE_MAP;
-
-const CONTACTS_PER_AGENT_MAP = {
-  "10-20": 15,
-  "20-30": 25,
-  "30-40": 35,
-  "40-60": 50,
-  "60+": 70,
-} as const;
-type ContactVolumeBand = keyof typeof CONTACTS_PER_AGENT_MAP;
-
-type ComplexityLevel = 1 | 2 | 3 | 4 | 5;
-
-const COMPLEXITY_LEVELS: Record<
-  ComplexityLevel,
-  {
-    label: string;
-    description: string;
-    ahtMins: number;
-    impactSummary: string;
-  }
-> = {
-  1: {
-    label: "Very quick / transactional",
-    description:
-      "Short, repetitive queries – order checks, simple account questions. Common in e-commerce and gaming support.",
-    ahtMins: 3.5,
-    impactSummary:
-      "EdgeTier typically helps by tightening responses and surfacing best answers faster.",
-  },
-  2: {
-    label: "Mostly simple",
-    description:
-      "Low–moderate complexity – billing queries, plan changes, simple itinerary questions. Typical in telecom, e-commerce and travel.",
-    ahtMins: 5,
-    impactSummary:
-      "Good opportunity to reduce handling time and QA effort without changing headcount.",
-  },
-  3: {
-    label: "Mixed – some quick, some investigation",
-    description:
-      "Blend of quick questions and deeper cases – refunds, reschedules, payment or gameplay issues. Common in travel, e-commerce and gaming.",
-    ahtMins: 7,
-    impactSummary:
-      "EdgeTier typically drives a 10–12% AHT reduction and strong gains in QA coverage.",
-  },
-  4: {
-    label: "Complex",
-    description:
-      "Multi-step cases – disrupted itineraries, chargebacks, complex account work, VIP or high-value customers.",
-    ahtMins: 10,
-    impactSummary:
-      "The more complex the work, the more EdgeTier’s guidance and QA automation compound over time.",
-  },
-  5: {
-    label: "Very complex / highly regulated",
-    description:
-      "Heavy investigation, multiple systems and compliance checks – fraud, KYC/AML, complex financial decisions.",
-    ahtMins: 14,
-    impactSummary:
-      "Biggest upside for QA automation, risk reduction and time savings per case.",
-  },
-};
-
-type AiLevel = "low" | "medium" | "high";
-
-const AI_IMPROVEMENTS: Record<
-  AiLevel,
-  { ahtReductionPct: number; qaEfficiencyGainPct: number; contactDeflectionPct: number }
-> = {
-  low: {
-    ahtReductionPct: 15,
-    qaEfficiencyGainPct: 60,
-    contactDeflectionPct: 20,
-  },
-  medium: {
-    ahtReductionPct: 12,
-    qaEfficiencyGainPct: 50,
-    contactDeflectionPct: 15,
-  },
-  high: {
-    ahtReductionPct: 8,
-    qaEfficiencyGainPct: 35,
-    contactDeflectionPct: 10,
-  },
-};
-
-type RevenueBand = "unknown" | "lt50" | "50-250" | "250-1000" | "gt1000";
-
-const formatCurrency = (value: number, currency = "€") => {
-  if (!Number.isFinite(value)) return "-";
-  const sign = value < 0 ? "-" : "";
-  const abs = Math.abs(value);
-  return `${sign}${currency}${abs.toLocaleString("en-IE", {
-    maximumFractionDigits: 0,
-  })}`;
-};
-
-const formatNumber = (value: number) => {
-  if (!Number.isFinite(value)) return "-";
-  return value.toLocaleString("en-IE", {
-    maximumFractionDigits: 0,
-  });
+const EXACT_FIELD_BY_STEP: Partial<Record<WizardStep, ExactField>> = {
+  1: "numAgents",
+  2: "contactsPerAgentPerDay",
+  3: "ahtMins",
 };
 
-const formatPercent = (value: number) => {
-  if (!Number.isFinite(value)) return "-";
-  return `${value.toFixed(0)}%`;
-};
-
-const ASSUMPTIONS = {
-  qaCoveragePct: 5,
-  qaTimePerContactMins: 6,
-  qaHourlyMultiplier: 1.2,
+const EXACT_FIELDS: ExactField[] = [
+  "numAgents",
+  "contactsPerAgentPerDay",
+  "ahtMins",
+];
+
+const EMPTY_RETENTION_DRAFT = Object.fromEntries(
+  RETENTION_FIELD_KEYS.map((field) => [field, ""])
+) as Record<RetentionField, string>;
+
+const EMPTY_COMPLIANCE_DRAFT = Object.fromEntries(
+  COMPLIANCE_FIELD_KEYS.map((field) => [field, ""])
+) as Record<ComplianceField, string>;
+
+const exactDraftFor = (exact: ExactInputs = {}) => ({
+  numAgents: exact.numAgents?.toString() ?? "",
+  contactsPerAgentPerDay: exact.contactsPerAgentPerDay?.toString() ?? "",
+  ahtMins: exact.ahtMins?.toString() ?? "",
+});
+
+const sourceLabel = (source: InputSource) => {
+  switch (source) {
+    case "exact":
+      return "exact";
+    case "channels":
+      return "blended across channels";
+    case "sites":
+      return "added up across sites";
+    default:
+      return "band estimate";
+  }
 };
 
 const EdgeTierRoiSimple: React.FC = () => {
   const [currentStep, setCurrentStep] = useState<WizardStep>(1);
 
+  const [currency, setCurrency] = useState<CurrencyCode>(BASE_CURRENCY);
+  const locale = localeFor(currency);
+  const [industry, setIndustry] = useState<IndustryId | undefined>();
+  const [modelConfig, setModelConfig] =
+    useState<ModelConfig>(DEFAULT_MODEL_CONFIG);
+
+  // Model constants are edited at /admin; keep the built-in ones if the
+  // server can't be reached
+  useEffect(() => {
+    const loadConfig = async () => {
+      try {
+        const response = await fetch("/api/config");
+        if (!response.ok) return;
+        const { config } = parseModelConfig(await response.json());
+        if (config) setModelConfig(config);
+      } catch {
+        // Offline or static export – the defaults still work
+      }
+    };
+    loadConfig();
+  }, []);
+
   // Step 1 – team size
-  const [teamSizeBand, setTeamSizeBand] = useState<TeamSizeBand>("26-50");
+  const [teamSizeBand, setTeamSizeBand] = useState<TeamSizeBand>(
+    DEFAULT_ROI_INPUTS.teamSizeBand
+  );
 
   // Step 2 – volume
   const [contactVolumeBand, setContactVolumeBand] =
-    useState<ContactVolumeBand>("30-40");
+    useState<ContactVolumeBand>(DEFAULT_ROI_INPUTS.contactVolumeBand);
+
+  // Step 2 – optional split of that volume by channel
+  const [channelMode, setChannelMode] = useState(false);
+  const [channelMix, setChannelMix] = useState<ChannelMix>(DEFAULT_CHANNEL_MIX);
 
   // Step 3 – complexity
-  const [complexityLevel, setComplexityLevel] =
-    useState<ComplexityLevel>(3);
+  const [complexityLevel, setComplexityLevel] = useState<ComplexityLevel>(
+    DEFAULT_ROI_INPUTS.complexityLevel
+  );
+
+  // Step 3 – optional compliance risk for regulated work
+  const [includeCompliance, setIncludeCompliance] = useState(false);
+  const [complianceDraft, setComplianceDraft] = useState<
+    Record<ComplianceField, string>
+  >(EMPTY_COMPLIANCE_DRAFT);
+
+  const complianceParsed = useMemo(
+    () =>
+      Object.fromEntries(
+        COMPLIANCE_FIELD_KEYS.map((field) => [
+          field,
+          parseComplianceValue(field, complianceDraft[field]),
+        ])
+      ) as Record<ComplianceField, ReturnType<typeof parseComplianceValue>>,
+    [complianceDraft]
+  );
+
+  const complianceInputs = useMemo<ComplianceInputs | undefined>(() => {
+    const values: ComplianceInputs = {};
+    COMPLIANCE_FIELD_KEYS.forEach((field) => {
+      const { value } = complianceParsed[field];
+      if (value !== undefined) values[field] = value;
+    });
+    return Object.keys(values).length > 0 ? values : undefined;
+  }, [complianceParsed]);
 
   // Step 4 – AI level
-  const [aiLevel, setAiLevel] = useState<AiLevel>("medium");
+  const [aiLevel, setAiLevel] = useState<AiLevel>(DEFAULT_ROI_INPUTS.aiLevel);
 
   // Step 5 – priorities
-  const [priorityAht, setPriorityAht] = useState(true);
-  const [priorityQa, setPriorityQa] = useState(true);
-  const [priorityDeflection, setPriorityDeflection] = useState(true);
-  const [priorityCx, setPriorityCx] = useState(false);
+  const [priorityAht, setPriorityAht] = useState(
+    DEFAULT_ROI_INPUTS.priorities.aht
+  );
+  const [priorityQa, setPriorityQa] = useState(
+    DEFAULT_ROI_INPUTS.priorities.qa
+  );
+  const [priorityDeflection, setPriorityDeflection] = useState(
+    DEFAULT_ROI_INPUTS.priorities.deflection
+  );
+  const [priorityCx, setPriorityCx] = useState(
+    DEFAULT_ROI_INPUTS.priorities.cx
+  );
+
+  // Step 5 – optional contact reasons behind the deflection estimate
+  const [reasonMode, setReasonMode] = useState(false);
+  const [contactReasons, setContactReasons] = useState<ContactReason[]>(
+    DEFAULT_CONTACT_REASONS
+  );
 
   // Step 6 – business size + revenue toggle
-  const [revenueBand, setRevenueBand] =
-    useState<RevenueBand>("unknown");
-  const [includeRevenueImpact, setIncludeRevenueImpact] =
-    useState(false);
+  const [revenueBand, setRevenueBand] = useState<RevenueBand>(
+    DEFAULT_ROI_INPUTS.revenueBand
+  );
+  const [includeRevenueImpact, setIncludeRevenueImpact] = useState(
+    DEFAULT_ROI_INPUTS.includeRevenueImpact
+  );
+
+  // Step 6 – optional customer numbers for the churn model
+  const [retentionMode, setRetentionMode] = useState(false);
+  const [retentionDraft, setRetentionDraft] = useState<
+    Record<RetentionField, string>
+  >(EMPTY_RETENTION_DRAFT);
+
+  const retentionParsed = useMemo(
+    () =>
+      Object.fromEntries(
+        RETENTION_FIELD_KEYS.map((field) => [
+          field,
+          parseRetentionValue(field, retentionDraft[field]),
+        ])
+      ) as Record<RetentionField, ReturnType<typeof parseRetentionValue>>,
+    [retentionDraft]
+  );
+
+  const retentionInputs = useMemo<RetentionInputs | undefined>(() => {
+    if (!retentionMode) return undefined;
+    const values: RetentionInputs = {};
+    RETENTION_FIELD_KEYS.forEach((field) => {
+      const { value } = retentionParsed[field];
+      if (value !== undefined) values[field] = value;
+    });
+    return values;
+  }, [retentionMode, retentionParsed]);
+
+  // Steps 1–3 – optional exact numbers instead of bands
+  const [exactMode, setExactMode] = useState(false);
+  const [exactDraft, setExactDraft] = useState<Record<ExactField, string>>({
+    numAgents: "",
+    contactsPerAgentPerDay: "",
+    ahtMins: "",
+  });
+
+  const exactParsed = useMemo(
+    () =>
+      Object.fromEntries(
+        EXACT_FIELDS.map((field) => [
+          field,
+          parseExactValue(field, exactDraft[field]),
+        ])
+      ) as Record<ExactField, ReturnType<typeof parseExactValue>>,
+    [exactDraft]
+  );
+
+  const exactInputs = useMemo<ExactInputs | undefined>(() => {
+    if (!exactMode) return undefined;
+    const values: ExactInputs = {};
+    EXACT_FIELDS.forEach((field) => {
+      const { value } = exactParsed[field];
+      if (value !== undefined) values[field] = value;
+    });
+    return values;
+  }, [exactMode, exactParsed]);
+
+  // Steps 1–4 – optional sites, each with its own answers. The live answers
+  // above always belong to the active site and are written back on switching.
+  const [sites, setSites] = useState<SiteProfile[] | null>(null);
+  const [activeSite, setActiveSite] = useState(0);
+
+  const siteList = useMemo<SiteProfile[] | null>(
+    () =>
+      sites?.map((site, index) =>
+        index === activeSite
+          ? {
+              ...site,
+              teamSizeBand,
+              contactVolumeBand,
+              complexityLevel,
+              aiLevel,
+              exact: exactInputs,
+            }
+          : site
+      ) ?? null,
+    [
+      sites,
+      activeSite,
+      teamSizeBand,
+      contactVolumeBand,
+      complexityLevel,
+      aiLevel,
+      exactInputs,
+    ]
+  );
+
+  // Compliance risk only counts for regulated work; with sites the engine
+  // checks each one, so the option stays open while any site is regulated
+  const complianceApplies = siteList
+    ? siteList.some((site) => isRegulatedComplexity(site.complexityLevel))
+    : isRegulatedComplexity(complexityLevel);
+
+  const loadSite = (site: SiteProfile) => {
+    setTeamSizeBand(site.teamSizeBand);
+    setContactVolumeBand(site.contactVolumeBand);
+    setComplexityLevel(site.complexityLevel);
+    setAiLevel(site.aiLevel);
+    setExactMode(Object.keys(site.exact ?? {}).length > 0);
+    setExactDraft(exactDraftFor(site.exact));
+  };
+
+  // Starts with the current answers as the first site and a copy to edit
+  const toggleSites = (enabled: boolean) => {
+    if (!enabled) {
+      setSites(null);
+      return;
+    }
+    const current: SiteProfile = {
+      name: "Site 1",
+      teamSizeBand,
+      contactVolumeBand,
+      complexityLevel,
+      aiLevel,
+      exact: exactInputs,
+    };
+    setSites([current, { ...current, name: "Site 2" }]);
+    setActiveSite(0);
+  };
+
+  const selectSite = (index: number) => {
+    if (!siteList || index === activeSite) return;
+    setSites(siteList);
+    setActiveSite(index);
+    loadSite(siteList[index]);
+  };
+
+  // A new site starts from the active site's answers
+  const addSite = () => {
+    if (!siteList || siteList.length >= MAX_SITES) return;
+    setSites([
+      ...siteList,
+      { ...siteList[activeSite], name: `Site ${siteList.length + 1}` },
+    ]);
+    setActiveSite(siteList.length);
+  };
+
+  const removeSite = (index: number) => {
+    if (!siteList || siteList.length <= MIN_SITES) return;
+    const remaining = siteList.filter((_site, i) => i !== index);
+    const nextActive =
+      index < activeSite ? activeSite - 1 : index === activeSite ? 0 : activeSite;
+    setSites(remaining);
+    setActiveSite(nextActive);
+    if (index === activeSite) loadSite(remaining[nextActive]);
+  };
+
+  const updateSite = (index: number, change: Partial<SiteProfile>) =>
+    setSites((prev) =>
+      prev
+        ? prev.map((site, i) => (i === index ? { ...site, ...change } : site))
+        : prev
+    );
+
+  // Step 7 – assumption overrides
+  const [assumptionOverrides, setAssumptionOverrides] =
+    useState<AssumptionOverrides>({});
+  const [pricingOptions, setPricingOptions] = useState<PricingOptions>({});
+  const [capacityInputs, setCapacityInputs] = useState<CapacityInputs>({});
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>(
+    DEFAULT_QUEUE_SETTINGS
+  );
+  const [tcoSettings, setTcoSettings] = useState<TcoSettings>(() =>
+    defaultTcoSettings(BASE_CURRENCY)
+  );
+  const [rolloutPlan, setRolloutPlan] = useState<RolloutPlan | null>(null);
+
+  // One-off costs are entered in the selected currency, so re-seed them
+  const changeCurrency = (next: CurrencyCode) => {
+    setCurrency(next);
+    const defaults = defaultTcoSettings(next);
+    setTcoSettings((prev) => ({
+      ...prev,
+      implementationCost: defaults.implementationCost,
+      trainingCost: defaults.trainingCost,
+    }));
+  };
+
+  // A preset moves the contact band to the benchmark; AHT, agent cost, QA
+  // coverage, deflectable share and churn follow through the engine
+  const changeIndustry = (next: IndustryId | undefined) => {
+    setIndustry(next);
+    const benchmark = benchmarkFor(next);
+    if (benchmark) {
+      setContactVolumeBand(contactBandFor(benchmark.contactsPerAgentPerDay));
+    }
+  };
+
+  const currentExactField = EXACT_FIELD_BY_STEP[currentStep];
+  const currentStepInvalid =
+    (currentStep <= 4 && siteList !== null && !isValidSites(siteList)) ||
+    (exactMode &&
+      currentExactField !== undefined &&
+      Boolean(exactParsed[currentExactField].error)) ||
+    (currentStep === 2 && channelMode && !isValidChannelMix(channelMix)) ||
+    (currentStep === 3 &&
+      includeCompliance &&
+      complianceApplies &&
+      COMPLIANCE_FIELD_KEYS.some((field) => complianceParsed[field].error)) ||
+    (currentStep === 5 &&
+      priorityDeflection &&
+      reasonMode &&
+      !isValidContactReasons(contactReasons)) ||
+    (currentStep === 6 &&
+      retentionMode &&
+      RETENTION_FIELD_KEYS.some((field) => retentionParsed[field].error));
+
+  const renderExactToggle = (field: ExactField, fallbackLabel: string) => (
+    <>
+      <div className="mt-4 flex items-center gap-2 text-xs">
+        <input
+          id={`exact-mode-${field}`}
+          type="checkbox"
+          checked={exactMode}
+          onChange={(e) => setExactMode(e.target.checked)}
+          className="h-3 w-3 accent-emerald-600"
+        />
+        <label htmlFor={`exact-mode-${field}`} className="text-slate-700">
+          I know my exact numbers
+        </label>
+      </div>
+      {exactMode && (
+        <ExactNumberInput
+          field={field}
+          value={exactDraft[field]}
+          onChange={(value) =>
+            setExactDraft((prev) => ({ ...prev, [field]: value }))
+          }
+          fallbackLabel={fallbackLabel}
+        />
+      )}
+    </>
+  );
 
   const goNext = () =>
     setCurrentStep((prev) =>
@@ -169,483 +498,609 @@ const EdgeTierRoiSimple: React.FC = () => {
       prev > 1 ? ((prev - 1) as WizardStep) : prev
     );
 
-  const results = useMemo(() => {
-    const numAgents =
-      TEAM_SIZE_MAP[teamSizeBand] ?? TEAM_SIZE_MAP["26-50"];
-    const annualCostPerAgent = DEFAULT_COST_PER_AGENT;
-
-    const contactsPerAgentPerDay =
-      CONTACTS_PER_AGENT_MAP[contactVolumeBand] ??
-      CONTACTS_PER_AGENT_MAP["30-40"];
-    const workingDaysPerMonth = 21;
-    const contactsPerMonth =
-      numAgents * contactsPerAgentPerDay * workingDaysPerMonth;
-    const contactsPerYear = contactsPerMonth * 12;
-
-    const complexity = COMPLEXITY_LEVELS[complexityLevel];
-    const ahtMins = complexity.ahtMins;
-
-    const costPerAgentHour =
-      WORKING_HOURS_PER_YEAR > 0
-        ? annualCostPerAgent / WORKING_HOURS_PER_YEAR
-        : 0;
-
-    const baselineHandlingHours =
-      contactsPerYear * (ahtMins > 0 ? ahtMins / 60 : 0);
-    const baselineHandlingCost =
-      baselineHandlingHours * costPerAgentHour;
-    const costPerContactBaseline =
-      contactsPerYear > 0
-        ? baselineHandlingCost / contactsPerYear
-        : 0;
-
-    const baseImprovements = AI_IMPROVEMENTS[aiLevel];
-    const baseAhtReductionPct = baseImprovements.ahtReductionPct;
-    const baseQaEfficiencyGainPct =
-      baseImprovements.qaEfficiencyGainPct;
-    const baseContactDeflectionPct =
-      baseImprovements.contactDeflectionPct;
-
-    const ahtFactor = priorityAht ? 1 : 0.3;
-    const qaFactor = priorityQa ? 1 : 0;
-    const deflectionFactor = priorityDeflection ? 1 : 0;
-
-    const ahtReductionPct = baseAhtReductionPct * ahtFactor;
-    const qaEfficiencyGainPct = baseQaEfficiencyGainPct * qaFactor;
-    const contactDeflectionPct =
-      baseContactDeflectionPct * deflectionFactor;
-
-    // Revenue side – simple approximation if they chose to include it
-    let annualRevenueInfluenced = 0;
-    let revenueProtectionPct = 0;
-
-    if (includeRevenueImpact && revenueBand !== "unknown" && priorityCx) {
-      let approxRevenue = 0;
-      switch (revenueBand) {
-        case "lt50":
-          approxRevenue = 25_000_000;
-          break;
-        case "50-250":
-          approxRevenue = 150_000_000;
-          break;
-        case "250-1000":
-          approxRevenue = 500_000_000;
-          break;
-        case "gt1000":
-          approxRevenue = 1_500_000_000;
-          break;
-      }
-      annualRevenueInfluenced = approxRevenue * 0.3; // assume 30% influenced by this team
-      revenueProtectionPct = 1.0; // 1% improvement on that influenced base
-    }
+  const inputs = useMemo<RoiInputs>(
+    () => ({
+      teamSizeBand,
+      contactVolumeBand,
+      complexityLevel,
+      aiLevel,
+      priorities: {
+        aht: priorityAht,
+        qa: priorityQa,
+        deflection: priorityDeflection,
+        cx: priorityCx,
+      },
+      revenueBand,
+      includeRevenueImpact,
+      exact: exactInputs,
+      assumptions: assumptionOverrides,
+      currency,
+      pricing: pricingOptions,
+      channelMix: channelMode ? channelMix : undefined,
+      contactReasons: reasonMode ? contactReasons : undefined,
+      capacity: capacityInputs,
+      retention: retentionInputs,
+      includeComplianceImpact: includeCompliance && complianceApplies,
+      compliance: complianceInputs,
+      sites: siteList ?? undefined,
+      rollout: rolloutPlan ?? undefined,
+      industry,
+      config: modelConfig,
+    }),
+    [
+      teamSizeBand,
+      contactVolumeBand,
+      complexityLevel,
+      aiLevel,
+      priorityAht,
+      priorityQa,
+      priorityDeflection,
+      priorityCx,
+      revenueBand,
+      includeRevenueImpact,
+      exactInputs,
+      assumptionOverrides,
+      currency,
+      pricingOptions,
+      channelMode,
+      channelMix,
+      reasonMode,
+      contactReasons,
+      capacityInputs,
+      retentionInputs,
+      includeCompliance,
+      complianceApplies,
+      complianceInputs,
+      siteList,
+      rolloutPlan,
+      industry,
+      modelConfig,
+    ]
+  );
 
-    // EdgeTier investment – simple rule of thumb by team size
-    let edgetierAnnualCost = 150_000;
-    if (numAgents <= 25) edgetierAnnualCost = 80_000;
-    else if (numAgents <= 50) edgetierAnnualCost = 120_000;
-    else if (numAgents <= 100) edgetierAnnualCost = 180_000;
-    else if (numAgents <= 250) edgetierAnnualCost = 250_000;
-    else edgetierAnnualCost = 350_000;
-
-    const newAhtMins =
-      ahtMins * (1 - (ahtReductionPct || 0) / 100);
-    const newHandlingHours =
-      contactsPerYear * (newAhtMins > 0 ? newAhtMins / 60 : 0);
-    const newHandlingCost = newHandlingHours * costPerAgentHour;
-
-    const savingsAht = baselineHandlingCost - newHandlingCost;
-    const hoursSavedAht =
-      baselineHandlingHours - newHandlingHours;
-
-    const qaHourlyCost =
-      costPerAgentHour * ASSUMPTIONS.qaHourlyMultiplier;
-
-    const baselineQaHours =
-      contactsPerYear *
-      (ASSUMPTIONS.qaCoveragePct / 100) *
-      (ASSUMPTIONS.qaTimePerContactMins / 60);
-    const baselineQaCost = baselineQaHours * qaHourlyCost;
-
-    const newQaHours =
-      baselineQaHours * (1 - (qaEfficiencyGainPct || 0) / 100);
-    const newQaCost = newQaHours * qaHourlyCost;
-
-    const savingsQa = baselineQaCost - newQaCost;
-    const hoursSavedQa = baselineQaHours - newQaHours;
-
-    const contactsAvoidedPerYear =
-      contactsPerYear * ((contactDeflectionPct || 0) / 100);
-    const savingsDeflection =
-      contactsAvoidedPerYear * costPerContactBaseline;
-
-    const revenueProtected =
-      annualRevenueInfluenced *
-      ((revenueProtectionPct || 0) / 100);
-
-    const totalAnnualBenefit =
-      (savingsAht || 0) +
-      (savingsQa || 0) +
-      (savingsDeflection || 0) +
-      (revenueProtected || 0);
-
-    const netGain = totalAnnualBenefit - (edgetierAnnualCost || 0);
-
-    const roiPct =
-      edgetierAnnualCost > 0
-        ? (netGain / edgetierAnnualCost) * 100
-        : 0;
-
-    const totalHoursSaved =
-      (hoursSavedAht || 0) + (hoursSavedQa || 0);
-
-    const monthlyBenefit =
-      totalAnnualBenefit > 0 ? totalAnnualBenefit / 12 : 0;
-    const paybackMonths =
-      monthlyBenefit > 0
-        ? edgetierAnnualCost / monthlyBenefit
-        : 0;
-
-    return {
-      numAgents,
-      contactsPerYear,
-      ahtMins,
-      costPerContactBaseline,
-      contactsAvoidedPerYear,
-      savingsAht,
-      savingsQa,
-      savingsDeflection,
-      revenueProtected,
-      totalAnnualBenefit,
-      netGain,
-      roiPct,
-      totalHoursSaved,
-      paybackMonths,
-      edgetierAnnualCost,
-    };
-  }, [
-    teamSizeBand,
-    contactVolumeBand,
-    complexityLevel,
-    aiLevel,
-    priorityAht,
-    priorityQa,
-    priorityDeflection,
-    priorityCx,
-    revenueBand,
-    includeRevenueImpact,
-  ]);
+  const results = useMemo(() => calculateRoi(inputs), [inputs]);
+  const queue = useMemo(
+    () => calculateQueue(results, queueSettings),
+    [results, queueSettings]
+  );
+
+  // Loads a full set of answers into the wizard and jumps to the results;
+  // used by shared links and reopened assessments
+  const applyInputs = (next: RoiInputs) => {
+    setTeamSizeBand(next.teamSizeBand);
+    setContactVolumeBand(next.contactVolumeBand);
+    setComplexityLevel(next.complexityLevel);
+    setAiLevel(next.aiLevel);
+    setPriorityAht(next.priorities.aht);
+    setPriorityQa(next.priorities.qa);
+    setPriorityDeflection(next.priorities.deflection);
+    setPriorityCx(next.priorities.cx);
+    setRevenueBand(next.revenueBand);
+    setIncludeRevenueImpact(next.includeRevenueImpact);
+    setAssumptionOverrides(next.assumptions ?? {});
+    setPricingOptions(next.pricing ?? {});
+    setChannelMode(Boolean(next.channelMix));
+    setChannelMix(next.channelMix ?? DEFAULT_CHANNEL_MIX);
+    setReasonMode(Boolean(next.contactReasons));
+    setContactReasons(next.contactReasons ?? DEFAULT_CONTACT_REASONS);
+    setCapacityInputs(next.capacity ?? {});
+    setRolloutPlan(isValidRolloutPlan(next.rollout) ? next.rollout : null);
+
+    const retention = next.retention ?? {};
+    setRetentionMode(Object.keys(retention).length > 0);
+    setRetentionDraft(
+      Object.fromEntries(
+        RETENTION_FIELD_KEYS.map((field) => [
+          field,
+          retention[field]?.toString() ?? "",
+        ])
+      ) as Record<RetentionField, string>
+    );
+
+    setIncludeCompliance(Boolean(next.includeComplianceImpact));
+    setComplianceDraft(
+      Object.fromEntries(
+        COMPLIANCE_FIELD_KEYS.map((field) => [
+          field,
+          next.compliance?.[field]?.toString() ?? "",
+        ])
+      ) as Record<ComplianceField, string>
+    );
+    changeCurrency(next.currency ?? BASE_CURRENCY);
+    setIndustry(next.industry);
+
+    setExactMode(Object.keys(next.exact ?? {}).length > 0);
+    setExactDraft(exactDraftFor(next.exact));
+
+    // The first site's answers take over steps 1–4
+    const nextSites = isValidSites(next.sites) ? next.sites : null;
+    setSites(nextSites);
+    setActiveSite(0);
+    if (nextSites) loadSite(nextSites[0]);
+
+    setCurrentStep(7);
+  };
+
+  // Imported contact data fills steps 1–3 with exact figures, and moves the
+  // bands too so they still make sense if exact mode is switched off.
+  // Figures outside the bounds are left out and those steps use the band.
+  const applyImport = (prefill: ContactDataPrefill) => {
+    setTeamSizeBand(prefill.teamSizeBand);
+    setContactVolumeBand(prefill.contactVolumeBand);
+    setComplexityLevel(prefill.complexityLevel);
+    setExactMode(Object.keys(prefill.exact).length > 0);
+    setExactDraft(exactDraftFor(prefill.exact));
+  };
+
+  // Shared links restore the full scenario, once on load. The ref always
+  // holds this render's applyInputs, so the effect needn't re-run with it.
+  const applyInputsRef = useRef(applyInputs);
+  applyInputsRef.current = applyInputs;
+  useEffect(() => {
+    const shared = decodeScenario(window.location.search);
+    if (shared) applyInputsRef.current(shared);
+  }, []);
+
+  // Report date is stamped on export so server and client renders agree
+  const [reportGeneratedAt, setReportGeneratedAt] = useState<Date | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (reportGeneratedAt) window.print();
+  }, [reportGeneratedAt]);
 
   const showResults = currentStep === 7;
   const complexity = COMPLEXITY_LEVELS[complexityLevel];
+  const complexityAhtMins = ahtMinsFor(
+    complexityLevel,
+    industry,
+    modelConfig
+  );
 
   return (
-    <div className="mx-auto flex max-w-xl flex-col gap-6 rounded-3xl bg-slate-50 p-6 shadow-sm lg:p-8">
-      <header className="flex flex-col gap-2">
-        <p className="text-xs font-medium uppercase tracking-wide text-emerald-600">
-          EdgeTier ROI Snapshot
-        </p>
-        <h1 className="text-2xl font-semibold text-slate-900 lg:text-3xl">
-          Let&apos;s estimate the impact for your team
-        </h1>
-        <p className="max-w-xl text-sm text-slate-600">
-          Answer a few quick questions about your contact centre. We&apos;ll
-          turn your inputs into an ROI view for EdgeTier.
-        </p>
-        <p className="mt-1 text-xs text-slate-500">
-          Question {currentStep} of 7
-        </p>
-      </header>
-
-      {/* Step card */}
-      <div className="rounded-2xl bg-white p-5 shadow-sm">
-        {currentStep === 1 && (
-          <>
-            <h2 className="text-sm font-semibold text-slate-900">
-              1. How many agents are in your team?
-            </h2>
-            <p className="mt-1 text-xs text-slate-600">
-              Just the agents you&apos;d include in an EdgeTier rollout.
+    <>
+      <div className="mx-auto flex max-w-xl flex-col gap-6 rounded-3xl bg-slate-50 p-6 shadow-sm print:hidden lg:p-8">
+        <header className="flex flex-col gap-2">
+          <p className="text-xs font-medium uppercase tracking-wide text-emerald-600">
+            EdgeTier ROI Snapshot
+          </p>
+          <h1 className="text-2xl font-semibold text-slate-900 lg:text-3xl">
+            Let&apos;s estimate the impact for your team
+          </h1>
+          <p className="max-w-xl text-sm text-slate-600">
+            Answer a few quick questions about your contact centre. We&apos;ll
+            turn your inputs into an ROI view for EdgeTier.
+          </p>
+          <div className="mt-1 flex items-center justify-between text-xs text-slate-500">
+            <p>Question {currentStep} of 7</p>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2">
+                <span>Industry</span>
+                <select
+                  value={industry ?? ""}
+                  onChange={(e) =>
+                    changeIndustry(
+                      isIndustryId(e.target.value) ? e.target.value : undefined
+                    )
+                  }
+                  className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700"
+                >
+                  <option value="">General</option>
+                  {INDUSTRY_IDS.map((id) => (
+                    <option key={id} value={id}>
+                      {BENCHMARK_LIBRARY.industries[id].label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <span>Currency</span>
+                <select
+                  value={currency}
+                  onChange={(e) =>
+                    changeCurrency(e.target.value as CurrencyCode)
+                  }
+                  className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700"
+                >
+                  {CURRENCY_CODES.map((code) => (
+                    <option key={code} value={code}>
+                      {CURRENCIES[code].label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
+          {industry && (
+            <p className="text-[11px] text-slate-500">
+              {BENCHMARK_LIBRARY.industries[industry].description} Defaults use
+              the {BENCHMARK_LIBRARY.name} (v{BENCHMARK_LIBRARY.version})
+              rather than the general handle times and agent cost.
             </p>
-            <div className="mt-4 grid gap-2 md:grid-cols-2">
-              {(
-                ["1-10", "11-25", "26-50", "51-100", "101-250", "250+"] as TeamSizeBand[]
-              ).map((band) => (
+          )}
+        </header>
+
+        {/* Step card */}
+        <div className="rounded-2xl bg-white p-5 shadow-sm">
+          {currentStep === 1 && (
+            <>
+              <h2 className="text-sm font-semibold text-slate-900">
+                1. How many agents are in your team?
+              </h2>
+              <p className="mt-1 text-xs text-slate-600">
+                Just the agents you&apos;d include in an EdgeTier rollout.
+              </p>
+              <div className="mt-4 grid gap-2 md:grid-cols-2">
+                {(
+                  ["1-10", "11-25", "26-50", "51-100", "101-250", "250+"] as TeamSizeBand[]
+                ).map((band) => (
+                  <button
+                    key={band}
+                    type="button"
+                    onClick={() => setTeamSizeBand(band)}
+                    className={`rounded-xl border px-3 py-2 text-left text-xs ${
+                      teamSizeBand === band
+                        ? "border-emerald-500 bg-emerald-50 text-emerald-700"
+                        : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
+                    }`}
+                  >
+                    <span className="block font-semibold">
+                      {band} agents
+                    </span>
+                    <span className="text-[11px] text-slate-500">
+                      We&apos;ll use ~{TEAM_SIZE_MAP[band]} in the model.
+                    </span>
+                  </button>
+                ))}
+              </div>
+              {renderExactToggle(
+                "numAgents",
+                `~${TEAM_SIZE_MAP[teamSizeBand]} agents`
+              )}
+              <ContactDataImport
+                ahtMinsForLevel={(level) =>
+                  ahtMinsFor(level, industry, modelConfig)
+                }
+                onApply={applyImport}
+                locale={locale}
+              />
+            </>
+          )}
+
+          {currentStep === 2 && (
+            <>
+              <h2 className="text-sm font-semibold text-slate-900">
+                2. Roughly how many contacts does each agent handle per day?
+              </h2>
+              <p className="mt-1 text-xs text-slate-600">
+                A rough average is perfect – emails, chats and calls combined.
+              </p>
+              <div className="mt-4 grid gap-2 md:grid-cols-2">
+                {(
+                  ["10-20", "20-30", "30-40", "40-60", "60+"] as ContactVolumeBand[]
+                ).map((band) => (
+                  <button
+                    key={band}
+                    type="button"
+                    onClick={() => setContactVolumeBand(band)}
+                    className={`rounded-xl border px-3 py-2 text-left text-xs ${
+                      contactVolumeBand === band
+                        ? "border-emerald-500 bg-emerald-50 text-emerald-700"
+                        : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
+                    }`}
+                  >
+                    <span className="block font-semibold">
+                      {band} contacts / agent / day
+                    </span>
+                    <span className="text-[11px] text-slate-500">
+                      We&apos;ll turn this into annual volume.
+                    </span>
+                  </button>
+                ))}
+              </div>
+              {renderExactToggle(
+                "contactsPerAgentPerDay",
+                `~${CONTACTS_PER_AGENT_MAP[contactVolumeBand]} contacts / day`
+              )}
+              <div className="mt-3 flex items-center gap-2 text-xs">
+                <input
+                  id="channel-mode"
+                  type="checkbox"
+                  checked={channelMode}
+                  onChange={(e) => setChannelMode(e.target.checked)}
+                  className="h-3 w-3 accent-emerald-600"
+                />
+                <label htmlFor="channel-mode" className="text-slate-700">
+                  Split this volume by channel
+                </label>
+              </div>
+              {channelMode && (
+                <ChannelMixEditor mix={channelMix} onChange={setChannelMix} />
+              )}
+            </>
+          )}
+
+          {currentStep === 3 && (
+            <>
+              <h2 className="text-sm font-semibold text-slate-900">
+                3. How complex are your customer interactions?
+              </h2>
+              <p className="mt-1 text-xs text-slate-600">
+                Slide to the closest match. Think about a typical case mix today.
+              </p>
+
+              <div className="mt-4 space-y-3">
+                <div className="flex items-center justify-between text-[11px] text-slate-500">
+                  <span>Very quick</span>
+                  <span>Mixed</span>
+                  <span>Very complex</span>
+                </div>
+                <input
+                  type="range"
+                  min={1}
+                  max={5}
+                  step={1}
+                  value={complexityLevel}
+                  onChange={(e) =>
+                    setComplexityLevel(
+                      Number(e.target.value) as ComplexityLevel
+                    )
+                  }
+                  className="w-full accent-emerald-600"
+                />
+              </div>
+
+              <div className="mt-4 rounded-xl bg-slate-50 p-3 text-xs text-slate-700">
+                <p className="font-semibold text-slate-800">
+                  {complexity.label}
+                </p>
+                <p className="mt-1">{complexity.description}</p>
+                <p className="mt-2 text-[11px] text-slate-500">
+                  {industry ? "Industry benchmark" : "Estimated"} average
+                  handle time:{" "}
+                  <span className="font-semibold">
+                    {complexityAhtMins} minutes
+                  </span>
+                  .
+                </p>
+                <p className="mt-1 text-[11px] text-slate-500">
+                  {complexity.impactSummary}
+                </p>
+              </div>
+              {channelMode ? (
+                <p className="mt-4 rounded-xl bg-amber-50 p-3 text-[11px] text-amber-800">
+                  You&apos;ve split volume by channel, so the handle times from
+                  question 2 are used instead of this estimate.
+                </p>
+              ) : (
+                renderExactToggle("ahtMins", `${complexityAhtMins} minutes`)
+              )}
+              {complianceApplies && (
+                <>
+                  <div className="mt-4 flex items-center gap-2 rounded-xl bg-slate-50 p-3 text-xs">
+                    <input
+                      id="include-compliance"
+                      type="checkbox"
+                      checked={includeCompliance}
+                      onChange={(e) => setIncludeCompliance(e.target.checked)}
+                      className="h-3 w-3 accent-emerald-600"
+                    />
+                    <label
+                      htmlFor="include-compliance"
+                      className="text-slate-700"
+                    >
+                      Include compliance risk avoided by reviewing every
+                      contact, not a {results.assumptions.qaCoveragePct}%
+                      sample.
+                      {siteList &&
+                        " Only complex and highly regulated sites count."}
+                    </label>
+                  </div>
+                  {includeCompliance && (
+                    <ComplianceRiskInputs
+                      drafts={complianceDraft}
+                      onChange={(field, value) =>
+                        setComplianceDraft((prev) => ({
+                          ...prev,
+                          [field]: value,
+                        }))
+                      }
+                      compliance={results.compliance}
+                      included={results.complianceIncluded}
+                      currency={currency}
+                    />
+                  )}
+                </>
+              )}
+            </>
+          )}
+
+          {currentStep === 4 && (
+            <>
+              <h2 className="text-sm font-semibold text-slate-900">
+                4. What&apos;s your current level of AI automation?
+              </h2>
+              <p className="mt-1 text-xs text-slate-600">
+                Roughly how much AI is already helping agents today?
+              </p>
+              <div className="mt-4 grid gap-3 md:grid-cols-3">
                 <button
-                  key={band}
                   type="button"
-                  onClick={() => setTeamSizeBand(band)}
-                  className={`rounded-xl border px-3 py-2 text-left text-xs ${
-                    teamSizeBand === band
-                      ? "border-emerald-500 bg-emerald-50 text-emerald-700"
+                  onClick={() => setAiLevel("low")}
+                  className={`flex flex-col items-start gap-1 rounded-2xl border p-3 text-left text-xs ${
+                    aiLevel === "low"
+                      ? "border-emerald-500 bg-emerald-50 text-emerald-800"
                       : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
                   }`}
                 >
-                  <span className="block font-semibold">
-                    {band} agents
-                  </span>
-                  <span className="text-[11px] text-slate-500">
-                    We&apos;ll use ~{TEAM_SIZE_MAP[band]} in the model.
+                  <span className="text-[11px] font-semibold uppercase tracking-wide">
+                    Low
                   </span>
+                  <p className="text-[11px]">
+                    Mostly manual work, macros/templates. Little or no AI in
+                    workflows. QA sampled manually.
+                  </p>
                 </button>
-              ))}
-            </div>
-          </>
-        )}
-
-        {currentStep === 2 && (
-          <>
-            <h2 className="text-sm font-semibold text-slate-900">
-              2. Roughly how many contacts does each agent handle per day?
-            </h2>
-            <p className="mt-1 text-xs text-slate-600">
-              A rough average is perfect – emails, chats and calls combined.
-            </p>
-            <div className="mt-4 grid gap-2 md:grid-cols-2">
-              {(
-                ["10-20", "20-30", "30-40", "40-60", "60+"] as ContactVolumeBand[]
-              ).map((band) => (
                 <button
-                  key={band}
                   type="button"
-                  onClick={() => setContactVolumeBand(band)}
-                  className={`rounded-xl border px-3 py-2 text-left text-xs ${
-                    contactVolumeBand === band
-                      ? "border-emerald-500 bg-emerald-50 text-emerald-700"
+                  onClick={() => setAiLevel("medium")}
+                  className={`flex flex-col items-start gap-1 rounded-2xl border p-3 text-left text-xs ${
+                    aiLevel === "medium"
+                      ? "border-emerald-500 bg-emerald-50 text-emerald-800"
                       : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
                   }`}
                 >
-                  <span className="block font-semibold">
-                    {band} contacts / agent / day
+                  <span className="text-[11px] font-semibold uppercase tracking-wide">
+                    Medium
                   </span>
-                  <span className="text-[11px] text-slate-500">
-                    We&apos;ll turn this into annual volume.
+                  <p className="text-[11px]">
+                    Some AI in routing, bots or tagging. QA partly automated,
+                    insights available but not always actioned.
+                  </p>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setAiLevel("high")}
+                  className={`flex flex-col items-start gap-1 rounded-2xl border p-3 text-left text-xs ${
+                    aiLevel === "high"
+                      ? "border-emerald-500 bg-emerald-50 text-emerald-800"
+                      : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
+                  }`}
+                >
+                  <span className="text-[11px] font-semibold uppercase tracking-wide">
+                    High
                   </span>
+                  <p className="text-[11px]">
+                    AI already supports core workflows – agent assist, QA scoring,
+                    categorisation across channels.
+                  </p>
                 </button>
-              ))}
-            </div>
-          </>
-        )}
-
-        {currentStep === 3 && (
-          <>
-            <h2 className="text-sm font-semibold text-slate-900">
-              3. How complex are your customer interactions?
-            </h2>
-            <p className="mt-1 text-xs text-slate-600">
-              Slide to the closest match. Think about a typical case mix today.
-            </p>
-
-            <div className="mt-4 space-y-3">
-              <div className="flex items-center justify-between text-[11px] text-slate-500">
-                <span>Very quick</span>
-                <span>Mixed</span>
-                <span>Very complex</span>
               </div>
-              <input
-                type="range"
-                min={1}
-                max={5}
-                step={1}
-                value={complexityLevel}
-                onChange={(e) =>
-                  setComplexityLevel(
-                    Number(e.target.value) as ComplexityLevel
-                  )
-                }
-                className="w-full accent-emerald-600"
-              />
-            </div>
-
-            <div className="mt-4 rounded-xl bg-slate-50 p-3 text-xs text-slate-700">
-              <p className="font-semibold text-slate-800">
-                {complexity.label}
-              </p>
-              <p className="mt-1">{complexity.description}</p>
-              <p className="mt-2 text-[11px] text-slate-500">
-                Estimated average handle time:{" "}
-                <span className="font-semibold">
-                  {complexity.ahtMins} minutes
-                </span>
-                .
-              </p>
-              <p className="mt-1 text-[11px] text-slate-500">
-                {complexity.impactSummary}
+            </>
+          )}
+
+          {currentStep === 5 && (
+            <>
+              <h2 className="text-sm font-semibold text-slate-900">
+                5. What are your top priorities for the coming period?
+              </h2>
+              <p className="mt-1 text-xs text-slate-600">
+                Pick the outcomes that matter most. We&apos;ll emphasise those in
+                the model.
               </p>
-            </div>
-          </>
-        )}
-
-        {currentStep === 4 && (
-          <>
-            <h2 className="text-sm font-semibold text-slate-900">
-              4. What&apos;s your current level of AI automation?
-            </h2>
-            <p className="mt-1 text-xs text-slate-600">
-              Roughly how much AI is already helping agents today?
-            </p>
-            <div className="mt-4 grid gap-3 md:grid-cols-3">
-              <button
-                type="button"
-                onClick={() => setAiLevel("low")}
-                className={`flex flex-col items-start gap-1 rounded-2xl border p-3 text-left text-xs ${
-                  aiLevel === "low"
-                    ? "border-emerald-500 bg-emerald-50 text-emerald-800"
-                    : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
-                }`}
-              >
-                <span className="text-[11px] font-semibold uppercase tracking-wide">
-                  Low
-                </span>
-                <p className="text-[11px]">
-                  Mostly manual work, macros/templates. Little or no AI in
-                  workflows. QA sampled manually.
-                </p>
-              </button>
-              <button
-                type="button"
-                onClick={() => setAiLevel("medium")}
-                className={`flex flex-col items-start gap-1 rounded-2xl border p-3 text-left text-xs ${
-                  aiLevel === "medium"
-                    ? "border-emerald-500 bg-emerald-50 text-emerald-800"
-                    : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
-                }`}
-              >
-                <span className="text-[11px] font-semibold uppercase tracking-wide">
-                  Medium
-                </span>
-                <p className="text-[11px]">
-                  Some AI in routing, bots or tagging. QA partly automated,
-                  insights available but not always actioned.
-                </p>
-              </button>
-              <button
-                type="button"
-                onClick={() => setAiLevel("high")}
-                className={`flex flex-col items-start gap-1 rounded-2xl border p-3 text-left text-xs ${
-                  aiLevel === "high"
-                    ? "border-emerald-500 bg-emerald-50 text-emerald-800"
-                    : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
-                }`}
-              >
-                <span className="text-[11px] font-semibold uppercase tracking-wide">
-                  High
-                </span>
-                <p className="text-[11px]">
-                  AI already supports core workflows – agent assist, QA scoring,
-                  categorisation across channels.
-                </p>
-              </button>
-            </div>
-          </>
-        )}
-
-        {currentStep === 5 && (
-          <>
-            <h2 className="text-sm font-semibold text-slate-900">
-              5. What are your top priorities for the coming period?
-            </h2>
-            <p className="mt-1 text-xs text-slate-600">
-              Pick the outcomes that matter most. We&apos;ll emphasise those in
-              the model.
-            </p>
 
-            <div className="mt-4 grid gap-3 md:grid-cols-2">
-              <button
-                type="button"
-                onClick={() => setPriorityAht((v) => !v)}
-                className={`flex flex-col items-start gap-1 rounded-2xl border p-3 text-left text-xs ${
-                  priorityAht
-                    ? "border-emerald-500 bg-emerald-50 text-emerald-800"
-                    : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
-                }`}
-              >
-                <span className="text-[11px] font-semibold uppercase tracking-wide">
-                  Reduce handling time & queues
-                </span>
-                <p className="text-[11px]">
-                  Shorter calls/chats so customers wait less and agents handle
-                  more with the same headcount.
-                </p>
-              </button>
+              <div className="mt-4 grid gap-3 md:grid-cols-2">
+                <button
+                  type="button"
+                  onClick={() => setPriorityAht((v) => !v)}
+                  className={`flex flex-col items-start gap-1 rounded-2xl border p-3 text-left text-xs ${
+                    priorityAht
+                      ? "border-emerald-500 bg-emerald-50 text-emerald-800"
+                      : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
+                  }`}
+                >
+                  <span className="text-[11px] font-semibold uppercase tracking-wide">
+                    Reduce handling time & queues
+                  </span>
+                  <p className="text-[11px]">
+                    Shorter calls/chats so customers wait less and agents handle
+                    more with the same headcount.
+                  </p>
+                </button>
 
-              <button
-                type="button"
-                onClick={() => setPriorityQa((v) => !v)}
-                className={`flex flex-col items-start gap-1 rounded-2xl border p-3 text-left text-xs ${
-                  priorityQa
-                    ? "border-emerald-500 bg-emerald-50 text-emerald-800"
-                    : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
-                }`}
-              >
-                <span className="text-[11px] font-semibold uppercase tracking-wide">
-                  Reduce QA / coaching workload
-                </span>
-                <p className="text-[11px]">
-                  Automate QA across interactions and free time for better
-                  coaching.
-                </p>
-              </button>
+                <button
+                  type="button"
+                  onClick={() => setPriorityQa((v) => !v)}
+                  className={`flex flex-col items-start gap-1 rounded-2xl border p-3 text-left text-xs ${
+                    priorityQa
+                      ? "border-emerald-500 bg-emerald-50 text-emerald-800"
+                      : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
+                  }`}
+                >
+                  <span className="text-[11px] font-semibold uppercase tracking-wide">
+                    Reduce QA / coaching workload
+                  </span>
+                  <p className="text-[11px]">
+                    Automate QA across interactions and free time for better
+                    coaching.
+                  </p>
+                </button>
 
-              <button
-                type="button"
-                onClick={() => setPriorityDeflection((v) => !v)}
-                className={`flex flex-col items-start gap-1 rounded-2xl border p-3 text-left text-xs ${
-                  priorityDeflection
-                    ? "border-emerald-500 bg-emerald-50 text-emerald-800"
-                    : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
-                }`}
-              >
-                <span className="text-[11px] font-semibold uppercase tracking-wide">
-                  Cut unnecessary / repeat contacts
-                </span>
-                <p className="text-[11px]">
-                  Spot issues earlier and reduce repeat &quot;where is my
-                  order?&quot; type contacts.
-                </p>
-              </button>
+                <button
+                  type="button"
+                  onClick={() => setPriorityDeflection((v) => !v)}
+                  className={`flex flex-col items-start gap-1 rounded-2xl border p-3 text-left text-xs ${
+                    priorityDeflection
+                      ? "border-emerald-500 bg-emerald-50 text-emerald-800"
+                      : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
+                  }`}
+                >
+                  <span className="text-[11px] font-semibold uppercase tracking-wide">
+                    Cut unnecessary / repeat contacts
+                  </span>
+                  <p className="text-[11px]">
+                    Spot issues earlier and reduce repeat &quot;where is my
+                    order?&quot; type contacts.
+                  </p>
+                </button>
 
-              <button
-                type="button"
-                onClick={() => setPriorityCx((v) => !v)}
-                className={`flex flex-col items-start gap-1 rounded-2xl border p-3 text-left text-xs ${
-                  priorityCx
-                    ? "border-emerald-500 bg-emerald-50 text-emerald-800"
-                    : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
-                }`}
-              >
-                <span className="text-[11px] font-semibold uppercase tracking-wide">
-                  Improve CSAT / NPS & retention
-                </span>
-                <p className="text-[11px]">
-                  Lift customer experience and protect revenue by fixing issues
-                  earlier.
-                </p>
-              </button>
-            </div>
-          </>
-        )}
-
-        {currentStep === 6 && (
-          <>
-            <h2 className="text-sm font-semibold text-slate-900">
-              6. How big is the business this team supports?
-            </h2>
-            <p className="mt-1 text-xs text-slate-600">
-              This is only used if you&apos;d like us to include revenue impact.
-            </p>
+                <button
+                  type="button"
+                  onClick={() => setPriorityCx((v) => !v)}
+                  className={`flex flex-col items-start gap-1 rounded-2xl border p-3 text-left text-xs ${
+                    priorityCx
+                      ? "border-emerald-500 bg-emerald-50 text-emerald-800"
+                      : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
+                  }`}
+                >
+                  <span className="text-[11px] font-semibold uppercase tracking-wide">
+                    Improve CSAT / NPS & retention
+                  </span>
+                  <p className="text-[11px]">
+                    Lift customer experience and protect revenue by fixing issues
+                    earlier.
+                  </p>
+                </button>
+              </div>
+              {priorityDeflection && (
+                <>
+                  <div className="mt-3 flex items-center gap-2 text-xs">
+                    <input
+                      id="reason-mode"
+                      type="checkbox"
+                      checked={reasonMode}
+                      onChange={(e) => setReasonMode(e.target.checked)}
+                      className="h-3 w-3 accent-emerald-600"
+                    />
+                    <label htmlFor="reason-mode" className="text-slate-700">
+                      Break this down by contact reason
+                    </label>
+                  </div>
+                  {reasonMode && (
+                    <ContactReasonEditor
+                      reasons={contactReasons}
+                      onChange={setContactReasons}
+                    />
+                  )}
+                </>
+              )}
+            </>
+          )}
+
+          {currentStep === 6 && (
+            <>
+              <h2 className="text-sm font-semibold text-slate-900">
+                6. How big is the business this team supports?
+              </h2>
+              <p className="mt-1 text-xs text-slate-600">
+                This is only used if you&apos;d like us to include revenue impact.
+              </p>
 
-            <div className="mt-4 grid gap-2 md:grid-cols-2">
-              {(
-                ["unknown", "lt50", "50-250", "250-1000", "gt1000"] as RevenueBand[]
-              ).map((band) => {
-                const labelMap: Record<RevenueBand, string> = {
-                  unknown: "I don't know / prefer not to say",
-                  lt50: "< €50m annual revenue",
-                  "50-250": "€50m – €250m",
-                  "250-1000": "€250m – €1bn",
-                  gt1000: "> €1bn",
-                };
-                return (
+              <div className="mt-4 grid gap-2 md:grid-cols-2">
+                {(
+                  ["unknown", "lt50", "50-250", "250-1000", "gt1000"] as RevenueBand[]
+                ).map((band) => (
                   <button
                     key={band}
                     type="button"
@@ -657,199 +1112,415 @@ const EdgeTierRoiSimple: React.FC = () => {
                     }`}
                   >
                     <span className="block font-semibold">
-                      {labelMap[band]}
+                      {revenueBandLabel(band, currency)}
                     </span>
                   </button>
-                );
-              })}
-            </div>
-
-            <div className="mt-4 flex items-center gap-2 rounded-xl bg-slate-50 p-3 text-xs">
-              <input
-                id="include-revenue"
-                type="checkbox"
-                checked={includeRevenueImpact}
-                onChange={(e) =>
-                  setIncludeRevenueImpact(e.target.checked)
-                }
-                className="h-3 w-3 accent-emerald-600"
-              />
-              <label
-                htmlFor="include-revenue"
-                className="text-slate-700"
-              >
-                Include a conservative view of revenue impact (if CSAT / NPS is
-                a priority).
-              </label>
-            </div>
-          </>
-        )}
-
-        {currentStep === 7 && (
-          <>
-            <h2 className="text-sm font-semibold text-slate-900">
-              7. Your EdgeTier ROI snapshot
-            </h2>
-            <p className="mt-1 text-xs text-slate-600">
-              Based on your answers, here&apos;s what the model suggests.
-            </p>
+                ))}
+              </div>
 
-            <div className="mt-4 rounded-2xl bg-slate-900 p-4 text-slate-50">
-              <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">
-                Estimated annual impact
-              </p>
-              <p className="mt-2 text-3xl font-semibold">
-                {formatCurrency(results.totalAnnualBenefit)}
-              </p>
-              <p className="mt-1 text-xs text-slate-300">
-                Combined cost savings and (if selected) revenue protected for
-                this team.
+              <div className="mt-4 flex items-center gap-2 text-xs">
+                <input
+                  id="retention-mode"
+                  type="checkbox"
+                  checked={retentionMode}
+                  onChange={(e) => setRetentionMode(e.target.checked)}
+                  className="h-3 w-3 accent-emerald-600"
+                />
+                <label htmlFor="retention-mode" className="text-slate-700">
+                  I can share customer and churn numbers
+                </label>
+              </div>
+              {retentionMode && (
+                <RetentionModelInputs
+                  drafts={retentionDraft}
+                  onChange={(field, value) =>
+                    setRetentionDraft((prev) => ({ ...prev, [field]: value }))
+                  }
+                  retention={results.retention}
+                  currency={currency}
+                  defaults={retentionDefaultsFor(industry)}
+                />
+              )}
+
+              <div className="mt-4 flex items-center gap-2 rounded-xl bg-slate-50 p-3 text-xs">
+                <input
+                  id="include-revenue"
+                  type="checkbox"
+                  checked={includeRevenueImpact}
+                  onChange={(e) =>
+                    setIncludeRevenueImpact(e.target.checked)
+                  }
+                  className="h-3 w-3 accent-emerald-600"
+                />
+                <label
+                  htmlFor="include-revenue"
+                  className="text-slate-700"
+                >
+                  Include a conservative view of revenue impact (if CSAT / NPS is
+                  a priority).
+                </label>
+              </div>
+            </>
+          )}
+
+          {currentStep === 7 && (
+            <>
+              <h2 className="text-sm font-semibold text-slate-900">
+                7. Your EdgeTier ROI snapshot
+              </h2>
+              <p className="mt-1 text-xs text-slate-600">
+                Based on your answers, here&apos;s what the model suggests.
               </p>
 
-              <div className="mt-4 grid gap-3 text-sm md:grid-cols-2">
-                <div className="space-y-2">
-                  <div className="flex items-baseline justify-between">
-                    <span className="text-[11px] uppercase tracking-wide text-slate-400">
-                      Net gain after EdgeTier
-                    </span>
-                    <span className="text-lg font-semibold">
-                      {formatCurrency(results.netGain)}
-                    </span>
-                  </div>
-                  <div className="flex items-baseline justify-between">
-                    <span className="text-[11px] uppercase tracking-wide text-slate-400">
-                      ROI
-                    </span>
-                    <span className="text-lg font-semibold">
-                      {formatPercent(results.roiPct)}
-                    </span>
-                  </div>
-                  <div className="flex items-baseline justify-between">
-                    <span className="text-[11px] uppercase tracking-wide text-slate-400">
-                      Payback period
-                    </span>
-                    <span className="text-lg font-semibold">
-                      {results.paybackMonths > 0
-                        ? `${results.paybackMonths.toFixed(1)} months`
-                        : "-"}
-                    </span>
+              <div className="mt-4 rounded-2xl bg-slate-900 p-4 text-slate-50">
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                  Estimated annual impact
+                </p>
+                <p className="mt-2 text-3xl font-semibold">
+                  {formatCurrency(results.totalAnnualBenefit, currency)}
+                </p>
+                <p className="mt-1 text-xs text-slate-300">
+                  Combined cost savings and (if selected) revenue protected for
+                  this team.
+                </p>
+
+                <div className="mt-4 grid gap-3 text-sm md:grid-cols-2">
+                  <div className="space-y-2">
+                    <div className="flex items-baseline justify-between">
+                      <span className="text-[11px] uppercase tracking-wide text-slate-400">
+                        Net gain after EdgeTier
+                      </span>
+                      <span className="text-lg font-semibold">
+                        {formatCurrency(results.netGain, currency)}
+                      </span>
+                    </div>
+                    <div className="flex items-baseline justify-between">
+                      <span className="text-[11px] uppercase tracking-wide text-slate-400">
+                        ROI
+                      </span>
+                      <span className="text-lg font-semibold">
+                        {formatPercent(results.roiPct, locale)}
+                      </span>
+                    </div>
+                    <div className="flex items-baseline justify-between">
+                      <span className="text-[11px] uppercase tracking-wide text-slate-400">
+                        Payback period{results.rollout && " (phased)"}
+                      </span>
+                      <span className="text-lg font-semibold">
+                        {results.paybackMonths > 0
+                          ? `${results.paybackMonths.toFixed(1)} months`
+                          : "-"}
+                      </span>
+                    </div>
+                    <div className="flex items-baseline justify-between">
+                      <span className="text-[11px] uppercase tracking-wide text-slate-400">
+                        EdgeTier investment (est.)
+                      </span>
+                      <span className="text-lg font-semibold">
+                        {formatCurrency(results.edgetierAnnualCost, currency)}
+                      </span>
+                    </div>
                   </div>
-                  <div className="flex items-baseline justify-between">
-                    <span className="text-[11px] uppercase tracking-wide text-slate-400">
-                      EdgeTier investment (est.)
-                    </span>
-                    <span className="text-lg font-semibold">
-                      {formatCurrency(results.edgetierAnnualCost)}
-                    </span>
+
+                  <div className="space-y-2 text-sm">
+                    <div className="flex items-baseline justify-between">
+                      <span>Handling time savings</span>
+                      <span className="font-medium">
+                        {formatCurrency(results.savingsAht, currency)}
+                      </span>
+                    </div>
+                    <div className="flex items-baseline justify-between">
+                      <span>QA and coaching savings</span>
+                      <span className="font-medium">
+                        {formatCurrency(results.savingsQa, currency)}
+                      </span>
+                    </div>
+                    <div className="flex items-baseline justify-between">
+                      <span>Contact reduction savings</span>
+                      <span className="font-medium">
+                        {formatCurrency(results.savingsDeflection, currency)}
+                      </span>
+                    </div>
+                    {results.capacity.settings.includeAttrition && (
+                      <div className="flex items-baseline justify-between">
+                        <span>Hiring and ramp savings</span>
+                        <span className="font-medium">
+                          {formatCurrency(
+                            results.savingsHiring + results.savingsRamp,
+                            currency
+                          )}
+                        </span>
+                      </div>
+                    )}
+                    <div className="flex items-baseline justify-between">
+                      <span>
+                        Revenue protected
+                        {results.revenueIncluded && results.retention && (
+                          <span className="text-slate-400">
+                            {" "}
+                            (
+                            {formatNumber(
+                              results.retention.customersRetained,
+                              locale
+                            )}{" "}
+                            customers kept)
+                          </span>
+                        )}
+                      </span>
+                      <span className="font-medium">
+                        {formatCurrency(results.revenueProtected, currency)}
+                      </span>
+                    </div>
+                    {results.complianceIncluded && (
+                      <div className="flex items-baseline justify-between">
+                        <span>Compliance risk avoided</span>
+                        <span className="font-medium">
+                          {formatCurrency(results.riskCostAvoided, currency)}
+                        </span>
+                      </div>
+                    )}
+                    <div className="flex items-baseline justify-between">
+                      <span>Hours saved per year</span>
+                      <span className="font-medium">
+                        {formatNumber(results.totalHoursSaved, locale)}
+                      </span>
+                    </div>
+                    <div className="flex items-baseline justify-between">
+                      <span>Capacity freed</span>
+                      <span className="font-medium">
+                        {results.capacity.fteSaved.toFixed(1)} FTE
+                      </span>
+                    </div>
+                    {queue.intervals.length > 0 && (
+                      <div className="flex items-baseline justify-between">
+                        <span>
+                          Service level ({queueSettings.targetServiceLevelPct}/
+                          {queueSettings.targetAnswerSecs})
+                        </span>
+                        <span className="font-medium">
+                          {queue.before.serviceLevelPct.toFixed(0)}% →{" "}
+                          {queue.after.serviceLevelPct.toFixed(0)}%
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
 
-                <div className="space-y-2 text-sm">
-                  <div className="flex items-baseline justify-between">
-                    <span>Handling time savings</span>
-                    <span className="font-medium">
-                      {formatCurrency(results.savingsAht)}
+                <hr className="my-4 border-slate-700" />
+
+                <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+                  Scenario context
+                </p>
+                <ul className="space-y-1 text-xs text-slate-200">
+                  <li>
+                    Agents in scope:{" "}
+                    <span className="font-semibold">
+                      {formatNumber(results.numAgents, locale)}
+                    </span>{" "}
+                    <span className="text-slate-400">
+                      ({sourceLabel(results.inputSources.numAgents)})
                     </span>
-                  </div>
-                  <div className="flex items-baseline justify-between">
-                    <span>QA and coaching savings</span>
-                    <span className="font-medium">
-                      {formatCurrency(results.savingsQa)}
+                  </li>
+                  <li>
+                    Contacts per agent per day:{" "}
+                    <span className="font-semibold">
+                      {results.contactsPerAgentPerDay.toFixed(1)}
+                    </span>{" "}
+                    <span className="text-slate-400">
+                      ({sourceLabel(results.inputSources.contactsPerAgentPerDay)})
                     </span>
-                  </div>
-                  <div className="flex items-baseline justify-between">
-                    <span>Contact reduction savings</span>
-                    <span className="font-medium">
-                      {formatCurrency(results.savingsDeflection)}
+                  </li>
+                  <li>
+                    Contacts per year:{" "}
+                    <span className="font-semibold">
+                      {formatNumber(results.contactsPerYear, locale)}
                     </span>
-                  </div>
-                  <div className="flex items-baseline justify-between">
-                    <span>Revenue protected</span>
-                    <span className="font-medium">
-                      {formatCurrency(results.revenueProtected)}
+                  </li>
+                  <li>
+                    {results.inputSources.ahtMins === "exact"
+                      ? "Measured AHT"
+                      : results.inputSources.ahtMins === "channels"
+                        ? "Agent time per contact"
+                        : results.inputSources.ahtMins === "sites"
+                          ? "Average AHT"
+                          : "Estimated AHT"}
+                    :{" "}
+                    <span className="font-semibold">
+                      {results.ahtMins.toFixed(1)} mins
+                    </span>{" "}
+                    <span className="text-slate-400">
+                      ({sourceLabel(results.inputSources.ahtMins)})
                     </span>
-                  </div>
-                  <div className="flex items-baseline justify-between">
-                    <span>Hours saved per year</span>
-                    <span className="font-medium">
-                      {formatNumber(results.totalHoursSaved)}
+                  </li>
+                  <li>
+                    Baseline cost per contact:{" "}
+                    <span className="font-semibold">
+                      {formatCurrency(results.costPerContactBaseline, currency)}
                     </span>
-                  </div>
-                </div>
+                  </li>
+                  <li>
+                    Contacts avoided per year:{" "}
+                    <span className="font-semibold">
+                      {formatNumber(results.contactsAvoidedPerYear, locale)}
+                    </span>
+                  </li>
+                </ul>
+                <p className="mt-2 text-[11px] text-slate-400">
+                  Model config v{results.configVersion}
+                  {results.benchmark &&
+                    ` · Benchmarks: ${results.benchmark.label}, ${results.benchmark.library} v${results.benchmark.version}`}
+                </p>
               </div>
 
-              <hr className="my-4 border-slate-700" />
+              {results.channels.length > 0 && (
+                <ChannelBreakdown results={results} currency={currency} />
+              )}
 
-              <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
-                Scenario context
-              </p>
-              <ul className="space-y-1 text-xs text-slate-200">
-                <li>
-                  Agents in scope:{" "}
-                  <span className="font-semibold">
-                    {formatNumber(results.numAgents)}
-                  </span>
-                </li>
-                <li>
-                  Contacts per year:{" "}
-                  <span className="font-semibold">
-                    {formatNumber(results.contactsPerYear)}
-                  </span>
-                </li>
-                <li>
-                  Estimated AHT:{" "}
-                  <span className="font-semibold">
-                    {results.ahtMins.toFixed(1)} mins
-                  </span>
-                </li>
-                <li>
-                  Baseline cost per contact:{" "}
-                  <span className="font-semibold">
-                    {formatCurrency(results.costPerContactBaseline)}
-                  </span>
-                </li>
-                <li>
-                  Contacts avoided per year:{" "}
-                  <span className="font-semibold">
-                    {formatNumber(results.contactsAvoidedPerYear)}
-                  </span>
-                </li>
-              </ul>
-            </div>
-          </>
-        )}
-      </div>
+              {results.sites.length > 0 && (
+                <SiteBreakdown results={results} currency={currency} />
+              )}
+
+              {priorityDeflection && results.contactReasons.length > 0 && (
+                <ContactReasonBreakdown results={results} currency={currency} />
+              )}
+
+              <CapacityPanel
+                capacity={capacityInputs}
+                onChange={setCapacityInputs}
+                results={results}
+                currency={currency}
+                priceBook={modelConfig.priceBook}
+              />
+
+              <QueuePanel
+                queue={queue}
+                settings={queueSettings}
+                onChange={setQueueSettings}
+                currency={currency}
+              />
+
+              <AssumptionsDrawer
+                overrides={assumptionOverrides}
+                onChange={setAssumptionOverrides}
+                currency={currency}
+                industry={industry}
+                config={modelConfig}
+              />
+
+              <PricingPanel
+                options={pricingOptions}
+                onChange={setPricingOptions}
+                results={results}
+                currency={currency}
+                priceBook={modelConfig.priceBook}
+              />
 
-      {/* Navigation */}
-      <div className="flex items-center justify-between">
-        <button
-          type="button"
-          onClick={goBack}
-          disabled={currentStep === 1}
-          className={`rounded-full px-3 py-1.5 text-xs font-medium ${
-            currentStep === 1
-              ? "cursor-not-allowed bg-slate-200 text-slate-400"
-              : "bg-white text-slate-700 shadow-sm hover:bg-slate-100"
-          }`}
-        >
-          Back
-        </button>
-        <button
-          type="button"
-          onClick={goNext}
-          disabled={currentStep === 7}
-          className={`rounded-full px-4 py-1.5 text-xs font-semibold ${
-            currentStep === 7
-              ? "cursor-not-allowed bg-emerald-200 text-emerald-700"
-              : "bg-emerald-600 text-white shadow-sm hover:bg-emerald-700"
-          }`}
-        >
-          {currentStep < 6 && "Next question"}
-          {currentStep === 6 && "Show my results"}
-          {currentStep === 7 && "Done"}
-        </button>
+              <ScenarioComparison
+                inputs={inputs}
+                results={results}
+                currency={currency}
+              />
+
+              <MonteCarloPanel
+                inputs={inputs}
+                results={results}
+                currency={currency}
+              />
+
+              <SensitivityPanel
+                inputs={inputs}
+                results={results}
+                currency={currency}
+              />
+
+              <MultiYearView
+                results={results}
+                settings={tcoSettings}
+                onChange={setTcoSettings}
+                currency={currency}
+              />
+
+              <RolloutPlanner
+                plan={rolloutPlan}
+                onChange={setRolloutPlan}
+                results={results}
+                currency={currency}
+              />
+
+              <ShareScenarioLink inputs={inputs} />
+
+              <DataExportButtons inputs={inputs} results={results} />
+
+              <button
+                type="button"
+                onClick={() => setReportGeneratedAt(new Date())}
+                className="mt-4 w-full rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold text-white shadow-sm hover:bg-slate-700"
+              >
+                Export report (print or save as PDF)
+              </button>
+            </>
+          )}
+
+          {currentStep <= 4 && (
+            <SiteManager
+              sites={siteList}
+              activeSite={activeSite}
+              onToggle={toggleSites}
+              onSelect={selectSite}
+              onAdd={addSite}
+              onRemove={removeSite}
+              onUpdate={updateSite}
+              defaultCostPerAgent={results.assumptions.annualCostPerAgent}
+              currency={currency}
+            />
+          )}
+        </div>
+
+        {/* Navigation */}
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            onClick={goBack}
+            disabled={currentStep === 1}
+            className={`rounded-full px-3 py-1.5 text-xs font-medium ${
+              currentStep === 1
+                ? "cursor-not-allowed bg-slate-200 text-slate-400"
+                : "bg-white text-slate-700 shadow-sm hover:bg-slate-100"
+            }`}
+          >
+            Back
+          </button>
+          <button
+            type="button"
+            onClick={goNext}
+            disabled={currentStep === 7 || currentStepInvalid}
+            className={`rounded-full px-4 py-1.5 text-xs font-semibold ${
+              currentStep === 7 || currentStepInvalid
+                ? "cursor-not-allowed bg-emerald-200 text-emerald-700"
+                : "bg-emerald-600 text-white shadow-sm hover:bg-emerald-700"
+            }`}
+          >
+            {currentStep < 6 && "Next question"}
+            {currentStep === 6 && "Show my results"}
+            {currentStep === 7 && "Done"}
+          </button>
+        </div>
+
+        <SavedAssessments
+          inputs={inputs}
+          config={modelConfig}
+          onOpen={applyInputs}
+        />
       </div>
-    </div>
+
+      {reportGeneratedAt && (
+        <RoiReport
+          inputs={inputs}
+          results={results}
+          generatedAt={reportGeneratedAt}
+        />
+      )}
+    </>
   );
 };
 
@@ -0,0 +1,60 @@
+"use client";
+
+import React from "react";
+import {
+  EXACT_INPUT_BOUNDS,
+  parseExactValue,
+  type ExactField,
+} from "../lib/roi/exact";
+
+type Props = {
+  field: ExactField;
+  value: string;
+  onChange: (value: string) => void;
+  fallbackLabel: string;
+};
+
+const ExactNumberInput: React.FC<Props> = ({
+  field,
+  value,
+  onChange,
+  fallbackLabel,
+}) => {
+  const bounds = EXACT_INPUT_BOUNDS[field];
+  const { error } = parseExactValue(field, value);
+  const inputId = `exact-${field}`;
+
+  return (
+    <div className="mt-4 rounded-xl bg-slate-50 p-3 text-xs">
+      <label htmlFor={inputId} className="font-semibold text-slate-800">
+        {bounds.label} ({bounds.unit})
+      </label>
+      <input
+        id={inputId}
+        type="number"
+        inputMode="decimal"
+        min={bounds.min}
+        max={bounds.max}
+        step={bounds.integer ? 1 : "any"}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={`${bounds.min} – ${bounds.max}`}
+        aria-invalid={Boolean(error)}
+        className={`mt-2 w-full rounded-lg border px-3 py-2 text-sm text-slate-900 ${
+          error ? "border-rose-400" : "border-slate-200"
+        }`}
+      />
+      {error ? (
+        <p className="mt-1 text-[11px] text-rose-600">{error}</p>
+      ) : (
+        <p className="mt-1 text-[11px] text-slate-500">
+          {value.trim() === ""
+            ? `Leave blank to use the band estimate (${fallbackLabel}).`
+            : "We'll use this exact value in the model."}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ExactNumberInput;
@@ -0,0 +1,191 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { CurrencyCode } from "../lib/roi/currency";
+import type { RoiInputs, RoiResult } from "../lib/roi/engine";
+import {
+  formatCurrency,
+  formatPercent,
+  localeFor,
+} from "../lib/roi/format";
+import {
+  DEFAULT_MONTE_CARLO_SETTINGS,
+  runMonteCarlo,
+  type MonteCarloSummary,
+  type Percentiles,
+} from "../lib/roi/monteCarlo";
+import type { MonteCarloRequest } from "../lib/roi/monteCarlo.worker";
+
+type Props = {
+  inputs: RoiInputs;
+  results: RoiResult;
+  currency: CurrencyCode;
+};
+
+const MonteCarloPanel: React.FC<Props> = ({ inputs, results, currency }) => {
+  const [enabled, setEnabled] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [summary, setSummary] = useState<MonteCarloSummary | null>(null);
+  const [failed, setFailed] = useState(false);
+  const locale = localeFor(currency);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const request: MonteCarloRequest = {
+      inputs,
+      results,
+      settings: DEFAULT_MONTE_CARLO_SETTINGS,
+    };
+    setRunning(true);
+    setFailed(false);
+
+    if (typeof Worker === "undefined") {
+      // Very old browsers – fall back to the main thread
+      setSummary(runMonteCarlo(inputs, results, request.settings));
+      setRunning(false);
+      return;
+    }
+
+    const worker = new Worker(
+      new URL("../lib/roi/monteCarlo.worker.ts", import.meta.url)
+    );
+    worker.onmessage = (event: MessageEvent<MonteCarloSummary>) => {
+      setSummary(event.data);
+      setRunning(false);
+    };
+    // Stop showing "Simulating…" if the worker fails to load or run
+    const fail = () => {
+      setSummary(null);
+      setFailed(true);
+      setRunning(false);
+    };
+    worker.onerror = fail;
+    worker.onmessageerror = fail;
+    worker.postMessage(request);
+
+    // A newer run supersedes this one
+    return () => worker.terminate();
+  }, [enabled, inputs, results]);
+
+  const money = (value: number) => formatCurrency(value, currency);
+  const months = (value: number) =>
+    Number.isFinite(value) ? `${value.toFixed(1)} mo` : "-";
+
+  const rows: {
+    label: string;
+    values: Percentiles;
+    format: (value: number) => string;
+  }[] = summary
+    ? [
+        {
+          label: "Total benefit",
+          values: summary.totalAnnualBenefit,
+          format: money,
+        },
+        { label: "Net gain", values: summary.netGain, format: money },
+        { label: "Payback", values: summary.paybackMonths, format: months },
+      ]
+    : [];
+
+  const maxCount = summary
+    ? Math.max(1, ...summary.netGainHistogram.map((bin) => bin.count))
+    : 1;
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white p-4 text-xs">
+      <div className="flex items-center gap-2">
+        <input
+          id="monte-carlo"
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="h-3 w-3 accent-emerald-600"
+        />
+        <label htmlFor="monte-carlo" className="font-semibold text-slate-900">
+          Show uncertainty ranges
+        </label>
+        {enabled && running && (
+          <span className="text-[11px] text-slate-500">Simulating…</span>
+        )}
+      </div>
+      <p className="mt-1 text-[11px] text-slate-500">
+        Runs {DEFAULT_MONTE_CARLO_SETTINGS.iterations.toLocaleString(locale)}{" "}
+        simulations across the contact volume band, a spread around the
+        handle time and a range of improvement percentages.
+      </p>
+
+      {enabled && failed && (
+        <p className="mt-2 text-[11px] text-rose-600">
+          The simulation couldn&apos;t run. Turn uncertainty ranges off and on
+          to try again.
+        </p>
+      )}
+
+      {enabled && summary && (
+        <div className="mt-3 space-y-3">
+          <table className="w-full text-right text-[11px]">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="py-1 text-left font-medium" />
+                <th className="py-1 font-medium">P10</th>
+                <th className="py-1 font-medium">P50</th>
+                <th className="py-1 font-medium">P90</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-800">
+              {rows.map((row) => (
+                <tr key={row.label} className="border-t border-slate-100">
+                  <td className="py-1 text-left text-slate-500">
+                    {row.label}
+                  </td>
+                  <td className="py-1">{row.format(row.values.p10)}</td>
+                  <td className="py-1 font-semibold">
+                    {row.format(row.values.p50)}
+                  </td>
+                  <td className="py-1">{row.format(row.values.p90)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <p className="text-[11px] text-slate-500">
+              Net gain distribution
+            </p>
+            <div className="mt-1 flex h-20 items-end gap-px">
+              {summary.netGainHistogram.map((bin) => (
+                <div
+                  key={bin.from}
+                  className={`flex-1 rounded-t ${
+                    bin.to <= 0 ? "bg-rose-300" : "bg-emerald-400"
+                  }`}
+                  style={{ height: `${(bin.count / maxCount) * 100}%` }}
+                  title={`${money(bin.from)} – ${money(bin.to)}: ${bin.count}`}
+                />
+              ))}
+            </div>
+            <div className="mt-1 flex justify-between text-[10px] text-slate-400">
+              <span>{money(summary.netGainHistogram[0]?.from ?? 0)}</span>
+              <span>
+                {money(
+                  summary.netGainHistogram[summary.netGainHistogram.length - 1]
+                    ?.to ?? 0
+                )}
+              </span>
+            </div>
+          </div>
+
+          <p className="rounded-xl bg-slate-50 p-3 text-slate-800">
+            Probability ROI is positive:{" "}
+            <span className="font-semibold">
+              {formatPercent(summary.probabilityPositiveRoi * 100, locale)}
+            </span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MonteCarloPanel;
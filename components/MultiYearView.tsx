@@ -0,0 +1,203 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { CurrencyCode } from "../lib/roi/currency";
+import type { RoiResult } from "../lib/roi/engine";
+import {
+  formatCurrency,
+  formatPercent,
+  localeFor,
+} from "../lib/roi/format";
+import {
+  IRR_MAX_PCT,
+  calculateTco,
+  type TcoSettings,
+} from "../lib/roi/tco";
+
+type Props = {
+  results: RoiResult;
+  settings: TcoSettings;
+  onChange: (settings: TcoSettings) => void;
+  currency: CurrencyCode;
+};
+
+type NumericSetting = Exclude<keyof TcoSettings, "quarterlyRampPct" | "years">;
+
+const NUMERIC_SETTINGS: { key: NumericSetting; label: string; step: number }[] =
+  [
+    { key: "implementationCost", label: "Implementation (one-off)", step: 1000 },
+    { key: "trainingCost", label: "Training (one-off)", step: 500 },
+    { key: "priceEscalatorPct", label: "Annual price escalator %", step: 0.5 },
+    { key: "discountRatePct", label: "Discount rate %", step: 0.5 },
+  ];
+
+const MultiYearView: React.FC<Props> = ({
+  results,
+  settings,
+  onChange,
+  currency,
+}) => {
+  const [open, setOpen] = useState(false);
+  const locale = localeFor(currency);
+  const tco = useMemo(
+    () => calculateTco(results, settings),
+    [results, settings]
+  );
+
+  const setNumber = (key: NumericSetting, raw: string) => {
+    const value = Number(raw);
+    if (raw.trim() === "" || !Number.isFinite(value) || value < 0) return;
+    onChange({ ...settings, [key]: value });
+  };
+
+  const setRamp = (index: number, raw: string) => {
+    const value = Number(raw);
+    if (raw.trim() === "" || !Number.isFinite(value)) return;
+    const quarterlyRampPct = [...settings.quarterlyRampPct];
+    quarterlyRampPct[index] = Math.min(Math.max(value, 0), 100);
+    onChange({ ...settings, quarterlyRampPct });
+  };
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        aria-expanded={open}
+        className="flex w-full items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="font-semibold text-slate-900">
+          {settings.years}-year view (TCO, NPV, IRR)
+        </span>
+        <span className="text-slate-500">{open ? "Hide" : "Show"}</span>
+      </button>
+
+      {open && (
+        <div className="space-y-4 border-t border-slate-100 px-4 py-3">
+          <div>
+            <p className="font-medium text-slate-800">
+              Adoption ramp (% of full benefit)
+            </p>
+            <div className="mt-1 grid grid-cols-4 gap-2">
+              {settings.quarterlyRampPct.map((pct, index) => (
+                <label key={index} className="text-[11px] text-slate-500">
+                  Q{index + 1}
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={pct}
+                    onChange={(e) => setRamp(index, e.target.value)}
+                    className="mt-1 w-full rounded-lg border border-slate-200 px-2 py-1 text-sm text-slate-900"
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="mt-1 text-[11px] text-slate-500">
+              The last quarter&apos;s value holds for the rest of the period.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {NUMERIC_SETTINGS.map(({ key, label, step }) => (
+              <label key={key} className="text-[11px] text-slate-500">
+                {label}
+                <input
+                  type="number"
+                  min={0}
+                  step={step}
+                  value={settings[key]}
+                  onChange={(e) => setNumber(key, e.target.value)}
+                  className="mt-1 w-full rounded-lg border border-slate-200 px-2 py-1 text-sm text-slate-900"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-right text-[11px]">
+              <thead className="text-slate-500">
+                <tr>
+                  <th className="py-1 text-left font-medium">Year</th>
+                  <th className="py-1 font-medium">Adoption</th>
+                  <th className="py-1 font-medium">Benefit</th>
+                  <th className="py-1 font-medium">EdgeTier cost</th>
+                  <th className="py-1 font-medium">Net</th>
+                  <th className="py-1 font-medium">Cumulative</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-800">
+                <tr className="border-t border-slate-100">
+                  <td className="py-1 text-left">Upfront</td>
+                  <td className="py-1">-</td>
+                  <td className="py-1">-</td>
+                  <td className="py-1">
+                    {formatCurrency(tco.upfrontCost, currency)}
+                  </td>
+                  <td className="py-1">
+                    {formatCurrency(-tco.upfrontCost, currency)}
+                  </td>
+                  <td className="py-1">
+                    {formatCurrency(-tco.upfrontCost, currency)}
+                  </td>
+                </tr>
+                {tco.years.map((row) => (
+                  <tr key={row.year} className="border-t border-slate-100">
+                    <td className="py-1 text-left">Year {row.year}</td>
+                    <td className="py-1">
+                      {formatPercent(row.avgAdoptionPct, locale)}
+                    </td>
+                    <td className="py-1">
+                      {formatCurrency(row.benefit, currency)}
+                    </td>
+                    <td className="py-1">
+                      {formatCurrency(row.licenceCost, currency)}
+                    </td>
+                    <td className="py-1">
+                      {formatCurrency(row.netCashFlow, currency)}
+                    </td>
+                    <td className="py-1 font-medium">
+                      {formatCurrency(row.cumulativeCashFlow, currency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 rounded-xl bg-slate-50 p-3">
+            <div>
+              <p className="text-[11px] text-slate-500">
+                NPV @ {settings.discountRatePct}%
+              </p>
+              <p className="text-sm font-semibold text-slate-900">
+                {formatCurrency(tco.npv, currency)}
+              </p>
+            </div>
+            <div>
+              <p className="text-[11px] text-slate-500">IRR</p>
+              <p className="text-sm font-semibold text-slate-900">
+                {tco.irrPct === null
+                  ? "-"
+                  : Number.isFinite(tco.irrPct)
+                  ? formatPercent(tco.irrPct, locale)
+                  : `> ${formatPercent(IRR_MAX_PCT, locale)}`}
+              </p>
+            </div>
+            <div>
+              <p className="text-[11px] text-slate-500">Ramped payback</p>
+              <p className="text-sm font-semibold text-slate-900">
+                {tco.paybackMonth === null
+                  ? `> ${settings.years * 12} months`
+                  : `Month ${tco.paybackMonth}`}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MultiYearView;
@@ -0,0 +1,193 @@
+"use client";
+
+import React, { useState } from "react";
+import { convertFromEur, type CurrencyCode } from "../lib/roi/currency";
+import type { RoiResult } from "../lib/roi/engine";
+import { formatCurrency } from "../lib/roi/format";
+import {
+  CONTRACT_TERMS,
+  PRICING_MODULES,
+  isValidQuotedPrice,
+  tierLabel,
+  type PriceBook,
+  type PricingModule,
+  type PricingOptions,
+} from "../lib/roi/pricing";
+
+type Props = {
+  options: PricingOptions;
+  onChange: (options: PricingOptions) => void;
+  results: RoiResult;
+  currency: CurrencyCode;
+  priceBook: PriceBook;
+};
+
+const STREAM_LABELS = {
+  aht: "handling time savings",
+  qa: "QA savings",
+  deflection: "contact reduction savings",
+};
+
+const PricingPanel: React.FC<Props> = ({
+  options,
+  onChange,
+  results,
+  currency,
+  priceBook,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [quoteDraft, setQuoteDraft] = useState(
+    options.quotedAnnualPrice?.toString() ?? ""
+  );
+  const { pricing } = results;
+  const modules = options.modules ?? PRICING_MODULES;
+  const money = (eur: number) =>
+    formatCurrency(convertFromEur(eur, currency), currency);
+
+  const toggleModule = (module: PricingModule) =>
+    onChange({
+      ...options,
+      modules: modules.includes(module)
+        ? modules.filter((m) => m !== module)
+        : PRICING_MODULES.filter((m) => m === module || modules.includes(m)),
+    });
+
+  const setQuote = (raw: string) => {
+    setQuoteDraft(raw);
+    const value = Number(raw);
+    onChange({
+      ...options,
+      quotedAnnualPrice:
+        raw.trim() !== "" && isValidQuotedPrice(value) ? value : undefined,
+    });
+  };
+
+  const quoteInvalid =
+    quoteDraft.trim() !== "" && !isValidQuotedPrice(Number(quoteDraft));
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        aria-expanded={open}
+        className="flex w-full items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="font-semibold text-slate-900">
+          Pricing
+          {pricing.source === "quote" && (
+            <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-medium text-amber-800">
+              Quoted
+            </span>
+          )}
+        </span>
+        <span className="text-slate-500">{open ? "Hide" : "Edit"}</span>
+      </button>
+
+      {open && (
+        <div className="space-y-3 border-t border-slate-100 px-4 py-3">
+          <div>
+            <p className="font-medium text-slate-800">Modules</p>
+            <div className="mt-1 space-y-1">
+              {PRICING_MODULES.map((module) => {
+                const config = priceBook.modules[module];
+                return (
+                  <label key={module} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={modules.includes(module)}
+                      onChange={() => toggleModule(module)}
+                      className="h-3 w-3 accent-emerald-600"
+                    />
+                    <span className="text-slate-700">
+                      {config.label}{" "}
+                      <span className="text-[11px] text-slate-500">
+                        ({config.sharePct}% of suite · drives{" "}
+                        {STREAM_LABELS[config.benefitStream]})
+                      </span>
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-slate-800">Contract term</span>
+            {CONTRACT_TERMS.map((term) => (
+              <button
+                key={term}
+                type="button"
+                onClick={() => onChange({ ...options, termYears: term })}
+                className={`rounded-full px-2 py-0.5 text-[11px] ${
+                  pricing.termYears === term
+                    ? "bg-emerald-600 text-white"
+                    : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+                }`}
+              >
+                {term} yr
+                {priceBook.termDiscounts[term] > 0 &&
+                  ` (−${priceBook.termDiscounts[term]}%)`}
+              </button>
+            ))}
+          </div>
+
+          <dl className="rounded-xl bg-slate-50 p-3">
+            <div className="flex justify-between">
+              <dt>Tier</dt>
+              <dd className="font-medium">{tierLabel(pricing.tierIndex, priceBook)}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt>Per seat / minimum</dt>
+              <dd className="font-medium">
+                {money(pricing.tier.annualPerSeat)} /{" "}
+                {money(pricing.tier.minimumAnnual)}
+              </dd>
+            </div>
+            <div className="flex justify-between">
+              <dt>Full-suite list price</dt>
+              <dd className="font-medium">{money(pricing.listPrice)}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt>Modules licensed</dt>
+              <dd className="font-medium">{pricing.moduleSharePct}%</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt>Volume / term discount</dt>
+              <dd className="font-medium">
+                {pricing.volumeDiscountPct}% / {pricing.termDiscountPct}%
+              </dd>
+            </div>
+            <div className="flex justify-between border-t border-slate-200 pt-1">
+              <dt>Price book {pricing.priceBookVersion}</dt>
+              <dd className="font-semibold">{money(pricing.annualCostEur)}</dd>
+            </div>
+          </dl>
+
+          <label className="block">
+            <span className="font-medium text-slate-800">
+              Quoted annual price (optional)
+            </span>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={quoteDraft}
+              onChange={(e) => setQuote(e.target.value)}
+              placeholder="Leave blank to use the price book"
+              aria-invalid={quoteInvalid}
+              className={`mt-1 w-full rounded-lg border px-3 py-1.5 text-sm text-slate-900 ${
+                quoteInvalid ? "border-rose-400" : "border-slate-200"
+              }`}
+            />
+            <span className="mt-1 block text-[11px] text-slate-500">
+              A negotiated price replaces the price book in every figure.
+            </span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PricingPanel;
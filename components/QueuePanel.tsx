@@ -0,0 +1,234 @@
+"use client";
+
+import React, { useState } from "react";
+import type { CurrencyCode } from "../lib/roi/currency";
+import { formatNumber, localeFor } from "../lib/roi/format";
+import {
+  ARRIVAL_PROFILES,
+  QUEUE_FIELDS,
+  QUEUE_FIELD_KEYS,
+  isValidQueueValue,
+  type ArrivalProfileId,
+  type QueueField,
+  type QueueMetrics,
+  type QueueResult,
+  type QueueSettings,
+} from "../lib/roi/queueing";
+
+type Props = {
+  queue: QueueResult;
+  settings: QueueSettings;
+  onChange: (settings: QueueSettings) => void;
+  currency: CurrencyCode;
+};
+
+const formatAsa = (secs: number) =>
+  Number.isFinite(secs) ? `${secs.toFixed(0)}s` : "Queue overloaded";
+
+const hourLabel = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+const QueuePanel: React.FC<Props> = ({
+  queue,
+  settings,
+  onChange,
+  currency,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [showProfile, setShowProfile] = useState(false);
+  const locale = localeFor(currency);
+  const target = `${settings.targetServiceLevelPct}/${settings.targetAnswerSecs}`;
+
+  const activeProfile = (
+    Object.keys(ARRIVAL_PROFILES) as ArrivalProfileId[]
+  ).find((id) =>
+    ARRIVAL_PROFILES[id].profile.every(
+      (weight, hour) => weight === settings.arrivalProfile[hour]
+    )
+  );
+
+  const setNumber = (key: QueueField, raw: string) => {
+    const value = Number(raw);
+    if (raw.trim() === "" || !isValidQueueValue(key, value)) return;
+    onChange({ ...settings, [key]: value });
+  };
+
+  const setHour = (hour: number, raw: string) => {
+    const value = Number(raw);
+    if (raw.trim() === "" || !Number.isFinite(value) || value < 0) return;
+    const arrivalProfile = [...settings.arrivalProfile];
+    arrivalProfile[hour] = value;
+    onChange({ ...settings, arrivalProfile });
+  };
+
+  const metricRows: {
+    label: string;
+    format: (metrics: QueueMetrics) => string;
+  }[] = [
+    {
+      label: `Service level (${target})`,
+      format: (m) => `${m.serviceLevelPct.toFixed(1)}%`,
+    },
+    { label: "Average speed of answer", format: (m) => formatAsa(m.asaSecs) },
+    { label: "Agent occupancy", format: (m) => `${m.occupancyPct.toFixed(0)}%` },
+  ];
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        aria-expanded={open}
+        className="flex w-full items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="font-semibold text-slate-900">
+          Queues and service level (Erlang C)
+        </span>
+        <span className="text-slate-500">{open ? "Hide" : "Show"}</span>
+      </button>
+
+      {open && (
+        <div className="space-y-4 border-t border-slate-100 px-4 py-3">
+          <p className="text-[11px] text-slate-500">
+            {formatNumber(queue.queuedContactsPerDay, locale)} queued contacts
+            a day, handled in{" "}
+            {formatNumber(queue.staffedAgentHours, locale)} staffed agent
+            hours. AHT {queue.ahtBeforeMins.toFixed(1)} →{" "}
+            {queue.ahtAfterMins.toFixed(1)} mins with EdgeTier.
+          </p>
+
+          {queue.intervals.length === 0 ? (
+            <p className="rounded-xl bg-amber-50 p-3 text-[11px] text-amber-800">
+              No queued volume to model. Add voice contacts or open hours to
+              the arrival profile.
+            </p>
+          ) : (
+            <>
+              <table className="w-full text-right text-[11px]">
+                <thead className="text-slate-500">
+                  <tr>
+                    <th className="py-1 text-left font-medium">
+                      Same staffing
+                    </th>
+                    <th className="py-1 font-medium">Today</th>
+                    <th className="py-1 font-medium">With EdgeTier</th>
+                  </tr>
+                </thead>
+                <tbody className="text-slate-800">
+                  {metricRows.map((row) => (
+                    <tr key={row.label} className="border-t border-slate-100">
+                      <td className="py-1 text-left">{row.label}</td>
+                      <td className="py-1">{row.format(queue.before)}</td>
+                      <td className="py-1 font-medium">
+                        {row.format(queue.after)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="grid grid-cols-2 gap-2 rounded-xl bg-slate-50 p-3">
+                <div>
+                  <p className="text-[11px] text-slate-500">
+                    Agents needed at peak for {target}
+                  </p>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {queue.peakAgentsNeededBefore} →{" "}
+                    {queue.peakAgentsNeededAfter}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-[11px] text-slate-500">
+                    Agent hours needed per day
+                  </p>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {formatNumber(queue.agentHoursNeededBefore, locale)} →{" "}
+                    {formatNumber(queue.agentHoursNeededAfter, locale)}
+                  </p>
+                </div>
+              </div>
+            </>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            {QUEUE_FIELD_KEYS.map((key) => (
+              <label key={key} className="text-[11px] text-slate-500">
+                {QUEUE_FIELDS[key].label} ({QUEUE_FIELDS[key].unit})
+                <input
+                  type="number"
+                  min={QUEUE_FIELDS[key].min}
+                  max={QUEUE_FIELDS[key].max}
+                  step={QUEUE_FIELDS[key].step}
+                  value={settings[key]}
+                  onChange={(e) => setNumber(key, e.target.value)}
+                  className="mt-1 w-full rounded-lg border border-slate-200 px-2 py-1 text-sm text-slate-900"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-[11px] text-slate-500">
+                Arrival profile
+              </span>
+              {(Object.keys(ARRIVAL_PROFILES) as ArrivalProfileId[]).map(
+                (id) => (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() =>
+                      onChange({
+                        ...settings,
+                        arrivalProfile: ARRIVAL_PROFILES[id].profile,
+                      })
+                    }
+                    className={`rounded-full px-2 py-0.5 text-[11px] ${
+                      activeProfile === id
+                        ? "bg-emerald-600 text-white"
+                        : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+                    }`}
+                  >
+                    {ARRIVAL_PROFILES[id].label}
+                  </button>
+                )
+              )}
+              <button
+                type="button"
+                onClick={() => setShowProfile((v) => !v)}
+                aria-expanded={showProfile}
+                className="ml-auto text-[11px] font-medium text-emerald-700 hover:underline"
+              >
+                {showProfile ? "Hide hours" : "Edit hours"}
+              </button>
+            </div>
+            {showProfile && (
+              <>
+                <div className="mt-2 grid grid-cols-6 gap-1">
+                  {settings.arrivalProfile.map((weight, hour) => (
+                    <label key={hour} className="text-[10px] text-slate-500">
+                      {hourLabel(hour)}
+                      <input
+                        type="number"
+                        min={0}
+                        value={weight}
+                        onChange={(e) => setHour(hour, e.target.value)}
+                        className="w-full rounded border border-slate-200 px-1 py-0.5 text-[11px] text-slate-900"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-[11px] text-slate-500">
+                  Enter contacts per hour from your own data, in any unit;
+                  they&apos;re scaled to your daily volume. Use 0 for closed
+                  hours.
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueuePanel;
@@ -0,0 +1,92 @@
+"use client";
+
+import React from "react";
+import type { CurrencyCode } from "../lib/roi/currency";
+import { formatCurrency, formatNumber, localeFor } from "../lib/roi/format";
+import {
+  RETENTION_FIELDS,
+  RETENTION_FIELD_KEYS,
+  parseRetentionValue,
+  type RetentionField,
+  type RetentionInputs,
+  type RetentionResult,
+} from "../lib/roi/retention";
+
+type Props = {
+  drafts: Record<RetentionField, string>;
+  onChange: (field: RetentionField, value: string) => void;
+  retention: RetentionResult | null;
+  currency: CurrencyCode;
+  // Benchmark rates that replace the field defaults
+  defaults?: RetentionInputs;
+};
+
+const RetentionModelInputs: React.FC<Props> = ({
+  drafts,
+  onChange,
+  retention,
+  currency,
+  defaults = {},
+}) => {
+  const locale = localeFor(currency);
+
+  return (
+    <div className="mt-4 space-y-3 rounded-xl bg-slate-50 p-3 text-xs">
+      {RETENTION_FIELD_KEYS.map((field) => {
+        const bounds = RETENTION_FIELDS[field];
+        const { error } = parseRetentionValue(field, drafts[field]);
+        const inputId = `retention-${field}`;
+        const defaultValue = defaults[field] ?? bounds.defaultValue;
+        const placeholder =
+          defaultValue !== undefined
+            ? `Default ${defaultValue}`
+            : bounds.money
+              ? `e.g. ${formatCurrency(500, currency)}`
+              : "Required";
+
+        return (
+          <div key={field}>
+            <label htmlFor={inputId} className="font-semibold text-slate-800">
+              {bounds.label} (
+              {bounds.money ? `${currency} ${bounds.unit}` : bounds.unit})
+            </label>
+            <input
+              id={inputId}
+              type="number"
+              inputMode="decimal"
+              min={bounds.min}
+              max={bounds.max}
+              step={bounds.integer ? 1 : "any"}
+              value={drafts[field]}
+              onChange={(e) => onChange(field, e.target.value)}
+              placeholder={placeholder}
+              aria-invalid={Boolean(error)}
+              className={`mt-1 w-full rounded-lg border px-3 py-1.5 text-sm text-slate-900 ${
+                error ? "border-rose-400" : "border-slate-200"
+              }`}
+            />
+            {error && <p className="mt-1 text-[11px] text-rose-600">{error}</p>}
+          </div>
+        );
+      })}
+
+      {retention ? (
+        <p className="text-[11px] text-slate-600">
+          {formatNumber(retention.serviceLinkedChurners, locale)} customers a
+          year leave over service; preventing{" "}
+          {retention.churnPreventedPct}% of that keeps{" "}
+          <span className="font-semibold">
+            {formatNumber(retention.customersRetained, locale)} customers
+          </span>{" "}
+          and {formatCurrency(retention.revenueRetained, currency)} of revenue.
+        </p>
+      ) : (
+        <p className="text-[11px] text-slate-500">
+          Leave customer numbers blank to use the revenue band estimate instead.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RetentionModelInputs;
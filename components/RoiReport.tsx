@@ -0,0 +1,411 @@
+"use client";
+
+import React from "react";
+import {
+  ASSUMPTION_FIELDS,
+  ASSUMPTION_KEYS,
+  changedAssumptionKeys,
+  defaultAssumptionsFor,
+} from "../lib/roi/assumptions";
+import { CHANNEL_PROFILES } from "../lib/roi/channels";
+import { DEFAULT_MODEL_CONFIG } from "../lib/roi/config";
+import { AI_LEVEL_LABELS, COMPLEXITY_LEVELS } from "../lib/roi/constants";
+import { revenueBandLabel } from "../lib/roi/currency";
+import type { RoiInputs, RoiResult } from "../lib/roi/engine";
+import {
+  formatCurrency,
+  formatNumber,
+  formatPercent,
+  localeFor,
+} from "../lib/roi/format";
+import { tierLabel } from "../lib/roi/pricing";
+
+type Props = {
+  inputs: RoiInputs;
+  results: RoiResult;
+  generatedAt: Date;
+};
+
+// Print-only one-page summary; hidden on screen and revealed by print CSS
+const RoiReport: React.FC<Props> = ({ inputs, results, generatedAt }) => {
+  const { currency } = results;
+  const locale = localeFor(currency);
+  const complexity = COMPLEXITY_LEVELS[inputs.complexityLevel];
+  const config = inputs.config ?? DEFAULT_MODEL_CONFIG;
+  const defaults = defaultAssumptionsFor(currency, inputs.industry, config);
+  const changed = changedAssumptionKeys(results.assumptions, defaults);
+  const { pricing } = results;
+  const money = (value: number) => formatCurrency(value, currency);
+
+  const headline = [
+    { label: "Estimated annual impact", value: money(results.totalAnnualBenefit) },
+    { label: "Net gain", value: money(results.netGain) },
+    { label: "ROI", value: formatPercent(results.roiPct, locale) },
+    {
+      label: results.rollout ? "Payback (phased)" : "Payback",
+      value:
+        results.paybackMonths > 0
+          ? `${results.paybackMonths.toFixed(1)} months`
+          : "-",
+    },
+    { label: "EdgeTier investment", value: money(results.edgetierAnnualCost) },
+  ];
+
+  const breakdown = [
+    { label: "Handling time savings", value: money(results.savingsAht) },
+    { label: "QA and coaching savings", value: money(results.savingsQa) },
+    { label: "Contact reduction savings", value: money(results.savingsDeflection) },
+    ...(results.capacity.settings.includeAttrition
+      ? [
+          { label: "Hiring cost avoided", value: money(results.savingsHiring) },
+          { label: "Faster ramp savings", value: money(results.savingsRamp) },
+        ]
+      : []),
+    { label: "Revenue protected", value: money(results.revenueProtected) },
+    ...(results.complianceIncluded
+      ? [
+          {
+            label: "Compliance risk avoided",
+            value: money(results.riskCostAvoided),
+          },
+        ]
+      : []),
+    {
+      label: "Hours saved per year",
+      value: formatNumber(results.totalHoursSaved, locale),
+    },
+    {
+      label: "Capacity freed",
+      value: `${results.capacity.fteSaved.toFixed(1)} FTE (${
+        results.capacity.settings.mode === "avoidHiring"
+          ? "avoid hiring"
+          : "redeploy"
+      })`,
+    },
+  ];
+
+  const context = [
+    {
+      label: "Agents in scope",
+      value: `${formatNumber(results.numAgents, locale)} (${results.inputSources.numAgents})`,
+    },
+    {
+      label: "Contacts per agent per day",
+      value: `${results.contactsPerAgentPerDay.toFixed(1)} (${results.inputSources.contactsPerAgentPerDay})`,
+    },
+    {
+      label: "Contacts per year",
+      value: formatNumber(results.contactsPerYear, locale),
+    },
+    {
+      label: "Average handle time",
+      value: `${results.ahtMins.toFixed(1)} mins (${results.inputSources.ahtMins})`,
+    },
+    {
+      label: "Baseline cost per contact",
+      value: money(results.costPerContactBaseline),
+    },
+    {
+      label: "Contacts avoided per year",
+      value: formatNumber(results.contactsAvoidedPerYear, locale),
+    },
+    ...(results.channels.length > 0
+      ? [
+          {
+            label: "Channel mix",
+            value: results.channels
+              .map(
+                (channel) =>
+                  `${CHANNEL_PROFILES[channel.channel].label} ${channel.sharePct.toFixed(0)}%`
+              )
+              .join(" · "),
+          },
+        ]
+      : []),
+    ...(results.rollout
+      ? [
+          {
+            label: "Rollout plan",
+            value: `${results.rollout.waves
+              .map(
+                (wave) =>
+                  `${formatNumber(wave.agents, locale)} agents in month ${wave.startMonth}`
+              )
+              .join(", ")}; net ${money(
+              results.rollout.totalBenefit - results.rollout.totalCost
+            )} after ${results.rollout.horizonMonths} months`,
+          },
+        ]
+      : []),
+    ...(results.benchmark
+      ? [
+          {
+            label: "Industry benchmarks",
+            value: `${results.benchmark.label} (v${results.benchmark.version})`,
+          },
+        ]
+      : []),
+  ];
+
+  const channelBreakdown = results.channels.map((channel) => ({
+    label: `${CHANNEL_PROFILES[channel.channel].label} savings`,
+    value: money(channel.totalSavings),
+  }));
+
+  const siteBreakdown = results.sites.map((site) => ({
+    label: `${site.name} savings`,
+    value: `${money(site.totalAnnualBenefit)} (ROI ${formatPercent(
+      site.roiPct,
+      locale
+    )})`,
+  }));
+
+  const priorities = [
+    inputs.priorities.aht && "Reduce handling time & queues",
+    inputs.priorities.qa && "Reduce QA / coaching workload",
+    inputs.priorities.deflection && "Cut unnecessary / repeat contacts",
+    inputs.priorities.cx && "Improve CSAT / NPS & retention",
+  ].filter(Boolean);
+
+  return (
+    <section className="roi-report hidden bg-white p-0 text-[10pt] text-slate-900 print:block">
+      <header className="flex items-end justify-between border-b-2 border-emerald-600 pb-2">
+        <div>
+          <p className="text-[8pt] font-semibold uppercase tracking-wide text-emerald-700">
+            EdgeTier ROI Snapshot
+          </p>
+          <h1 className="text-[16pt] font-semibold">
+            Estimated impact for your contact centre
+          </h1>
+        </div>
+        <p className="text-[8pt] text-slate-500">
+          {generatedAt.toLocaleDateString(locale, { dateStyle: "long" })}
+        </p>
+      </header>
+
+      <div className="mt-3 grid grid-cols-5 gap-2">
+        {headline.map((item) => (
+          <div key={item.label} className="rounded border border-slate-300 p-2">
+            <p className="text-[7pt] uppercase tracking-wide text-slate-500">
+              {item.label}
+            </p>
+            <p className="text-[12pt] font-semibold">{item.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 grid grid-cols-2 gap-4">
+        <div>
+          <h2 className="border-b border-slate-300 text-[9pt] font-semibold uppercase tracking-wide">
+            Benefit breakdown
+          </h2>
+          <dl className="mt-1">
+            {breakdown.map((item) => (
+              <div key={item.label} className="flex justify-between py-0.5">
+                <dt>{item.label}</dt>
+                <dd className="font-medium">{item.value}</dd>
+              </div>
+            ))}
+          </dl>
+          {channelBreakdown.length > 0 && (
+            <dl className="mt-1 border-t border-slate-200 pt-1 text-slate-600">
+              {channelBreakdown.map((item) => (
+                <div key={item.label} className="flex justify-between py-0.5">
+                  <dt>{item.label}</dt>
+                  <dd>{item.value}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+          {siteBreakdown.length > 0 && (
+            <dl className="mt-1 border-t border-slate-200 pt-1 text-slate-600">
+              {siteBreakdown.map((item, index) => (
+                <div key={index} className="flex justify-between py-0.5">
+                  <dt>{item.label}</dt>
+                  <dd>{item.value}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+        <div>
+          <h2 className="border-b border-slate-300 text-[9pt] font-semibold uppercase tracking-wide">
+            Scenario context
+          </h2>
+          <dl className="mt-1">
+            {context.map((item) => (
+              <div key={item.label} className="flex justify-between py-0.5">
+                <dt>{item.label}</dt>
+                <dd className="font-medium">{item.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </div>
+
+      <div className="mt-3">
+        <h2 className="border-b border-slate-300 text-[9pt] font-semibold uppercase tracking-wide">
+          Inputs and assumptions
+        </h2>
+        <div className="mt-1 grid grid-cols-2 gap-4">
+          <dl>
+            {inputs.sites && results.sites.length > 0 ? (
+              inputs.sites.map((site, index) => (
+                <div key={index} className="py-0.5">
+                  <dt className="font-medium">{site.name}</dt>
+                  <dd className="text-slate-600">
+                    {COMPLEXITY_LEVELS[site.complexityLevel].label};{" "}
+                    {AI_LEVEL_LABELS[site.aiLevel]}
+                  </dd>
+                </div>
+              ))
+            ) : (
+              <>
+                <div className="py-0.5">
+                  <dt className="font-medium">
+                    Interaction complexity: {complexity.label}
+                  </dt>
+                  <dd className="text-slate-600">{complexity.description}</dd>
+                  <dd className="text-slate-600">{complexity.impactSummary}</dd>
+                </div>
+                <div className="flex justify-between py-0.5">
+                  <dt>Current AI automation</dt>
+                  <dd className="font-medium">
+                    {AI_LEVEL_LABELS[inputs.aiLevel]}
+                  </dd>
+                </div>
+              </>
+            )}
+            <div className="flex justify-between py-0.5">
+              <dt>Priorities</dt>
+              <dd className="text-right font-medium">
+                {priorities.length > 0 ? priorities.join("; ") : "None"}
+              </dd>
+            </div>
+            {results.retention ? (
+              <div className="flex justify-between py-0.5">
+                <dt>Customer retention</dt>
+                <dd className="text-right font-medium">
+                  {formatNumber(results.retention.customerCount, locale)}{" "}
+                  customers, {results.retention.churnRatePct}% churn,{" "}
+                  {results.retention.serviceChurnSharePct}% service-linked;{" "}
+                  {formatNumber(results.retention.customersRetained, locale)}{" "}
+                  retained
+                  {results.revenueIncluded ? "" : " (revenue not included)"}
+                </dd>
+              </div>
+            ) : (
+              <div className="flex justify-between py-0.5">
+                <dt>Business size</dt>
+                <dd className="font-medium">
+                  {revenueBandLabel(inputs.revenueBand, currency)}
+                  {results.revenueProtected > 0 ? "" : " (revenue not included)"}
+                </dd>
+              </div>
+            )}
+            {results.complianceIncluded && results.compliance && (
+              <div className="flex justify-between py-0.5">
+                <dt>Compliance risk</dt>
+                <dd className="text-right font-medium">
+                  {`${results.compliance.incidentsPer10kContacts} per 10,000 contacts at ${money(
+                    results.compliance.costPerIncident
+                  )}; ${results.compliance.detectionUpliftPct}% of missed incidents caught`}
+                </dd>
+              </div>
+            )}
+          </dl>
+          <dl>
+            {ASSUMPTION_KEYS.map((key) => (
+              <div key={key} className="flex justify-between py-0.5">
+                <dt>
+                  {ASSUMPTION_FIELDS[key].label}
+                  {changed.includes(key) && " *"}
+                </dt>
+                <dd className="font-medium">
+                  {key === "annualCostPerAgent"
+                    ? money(results.assumptions[key])
+                    : `${results.assumptions[key].toLocaleString(locale)} ${ASSUMPTION_FIELDS[key].unit}`}
+                </dd>
+              </div>
+            ))}
+            <div className="flex justify-between py-0.5">
+              <dt>AHT reduction applied</dt>
+              <dd className="font-medium">
+                {results.ahtReductionPct.toFixed(1)}%
+              </dd>
+            </div>
+            <div className="flex justify-between py-0.5">
+              <dt>QA efficiency gain applied</dt>
+              <dd className="font-medium">
+                {results.qaEfficiencyGainPct.toFixed(1)}%
+              </dd>
+            </div>
+            <div className="flex justify-between py-0.5">
+              <dt>Contact deflection applied</dt>
+              <dd className="font-medium">
+                {results.contactDeflectionPct.toFixed(1)}%
+              </dd>
+            </div>
+            {results.contactReasons.length > 0 && (
+              <div className="flex justify-between py-0.5">
+                <dt>Deflection basis</dt>
+                <dd className="text-right font-medium">
+                  {results.contactReasons.length} contact reasons
+                </dd>
+              </div>
+            )}
+            <div className="flex justify-between py-0.5">
+              <dt>Pricing</dt>
+              <dd className="text-right font-medium">
+                {pricing.source === "quote"
+                  ? "Quoted price"
+                  : `${tierLabel(pricing.tierIndex, config.priceBook)} tier, ${
+                      pricing.termYears
+                    }-year term`}
+              </dd>
+            </div>
+            <div className="flex justify-between py-0.5">
+              <dt>Model config</dt>
+              <dd className="font-medium">v{results.configVersion}</dd>
+            </div>
+            <div className="flex justify-between py-0.5">
+              <dt>Modules</dt>
+              <dd className="text-right font-medium">
+                {pricing.modules
+                  .map((module) => config.priceBook.modules[module].label)
+                  .join(", ") || "None"}
+              </dd>
+            </div>
+          </dl>
+        </div>
+        {changed.length > 0 && (
+          <p className="mt-1 text-[8pt] text-slate-500">
+            * Changed from the EdgeTier default.
+          </p>
+        )}
+      </div>
+
+      <footer className="mt-3 border-t border-slate-300 pt-2 text-[7.5pt] leading-snug text-slate-500">
+        <p>
+          Methodology: annual contacts = agents × contacts per agent per day ×
+          working days per month × 12. Handling cost uses the fully loaded
+          agent cost divided by working hours. Handling time savings apply the
+          AHT reduction to all contacts; QA savings apply the efficiency gain to
+          manually sampled reviews, costed at the QA multiplier; contact
+          reduction savings value avoided contacts at the baseline cost per
+          contact. Revenue protected, where included, assumes{" "}
+          {results.assumptions.revenueInfluencedPct}% of revenue is influenced
+          by this team and a {results.assumptions.revenueProtectionPct}%
+          improvement on that
+          base. Reductions depend on the current level of AI automation and the
+          chosen priorities.
+          {results.benchmark &&
+            ` Band estimates, agent cost, QA coverage, deflectable share and churn use the ${results.benchmark.label} figures from the ${results.benchmark.library}, version ${results.benchmark.version}.`}{" "}
+          Figures are estimates for discussion, not a commercial quote.
+        </p>
+      </footer>
+    </section>
+  );
+};
+
+export default RoiReport;
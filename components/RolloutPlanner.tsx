@@ -0,0 +1,392 @@
+"use client";
+
+import React, { useState } from "react";
+import type { CurrencyCode } from "../lib/roi/currency";
+import type { RoiResult } from "../lib/roi/engine";
+import { formatCurrency, formatNumber, localeFor } from "../lib/roi/format";
+import {
+  MAX_ROLLOUT_WAVES,
+  ROLLOUT_HORIZONS,
+  ROLLOUT_WAVE_FIELDS,
+  ROLLOUT_WAVE_FIELD_BOUNDS,
+  defaultRolloutPlan,
+  isRolloutHorizon,
+  isValidRolloutWaveValue,
+  type RolloutPlan,
+  type RolloutResult,
+  type RolloutWaveField,
+} from "../lib/roi/rollout";
+
+type Props = {
+  // Null while every agent goes live at once
+  plan: RolloutPlan | null;
+  onChange: (plan: RolloutPlan | null) => void;
+  results: RoiResult;
+  currency: CurrencyCode;
+};
+
+const CHART_WIDTH = 360;
+const CHART_HEIGHT = 120;
+
+// Monthly net cash flow as bars, the cumulative position as a line
+const RolloutChart: React.FC<{ rollout: RolloutResult }> = ({ rollout }) => {
+  const { months, paybackMonths } = rollout;
+  const values = months.flatMap((row) => [row.netCashFlow, row.cumulativeNet]);
+  const low = Math.min(0, ...values);
+  const high = Math.max(0, ...values);
+  const y = (value: number) =>
+    CHART_HEIGHT - ((value - low) / (high - low || 1)) * CHART_HEIGHT;
+  const barWidth = CHART_WIDTH / months.length;
+  const zero = y(0);
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      role="img"
+      aria-label="Monthly net cash flow and cumulative net position"
+      className="mt-2 h-32 w-full"
+      preserveAspectRatio="none"
+    >
+      {months.map((row, index) => (
+        <rect
+          key={row.month}
+          x={index * barWidth + barWidth * 0.15}
+          width={barWidth * 0.7}
+          y={Math.min(y(row.netCashFlow), zero)}
+          height={Math.abs(y(row.netCashFlow) - zero)}
+          className={row.netCashFlow >= 0 ? "fill-emerald-300" : "fill-rose-300"}
+        />
+      ))}
+      <line
+        x1={0}
+        x2={CHART_WIDTH}
+        y1={zero}
+        y2={zero}
+        className="stroke-slate-400"
+        strokeWidth={1}
+      />
+      {paybackMonths !== null && (
+        <line
+          x1={(paybackMonths / months.length) * CHART_WIDTH}
+          x2={(paybackMonths / months.length) * CHART_WIDTH}
+          y1={0}
+          y2={CHART_HEIGHT}
+          className="stroke-emerald-600"
+          strokeWidth={1}
+          strokeDasharray="3 3"
+        />
+      )}
+      <polyline
+        points={months
+          .map(
+            (row, index) =>
+              `${(index + 1) * barWidth},${y(row.cumulativeNet)}`
+          )
+          .join(" ")}
+        fill="none"
+        className="stroke-slate-900"
+        strokeWidth={1.5}
+      />
+    </svg>
+  );
+};
+
+const RolloutPlanner: React.FC<Props> = ({
+  plan,
+  onChange,
+  results,
+  currency,
+}) => {
+  const [showSchedule, setShowSchedule] = useState(false);
+  const locale = localeFor(currency);
+  const { rollout } = results;
+
+  const updateWave = (index: number, field: RolloutWaveField, raw: string) => {
+    if (!plan) return;
+    // Keep an empty box empty rather than snapping it to zero
+    const value = raw.trim() === "" ? Number.NaN : Number(raw);
+    onChange({
+      ...plan,
+      waves: plan.waves.map((wave, i) =>
+        i === index ? { ...wave, [field]: value } : wave
+      ),
+    });
+  };
+
+  const addWave = () => {
+    if (!plan) return;
+    const last = plan.waves[plan.waves.length - 1];
+    onChange({
+      ...plan,
+      waves: [
+        ...plan.waves,
+        {
+          startMonth: Math.min(
+            (Number.isFinite(last.startMonth) ? last.startMonth : 0) + 3,
+            plan.horizonMonths
+          ),
+          agents: 10,
+        },
+      ],
+    });
+  };
+
+  const requestedAgents =
+    plan?.waves.reduce(
+      (sum, wave) => sum + (Number.isFinite(wave.agents) ? wave.agents : 0),
+      0
+    ) ?? 0;
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white px-4 py-3 text-xs">
+      <div className="flex items-center gap-2">
+        <input
+          id="rollout-mode"
+          type="checkbox"
+          checked={plan !== null}
+          onChange={(e) =>
+            onChange(
+              e.target.checked ? defaultRolloutPlan(results.numAgents) : null
+            )
+          }
+          className="h-3 w-3 accent-emerald-600"
+        />
+        <label htmlFor="rollout-mode" className="font-semibold text-slate-900">
+          Plan a phased rollout
+        </label>
+      </div>
+      <p className="mt-1 text-[11px] text-slate-500">
+        Switch agents on in waves. Each wave&apos;s licences are billed a year
+        ahead from its go-live month, and its benefits start that month.
+      </p>
+
+      {plan && (
+        <div className="mt-3 space-y-3">
+          <label className="flex items-center gap-2">
+            <span className="text-slate-700">Plan over</span>
+            <select
+              value={plan.horizonMonths}
+              onChange={(e) => {
+                const horizonMonths = Number(e.target.value);
+                if (isRolloutHorizon(horizonMonths)) {
+                  onChange({ ...plan, horizonMonths });
+                }
+              }}
+              className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700"
+            >
+              {ROLLOUT_HORIZONS.map((months) => (
+                <option key={months} value={months}>
+                  {months} months
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-[11px] text-slate-500">
+                <th className="py-1 font-medium">Wave</th>
+                {ROLLOUT_WAVE_FIELDS.map((field) => (
+                  <th key={field} className="py-1 font-medium">
+                    {ROLLOUT_WAVE_FIELD_BOUNDS[field].label}
+                  </th>
+                ))}
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {plan.waves.map((wave, index) => (
+                <tr key={index} className="border-t border-slate-100">
+                  <td className="py-1 font-medium text-slate-700">
+                    {index + 1}
+                  </td>
+                  {ROLLOUT_WAVE_FIELDS.map((field) => {
+                    const invalid =
+                      !isValidRolloutWaveValue(field, wave[field]) ||
+                      (field === "startMonth" &&
+                        wave.startMonth > plan.horizonMonths);
+                    return (
+                      <td key={field} className="py-1 pr-2">
+                        <input
+                          type="number"
+                          inputMode="numeric"
+                          min={ROLLOUT_WAVE_FIELD_BOUNDS[field].min}
+                          max={
+                            field === "startMonth"
+                              ? plan.horizonMonths
+                              : ROLLOUT_WAVE_FIELD_BOUNDS[field].max
+                          }
+                          step={1}
+                          value={Number.isFinite(wave[field]) ? wave[field] : ""}
+                          onChange={(e) =>
+                            updateWave(index, field, e.target.value)
+                          }
+                          aria-label={`Wave ${index + 1} ${ROLLOUT_WAVE_FIELD_BOUNDS[
+                            field
+                          ].label.toLowerCase()}`}
+                          aria-invalid={invalid}
+                          className={`w-20 rounded-lg border px-2 py-1 text-xs text-slate-900 ${
+                            invalid ? "border-rose-400" : "border-slate-200"
+                          }`}
+                        />
+                      </td>
+                    );
+                  })}
+                  <td className="py-1 text-right">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        onChange({
+                          ...plan,
+                          waves: plan.waves.filter((_wave, i) => i !== index),
+                        })
+                      }
+                      disabled={plan.waves.length <= 1}
+                      className="text-[11px] font-medium text-rose-600 hover:underline disabled:cursor-not-allowed disabled:text-slate-400 disabled:no-underline"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {plan.waves.length < MAX_ROLLOUT_WAVES && (
+            <button
+              type="button"
+              onClick={addWave}
+              className="text-[11px] font-medium text-emerald-700 hover:underline"
+            >
+              + Add a wave
+            </button>
+          )}
+
+          {!rollout && (
+            <p className="text-[11px] text-rose-600">
+              Each wave needs a whole number of agents and a go-live month
+              within the {plan.horizonMonths}-month plan. Results use an
+              instant rollout until this is fixed.
+            </p>
+          )}
+          {rollout && requestedAgents !== results.numAgents && (
+            <p className="text-[11px] text-amber-700">
+              {requestedAgents > results.numAgents
+                ? `Waves add up to more than the ${formatNumber(
+                    results.numAgents,
+                    locale
+                  )} agents in scope, so later waves are cut back.`
+                : `Waves cover ${formatNumber(
+                    rollout.agentsPlanned,
+                    locale
+                  )} of the ${formatNumber(
+                    results.numAgents,
+                    locale
+                  )} agents in scope; the rest aren't rolled out in this plan.`}
+            </p>
+          )}
+
+          {rollout && (
+            <>
+              <RolloutChart rollout={rollout} />
+              <div className="flex justify-between text-[11px] text-slate-500">
+                <span>Month 1</span>
+                <span>Month {rollout.horizonMonths}</span>
+              </div>
+              <p className="text-[11px] text-slate-500">
+                Bars show each month&apos;s net cash flow, the line the
+                cumulative net position.
+              </p>
+
+              <div className="space-y-1">
+                <div className="flex items-baseline justify-between">
+                  <span>Payback with this plan</span>
+                  <span className="font-semibold">
+                    {rollout.paybackMonths !== null
+                      ? `${rollout.paybackMonths.toFixed(1)} months`
+                      : `Not within ${rollout.horizonMonths} months`}
+                  </span>
+                </div>
+                <div className="flex items-baseline justify-between text-slate-500">
+                  <span>With every agent live from month 1</span>
+                  <span>
+                    {rollout.instantPaybackMonths > 0
+                      ? `${rollout.instantPaybackMonths.toFixed(1)} months`
+                      : "-"}
+                  </span>
+                </div>
+                <div className="flex items-baseline justify-between">
+                  <span>
+                    Net position after {rollout.horizonMonths} months
+                  </span>
+                  <span className="font-semibold">
+                    {formatCurrency(
+                      rollout.totalBenefit - rollout.totalCost,
+                      currency
+                    )}
+                  </span>
+                </div>
+              </div>
+
+              <button
+                type="button"
+                onClick={() => setShowSchedule((v) => !v)}
+                aria-expanded={showSchedule}
+                className="text-[11px] font-medium text-emerald-700 hover:underline"
+              >
+                {showSchedule ? "Hide" : "Show"} month-by-month schedule
+              </button>
+              {showSchedule && (
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-left text-[11px] text-slate-500">
+                      <th className="py-1 font-medium">Month</th>
+                      <th className="py-1 text-right font-medium">
+                        Agents live
+                      </th>
+                      <th className="py-1 text-right font-medium">Licences</th>
+                      <th className="py-1 text-right font-medium">Benefit</th>
+                      <th className="py-1 text-right font-medium">
+                        Cumulative net
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rollout.months.map((row) => (
+                      <tr key={row.month} className="border-t border-slate-100">
+                        <td className="py-1 font-medium text-slate-700">
+                          {row.month}
+                        </td>
+                        <td className="py-1 text-right">
+                          {formatNumber(row.agentsLive, locale)}
+                        </td>
+                        <td className="py-1 text-right">
+                          {row.licenceCost > 0
+                            ? formatCurrency(row.licenceCost, currency)
+                            : "-"}
+                        </td>
+                        <td className="py-1 text-right">
+                          {formatCurrency(row.benefit, currency)}
+                        </td>
+                        <td
+                          className={`py-1 text-right font-semibold ${
+                            row.cumulativeNet < 0
+                              ? "text-rose-600"
+                              : "text-emerald-700"
+                          }`}
+                        >
+                          {formatCurrency(row.cumulativeNet, currency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RolloutPlanner;
@@ -0,0 +1,529 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  ASSESSMENT_NAME_MAX_LENGTH,
+  createAssessment,
+  duplicateDraft,
+  latestRevision,
+  parseAssessmentDraft,
+  parseAssessmentUpdate,
+  parseStoredAssessments,
+  reviseAssessment,
+  sortAssessments,
+  withoutConfig,
+  type AssessmentDraft,
+  type AssessmentUpdate,
+  type SavedAssessment,
+} from "../lib/roi/assessments";
+import type { ModelConfig } from "../lib/roi/config";
+import type { RoiInputs } from "../lib/roi/engine";
+import { formatCurrency, formatPercent, localeFor } from "../lib/roi/format";
+
+type Props = {
+  inputs: RoiInputs;
+  config: ModelConfig;
+  onOpen: (inputs: RoiInputs) => void;
+};
+
+// Where assessments are kept: the shared file store behind the API, or
+// this browser when the API isn't available (static hosting, offline)
+type AssessmentStore = {
+  kind: "server" | "browser";
+  list: () => Promise<SavedAssessment[]>;
+  create: (draft: AssessmentDraft) => Promise<SavedAssessment>;
+  update: (id: string, update: AssessmentUpdate) => Promise<SavedAssessment>;
+  remove: (id: string) => Promise<void>;
+};
+
+type Status =
+  | { kind: "idle" }
+  | { kind: "busy" }
+  | { kind: "error"; message: string }
+  | { kind: "saved"; name: string };
+
+const STORAGE_KEY = "edgetier-roi:assessments";
+
+const PASSWORD_HEADER = "x-admin-password";
+
+// Carries the status so a wrong or missing password can be told apart
+type RequestError = Error & { status?: number };
+
+const readError = async (response: Response) => {
+  try {
+    const body = await response.json();
+    return typeof body.error === "string" ? body.error : "Request failed.";
+  } catch {
+    return `Request failed (${response.status}).`;
+  }
+};
+
+const request = async (url: string, password: string, init?: RequestInit) => {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      [PASSWORD_HEADER]: password,
+    },
+  });
+  if (!response.ok) {
+    const error: RequestError = new Error(await readError(response));
+    error.status = response.status;
+    throw error;
+  }
+  return response;
+};
+
+const serverStore = (password: string): AssessmentStore => ({
+  kind: "server",
+  list: async () => {
+    const body = await (await request("/api/assessments", password)).json();
+    return parseStoredAssessments(body.assessments);
+  },
+  create: async (draft) => {
+    const response = await request("/api/assessments", password, {
+      method: "POST",
+      body: JSON.stringify(draft),
+    });
+    return (await response.json()).assessment;
+  },
+  update: async (id, update) => {
+    const response = await request(
+      `/api/assessments/${encodeURIComponent(id)}`,
+      password,
+      { method: "PUT", body: JSON.stringify(update) }
+    );
+    return (await response.json()).assessment;
+  },
+  remove: async (id) => {
+    await request(`/api/assessments/${encodeURIComponent(id)}`, password, {
+      method: "DELETE",
+    });
+  },
+});
+
+const browserStore = (config: ModelConfig): AssessmentStore => {
+  const read = () => {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      return raw ? parseStoredAssessments(JSON.parse(raw)) : [];
+    } catch {
+      // Ignore unreadable storage and start fresh
+      return [];
+    }
+  };
+  const write = (assessments: SavedAssessment[]) => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(assessments));
+    } catch {
+      throw new Error("This browser's storage is full or disabled.");
+    }
+  };
+  // Same checks the API runs, so both stores hold the same records
+  const firstIssue = (issues: { message: string }[]) =>
+    new Error(issues[0]?.message ?? "The assessment has errors.");
+
+  return {
+    kind: "browser",
+    list: async () => sortAssessments(read()),
+    create: async (draft) => {
+      const parsed = parseAssessmentDraft(draft);
+      if (!parsed.draft) throw firstIssue(parsed.issues);
+      const assessment = createAssessment(parsed.draft, config);
+      write([...read(), assessment]);
+      return assessment;
+    },
+    update: async (id, update) => {
+      const parsed = parseAssessmentUpdate(update);
+      if (!parsed.update) throw firstIssue(parsed.issues);
+      const assessments = read();
+      const index = assessments.findIndex((assessment) => assessment.id === id);
+      if (index === -1) throw new Error("Assessment not found.");
+      assessments[index] = reviseAssessment(
+        assessments[index],
+        parsed.update,
+        config
+      );
+      write(assessments);
+      return assessments[index];
+    },
+    remove: async (id) => {
+      write(read().filter((assessment) => assessment.id !== id));
+    },
+  };
+};
+
+const formatDate = (iso: string, locale: string) =>
+  new Date(iso).toLocaleString(locale, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+// Stored results went through JSON, where a payback that never comes
+// (Infinity) turns into null
+const formatPayback = (months: number | null) =>
+  months !== null && Number.isFinite(months) && months > 0
+    ? `${months.toFixed(1)} months`
+    : "-";
+
+const SavedAssessments: React.FC<Props> = ({ inputs, config, onOpen }) => {
+  const [open, setOpen] = useState(false);
+  const [store, setStore] = useState<AssessmentStore | null>(null);
+  const [assessments, setAssessments] = useState<SavedAssessment[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [prospectName, setProspectName] = useState("");
+  const [notes, setNotes] = useState("");
+  const [status, setStatus] = useState<Status>({ kind: "idle" });
+  // Set while the shared store is waiting for the admin password
+  const [locked, setLocked] = useState(false);
+  const [password, setPassword] = useState("");
+
+  // Prefer the shared server store; fall back to this browser
+  useEffect(() => {
+    const connect = async () => {
+      try {
+        const server = serverStore("");
+        setAssessments(await server.list());
+        setStore(server);
+      } catch (error) {
+        setLocked((error as RequestError).status === 401);
+        const local = browserStore(config);
+        setAssessments(await local.list());
+        setStore(local);
+      }
+    };
+    connect();
+  }, [config]);
+
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus({ kind: "busy" });
+    try {
+      const server = serverStore(password);
+      setAssessments(await server.list());
+      setStore(server);
+      setLocked(false);
+      setStatus({ kind: "idle" });
+    } catch (error) {
+      setStatus({
+        kind: "error",
+        message: (error as Error).message || "Couldn't unlock the store.",
+      });
+    }
+  };
+
+  // Runs a change against the store, then reloads the list
+  const run = async (
+    action: (target: AssessmentStore) => Promise<string | void>
+  ) => {
+    if (!store) return;
+    setStatus({ kind: "busy" });
+    try {
+      const savedName = await action(store);
+      setAssessments(await store.list());
+      setStatus(
+        savedName ? { kind: "saved", name: savedName } : { kind: "idle" }
+      );
+    } catch (error) {
+      setStatus({
+        kind: "error",
+        message: (error as Error).message || "Couldn't save the assessment.",
+      });
+    }
+  };
+
+  const draft: AssessmentDraft = {
+    prospectName: prospectName.trim(),
+    notes,
+    inputs: withoutConfig(inputs),
+  };
+  const active = assessments.find((assessment) => assessment.id === activeId);
+
+  const saveNew = () =>
+    run(async (target) => {
+      const assessment = await target.create(draft);
+      setActiveId(assessment.id);
+      return assessment.prospectName;
+    });
+
+  const saveRevision = () =>
+    run(async (target) => {
+      if (!activeId) return;
+      const assessment = await target.update(activeId, draft);
+      return assessment.prospectName;
+    });
+
+  const reopen = (assessment: SavedAssessment) => {
+    onOpen(latestRevision(assessment).inputs);
+    setActiveId(assessment.id);
+    setProspectName(assessment.prospectName);
+    setNotes(assessment.notes);
+    setStatus({ kind: "idle" });
+  };
+
+  const duplicate = (assessment: SavedAssessment) =>
+    run(async (target) => {
+      await target.create(duplicateDraft(assessment));
+    });
+
+  const remove = (assessment: SavedAssessment) => {
+    if (!window.confirm(`Delete the assessment for ${assessment.prospectName}?`))
+      return;
+    run(async (target) => {
+      await target.remove(assessment.id);
+      if (assessment.id === activeId) setActiveId(null);
+    });
+  };
+
+  const storeNote =
+    store?.kind === "server"
+      ? "Saved to the shared store, so colleagues can open them too."
+      : locked
+      ? "The shared store needs the admin password, so assessments are kept in this browser until it's unlocked."
+      : "The server store isn't available, so assessments are kept in this browser only.";
+
+  const pillClass =
+    "rounded-full px-2 py-0.5 text-[11px] bg-slate-100 text-slate-700 hover:bg-slate-200";
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        className="flex w-full items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="font-semibold text-slate-900">
+          Saved assessments
+          {assessments.length > 0 && ` (${assessments.length})`}
+        </span>
+        <span className="text-slate-500">{open ? "Hide" : "Show"}</span>
+      </button>
+
+      {open && (
+        <div className="space-y-4 border-t border-slate-100 px-4 py-3">
+          <div className="space-y-2">
+            <label
+              htmlFor="assessment-prospect"
+              className="font-semibold text-slate-800"
+            >
+              Prospect name
+            </label>
+            <input
+              id="assessment-prospect"
+              value={prospectName}
+              maxLength={ASSESSMENT_NAME_MAX_LENGTH}
+              onChange={(e) => setProspectName(e.target.value)}
+              placeholder="e.g. Acme Retail"
+              className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-900"
+            />
+            <label
+              htmlFor="assessment-notes"
+              className="block font-semibold text-slate-800"
+            >
+              Notes
+            </label>
+            <textarea
+              id="assessment-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              placeholder="Context from the call, agreed assumptions, next steps…"
+              className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-900"
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              {active && (
+                <button
+                  type="button"
+                  onClick={saveRevision}
+                  disabled={status.kind === "busy" || draft.prospectName === ""}
+                  className="rounded-full bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-emerald-700 disabled:opacity-50"
+                >
+                  Update {active.prospectName}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={saveNew}
+                disabled={
+                  !store || status.kind === "busy" || draft.prospectName === ""
+                }
+                className={
+                  active
+                    ? "rounded-full bg-slate-100 px-3 py-1.5 text-xs text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+                    : "rounded-full bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-emerald-700 disabled:opacity-50"
+                }
+              >
+                {active ? "Save as new assessment" : "Save assessment"}
+              </button>
+            </div>
+            {status.kind === "error" && (
+              <p className="text-[11px] text-rose-600">{status.message}</p>
+            )}
+            {status.kind === "saved" && (
+              <p className="text-[11px] text-emerald-700">
+                Saved {status.name}.
+              </p>
+            )}
+            {store && (
+              <p className="text-[11px] text-slate-500">
+                {storeNote}
+              </p>
+            )}
+          </div>
+
+          {locked && (
+            <form
+              onSubmit={unlock}
+              className="flex flex-wrap items-center gap-2 rounded-xl bg-slate-50 p-3"
+            >
+              <label htmlFor="assessment-password" className="text-slate-700">
+                Admin password
+              </label>
+              <input
+                id="assessment-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-900"
+              />
+              <button
+                type="submit"
+                disabled={status.kind === "busy" || password === ""}
+                className="rounded-full bg-emerald-600 px-3 py-1.5 font-semibold text-white shadow-sm hover:bg-emerald-700 disabled:opacity-50"
+              >
+                Unlock shared store
+              </button>
+            </form>
+          )}
+
+          {assessments.length === 0 ? (
+            <p className="text-[11px] text-slate-500">
+              No saved assessments yet.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {assessments.map((assessment) => {
+                const latest = latestRevision(assessment);
+                const locale = localeFor(latest.results.currency);
+                const showHistory = historyId === assessment.id;
+                return (
+                  <li
+                    key={assessment.id}
+                    className={`rounded-xl border p-3 ${
+                      assessment.id === activeId
+                        ? "border-emerald-300 bg-emerald-50"
+                        : "border-slate-100 bg-slate-50"
+                    }`}
+                  >
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div>
+                        <p className="font-semibold text-slate-900">
+                          {assessment.prospectName}
+                        </p>
+                        <p className="text-[11px] text-slate-500">
+                          Updated {formatDate(assessment.updatedAt, locale)} ·{" "}
+                          {formatCurrency(
+                            latest.results.totalAnnualBenefit,
+                            latest.results.currency
+                          )}{" "}
+                          a year · ROI{" "}
+                          {formatPercent(latest.results.roiPct, locale)}
+                        </p>
+                        {assessment.notes && (
+                          <p className="mt-1 whitespace-pre-line text-[11px] text-slate-600">
+                            {assessment.notes}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        <button
+                          type="button"
+                          onClick={() => reopen(assessment)}
+                          className="rounded-full bg-emerald-600 px-2 py-0.5 text-[11px] text-white hover:bg-emerald-700"
+                        >
+                          Open
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setHistoryId(showHistory ? null : assessment.id)
+                          }
+                          aria-expanded={showHistory}
+                          className={pillClass}
+                        >
+                          History ({assessment.revisions.length})
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => duplicate(assessment)}
+                          disabled={status.kind === "busy"}
+                          className={pillClass}
+                        >
+                          Duplicate
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => remove(assessment)}
+                          disabled={status.kind === "busy"}
+                          className="rounded-full px-2 py-0.5 text-[11px] text-rose-600 hover:bg-rose-50"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+
+                    {showHistory && (
+                      <table className="mt-2 w-full text-right text-[11px]">
+                        <thead className="text-slate-500">
+                          <tr>
+                            <th className="py-1 text-left font-medium">
+                              Saved
+                            </th>
+                            <th className="py-1 font-medium">Config</th>
+                            <th className="py-1 font-medium">Annual benefit</th>
+                            <th className="py-1 font-medium">ROI</th>
+                            <th className="py-1 font-medium">Payback</th>
+                          </tr>
+                        </thead>
+                        <tbody className="text-slate-800">
+                          {[...assessment.revisions].reverse().map((revision) => (
+                            <tr
+                              key={revision.savedAt}
+                              className="border-t border-slate-100"
+                            >
+                              <td className="py-1 text-left">
+                                {formatDate(revision.savedAt, locale)}
+                              </td>
+                              <td className="py-1">{revision.configVersion}</td>
+                              <td className="py-1">
+                                {formatCurrency(
+                                  revision.results.totalAnnualBenefit,
+                                  revision.results.currency
+                                )}
+                              </td>
+                              <td className="py-1">
+                                {formatPercent(revision.results.roiPct, locale)}
+                              </td>
+                              <td className="py-1">
+                                {formatPayback(revision.results.paybackMonths)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedAssessments;
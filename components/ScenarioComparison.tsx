@@ -0,0 +1,257 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import type { AiImprovements } from "../lib/roi/constants";
+import type { CurrencyCode } from "../lib/roi/currency";
+import type { RoiInputs, RoiResult } from "../lib/roi/engine";
+import {
+  formatCurrency,
+  formatPercent,
+  localeFor,
+} from "../lib/roi/format";
+import {
+  IMPROVEMENT_KEYS,
+  clampImprovementPct,
+  presetScenarios,
+  runScenario,
+  type Scenario,
+} from "../lib/roi/scenarios";
+
+type Props = {
+  inputs: RoiInputs;
+  results: RoiResult;
+  currency: CurrencyCode;
+};
+
+type StoredScenarios = {
+  presetEdits: Record<string, Partial<AiImprovements>>;
+  saved: Scenario[];
+};
+
+const STORAGE_KEY = "edgetier-roi:scenarios";
+
+const IMPROVEMENT_LABELS: Record<keyof AiImprovements, string> = {
+  ahtReductionPct: "AHT reduction %",
+  qaEfficiencyGainPct: "QA efficiency gain %",
+  contactDeflectionPct: "Contact deflection %",
+};
+
+const ScenarioComparison: React.FC<Props> = ({
+  inputs,
+  results: baseResults,
+  currency,
+}) => {
+  const locale = localeFor(currency);
+  const [stored, setStored] = useState<StoredScenarios>({
+    presetEdits: {},
+    saved: [],
+  });
+  const [newName, setNewName] = useState("");
+
+  // Saved scenarios live for the browser session only
+  useEffect(() => {
+    try {
+      const raw = window.sessionStorage.getItem(STORAGE_KEY);
+      if (raw) setStored(JSON.parse(raw) as StoredScenarios);
+    } catch {
+      // Ignore unreadable storage and start fresh
+    }
+  }, []);
+
+  const update = (next: StoredScenarios) => {
+    setStored(next);
+    try {
+      window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Storage may be full or disabled – keep the in-memory copy
+    }
+  };
+
+  const scenarios = useMemo<Scenario[]>(
+    () => [
+      ...presetScenarios(baseResults).map((scenario) => ({
+        ...scenario,
+        improvements: {
+          ...scenario.improvements,
+          ...stored.presetEdits[scenario.id],
+        },
+      })),
+      ...stored.saved,
+    ],
+    [baseResults, stored]
+  );
+
+  const results = useMemo(
+    () =>
+      scenarios.map((scenario) => runScenario(inputs, baseResults, scenario)),
+    [inputs, baseResults, scenarios]
+  );
+
+  const savedIds = new Set(stored.saved.map((scenario) => scenario.id));
+
+  const setImprovement = (
+    scenario: Scenario,
+    key: keyof AiImprovements,
+    raw: string
+  ) => {
+    const value = Number(raw);
+    if (raw.trim() === "" || !Number.isFinite(value)) return;
+    const pct = clampImprovementPct(value);
+
+    if (savedIds.has(scenario.id)) {
+      update({
+        ...stored,
+        saved: stored.saved.map((s) =>
+          s.id === scenario.id
+            ? { ...s, improvements: { ...s.improvements, [key]: pct } }
+            : s
+        ),
+      });
+    } else {
+      update({
+        ...stored,
+        presetEdits: {
+          ...stored.presetEdits,
+          [scenario.id]: { ...stored.presetEdits[scenario.id], [key]: pct },
+        },
+      });
+    }
+  };
+
+  const saveScenario = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const expected = scenarios.find((s) => s.id === "expected");
+    update({
+      ...stored,
+      saved: [
+        ...stored.saved,
+        {
+          id: `saved-${Date.now()}`,
+          name,
+          improvements: { ...(expected ?? scenarios[0]).improvements },
+        },
+      ],
+    });
+    setNewName("");
+  };
+
+  const removeScenario = (id: string) =>
+    update({ ...stored, saved: stored.saved.filter((s) => s.id !== id) });
+
+  const rows: { label: string; render: (index: number) => string }[] = [
+    {
+      label: "Total benefit",
+      render: (i) => formatCurrency(results[i].totalAnnualBenefit, currency),
+    },
+    {
+      label: "Net gain",
+      render: (i) => formatCurrency(results[i].netGain, currency),
+    },
+    {
+      label: "ROI",
+      render: (i) => formatPercent(results[i].roiPct, locale),
+    },
+    {
+      label: "Payback",
+      render: (i) =>
+        results[i].paybackMonths > 0
+          ? `${results[i].paybackMonths.toFixed(1)} months`
+          : "-",
+    },
+  ];
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white p-4 text-xs">
+      <p className="font-semibold text-slate-900">Compare scenarios</p>
+      <p className="text-[11px] text-slate-500">
+        &quot;What if it&apos;s only half that?&quot; Edit any percentage to
+        see how the outcome moves. Priorities from step 5 still apply.
+      </p>
+
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full text-right text-[11px]">
+          <thead>
+            <tr className="text-slate-500">
+              <th className="py-1 text-left font-medium" />
+              {scenarios.map((scenario) => (
+                <th key={scenario.id} className="py-1 pl-2 font-semibold">
+                  <span className="text-slate-800">{scenario.name}</span>
+                  {savedIds.has(scenario.id) && (
+                    <button
+                      type="button"
+                      onClick={() => removeScenario(scenario.id)}
+                      className="ml-1 text-slate-400 hover:text-rose-600"
+                      aria-label={`Remove ${scenario.name}`}
+                    >
+                      ×
+                    </button>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="text-slate-800">
+            {IMPROVEMENT_KEYS.map((key) => (
+              <tr key={key} className="border-t border-slate-100">
+                <td className="py-1 text-left text-slate-500">
+                  {IMPROVEMENT_LABELS[key]}
+                </td>
+                {scenarios.map((scenario) => (
+                  <td key={scenario.id} className="py-1 pl-2">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={0.5}
+                      value={Number(scenario.improvements[key].toFixed(1))}
+                      onChange={(e) =>
+                        setImprovement(scenario, key, e.target.value)
+                      }
+                      aria-label={`${scenario.name} ${IMPROVEMENT_LABELS[key]}`}
+                      className="w-16 rounded border border-slate-200 px-1 py-0.5 text-right"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {rows.map((row) => (
+              <tr key={row.label} className="border-t border-slate-100">
+                <td className="py-1 text-left text-slate-500">{row.label}</td>
+                {scenarios.map((scenario, index) => (
+                  <td key={scenario.id} className="py-1 pl-2 font-medium">
+                    {row.render(index)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Name a new scenario, e.g. CFO case"
+          className="flex-1 rounded-lg border border-slate-200 px-3 py-1.5 text-xs"
+        />
+        <button
+          type="button"
+          onClick={saveScenario}
+          disabled={!newName.trim()}
+          className={`rounded-full px-3 py-1.5 text-xs font-medium ${
+            newName.trim()
+              ? "bg-slate-900 text-white hover:bg-slate-700"
+              : "cursor-not-allowed bg-slate-100 text-slate-400"
+          }`}
+        >
+          Save scenario
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioComparison;
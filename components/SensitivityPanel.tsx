@@ -0,0 +1,202 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { CurrencyCode } from "../lib/roi/currency";
+import type { RoiInputs, RoiResult } from "../lib/roi/engine";
+import {
+  formatCurrency,
+  formatPercent,
+  localeFor,
+} from "../lib/roi/format";
+import {
+  findBreakEvens,
+  runSensitivity,
+  type BreakEven,
+  type SensitivityOutcome,
+} from "../lib/roi/sensitivity";
+
+type Props = {
+  inputs: RoiInputs;
+  results: RoiResult;
+  currency: CurrencyCode;
+};
+
+type Metric = keyof SensitivityOutcome;
+
+const VARIATIONS = [10, 20, 30, 50];
+
+const breakEvenText = (item: BreakEven) => {
+  switch (item.status) {
+    case "breaks-even":
+      return `${item.breakEvenPct?.toFixed(1)}% (from ${item.currentPct.toFixed(
+        1
+      )}%)`;
+    case "always-positive":
+      return "Net gain stays positive even at 0%";
+    case "already-negative":
+      return "Net gain is already negative";
+    default:
+      return "Not in this model (priority not selected)";
+  }
+};
+
+const SensitivityPanel: React.FC<Props> = ({ inputs, results, currency }) => {
+  const [open, setOpen] = useState(false);
+  const [variationPct, setVariationPct] = useState(20);
+  const [metric, setMetric] = useState<Metric>("netGain");
+  const locale = localeFor(currency);
+
+  const rows = useMemo(
+    () => (open ? runSensitivity(inputs, results, variationPct) : []),
+    [open, inputs, results, variationPct]
+  );
+  const breakEvens = useMemo(
+    () => (open ? findBreakEvens(inputs, results) : []),
+    [open, inputs, results]
+  );
+
+  const baseValue = metric === "netGain" ? results.netGain : results.roiPct;
+  const formatDelta = (delta: number) => {
+    const sign = delta > 0 ? "+" : "";
+    return metric === "netGain"
+      ? `${sign}${formatCurrency(delta, currency)}`
+      : `${sign}${delta.toFixed(0)} pts`;
+  };
+
+  const maxDelta = Math.max(
+    1e-9,
+    ...rows.flatMap((row) => [
+      Math.abs(row.low[metric] - baseValue),
+      Math.abs(row.high[metric] - baseValue),
+    ])
+  );
+
+  const renderBar = (delta: number, tone: string) => {
+    const width = `${(Math.abs(delta) / maxDelta) * 50}%`;
+    return (
+      <div
+        className={`absolute top-0 h-full ${tone}`}
+        style={
+          delta < 0
+            ? { right: "50%", width }
+            : { left: "50%", width }
+        }
+      />
+    );
+  };
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        aria-expanded={open}
+        className="flex w-full items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="font-semibold text-slate-900">
+          What drives the ROI? (sensitivity)
+        </span>
+        <span className="text-slate-500">{open ? "Hide" : "Show"}</span>
+      </button>
+
+      {open && (
+        <div className="space-y-4 border-t border-slate-100 px-4 py-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-1">
+              <span className="text-[11px] text-slate-500">Vary by ±</span>
+              {VARIATIONS.map((pct) => (
+                <button
+                  key={pct}
+                  type="button"
+                  onClick={() => setVariationPct(pct)}
+                  className={`rounded-full px-2 py-0.5 text-[11px] ${
+                    variationPct === pct
+                      ? "bg-emerald-600 text-white"
+                      : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+                  }`}
+                >
+                  {pct}%
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1">
+              {(["netGain", "roiPct"] as Metric[]).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setMetric(m)}
+                  className={`rounded-full px-2 py-0.5 text-[11px] ${
+                    metric === m
+                      ? "bg-slate-900 text-white"
+                      : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+                  }`}
+                >
+                  {m === "netGain" ? "Net gain" : "ROI"}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-[11px] text-slate-500">
+              Base case:{" "}
+              <span className="font-semibold text-slate-800">
+                {metric === "netGain"
+                  ? formatCurrency(results.netGain, currency)
+                  : formatPercent(results.roiPct, locale)}
+              </span>
+              . Ranked by impact; grey = −{variationPct}%, green = +
+              {variationPct}%.
+            </p>
+            <div className="mt-2 space-y-1.5">
+              {rows.map((row) => {
+                const lowDelta = row.low[metric] - baseValue;
+                const highDelta = row.high[metric] - baseValue;
+                return (
+                  <div
+                    key={row.driver}
+                    className="grid grid-cols-[9rem_1fr] items-center gap-2"
+                  >
+                    <span className="truncate text-[11px] text-slate-700">
+                      {row.label}
+                    </span>
+                    <div
+                      className="relative h-4 rounded bg-slate-50"
+                      title={`−${variationPct}%: ${formatDelta(
+                        lowDelta
+                      )} · +${variationPct}%: ${formatDelta(highDelta)}`}
+                    >
+                      {renderBar(lowDelta, "bg-slate-400")}
+                      {renderBar(highDelta, "bg-emerald-500")}
+                      <div className="absolute left-1/2 top-0 h-full w-px bg-slate-700" />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="rounded-xl bg-slate-50 p-3">
+            <p className="font-medium text-slate-800">Break-even points</p>
+            <p className="text-[11px] text-slate-500">
+              How low each improvement can fall, with everything else held,
+              before net gain reaches zero.
+            </p>
+            <ul className="mt-2 space-y-1">
+              {breakEvens.map((item) => (
+                <li key={item.driver} className="flex justify-between gap-2">
+                  <span>{item.label}</span>
+                  <span className="text-right font-medium">
+                    {breakEvenText(item)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SensitivityPanel;
@@ -0,0 +1,57 @@
+"use client";
+
+import React, { useState } from "react";
+import type { RoiInputs } from "../lib/roi/engine";
+import { encodeScenario } from "../lib/roi/scenarioUrl";
+
+type Props = {
+  inputs: RoiInputs;
+};
+
+const ShareScenarioLink: React.FC<Props> = ({ inputs }) => {
+  const [status, setStatus] = useState<"idle" | "copied" | "manual">("idle");
+  const [url, setUrl] = useState("");
+
+  const handleShare = async () => {
+    const { origin, pathname } = window.location;
+    const link = `${origin}${pathname}?${encodeScenario(inputs)}`;
+    setUrl(link);
+    try {
+      await navigator.clipboard.writeText(link);
+      setStatus("copied");
+    } catch {
+      // Clipboard can be blocked (e.g. insecure origin) – show the link instead
+      setStatus("manual");
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white p-4 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className="font-semibold text-slate-900">Share this scenario</p>
+          <p className="text-[11px] text-slate-500">
+            The link reopens the calculator with these exact answers.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleShare}
+          className="rounded-full bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-emerald-700"
+        >
+          {status === "copied" ? "Link copied" : "Copy share link"}
+        </button>
+      </div>
+      {status === "manual" && (
+        <input
+          readOnly
+          value={url}
+          onFocus={(e) => e.target.select()}
+          className="mt-3 w-full rounded-lg border border-slate-200 px-3 py-1.5 text-[11px] text-slate-700"
+        />
+      )}
+    </div>
+  );
+};
+
+export default ShareScenarioLink;
@@ -0,0 +1,91 @@
+"use client";
+
+import React from "react";
+import type { CurrencyCode } from "../lib/roi/currency";
+import type { RoiResult } from "../lib/roi/engine";
+import {
+  formatCurrency,
+  formatNumber,
+  formatPercent,
+  localeFor,
+} from "../lib/roi/format";
+
+type Props = {
+  results: RoiResult;
+  currency: CurrencyCode;
+};
+
+const SiteBreakdown: React.FC<Props> = ({ results, currency }) => {
+  const locale = localeFor(currency);
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white px-4 py-3 text-xs">
+      <p className="font-semibold text-slate-900">Results by site</p>
+      <p className="text-[11px] text-slate-500">
+        The combined price is shared out by agent count. Revenue protected
+        isn&apos;t split by site.
+      </p>
+      <table className="mt-2 w-full">
+        <thead>
+          <tr className="text-left text-[11px] text-slate-500">
+            <th className="py-1 font-medium">Site</th>
+            <th className="py-1 text-right font-medium">Agents</th>
+            <th className="py-1 text-right font-medium">Handling</th>
+            <th className="py-1 text-right font-medium">QA</th>
+            <th className="py-1 text-right font-medium">Reduction</th>
+            <th className="py-1 text-right font-medium">EdgeTier</th>
+            <th className="py-1 text-right font-medium">ROI</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.sites.map((site, index) => (
+            <tr key={index} className="border-t border-slate-100">
+              <td className="py-1 font-medium text-slate-700">{site.name}</td>
+              <td className="py-1 text-right">
+                {formatNumber(site.numAgents, locale)}
+              </td>
+              <td className="py-1 text-right">
+                {formatCurrency(site.savingsAht, currency)}
+              </td>
+              <td className="py-1 text-right">
+                {formatCurrency(site.savingsQa, currency)}
+              </td>
+              <td className="py-1 text-right">
+                {formatCurrency(site.savingsDeflection, currency)}
+              </td>
+              <td className="py-1 text-right">
+                {formatCurrency(site.edgetierAnnualCost, currency)}
+              </td>
+              <td className="py-1 text-right font-semibold">
+                {formatPercent(site.roiPct, locale)}
+              </td>
+            </tr>
+          ))}
+          <tr className="border-t border-slate-200 font-semibold">
+            <td className="py-1">All sites</td>
+            <td className="py-1 text-right">
+              {formatNumber(results.numAgents, locale)}
+            </td>
+            <td className="py-1 text-right">
+              {formatCurrency(results.savingsAht, currency)}
+            </td>
+            <td className="py-1 text-right">
+              {formatCurrency(results.savingsQa, currency)}
+            </td>
+            <td className="py-1 text-right">
+              {formatCurrency(results.savingsDeflection, currency)}
+            </td>
+            <td className="py-1 text-right">
+              {formatCurrency(results.edgetierAnnualCost, currency)}
+            </td>
+            <td className="py-1 text-right">
+              {formatPercent(results.roiPct, locale)}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default SiteBreakdown;
@@ -0,0 +1,167 @@
+"use client";
+
+import React from "react";
+import { ASSUMPTION_FIELDS, isValidAssumption } from "../lib/roi/assumptions";
+import type { CurrencyCode } from "../lib/roi/currency";
+import { formatCurrency } from "../lib/roi/format";
+import {
+  MAX_SITES,
+  MIN_SITES,
+  SITE_NAME_MAX_LENGTH,
+  isValidSiteName,
+  type SiteProfile,
+} from "../lib/roi/sites";
+
+type Props = {
+  // Null while the assessment covers a single team
+  sites: SiteProfile[] | null;
+  activeSite: number;
+  onToggle: (enabled: boolean) => void;
+  onSelect: (index: number) => void;
+  onAdd: () => void;
+  onRemove: (index: number) => void;
+  onUpdate: (index: number, change: Partial<SiteProfile>) => void;
+  // Shared cost per agent used by sites without their own
+  defaultCostPerAgent: number;
+  currency: CurrencyCode;
+};
+
+const SiteManager: React.FC<Props> = ({
+  sites,
+  activeSite,
+  onToggle,
+  onSelect,
+  onAdd,
+  onRemove,
+  onUpdate,
+  defaultCostPerAgent,
+  currency,
+}) => {
+  const site = sites?.[activeSite];
+  const costBounds = ASSUMPTION_FIELDS.annualCostPerAgent;
+  const costInvalid =
+    site?.annualCostPerAgent !== undefined &&
+    !isValidAssumption("annualCostPerAgent", site.annualCostPerAgent);
+
+  return (
+    <div className="mt-4 rounded-xl bg-slate-50 p-3 text-xs">
+      <div className="flex items-center gap-2">
+        <input
+          id="site-mode"
+          type="checkbox"
+          checked={sites !== null}
+          onChange={(e) => onToggle(e.target.checked)}
+          className="h-3 w-3 accent-emerald-600"
+        />
+        <label htmlFor="site-mode" className="text-slate-700">
+          This assessment covers several sites or teams
+        </label>
+      </div>
+
+      {sites && site && (
+        <>
+          <p className="mt-1 text-[11px] text-slate-500">
+            Questions 1–4 are answered for each site in turn. Pricing is quoted
+            on all sites together.
+          </p>
+
+          <div className="mt-2 flex flex-wrap gap-2">
+            {sites.map((entry, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => onSelect(index)}
+                className={`rounded-full border px-3 py-1 text-[11px] ${
+                  index === activeSite
+                    ? "border-emerald-500 bg-emerald-50 text-emerald-700"
+                    : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
+                }`}
+              >
+                {entry.name.trim() || `Site ${index + 1}`}
+              </button>
+            ))}
+            {sites.length < MAX_SITES && (
+              <button
+                type="button"
+                onClick={onAdd}
+                className="text-[11px] font-medium text-emerald-700 hover:underline"
+              >
+                + Add a site
+              </button>
+            )}
+          </div>
+
+          <div className="mt-3 grid gap-2 md:grid-cols-2">
+            <label className="block">
+              <span className="font-semibold text-slate-800">Site name</span>
+              <input
+                type="text"
+                value={site.name}
+                maxLength={SITE_NAME_MAX_LENGTH}
+                onChange={(e) => onUpdate(activeSite, { name: e.target.value })}
+                aria-invalid={!isValidSiteName(site.name)}
+                className={`mt-1 w-full rounded-lg border px-3 py-1.5 text-sm text-slate-900 ${
+                  isValidSiteName(site.name)
+                    ? "border-slate-200"
+                    : "border-rose-400"
+                }`}
+              />
+            </label>
+            <label className="block">
+              <span className="font-semibold text-slate-800">
+                {costBounds.label} ({currency} {costBounds.unit})
+              </span>
+              <input
+                type="number"
+                inputMode="decimal"
+                min={costBounds.min}
+                max={costBounds.max}
+                step={costBounds.step}
+                value={site.annualCostPerAgent ?? ""}
+                onChange={(e) =>
+                  onUpdate(activeSite, {
+                    annualCostPerAgent:
+                      e.target.value.trim() === ""
+                        ? undefined
+                        : Number(e.target.value),
+                  })
+                }
+                placeholder={`Shared ${formatCurrency(
+                  defaultCostPerAgent,
+                  currency
+                )}`}
+                aria-invalid={costInvalid}
+                className={`mt-1 w-full rounded-lg border px-3 py-1.5 text-sm text-slate-900 ${
+                  costInvalid ? "border-rose-400" : "border-slate-200"
+                }`}
+              />
+            </label>
+          </div>
+          {!isValidSiteName(site.name) && (
+            <p className="mt-1 text-[11px] text-rose-600">
+              Give this site a name.
+            </p>
+          )}
+          {costInvalid && (
+            <p className="mt-1 text-[11px] text-rose-600">
+              Enter a cost between {formatCurrency(costBounds.min, currency)}{" "}
+              and {formatCurrency(costBounds.max, currency)}, or leave it empty
+              to use the shared cost.
+            </p>
+          )}
+
+          <button
+            type="button"
+            onClick={() => onRemove(activeSite)}
+            disabled={sites.length <= MIN_SITES}
+            className="mt-3 text-[11px] font-medium text-rose-600 hover:underline disabled:cursor-not-allowed disabled:text-slate-400 disabled:no-underline"
+          >
+            Remove this site
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SiteManager;
@@ -0,0 +1,24 @@
+import type { LineItem } from "../roi/lineItems";
+
+const escapeCell = (value: string | number) => {
+  let text = String(value);
+  // Neutralise leading formula characters so spreadsheets don't execute
+  // text cells on open
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const lineItemsToCsv = (items: LineItem[]) => {
+  const header = ["Section", "Key", "Label", "Value", "Unit", "Calculation"];
+  const rows: (string | number)[][] = items.map((item) => [
+    item.section,
+    item.key,
+    item.label,
+    item.value,
+    item.unit,
+    item.formula ?? "",
+  ]);
+  return [header, ...rows]
+    .map((row) => row.map(escapeCell).join(","))
+    .join("\r\n");
+};
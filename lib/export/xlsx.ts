@@ -0,0 +1,94 @@
+import type { LineItem } from "../roi/lineItems";
+import { createZip } from "./zip";
+
+const VALUE_COLUMN = "D";
+const FIRST_DATA_ROW = 2;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const stringCell = (ref: string, text: string) =>
+  `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    text
+  )}</t></is></c>`;
+
+const numberCell = (ref: string, value: number, formula?: string) =>
+  `<c r="${ref}">${formula ? `<f>${escapeXml(formula)}</f>` : ""}<v>${
+    Number.isFinite(value) ? value : 0
+  }</v></c>`;
+
+// Swaps {key} references for the value cell of that line item
+const resolveFormula = (formula: string, rows: Map<string, number>) =>
+  formula.replace(/\{(\w+)\}/g, (_, key: string) => {
+    const row = rows.get(key);
+    if (row === undefined) throw new Error(`Unknown line item "${key}"`);
+    return `${VALUE_COLUMN}${row}`;
+  });
+
+const buildSheet = (items: LineItem[]) => {
+  const rows = new Map(
+    items.map((item, index) => [item.key, index + FIRST_DATA_ROW])
+  );
+  const header = ["Section", "Key", "Label", "Value", "Unit", "Calculation"];
+
+  const headerRow = `<row r="1">${header
+    .map((text, i) => stringCell(`${String.fromCharCode(65 + i)}1`, text))
+    .join("")}</row>`;
+
+  const dataRows = items.map((item, index) => {
+    const r = index + FIRST_DATA_ROW;
+    const formula = item.formula
+      ? resolveFormula(item.formula, rows)
+      : undefined;
+    const valueCell =
+      typeof item.value === "number"
+        ? numberCell(`${VALUE_COLUMN}${r}`, item.value, formula)
+        : stringCell(`${VALUE_COLUMN}${r}`, item.value);
+
+    return `<row r="${r}">${[
+      stringCell(`A${r}`, item.section),
+      stringCell(`B${r}`, item.key),
+      stringCell(`C${r}`, item.label),
+      valueCell,
+      stringCell(`E${r}`, item.unit),
+      stringCell(`F${r}`, formula ? `=${formula}` : ""),
+    ].join("")}</row>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<cols><col min="1" max="1" width="14" customWidth="1"/><col min="2" max="2" width="26" customWidth="1"/><col min="3" max="3" width="44" customWidth="1"/><col min="4" max="4" width="18" customWidth="1"/><col min="5" max="5" width="14" customWidth="1"/><col min="6" max="6" width="60" customWidth="1"/></cols>
+<sheetData>${headerRow}${dataRows.join("")}</sheetData>
+</worksheet>`;
+};
+
+// Single-sheet workbook; values carry live formulas and cached results, and
+// Excel recalculates everything on open.
+export const lineItemsToXlsx = (items: LineItem[]) =>
+  createZip([
+    {
+      path: "[Content_Types].xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+    },
+    {
+      path: "_rels/.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      path: "xl/workbook.xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="ROI model" sheetId="1" r:id="rId1"/></sheets><calcPr calcId="0" fullCalcOnLoad="1"/></workbook>`,
+    },
+    {
+      path: "xl/_rels/workbook.xml.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    },
+    { path: "xl/worksheets/sheet1.xml", content: buildSheet(items) },
+  ]);
@@ -0,0 +1,226 @@
+import { describe, expect, it } from "vitest";
+import {
+  analyseContactData,
+  guessColumnMapping,
+  prefillFromContactData,
+  type ContactDataSummary,
+  type ImportKind,
+  type ImportOptions,
+} from "./contactData";
+import { parseCsv } from "./csv";
+
+const SUMMARY: ContactDataSummary = {
+  kind: "summary",
+  rowsUsed: 30,
+  days: 30,
+  contacts: 36_000,
+  agentCount: 40,
+  contactsPerAgentPerDay: 30,
+  ahtMins: 6.24,
+  ahtDistribution: null,
+  repeatContactRatePct: null,
+  contactsByChannel: [],
+  contactsByReason: [],
+};
+
+const OPTIONS: ImportOptions = { handleTimeUnit: "seconds", dateOrder: "dmy" };
+
+const analyse = (
+  kind: ImportKind,
+  lines: string[],
+  options: Partial<ImportOptions> = {}
+) => {
+  const { csv } = parseCsv(lines.join("\n"));
+  if (!csv) throw new Error("The test CSV didn't parse.");
+  return analyseContactData(
+    kind,
+    csv,
+    guessColumnMapping(kind, csv.header),
+    { ...OPTIONS, ...options }
+  );
+};
+
+const ahtMinsForLevel = (level: number) => [3.5, 5, 7, 10, 14][level - 1];
+
+describe("prefillFromContactData", () => {
+  it("uses every figure inside the wizard's bounds", () => {
+    const prefill = prefillFromContactData(SUMMARY, ahtMinsForLevel);
+    expect(prefill.exact).toEqual({
+      numAgents: 40,
+      contactsPerAgentPerDay: 30,
+      ahtMins: 6.2,
+    });
+    expect(prefill.outOfRange).toEqual([]);
+    expect(prefill.complexityLevel).toBe(3);
+  });
+
+  it("reports figures outside the bounds instead of applying them", () => {
+    const prefill = prefillFromContactData(
+      { ...SUMMARY, agentCount: 25_000, ahtMins: 300 },
+      ahtMinsForLevel
+    );
+    expect(prefill.exact).toEqual({ contactsPerAgentPerDay: 30 });
+    expect(prefill.outOfRange).toEqual([
+      { field: "numAgents", value: 25_000 },
+      { field: "ahtMins", value: 300 },
+    ]);
+    expect(prefill.teamSizeBand).toBe("250+");
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it("matches headers by alias, ignoring case and punctuation", () => {
+    expect(
+      guessColumnMapping("summary", [
+        "Date",
+        "Tickets",
+        "Head count",
+        "Avg. Handle Time",
+        "Repeat rate %",
+      ])
+    ).toEqual({
+      date: 0,
+      contacts: 1,
+      agents: 2,
+      handleTime: 3,
+      repeatRatePct: 4,
+    });
+  });
+
+  it("doesn't read an FCR column as the repeat contact rate", () => {
+    expect(
+      guessColumnMapping("summary", ["date", "contacts", "agents", "aht", "FCR"])
+    ).not.toHaveProperty("repeatRatePct");
+  });
+});
+
+describe("analyseContactData", () => {
+  it("lists malformed rows by line and leaves them out", () => {
+    const { rowsRead, errors, summary } = analyse("interactions", [
+      "timestamp,agent,handle time",
+      "2024-03-01 09:00,ann,300",
+      "yesterday,ann,300",
+      "2024-03-01 10:00,,300",
+      "2024-03-01 11:00,bob,0",
+      ",bob,120",
+    ]);
+    expect(rowsRead).toBe(5);
+    expect(errors).toEqual([
+      { line: 3, message: 'Timestamp "yesterday" isn\'t a date we can read.' },
+      { line: 4, message: "Agent ID is empty." },
+      {
+        line: 5,
+        message:
+          'Handle time "0" must be a duration above 0 and up to 480 minutes.',
+      },
+      { line: 6, message: "Timestamp is empty." },
+    ]);
+    expect(summary?.rowsUsed).toBe(1);
+  });
+
+  it("returns no summary when no row can be used", () => {
+    const analysis = analyse("interactions", [
+      "timestamp,agent,handle time",
+      "not a date,ann,300",
+    ]);
+    expect(analysis.summary).toBeUndefined();
+    expect(analysis.errors).toHaveLength(1);
+  });
+
+  it.each([
+    ["dmy", 1],
+    ["mdy", 2],
+  ] as const)("reads slashed dates as %s", (dateOrder, days) => {
+    const { errors, summary } = analyse(
+      "interactions",
+      [
+        "timestamp,agent,handle time",
+        "2024-03-01 09:00,ann,300",
+        "01/03/2024 17:00,ann,300",
+      ],
+      { dateOrder }
+    );
+    // Month-first reads 01/03 as 3 January
+    expect(errors).toEqual([]);
+    expect(summary?.days).toBe(days);
+  });
+
+  it("rejects dates that don't exist", () => {
+    const { errors } = analyse("interactions", [
+      "timestamp,agent,handle time",
+      "31/02/2024,ann,300",
+      "2024-02-30,ann,300",
+      "29/02/2024,ann,300",
+    ]);
+    expect(errors.map((error) => error.line)).toEqual([2, 3]);
+
+    const monthFirst = analyse(
+      "interactions",
+      ["timestamp,agent,handle time", "13/03/2024,ann,300"],
+      { dateOrder: "mdy" }
+    );
+    expect(monthFirst.errors.map((error) => error.line)).toEqual([2]);
+  });
+
+  it("reads clock handle times whatever the unit", () => {
+    const { summary } = analyse(
+      "interactions",
+      [
+        "timestamp,agent,handle time",
+        "2024-03-01 09:00,ann,4:30",
+        "2024-03-01 10:00,ann,0:05:30",
+        "2024-03-01 11:00,ann,6",
+      ],
+      { handleTimeUnit: "minutes" }
+    );
+    expect(summary?.ahtMins).toBeCloseTo((4.5 + 5.5 + 6) / 3, 6);
+  });
+
+  it("counts a repeat only within the 7-day window", () => {
+    const { summary } = analyse("interactions", [
+      "timestamp,agent,handle time,customer",
+      "2024-03-01 09:00,ann,300,c1",
+      "2024-03-08 09:00,ann,300,c1",
+      "2024-03-20 09:00,ann,300,c1",
+      "2024-03-01 09:00,bob,300,c2",
+    ]);
+    // c1's first contact is followed up on day 7; its second isn't until
+    // day 19
+    expect(summary?.repeatContactRatePct).toBeCloseTo(25, 6);
+  });
+
+  it("has no repeat rate without a customer column", () => {
+    const { summary } = analyse("interactions", [
+      "timestamp,agent,handle time",
+      "2024-03-01 09:00,ann,300",
+    ]);
+    expect(summary?.repeatContactRatePct).toBeNull();
+  });
+
+  it("weights a daily summary's handle time and repeat rate by volume", () => {
+    const { errors, summary } = analyse(
+      "summary",
+      [
+        "date;contacts;agents;aht;repeat rate",
+        "01/03/2024;100;10;4;10%",
+        "02/03/2024;300;12;8;20",
+        "03/03/2024;200;11;6;150",
+      ],
+      { handleTimeUnit: "minutes" }
+    );
+    expect(errors).toEqual([
+      {
+        line: 4,
+        message: "Repeat contact rate must be a percentage from 0 to 100.",
+      },
+    ]);
+    expect(summary).toMatchObject({
+      days: 2,
+      contacts: 400,
+      agentCount: 12,
+      contactsPerAgentPerDay: 400 / 22,
+      ahtMins: 7,
+      repeatContactRatePct: 17.5,
+    });
+  });
+});
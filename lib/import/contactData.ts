@@ -0,0 +1,627 @@
+import { contactBandFor } from "../roi/benchmarks";
+import {
+  COMPLEXITY_LEVELS,
+  type ComplexityLevel,
+  type ContactVolumeBand,
+  type TeamSizeBand,
+} from "../roi/constants";
+import {
+  isValidExactValue,
+  type ExactField,
+  type ExactInputs,
+} from "../roi/exact";
+import type { ParsedCsv } from "./csv";
+
+// "interactions" has one row per contact; "summary" one row per day
+export type ImportKind = "interactions" | "summary";
+
+export type ImportField =
+  | "timestamp"
+  | "channel"
+  | "agentId"
+  | "handleTime"
+  | "contactReason"
+  | "customerId"
+  | "date"
+  | "contacts"
+  | "agents"
+  | "repeatRatePct";
+
+export type ImportColumn = {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  // Header names we recognise, compared lower-case without punctuation
+  aliases: string[];
+};
+
+// Field -> index of the column it is read from
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type HandleTimeUnit = "seconds" | "minutes";
+export type DateOrder = "dmy" | "mdy";
+
+export type ImportOptions = {
+  handleTimeUnit: HandleTimeUnit;
+  // Only used for dates written with slashes, e.g. 03/04/2024
+  dateOrder: DateOrder;
+};
+
+export type RowError = { line: number; message: string };
+
+export type CountByName = { name: string; count: number };
+
+export type AhtDistribution = {
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+  buckets: { label: string; count: number }[];
+};
+
+export type ContactDataSummary = {
+  kind: ImportKind;
+  rowsUsed: number;
+  days: number;
+  contacts: number;
+  // Distinct agents in an export; the busiest day's headcount in a summary
+  agentCount: number;
+  contactsPerAgentPerDay: number;
+  ahtMins: number;
+  // Per-contact spread; only an interaction export has it
+  ahtDistribution: AhtDistribution | null;
+  // Null when the file has no way to tell repeat contacts apart
+  repeatContactRatePct: number | null;
+  contactsByChannel: CountByName[];
+  contactsByReason: CountByName[];
+};
+
+export type ContactDataAnalysis = {
+  rowsRead: number;
+  // Rows that couldn't be read; they are left out of the summary
+  errors: RowError[];
+  // Missing when no row could be used
+  summary?: ContactDataSummary;
+};
+
+export type ContactDataPrefill = {
+  teamSizeBand: TeamSizeBand;
+  contactVolumeBand: ContactVolumeBand;
+  complexityLevel: ComplexityLevel;
+  // Only the figures the wizard accepts
+  exact: ExactInputs;
+  // Figures outside the wizard's bounds; their steps keep the band instead
+  outOfRange: { field: ExactField; value: number }[];
+};
+
+// A later contact from the same customer inside this window is a repeat
+export const REPEAT_CONTACT_WINDOW_DAYS = 7;
+const MAX_HANDLE_MINS = 480;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const IMPORT_COLUMNS: Record<ImportKind, ImportColumn[]> = {
+  interactions: [
+    {
+      field: "timestamp",
+      label: "Timestamp",
+      required: true,
+      aliases: [
+        "timestamp",
+        "createdat",
+        "created",
+        "datetime",
+        "date",
+        "time",
+        "starttime",
+      ],
+    },
+    {
+      field: "agentId",
+      label: "Agent ID",
+      required: true,
+      aliases: [
+        "agentid",
+        "agent",
+        "agentname",
+        "assignee",
+        "assigneeid",
+        "userid",
+      ],
+    },
+    {
+      field: "handleTime",
+      label: "Handle time",
+      required: true,
+      aliases: [
+        "handletime",
+        "aht",
+        "handlingtime",
+        "duration",
+        "handletimeseconds",
+        "handletimesecs",
+        "handletimemins",
+      ],
+    },
+    {
+      field: "channel",
+      label: "Channel",
+      required: false,
+      aliases: ["channel", "medium", "source", "via"],
+    },
+    {
+      field: "contactReason",
+      label: "Contact reason",
+      required: false,
+      aliases: [
+        "contactreason",
+        "reason",
+        "category",
+        "topic",
+        "disposition",
+        "tag",
+      ],
+    },
+    {
+      field: "customerId",
+      label: "Customer ID",
+      required: false,
+      aliases: [
+        "customerid",
+        "customer",
+        "requesterid",
+        "requester",
+        "email",
+        "contactid",
+      ],
+    },
+  ],
+  summary: [
+    {
+      field: "date",
+      label: "Date",
+      required: true,
+      aliases: ["date", "day", "period"],
+    },
+    {
+      field: "contacts",
+      label: "Contacts",
+      required: true,
+      aliases: [
+        "contacts",
+        "volume",
+        "tickets",
+        "interactions",
+        "conversations",
+        "handled",
+      ],
+    },
+    {
+      field: "agents",
+      label: "Agents working",
+      required: true,
+      aliases: ["agents", "agentcount", "headcount", "activeagents", "staffed"],
+    },
+    {
+      field: "handleTime",
+      label: "Average handle time",
+      required: true,
+      aliases: ["aht", "averagehandletime", "avghandletime", "handletime"],
+    },
+    {
+      field: "repeatRatePct",
+      label: "Repeat contact rate (%)",
+      required: false,
+      // Not "fcr": first-contact resolution is roughly the opposite figure
+      aliases: ["repeatrate", "repeatcontactrate", "recontactrate", "repeat"],
+    },
+  ],
+};
+
+const normaliseHeader = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// First column whose header matches an alias, each column used at most once
+export const guessColumnMapping = (
+  kind: ImportKind,
+  header: string[]
+): ColumnMapping => {
+  const names = header.map(normaliseHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  IMPORT_COLUMNS[kind].forEach(({ field, aliases }) => {
+    const index = aliases
+      .map((alias) =>
+        names.findIndex((name, i) => name === alias && !used.has(i))
+      )
+      .find((i) => i !== -1);
+    if (index !== undefined) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+};
+
+export const missingColumns = (kind: ImportKind, mapping: ColumnMapping) =>
+  IMPORT_COLUMNS[kind].filter(
+    (column) => column.required && mapping[column.field] === undefined
+  );
+
+// Dates become UTC milliseconds so days are counted the same everywhere;
+// the export's own time zone is kept as-is
+const parseTimestamp = (raw: string, dateOrder: DateOrder) => {
+  const iso = raw.match(
+    /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?/
+  );
+  const slashed = raw.match(
+    /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})(?:[ ,T]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/
+  );
+  let parts: string[] | undefined;
+  if (iso) {
+    parts = [iso[1], iso[2], iso[3], iso[4], iso[5], iso[6]];
+  } else if (slashed) {
+    const [day, month] =
+      dateOrder === "dmy" ? [slashed[1], slashed[2]] : [slashed[2], slashed[1]];
+    parts = [slashed[3], month, day, slashed[4], slashed[5], slashed[6]];
+  }
+  if (!parts) return undefined;
+
+  const [year, month, day, hours, minutes, seconds] = parts.map((part) =>
+    part === undefined ? 0 : Number(part)
+  );
+  const time = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  // Date.UTC rolls 31/02 over into March, so check the date survived
+  const check = new Date(time);
+  return check.getUTCMonth() === month - 1 && check.getUTCDate() === day
+    ? time
+    : undefined;
+};
+
+// Plain numbers use the chosen unit; clock values like 4:30 or 0:04:30
+// are read as (hours:)minutes:seconds
+const parseHandleMins = (raw: string, unit: HandleTimeUnit) => {
+  const clock = raw.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    return (
+      Number(clock[1] ?? 0) * 60 + Number(clock[2]) + Number(clock[3]) / 60
+    );
+  }
+  const value = Number(raw.replace(",", "."));
+  if (raw === "" || !Number.isFinite(value)) return undefined;
+  return unit === "seconds" ? value / 60 : value;
+};
+
+const parseNumber = (raw: string) => {
+  const value = Number(raw.replace(/[%\s]/g, "").replace(",", "."));
+  return raw === "" || !Number.isFinite(value) ? undefined : value;
+};
+
+const percentile = (sorted: number[], pct: number) => {
+  const rank = (pct / 100) * (sorted.length - 1);
+  const low = Math.floor(rank);
+  const high = Math.ceil(rank);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+};
+
+const AHT_BUCKETS: { label: string; maxMins: number }[] = [
+  { label: "Under 2 min", maxMins: 2 },
+  { label: "2–4 min", maxMins: 4 },
+  { label: "4–6 min", maxMins: 6 },
+  { label: "6–10 min", maxMins: 10 },
+  { label: "10–15 min", maxMins: 15 },
+  { label: "15–30 min", maxMins: 30 },
+  { label: "30 min or more", maxMins: Infinity },
+];
+
+const ahtDistribution = (handleMins: number[]): AhtDistribution => {
+  const sorted = [...handleMins].sort((a, b) => a - b);
+  const buckets = AHT_BUCKETS.map(({ label }) => ({ label, count: 0 }));
+  sorted.forEach((mins) => {
+    buckets[AHT_BUCKETS.findIndex((bucket) => mins < bucket.maxMins)].count +=
+      1;
+  });
+  return {
+    p25: percentile(sorted, 25),
+    median: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p90: percentile(sorted, 90),
+    buckets,
+  };
+};
+
+const countByName = (names: string[]): CountByName[] => {
+  const counts = new Map<string, number>();
+  names.forEach((name) => counts.set(name, (counts.get(name) ?? 0) + 1));
+  return Array.from(counts, ([name, count]) => ({ name, count })).sort(
+    (a, b) => b.count - a.count
+  );
+};
+
+const dayOf = (time: number) => Math.floor(time / DAY_MS);
+
+type Contact = {
+  time: number;
+  agentId: string;
+  handleMins: number;
+  channel?: string;
+  reason?: string;
+  customerId?: string;
+};
+
+// Share of contacts that are followed up by the same customer within the
+// repeat window
+const repeatRatePct = (contacts: Contact[]) => {
+  const byCustomer = new Map<string, number[]>();
+  contacts.forEach(({ customerId, time }) => {
+    if (!customerId) return;
+    const times = byCustomer.get(customerId);
+    if (times) times.push(time);
+    else byCustomer.set(customerId, [time]);
+  });
+  let identified = 0;
+  let repeats = 0;
+  byCustomer.forEach((times) => {
+    times.sort((a, b) => a - b);
+    identified += times.length;
+    times.forEach((time, i) => {
+      if (
+        i + 1 < times.length &&
+        times[i + 1] - time <= REPEAT_CONTACT_WINDOW_DAYS * DAY_MS
+      ) {
+        repeats += 1;
+      }
+    });
+  });
+  return identified > 0 ? (repeats / identified) * 100 : null;
+};
+
+// Unmapped optional columns read as empty
+const cellFor = (
+  cells: string[],
+  mapping: ColumnMapping,
+  field: ImportField
+) => {
+  const index = mapping[field];
+  return index === undefined ? "" : (cells[index] ?? "");
+};
+
+const analyseInteractions = (
+  csv: ParsedCsv,
+  mapping: ColumnMapping,
+  options: ImportOptions
+): ContactDataAnalysis => {
+  const errors: RowError[] = [];
+  const contacts: Contact[] = [];
+
+  csv.rows.forEach(({ line, cells }) => {
+    const rawTime = cellFor(cells, mapping, "timestamp");
+    const rawHandle = cellFor(cells, mapping, "handleTime");
+    const agentId = cellFor(cells, mapping, "agentId");
+    const time = parseTimestamp(rawTime, options.dateOrder);
+    const handleMins = parseHandleMins(rawHandle, options.handleTimeUnit);
+
+    if (time === undefined) {
+      errors.push({
+        line,
+        message: rawTime
+          ? `Timestamp "${rawTime}" isn't a date we can read.`
+          : "Timestamp is empty.",
+      });
+    } else if (agentId === "") {
+      errors.push({ line, message: "Agent ID is empty." });
+    } else if (
+      handleMins === undefined ||
+      handleMins <= 0 ||
+      handleMins > MAX_HANDLE_MINS
+    ) {
+      errors.push({
+        line,
+        message: `Handle time "${rawHandle}" must be a duration above 0 and up to ${MAX_HANDLE_MINS} minutes.`,
+      });
+    } else {
+      contacts.push({
+        time,
+        agentId,
+        handleMins,
+        channel: cellFor(cells, mapping, "channel") || undefined,
+        reason: cellFor(cells, mapping, "contactReason") || undefined,
+        customerId: cellFor(cells, mapping, "customerId") || undefined,
+      });
+    }
+  });
+
+  const analysis = { rowsRead: csv.rows.length, errors };
+  if (contacts.length === 0) return analysis;
+
+  // Agents only count towards the days they actually handled contacts
+  const agentDays = new Set(
+    contacts.map(({ time, agentId }) => `${dayOf(time)}:${agentId}`)
+  ).size;
+  const handleMins = contacts.map((contact) => contact.handleMins);
+
+  const summary: ContactDataSummary = {
+    kind: "interactions",
+    rowsUsed: contacts.length,
+    days: new Set(contacts.map(({ time }) => dayOf(time))).size,
+    contacts: contacts.length,
+    agentCount: new Set(contacts.map(({ agentId }) => agentId)).size,
+    contactsPerAgentPerDay: contacts.length / agentDays,
+    ahtMins:
+      handleMins.reduce((sum, mins) => sum + mins, 0) / handleMins.length,
+    ahtDistribution: ahtDistribution(handleMins),
+    repeatContactRatePct:
+      mapping.customerId === undefined ? null : repeatRatePct(contacts),
+    contactsByChannel: countByName(
+      contacts.flatMap(({ channel }) => (channel ? [channel] : []))
+    ),
+    contactsByReason: countByName(
+      contacts.flatMap(({ reason }) => (reason ? [reason] : []))
+    ),
+  };
+  return { ...analysis, summary };
+};
+
+const analyseSummary = (
+  csv: ParsedCsv,
+  mapping: ColumnMapping,
+  options: ImportOptions
+): ContactDataAnalysis => {
+  const errors: RowError[] = [];
+  const days: {
+    day: number;
+    contacts: number;
+    agents: number;
+    handleMins: number;
+    repeatRatePct?: number;
+  }[] = [];
+
+  csv.rows.forEach(({ line, cells }) => {
+    const rawDate = cellFor(cells, mapping, "date");
+    const time = parseTimestamp(rawDate, options.dateOrder);
+    const contacts = parseNumber(cellFor(cells, mapping, "contacts"));
+    const agents = parseNumber(cellFor(cells, mapping, "agents"));
+    const handleMins = parseHandleMins(
+      cellFor(cells, mapping, "handleTime"),
+      options.handleTimeUnit
+    );
+    const rawRepeat = cellFor(cells, mapping, "repeatRatePct");
+    const repeat = rawRepeat === "" ? undefined : parseNumber(rawRepeat);
+
+    if (time === undefined) {
+      errors.push({
+        line,
+        message: rawDate
+          ? `Date "${rawDate}" isn't a date we can read.`
+          : "Date is empty.",
+      });
+    } else if (contacts === undefined || contacts < 0) {
+      errors.push({ line, message: "Contacts must be a number of 0 or more." });
+    } else if (agents === undefined || agents <= 0) {
+      errors.push({ line, message: "Agents working must be above 0." });
+    } else if (
+      handleMins === undefined ||
+      handleMins <= 0 ||
+      handleMins > MAX_HANDLE_MINS
+    ) {
+      errors.push({
+        line,
+        message: `Average handle time must be above 0 and up to ${MAX_HANDLE_MINS} minutes.`,
+      });
+    } else if (
+      rawRepeat !== "" &&
+      (repeat === undefined || repeat < 0 || repeat > 100)
+    ) {
+      errors.push({
+        line,
+        message: "Repeat contact rate must be a percentage from 0 to 100.",
+      });
+    } else {
+      days.push({
+        day: dayOf(time),
+        contacts,
+        agents,
+        handleMins,
+        repeatRatePct: repeat,
+      });
+    }
+  });
+
+  const analysis = { rowsRead: csv.rows.length, errors };
+  const contacts = days.reduce((sum, day) => sum + day.contacts, 0);
+  if (contacts === 0) return analysis;
+
+  const withRepeat = days.filter((day) => day.repeatRatePct !== undefined);
+  const repeatContacts = withRepeat.reduce(
+    (sum, day) => sum + day.contacts,
+    0
+  );
+
+  const summary: ContactDataSummary = {
+    kind: "summary",
+    rowsUsed: days.length,
+    days: new Set(days.map(({ day }) => day)).size,
+    contacts,
+    agentCount: Math.round(
+      days.reduce((peak, day) => Math.max(peak, day.agents), 0)
+    ),
+    contactsPerAgentPerDay:
+      contacts / days.reduce((sum, day) => sum + day.agents, 0),
+    // Weighted by volume so quiet days don't skew the average
+    ahtMins:
+      days.reduce((sum, day) => sum + day.handleMins * day.contacts, 0) /
+      contacts,
+    ahtDistribution: null,
+    repeatContactRatePct:
+      repeatContacts > 0
+        ? withRepeat.reduce(
+            (sum, day) => sum + (day.repeatRatePct ?? 0) * day.contacts,
+            0
+          ) / repeatContacts
+        : null,
+    contactsByChannel: [],
+    contactsByReason: [],
+  };
+  return { ...analysis, summary };
+};
+
+// Aggregates entirely in the browser; rows that can't be read are listed in
+// `errors` and left out rather than failing the whole file
+export const analyseContactData = (
+  kind: ImportKind,
+  csv: ParsedCsv,
+  mapping: ColumnMapping,
+  options: ImportOptions
+): ContactDataAnalysis =>
+  kind === "interactions"
+    ? analyseInteractions(csv, mapping, options)
+    : analyseSummary(csv, mapping, options);
+
+// Upper bound of each team size band, in the order the wizard shows them
+const TEAM_SIZE_LIMITS: [TeamSizeBand, number][] = [
+  ["1-10", 10],
+  ["11-25", 25],
+  ["26-50", 50],
+  ["51-100", 100],
+  ["101-250", 250],
+  ["250+", Infinity],
+];
+
+export const teamSizeBandFor = (numAgents: number): TeamSizeBand =>
+  TEAM_SIZE_LIMITS.find(([, max]) => numAgents <= max)?.[0] ?? "250+";
+
+// Bands are set alongside the exact figures so the wizard still reads
+// sensibly if the exact values are switched off
+export const prefillFromContactData = (
+  summary: ContactDataSummary,
+  ahtMinsForLevel: (level: ComplexityLevel) => number
+): ContactDataPrefill => {
+  const levels = Object.keys(COMPLEXITY_LEVELS).map(
+    Number
+  ) as ComplexityLevel[];
+  const numAgents = Math.max(1, Math.round(summary.agentCount));
+  const measured: Record<ExactField, number> = {
+    numAgents,
+    contactsPerAgentPerDay:
+      Math.round(summary.contactsPerAgentPerDay * 10) / 10,
+    ahtMins: Math.round(summary.ahtMins * 10) / 10,
+  };
+  const fields = Object.keys(measured) as ExactField[];
+  return {
+    teamSizeBand: teamSizeBandFor(numAgents),
+    contactVolumeBand: contactBandFor(summary.contactsPerAgentPerDay),
+    complexityLevel: levels.reduce((best, level) =>
+      Math.abs(ahtMinsForLevel(level) - summary.ahtMins) <
+      Math.abs(ahtMinsForLevel(best) - summary.ahtMins)
+        ? level
+        : best
+    ),
+    exact: Object.fromEntries(
+      fields
+        .filter((field) => isValidExactValue(field, measured[field]))
+        .map((field) => [field, measured[field]])
+    ),
+    outOfRange: fields
+      .filter((field) => !isValidExactValue(field, measured[field]))
+      .map((field) => ({ field, value: measured[field] })),
+  };
+};
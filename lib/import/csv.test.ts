@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("keeps delimiters, doubled quotes and line breaks inside quotes", () => {
+    const { csv } = parseCsv(
+      'reason,notes\n"Billing, refunds","Said ""hi""\nthen left"\nDelivery,late\n'
+    );
+    expect(csv?.header).toEqual(["reason", "notes"]);
+    expect(csv?.rows).toEqual([
+      { line: 2, cells: ["Billing, refunds", 'Said "hi"\nthen left'] },
+      { line: 4, cells: ["Delivery", "late"] },
+    ]);
+  });
+
+  it("numbers rows by the line they start on, skipping blank lines", () => {
+    const { csv } = parseCsv("a,b\r\n1,2\r\n\r\n,\r\n3,4");
+    expect(csv?.rows.map((row) => row.line)).toEqual([2, 5]);
+  });
+
+  it.each([
+    ["semicolons", "date;contacts;aht\n2024-03-01;120;6,5"],
+    ["tabs", "date\tcontacts\taht\n2024-03-01\t120\t6,5"],
+  ])("detects %s from the header", (_name, text) => {
+    const { csv } = parseCsv(text);
+    expect(csv?.header).toEqual(["date", "contacts", "aht"]);
+    expect(csv?.rows[0].cells).toEqual(["2024-03-01", "120", "6,5"]);
+  });
+
+  it("drops a byte order mark", () => {
+    const { csv } = parseCsv("\uFEFFdate,contacts\n2024-03-01,1");
+    expect(csv?.header).toEqual(["date", "contacts"]);
+  });
+
+  it("reports the line of a quote that is never closed", () => {
+    expect(parseCsv('a,b\n1,2\n3,"open\n4,5')).toEqual({
+      error: "Line 3 opens a quote that is never closed.",
+    });
+  });
+
+  it("needs a header and a data row", () => {
+    expect(parseCsv("date,contacts\n\n").error).toBe(
+      "The file needs a header row and at least one data row."
+    );
+  });
+});
@@ -0,0 +1,84 @@
+export type ParsedCsv = {
+  header: string[];
+  // Data rows with the 1-based line number they started on, for error messages
+  rows: { line: number; cells: string[] }[];
+};
+
+const DELIMITERS = [",", ";", "\t"];
+
+// Helpdesk exports from European locales often use semicolons, so pick
+// whichever candidate appears most in the header line
+const detectDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  return DELIMITERS.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+};
+
+// RFC 4180 parsing: quoted cells may hold delimiters, doubled quotes and
+// line breaks. Blank lines are skipped.
+export const parseCsv = (
+  input: string
+): { csv?: ParsedCsv; error?: string } => {
+  const text = input.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+  const records: { line: number; cells: string[] }[] = [];
+
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 0;
+
+  const endCell = () => {
+    cells.push(cell.trim());
+    cell = "";
+  };
+  const endRecord = () => {
+    endCell();
+    if (cells.some((value) => value !== "")) {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+  };
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line += 1;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      quoted = true;
+      quoteLine = line;
+    } else if (char === delimiter) {
+      endCell();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      endRecord();
+      line += 1;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    return { error: `Line ${quoteLine} opens a quote that is never closed.` };
+  }
+  endRecord();
+
+  if (records.length < 2) {
+    return { error: "The file needs a header row and at least one data row." };
+  }
+  const [header, ...rows] = records;
+  return { csv: { header: header.cells, rows } };
+};
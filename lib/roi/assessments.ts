@@ -0,0 +1,199 @@
+import type { ModelConfig } from "./config";
+import { calculateRoi, type RoiInputs, type RoiResult } from "./engine";
+import { parseRoiRequest, type RequestIssue } from "./roiRequest";
+import { isRecord } from "./validation";
+
+// One saved run of the model; a new one is added whenever the answers or
+// the model config behind them change
+export type AssessmentRevision = {
+  savedAt: string;
+  configVersion: string;
+  // Stored without the config itself – configVersion records which one
+  inputs: RoiInputs;
+  results: RoiResult;
+};
+
+export type SavedAssessment = {
+  id: string;
+  prospectName: string;
+  notes: string;
+  createdAt: string;
+  updatedAt: string;
+  // Oldest first
+  revisions: AssessmentRevision[];
+};
+
+export type AssessmentDraft = {
+  prospectName: string;
+  notes: string;
+  inputs: RoiInputs;
+};
+
+export type AssessmentUpdate = Partial<AssessmentDraft>;
+
+export const ASSESSMENT_NAME_MAX_LENGTH = 120;
+export const ASSESSMENT_NOTES_MAX_LENGTH = 5_000;
+
+export const withoutConfig = ({ config: _config, ...inputs }: RoiInputs) =>
+  inputs as RoiInputs;
+
+export const newAssessmentId = () =>
+  `assessment-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const latestRevision = (assessment: SavedAssessment) =>
+  assessment.revisions[assessment.revisions.length - 1];
+
+// Most recently touched first
+export const sortAssessments = (assessments: SavedAssessment[]) =>
+  [...assessments].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+// Reads { prospectName, notes, inputs }; with `partial` every field is
+// optional so PUT can change just the name or notes
+const readAssessmentFields = (
+  body: unknown,
+  partial: boolean
+): { fields?: AssessmentUpdate; issues: RequestIssue[] } => {
+  if (!isRecord(body)) {
+    return { issues: [{ path: "", message: "Body must be a JSON object." }] };
+  }
+  const issues: RequestIssue[] = [];
+  const fields: AssessmentUpdate = {};
+
+  Object.keys(body)
+    .filter((key) => !["prospectName", "notes", "inputs"].includes(key))
+    .forEach((key) => issues.push({ path: key, message: "Unknown field." }));
+
+  if (body.prospectName !== undefined || !partial) {
+    const name =
+      typeof body.prospectName === "string" ? body.prospectName.trim() : "";
+    if (name === "" || name.length > ASSESSMENT_NAME_MAX_LENGTH) {
+      issues.push({
+        path: "prospectName",
+        message: `Must be 1 to ${ASSESSMENT_NAME_MAX_LENGTH} characters.`,
+      });
+    } else {
+      fields.prospectName = name;
+    }
+  }
+
+  if (body.notes !== undefined) {
+    if (
+      typeof body.notes !== "string" ||
+      body.notes.length > ASSESSMENT_NOTES_MAX_LENGTH
+    ) {
+      issues.push({
+        path: "notes",
+        message: `Must be text of up to ${ASSESSMENT_NOTES_MAX_LENGTH} characters.`,
+      });
+    } else {
+      fields.notes = body.notes;
+    }
+  } else if (!partial) {
+    fields.notes = "";
+  }
+
+  if (body.inputs !== undefined || !partial) {
+    // Same validation as POST /api/roi, so a saved assessment always reruns
+    const parsed = parseRoiRequest({ inputs: body.inputs });
+    issues.push(...parsed.issues);
+    fields.inputs = parsed.inputs;
+  }
+
+  return issues.length > 0 ? { issues } : { fields, issues };
+};
+
+export const parseAssessmentDraft = (
+  body: unknown
+): { draft?: AssessmentDraft; issues: RequestIssue[] } => {
+  const { fields, issues } = readAssessmentFields(body, false);
+  return fields ? { draft: fields as AssessmentDraft, issues } : { issues };
+};
+
+export const parseAssessmentUpdate = (
+  body: unknown
+): { update?: AssessmentUpdate; issues: RequestIssue[] } => {
+  const { fields, issues } = readAssessmentFields(body, true);
+  return fields ? { update: fields, issues } : { issues };
+};
+
+// Records are only written by this module, so a shape check is enough to
+// skip entries from a damaged file or an older browser copy
+export const parseStoredAssessments = (raw: unknown): SavedAssessment[] =>
+  Array.isArray(raw)
+    ? raw.filter(
+        (entry): entry is SavedAssessment =>
+          isRecord(entry) &&
+          typeof entry.id === "string" &&
+          typeof entry.prospectName === "string" &&
+          typeof entry.notes === "string" &&
+          typeof entry.updatedAt === "string" &&
+          Array.isArray(entry.revisions) &&
+          entry.revisions.length > 0
+      )
+    : [];
+
+export const assessmentRevision = (
+  inputs: RoiInputs,
+  config: ModelConfig,
+  savedAt: Date
+): AssessmentRevision => {
+  const stored = withoutConfig(inputs);
+  return {
+    savedAt: savedAt.toISOString(),
+    configVersion: config.version,
+    inputs: stored,
+    results: calculateRoi({ ...stored, config }),
+  };
+};
+
+export const createAssessment = (
+  draft: AssessmentDraft,
+  config: ModelConfig,
+  now = new Date()
+): SavedAssessment => ({
+  id: newAssessmentId(),
+  prospectName: draft.prospectName,
+  notes: draft.notes,
+  createdAt: now.toISOString(),
+  updatedAt: now.toISOString(),
+  revisions: [assessmentRevision(draft.inputs, config, now)],
+});
+
+// Name and notes are edited in place; the estimate history only grows
+export const reviseAssessment = (
+  assessment: SavedAssessment,
+  update: AssessmentUpdate,
+  config: ModelConfig,
+  now = new Date()
+): SavedAssessment => {
+  const latest = latestRevision(assessment);
+  const changed =
+    update.inputs !== undefined &&
+    (JSON.stringify(withoutConfig(update.inputs)) !==
+      JSON.stringify(latest.inputs) ||
+      config.version !== latest.configVersion);
+  return {
+    ...assessment,
+    prospectName: update.prospectName ?? assessment.prospectName,
+    notes: update.notes ?? assessment.notes,
+    updatedAt: now.toISOString(),
+    revisions:
+      changed && update.inputs
+        ? [
+            ...assessment.revisions,
+            assessmentRevision(update.inputs, config, now),
+          ]
+        : assessment.revisions,
+  };
+};
+
+export const duplicateDraft = (
+  assessment: SavedAssessment
+): AssessmentDraft => ({
+  prospectName: `${assessment.prospectName} (copy)`.slice(
+    0,
+    ASSESSMENT_NAME_MAX_LENGTH
+  ),
+  notes: assessment.notes,
+  inputs: latestRevision(assessment).inputs,
+});
@@ -0,0 +1,153 @@
+import {
+  ASSUMPTIONS,
+  DEFAULT_COST_PER_AGENT,
+  WORKING_DAYS_PER_MONTH,
+  WORKING_HOURS_PER_YEAR,
+} from "./constants";
+import { benchmarkFor, type IndustryId } from "./benchmarks";
+import { DEFAULT_MODEL_CONFIG, type ModelConfig } from "./config";
+import { convertFromEur, type CurrencyCode } from "./currency";
+
+export type ModelAssumptions = {
+  annualCostPerAgent: number;
+  workingHoursPerYear: number;
+  workingDaysPerMonth: number;
+  qaCoveragePct: number;
+  qaTimePerContactMins: number;
+  qaHourlyMultiplier: number;
+  revenueInfluencedPct: number;
+  revenueProtectionPct: number;
+};
+
+export type AssumptionKey = keyof ModelAssumptions;
+
+export type AssumptionOverrides = Partial<ModelAssumptions>;
+
+export const DEFAULT_MODEL_ASSUMPTIONS: ModelAssumptions = {
+  annualCostPerAgent: DEFAULT_COST_PER_AGENT,
+  workingHoursPerYear: WORKING_HOURS_PER_YEAR,
+  workingDaysPerMonth: WORKING_DAYS_PER_MONTH,
+  qaCoveragePct: ASSUMPTIONS.qaCoveragePct,
+  qaTimePerContactMins: ASSUMPTIONS.qaTimePerContactMins,
+  qaHourlyMultiplier: ASSUMPTIONS.qaHourlyMultiplier,
+  revenueInfluencedPct: ASSUMPTIONS.revenueInfluencedPct,
+  revenueProtectionPct: ASSUMPTIONS.revenueProtectionPct,
+};
+
+// Agent cost is the only currency-sensitive default. It comes from the
+// config unless an industry is picked, whose benchmark then sets it and the
+// QA coverage
+export const defaultAssumptionsFor = (
+  currency: CurrencyCode,
+  industry?: IndustryId,
+  config: ModelConfig = DEFAULT_MODEL_CONFIG
+): ModelAssumptions => {
+  const benchmark = benchmarkFor(industry);
+  if (!benchmark) {
+    return {
+      ...DEFAULT_MODEL_ASSUMPTIONS,
+      annualCostPerAgent: config.defaultCostPerAgent[currency],
+    };
+  }
+  return {
+    ...DEFAULT_MODEL_ASSUMPTIONS,
+    annualCostPerAgent: Math.round(
+      convertFromEur(benchmark.annualCostPerAgentEur, currency)
+    ),
+    qaCoveragePct: benchmark.qaCoveragePct,
+  };
+};
+
+export const ASSUMPTION_FIELDS: Record<
+  AssumptionKey,
+  { label: string; unit: string; min: number; max: number; step: number }
+> = {
+  annualCostPerAgent: {
+    label: "Fully loaded cost per agent",
+    unit: "per year",
+    min: 1_000,
+    max: 500_000,
+    step: 500,
+  },
+  workingHoursPerYear: {
+    label: "Working hours per agent",
+    unit: "hours / year",
+    min: 500,
+    max: 3_000,
+    step: 10,
+  },
+  workingDaysPerMonth: {
+    label: "Working days",
+    unit: "days / month",
+    min: 1,
+    max: 31,
+    step: 1,
+  },
+  qaCoveragePct: {
+    label: "Manual QA coverage",
+    unit: "% of contacts",
+    min: 0,
+    max: 100,
+    step: 0.5,
+  },
+  qaTimePerContactMins: {
+    label: "Time per QA review",
+    unit: "minutes",
+    min: 0,
+    max: 120,
+    step: 0.5,
+  },
+  qaHourlyMultiplier: {
+    label: "QA reviewer cost vs agent",
+    unit: "× agent hourly cost",
+    min: 0.1,
+    max: 5,
+    step: 0.05,
+  },
+  revenueInfluencedPct: {
+    label: "Revenue influenced by this team",
+    unit: "% of revenue",
+    min: 0,
+    max: 100,
+    step: 1,
+  },
+  revenueProtectionPct: {
+    label: "Revenue protection rate",
+    unit: "% of influenced revenue",
+    min: 0,
+    max: 20,
+    step: 0.1,
+  },
+};
+
+export const ASSUMPTION_KEYS = Object.keys(
+  ASSUMPTION_FIELDS
+) as AssumptionKey[];
+
+export const isValidAssumption = (key: AssumptionKey, value: unknown) => {
+  const field = ASSUMPTION_FIELDS[key];
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= field.min &&
+    value <= field.max
+  );
+};
+
+// Merges overrides onto the defaults, ignoring anything out of bounds
+export const resolveAssumptions = (
+  overrides: AssumptionOverrides = {},
+  defaults: ModelAssumptions = DEFAULT_MODEL_ASSUMPTIONS
+): ModelAssumptions => {
+  const resolved = { ...defaults };
+  ASSUMPTION_KEYS.forEach((key) => {
+    const value = overrides[key];
+    if (isValidAssumption(key, value)) resolved[key] = value as number;
+  });
+  return resolved;
+};
+
+export const changedAssumptionKeys = (
+  assumptions: ModelAssumptions,
+  defaults: ModelAssumptions = DEFAULT_MODEL_ASSUMPTIONS
+) => ASSUMPTION_KEYS.filter((key) => assumptions[key] !== defaults[key]);
@@ -0,0 +1,181 @@
+import { DEFAULT_MODEL_CONFIG, type ModelConfig } from "./config";
+import {
+  CONTACTS_PER_AGENT_MAP,
+  type ComplexityLevel,
+  type ContactVolumeBand,
+} from "./constants";
+import type { RetentionInputs } from "./retention";
+
+export type IndustryId =
+  | "ecommerce"
+  | "gaming"
+  | "telecom"
+  | "travel"
+  | "financialServices";
+
+export type IndustryBenchmark = {
+  label: string;
+  description: string;
+  // Typical handle time at each complexity level, in minutes
+  ahtMinsByComplexity: Record<ComplexityLevel, number>;
+  contactsPerAgentPerDay: number;
+  // Fully loaded; converted at the list rate for other currencies
+  annualCostPerAgentEur: number;
+  qaCoveragePct: number;
+  // Share of contacts simple and repetitive enough to be avoided
+  deflectableSharePct: number;
+  churnRatePct: number;
+  serviceChurnSharePct: number;
+};
+
+export type BenchmarkLibrary = {
+  name: string;
+  // Bump whenever a figure changes so reports can cite what they used
+  version: string;
+  reviewedOn: string;
+  // Deflectable share the AI_IMPROVEMENTS deflection rates were set against
+  referenceDeflectableSharePct: number;
+  industries: Record<IndustryId, IndustryBenchmark>;
+};
+
+export type BenchmarkCitation = {
+  industry: IndustryId;
+  label: string;
+  library: string;
+  version: string;
+};
+
+export const BENCHMARK_LIBRARY: BenchmarkLibrary = {
+  name: "EdgeTier contact centre benchmarks",
+  version: "2024.2",
+  reviewedOn: "2024-09-30",
+  referenceDeflectableSharePct: 35,
+  industries: {
+    ecommerce: {
+      label: "E-commerce & retail",
+      description:
+        "High volumes of order, delivery and returns queries with strong seasonal peaks.",
+      ahtMinsByComplexity: { 1: 3, 2: 4.5, 3: 6.5, 4: 9, 5: 12 },
+      contactsPerAgentPerDay: 45,
+      annualCostPerAgentEur: 38_000,
+      qaCoveragePct: 3,
+      deflectableSharePct: 45,
+      churnRatePct: 25,
+      serviceChurnSharePct: 35,
+    },
+    gaming: {
+      label: "Gaming & betting",
+      description:
+        "Account, payment and gameplay issues, often 24/7 and with responsible gambling checks.",
+      ahtMinsByComplexity: { 1: 3, 2: 4.5, 3: 6.5, 4: 10, 5: 14 },
+      contactsPerAgentPerDay: 50,
+      annualCostPerAgentEur: 34_000,
+      qaCoveragePct: 4,
+      deflectableSharePct: 40,
+      churnRatePct: 40,
+      serviceChurnSharePct: 25,
+    },
+    telecom: {
+      label: "Telecom & utilities",
+      description:
+        "Billing, plan changes and technical faults, with longer troubleshooting calls.",
+      ahtMinsByComplexity: { 1: 4, 2: 6, 3: 8.5, 4: 12, 5: 16 },
+      contactsPerAgentPerDay: 30,
+      annualCostPerAgentEur: 42_000,
+      qaCoveragePct: 5,
+      deflectableSharePct: 30,
+      churnRatePct: 18,
+      serviceChurnSharePct: 40,
+    },
+    travel: {
+      label: "Travel & hospitality",
+      description:
+        "Bookings, changes and disruption handling, with sharp peaks when things go wrong.",
+      ahtMinsByComplexity: { 1: 4, 2: 6, 3: 8, 4: 12, 5: 17 },
+      contactsPerAgentPerDay: 28,
+      annualCostPerAgentEur: 40_000,
+      qaCoveragePct: 4,
+      deflectableSharePct: 35,
+      churnRatePct: 20,
+      serviceChurnSharePct: 30,
+    },
+    financialServices: {
+      label: "Financial services",
+      description:
+        "Payments, lending and fraud cases under regulatory QA and KYC / AML checks.",
+      ahtMinsByComplexity: { 1: 4.5, 2: 6.5, 3: 9, 4: 13, 5: 18 },
+      contactsPerAgentPerDay: 25,
+      annualCostPerAgentEur: 52_000,
+      qaCoveragePct: 8,
+      deflectableSharePct: 25,
+      churnRatePct: 10,
+      serviceChurnSharePct: 35,
+    },
+  },
+};
+
+export const INDUSTRY_IDS = Object.keys(
+  BENCHMARK_LIBRARY.industries
+) as IndustryId[];
+
+export const isIndustryId = (value: unknown): value is IndustryId =>
+  typeof value === "string" && value in BENCHMARK_LIBRARY.industries;
+
+export const benchmarkFor = (industry: IndustryId | undefined) =>
+  isIndustryId(industry) ? BENCHMARK_LIBRARY.industries[industry] : undefined;
+
+export const benchmarkCitation = (
+  industry: IndustryId | undefined
+): BenchmarkCitation | null =>
+  isIndustryId(industry)
+    ? {
+        industry,
+        label: BENCHMARK_LIBRARY.industries[industry].label,
+        library: BENCHMARK_LIBRARY.name,
+        version: BENCHMARK_LIBRARY.version,
+      }
+    : null;
+
+// An industry's benchmark wins over the configured complexity estimate,
+// which only applies to the General (no industry) case
+export const ahtMinsFor = (
+  complexityLevel: ComplexityLevel,
+  industry: IndustryId | undefined,
+  config: ModelConfig = DEFAULT_MODEL_CONFIG
+) =>
+  benchmarkFor(industry)?.ahtMinsByComplexity[complexityLevel] ??
+  config.complexityAhtMins[complexityLevel];
+
+// Scales the deflection rate by how much of the volume is deflectable
+// compared with the reference the improvement rates assume
+export const deflectableShareFactor = (industry: IndustryId | undefined) => {
+  const benchmark = benchmarkFor(industry);
+  return benchmark
+    ? benchmark.deflectableSharePct /
+        BENCHMARK_LIBRARY.referenceDeflectableSharePct
+    : 1;
+};
+
+export const retentionDefaultsFor = (
+  industry: IndustryId | undefined
+): RetentionInputs => {
+  const benchmark = benchmarkFor(industry);
+  return benchmark
+    ? {
+        churnRatePct: benchmark.churnRatePct,
+        serviceChurnSharePct: benchmark.serviceChurnSharePct,
+      }
+    : {};
+};
+
+// Band whose model value sits closest to the benchmark
+export const contactBandFor = (
+  contactsPerAgentPerDay: number
+): ContactVolumeBand =>
+  (Object.keys(CONTACTS_PER_AGENT_MAP) as ContactVolumeBand[]).reduce(
+    (best, band) =>
+      Math.abs(CONTACTS_PER_AGENT_MAP[band] - contactsPerAgentPerDay) <
+      Math.abs(CONTACTS_PER_AGENT_MAP[best] - contactsPerAgentPerDay)
+        ? band
+        : best
+  );
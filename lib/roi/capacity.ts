@@ -0,0 +1,202 @@
+import { convertFromEur, type CurrencyCode } from "./currency";
+
+// What the business does with the hours EdgeTier frees up
+export type CapacityMode = "redeploy" | "avoidHiring";
+
+export type CapacityNumbers = {
+  shrinkagePct: number;
+  occupancyPct: number;
+  attritionPct: number;
+  costToHire: number;
+  rampWeeks: number;
+  rampProductivityPct: number;
+  rampReductionPct: number;
+};
+
+export type CapacityKey = keyof CapacityNumbers;
+
+export type CapacitySettings = CapacityNumbers & {
+  mode: CapacityMode;
+  // Adds avoided hires and faster ramp as a benefit stream
+  includeAttrition: boolean;
+};
+
+export type CapacityInputs = Partial<CapacitySettings>;
+
+export type CapacityResult = {
+  settings: CapacitySettings;
+  productiveHoursPerFte: number;
+  fteSaved: number;
+  leaversPerYear: number;
+  avoidedHires: number;
+  hiresPerYear: number;
+  savingsHiring: number;
+  rampHoursSavedPerHire: number;
+  rampHoursSaved: number;
+  savingsRamp: number;
+};
+
+const DEFAULT_COST_TO_HIRE_EUR = 5_000;
+
+export const CAPACITY_MODE_LABELS: Record<CapacityMode, string> = {
+  redeploy: "Redeploy capacity",
+  avoidHiring: "Avoid hiring",
+};
+
+export const defaultCapacitySettings = (
+  currency: CurrencyCode
+): CapacitySettings => ({
+  mode: "redeploy",
+  includeAttrition: false,
+  shrinkagePct: 30,
+  occupancyPct: 85,
+  attritionPct: 35,
+  costToHire: convertFromEur(DEFAULT_COST_TO_HIRE_EUR, currency),
+  rampWeeks: 12,
+  rampProductivityPct: 50,
+  rampReductionPct: 25,
+});
+
+export const CAPACITY_FIELDS: Record<
+  CapacityKey,
+  { label: string; unit: string; min: number; max: number; step: number }
+> = {
+  shrinkagePct: {
+    label: "Shrinkage",
+    unit: "% of paid time",
+    min: 0,
+    max: 70,
+    step: 1,
+  },
+  occupancyPct: {
+    label: "Occupancy",
+    unit: "% of available time",
+    min: 40,
+    max: 100,
+    step: 1,
+  },
+  attritionPct: {
+    label: "Annual attrition",
+    unit: "% of agents",
+    min: 0,
+    max: 200,
+    step: 1,
+  },
+  costToHire: {
+    label: "Cost to hire and train",
+    unit: "per agent",
+    min: 0,
+    max: 100_000,
+    step: 100,
+  },
+  rampWeeks: {
+    label: "Ramp time for new agents",
+    unit: "weeks",
+    min: 0,
+    max: 52,
+    step: 1,
+  },
+  rampProductivityPct: {
+    label: "Productivity while ramping",
+    unit: "% of a tenured agent",
+    min: 0,
+    max: 100,
+    step: 5,
+  },
+  rampReductionPct: {
+    label: "Ramp time saved with guidance",
+    unit: "% of ramp",
+    min: 0,
+    max: 90,
+    step: 5,
+  },
+};
+
+export const CAPACITY_KEYS = Object.keys(CAPACITY_FIELDS) as CapacityKey[];
+
+const CAPACITY_MODES = Object.keys(CAPACITY_MODE_LABELS) as CapacityMode[];
+
+export const isValidCapacityValue = (key: CapacityKey, value: unknown) => {
+  const field = CAPACITY_FIELDS[key];
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= field.min &&
+    value <= field.max
+  );
+};
+
+export const isCapacityMode = (value: unknown): value is CapacityMode =>
+  CAPACITY_MODES.includes(value as CapacityMode);
+
+// Merges inputs onto the defaults, ignoring anything out of bounds
+export const resolveCapacity = (
+  inputs: CapacityInputs = {},
+  defaults: CapacitySettings
+): CapacitySettings => {
+  const resolved = { ...defaults };
+  CAPACITY_KEYS.forEach((key) => {
+    const value = inputs[key];
+    if (isValidCapacityValue(key, value)) resolved[key] = value as number;
+  });
+  if (isCapacityMode(inputs.mode)) resolved.mode = inputs.mode;
+  if (typeof inputs.includeAttrition === "boolean") {
+    resolved.includeAttrition = inputs.includeAttrition;
+  }
+  return resolved;
+};
+
+export const calculateCapacity = ({
+  settings,
+  hoursSaved,
+  numAgents,
+  workingHoursPerYear,
+  costPerAgentHour,
+  guidanceLicensed,
+}: {
+  settings: CapacitySettings;
+  hoursSaved: number;
+  numAgents: number;
+  workingHoursPerYear: number;
+  costPerAgentHour: number;
+  // Faster ramp comes from agent guidance, so needs that module
+  guidanceLicensed: boolean;
+}): CapacityResult => {
+  const productiveHoursPerFte =
+    workingHoursPerYear *
+    (1 - settings.shrinkagePct / 100) *
+    (settings.occupancyPct / 100);
+  const fteSaved =
+    productiveHoursPerFte > 0 ? hoursSaved / productiveHoursPerFte : 0;
+
+  const leaversPerYear = settings.includeAttrition
+    ? numAgents * (settings.attritionPct / 100)
+    : 0;
+  // Only roles that would have been backfilled can be left empty
+  const avoidedHires =
+    settings.mode === "avoidHiring" ? Math.min(fteSaved, leaversPerYear) : 0;
+  const hiresPerYear = leaversPerYear - avoidedHires;
+  const savingsHiring = avoidedHires * settings.costToHire;
+
+  const rampHoursSavedPerHire = guidanceLicensed
+    ? settings.rampWeeks *
+      (settings.rampReductionPct / 100) *
+      (workingHoursPerYear / 52) *
+      (1 - settings.rampProductivityPct / 100)
+    : 0;
+  const rampHoursSaved = hiresPerYear * rampHoursSavedPerHire;
+  const savingsRamp = rampHoursSaved * costPerAgentHour;
+
+  return {
+    settings,
+    productiveHoursPerFte,
+    fteSaved,
+    leaversPerYear,
+    avoidedHires,
+    hiresPerYear,
+    savingsHiring,
+    rampHoursSavedPerHire,
+    rampHoursSaved,
+    savingsRamp,
+  };
+};
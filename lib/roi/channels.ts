@@ -0,0 +1,139 @@
+import { EXACT_INPUT_BOUNDS } from "./exact";
+import { SHARE_TOLERANCE_PCT } from "./validation";
+
+export type Channel = "voice" | "chat" | "email" | "messaging";
+
+// How strongly each EdgeTier improvement lands on a channel, relative to the
+// blended AI level percentages
+export type ChannelImprovementProfile = {
+  aht: number;
+  qa: number;
+  deflection: number;
+};
+
+export type ChannelProfile = {
+  label: string;
+  defaultSharePct: number;
+  defaultAhtMins: number;
+  // Contacts an agent works at the same time
+  defaultConcurrency: number;
+  improvements: ChannelImprovementProfile;
+};
+
+export type ChannelSettings = {
+  sharePct: number;
+  ahtMins: number;
+  concurrency: number;
+};
+
+export type ChannelMix = Record<Channel, ChannelSettings>;
+
+export type ChannelField = keyof ChannelSettings;
+
+export const CHANNELS: Channel[] = ["voice", "chat", "email", "messaging"];
+
+export const CHANNEL_PROFILES: Record<Channel, ChannelProfile> = {
+  voice: {
+    label: "Voice",
+    defaultSharePct: 45,
+    defaultAhtMins: 7,
+    defaultConcurrency: 1,
+    improvements: { aht: 1, qa: 1, deflection: 1 },
+  },
+  chat: {
+    label: "Chat",
+    defaultSharePct: 30,
+    defaultAhtMins: 11,
+    defaultConcurrency: 2,
+    improvements: { aht: 1.2, qa: 1.1, deflection: 1.1 },
+  },
+  email: {
+    label: "Email",
+    defaultSharePct: 20,
+    defaultAhtMins: 8,
+    defaultConcurrency: 1,
+    improvements: { aht: 1.3, qa: 1.1, deflection: 0.8 },
+  },
+  messaging: {
+    label: "Messaging",
+    defaultSharePct: 5,
+    defaultAhtMins: 15,
+    defaultConcurrency: 3,
+    improvements: { aht: 1.1, qa: 1.1, deflection: 1.2 },
+  },
+};
+
+export const CHANNEL_FIELD_BOUNDS: Record<
+  ChannelField,
+  { label: string; unit: string; min: number; max: number; step: number }
+> = {
+  sharePct: { label: "Share", unit: "%", min: 0, max: 100, step: 1 },
+  ahtMins: {
+    label: "AHT",
+    unit: "mins",
+    min: EXACT_INPUT_BOUNDS.ahtMins.min,
+    max: EXACT_INPUT_BOUNDS.ahtMins.max,
+    step: 0.5,
+  },
+  concurrency: { label: "Concurrency", unit: "×", min: 1, max: 6, step: 0.5 },
+};
+
+export const CHANNEL_FIELDS: ChannelField[] = [
+  "sharePct",
+  "ahtMins",
+  "concurrency",
+];
+
+export const DEFAULT_CHANNEL_MIX: ChannelMix = Object.fromEntries(
+  CHANNELS.map((channel) => {
+    const profile = CHANNEL_PROFILES[channel];
+    return [
+      channel,
+      {
+        sharePct: profile.defaultSharePct,
+        ahtMins: profile.defaultAhtMins,
+        concurrency: profile.defaultConcurrency,
+      },
+    ];
+  })
+) as ChannelMix;
+
+export const isValidChannelValue = (field: ChannelField, value: unknown) => {
+  const bounds = CHANNEL_FIELD_BOUNDS[field];
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= bounds.min &&
+    value <= bounds.max
+  );
+};
+
+export const channelShareTotal = (mix: ChannelMix) =>
+  CHANNELS.reduce((sum, channel) => sum + (mix[channel]?.sharePct ?? 0), 0);
+
+export const isValidChannelMix = (mix: ChannelMix | undefined) =>
+  mix !== undefined &&
+  CHANNELS.every((channel) =>
+    CHANNEL_FIELDS.every((field) =>
+      isValidChannelValue(field, mix[channel]?.[field])
+    )
+  ) &&
+  Math.abs(channelShareTotal(mix) - 100) <= SHARE_TOLERANCE_PCT;
+
+// Agent minutes spent per contact once concurrency is taken into account
+export const agentMinsPerContact = (settings: ChannelSettings) =>
+  settings.concurrency > 0 ? settings.ahtMins / settings.concurrency : 0;
+
+// Scales every channel's handle time, e.g. to vary the blended AHT
+export const scaleChannelAht = (mix: ChannelMix, factor: number): ChannelMix => {
+  const { min, max } = CHANNEL_FIELD_BOUNDS.ahtMins;
+  return Object.fromEntries(
+    CHANNELS.map((channel) => [
+      channel,
+      {
+        ...mix[channel],
+        ahtMins: Math.min(Math.max(mix[channel].ahtMins * factor, min), max),
+      },
+    ])
+  ) as ChannelMix;
+};
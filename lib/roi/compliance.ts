@@ -0,0 +1,129 @@
+import type { ComplexityLevel } from "./constants";
+import { isWithinBounds, parseBoundedNumber } from "./validation";
+
+export type ComplianceField =
+  | "incidentsPer10kContacts"
+  | "costPerIncident"
+  | "detectionUpliftPct";
+
+export type ComplianceInputs = Partial<Record<ComplianceField, number>>;
+
+export type ComplianceSettings = Record<ComplianceField, number>;
+
+export type ComplianceResult = ComplianceSettings & {
+  // Share of contacts sampled QA reviews today
+  sampledCoveragePct: number;
+  incidentsPerYear: number;
+  // Incidents that slip past sampled QA and turn into a cost
+  incidentsMissed: number;
+  // Missed incidents full automated coverage catches in time
+  incidentsCaught: number;
+  riskCostAtStake: number;
+  riskCostAvoided: number;
+};
+
+// Levels whose work carries regulatory risk worth valuing
+export const COMPLIANCE_COMPLEXITY_LEVELS: ComplexityLevel[] = [4, 5];
+
+export const COMPLIANCE_FIELDS: Record<
+  ComplianceField,
+  {
+    label: string;
+    unit: string;
+    min: number;
+    max: number;
+    integer: boolean;
+    // The incident rate and uplift have sensible defaults; the cost of an
+    // incident must come from the user
+    defaultValue?: number;
+    money?: boolean;
+  }
+> = {
+  incidentsPer10kContacts: {
+    label: "Compliance incidents",
+    unit: "per 10,000 contacts",
+    min: 0,
+    max: 10_000,
+    integer: false,
+    defaultValue: 1,
+  },
+  costPerIncident: {
+    label: "Average cost per incident or fine",
+    unit: "per incident",
+    min: 1,
+    max: 100_000_000,
+    integer: false,
+    money: true,
+  },
+  detectionUpliftPct: {
+    label: "Missed incidents caught with 100% QA coverage",
+    unit: "%",
+    min: 0,
+    max: 100,
+    integer: false,
+    defaultValue: 25,
+  },
+};
+
+export const COMPLIANCE_FIELD_KEYS = Object.keys(
+  COMPLIANCE_FIELDS
+) as ComplianceField[];
+
+export const isRegulatedComplexity = (level: ComplexityLevel) =>
+  COMPLIANCE_COMPLEXITY_LEVELS.includes(level);
+
+export const isValidComplianceValue = (
+  field: ComplianceField,
+  value: unknown
+) => isWithinBounds(COMPLIANCE_FIELDS[field], value);
+
+// Parses a raw text field; an empty string means "use the default"
+export const parseComplianceValue = (field: ComplianceField, raw: string) =>
+  parseBoundedNumber(COMPLIANCE_FIELDS[field], raw);
+
+// Null until the cost of an incident is known; the rates fall back to the
+// field defaults
+export const resolveCompliance = (
+  inputs: ComplianceInputs | undefined
+): ComplianceSettings | null => {
+  if (
+    !inputs ||
+    !isValidComplianceValue("costPerIncident", inputs.costPerIncident)
+  ) {
+    return null;
+  }
+  const settings = {} as ComplianceSettings;
+  COMPLIANCE_FIELD_KEYS.forEach((field) => {
+    const value = inputs[field];
+    settings[field] = isValidComplianceValue(field, value)
+      ? (value as number)
+      : COMPLIANCE_FIELDS[field].defaultValue ?? 0;
+  });
+  return settings;
+};
+
+// Sampled QA only sees its coverage share of incidents; the rest are found
+// too late, if at all. Automated QA reviews every contact, and the uplift
+// is how many of those missed incidents it catches before they cost money.
+export const calculateCompliance = (
+  settings: ComplianceSettings,
+  contactsPerYear: number,
+  sampledCoveragePct: number
+): ComplianceResult => {
+  const incidentsPerYear =
+    contactsPerYear * (settings.incidentsPer10kContacts / 10_000);
+  const incidentsMissed =
+    incidentsPerYear * (1 - sampledCoveragePct / 100);
+  const incidentsCaught =
+    incidentsMissed * (settings.detectionUpliftPct / 100);
+
+  return {
+    ...settings,
+    sampledCoveragePct,
+    incidentsPerYear,
+    incidentsMissed,
+    incidentsCaught,
+    riskCostAtStake: incidentsMissed * settings.costPerIncident,
+    riskCostAvoided: incidentsCaught * settings.costPerIncident,
+  };
+};
@@ -0,0 +1,311 @@
+import {
+  AI_IMPROVEMENTS,
+  COMPLEXITY_LEVELS,
+  type AiImprovements,
+  type AiLevel,
+  type ComplexityLevel,
+} from "./constants";
+import { CURRENCIES, CURRENCY_CODES, type CurrencyCode } from "./currency";
+import {
+  CONTRACT_TERMS,
+  DEFAULT_PRICE_BOOK,
+  PRICING_MODULES,
+  type BenefitStream,
+  type PriceBook,
+  type PriceTier,
+} from "./pricing";
+import { isRecord } from "./validation";
+
+// The model constants sales leadership can change without a redeploy
+export type ModelConfig = {
+  // Recorded on every result so an estimate can be traced to its config
+  version: string;
+  aiImprovements: Record<AiLevel, AiImprovements>;
+  // Defaults when no industry is picked; an industry's benchmark wins
+  complexityAhtMins: Record<ComplexityLevel, number>;
+  defaultCostPerAgent: Record<CurrencyCode, number>;
+  priceBook: PriceBook;
+};
+
+export type ConfigIssue = {
+  // Dotted path to the offending field, e.g. "priceBook.tiers.2.annualPerSeat"
+  path: string;
+  message: string;
+};
+
+type NumberRule = { min: number; max: number; integer?: boolean };
+
+export const AI_LEVELS = Object.keys(AI_IMPROVEMENTS) as AiLevel[];
+
+const COMPLEXITY_KEYS = Object.keys(COMPLEXITY_LEVELS).map(
+  Number
+) as ComplexityLevel[];
+
+const IMPROVEMENT_FIELDS = Object.keys(
+  AI_IMPROVEMENTS.medium
+) as (keyof AiImprovements)[];
+
+const BENEFIT_STREAMS: BenefitStream[] = ["aht", "qa", "deflection"];
+
+// Bounds for every number in the config; the validator checks against these
+export const MODEL_CONFIG_SCHEMA = {
+  improvementPct: { min: 0, max: 100 },
+  ahtMins: { min: 0.5, max: 120 },
+  costPerAgent: { min: 1_000, max: 500_000 },
+  maxAgents: { min: 1, max: 1_000_000, integer: true },
+  annualPerSeat: { min: 0, max: 100_000 },
+  minimumAnnual: { min: 0, max: 100_000_000 },
+  moduleSharePct: { min: 0, max: 100 },
+  minAgents: { min: 1, max: 1_000_000, integer: true },
+  discountPct: { min: 0, max: 100 },
+} satisfies Record<string, NumberRule>;
+
+export const DEFAULT_MODEL_CONFIG: ModelConfig = {
+  version: "2024.1",
+  aiImprovements: AI_IMPROVEMENTS,
+  complexityAhtMins: Object.fromEntries(
+    COMPLEXITY_KEYS.map((level) => [level, COMPLEXITY_LEVELS[level].ahtMins])
+  ) as Record<ComplexityLevel, number>,
+  defaultCostPerAgent: Object.fromEntries(
+    CURRENCY_CODES.map((code) => [code, CURRENCIES[code].defaultCostPerAgent])
+  ) as Record<CurrencyCode, number>,
+  priceBook: DEFAULT_PRICE_BOOK,
+};
+
+// JSON has no Infinity, so an open-ended top tier is written as null
+export const serializeModelConfig = (config: ModelConfig) =>
+  JSON.stringify(
+    config,
+    (_key, value) => (value === Infinity ? null : value),
+    2
+  );
+
+// Checks the whole config and reports every problem at once, so the admin
+// editor can flag each field rather than failing on the first
+export const parseModelConfig = (
+  raw: unknown
+): { config?: ModelConfig; issues: ConfigIssue[] } => {
+  const issues: ConfigIssue[] = [];
+  const fail = (path: string, message: string) => {
+    issues.push({ path, message });
+  };
+
+  const readNumber = (path: string, value: unknown, rule: NumberRule) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      fail(path, "Must be a number.");
+      return 0;
+    }
+    if (rule.integer && !Number.isInteger(value)) {
+      fail(path, "Must be a whole number.");
+    } else if (value < rule.min || value > rule.max) {
+      fail(path, `Must be between ${rule.min} and ${rule.max}.`);
+    }
+    return value;
+  };
+
+  const readString = (path: string, value: unknown) => {
+    if (typeof value !== "string" || value.trim() === "") {
+      fail(path, "Must be a non-empty string.");
+      return "";
+    }
+    return value.trim();
+  };
+
+  const readRecord = <K extends string | number, V>(
+    path: string,
+    value: unknown,
+    keys: K[],
+    read: (path: string, value: unknown) => V
+  ) => {
+    const result = {} as Record<K, V>;
+    if (!isRecord(value)) {
+      fail(path, "Must be an object.");
+      return result;
+    }
+    keys.forEach((key) => {
+      const fieldPath = `${path}.${key}`;
+      if (!(String(key) in value)) {
+        fail(fieldPath, "Missing.");
+        return;
+      }
+      result[key] = read(fieldPath, value[String(key)]);
+    });
+    Object.keys(value)
+      .filter((key) => !keys.map(String).includes(key))
+      .forEach((key) => fail(`${path}.${key}`, "Unknown field."));
+    return result;
+  };
+
+  const readTier = (path: string, value: unknown): PriceTier => {
+    if (!isRecord(value)) {
+      fail(path, "Must be an object.");
+      return { maxAgents: Infinity, annualPerSeat: 0, minimumAnnual: 0 };
+    }
+    return {
+      maxAgents:
+        value.maxAgents === null
+          ? Infinity
+          : readNumber(
+              `${path}.maxAgents`,
+              value.maxAgents,
+              MODEL_CONFIG_SCHEMA.maxAgents
+            ),
+      annualPerSeat: readNumber(
+        `${path}.annualPerSeat`,
+        value.annualPerSeat,
+        MODEL_CONFIG_SCHEMA.annualPerSeat
+      ),
+      minimumAnnual: readNumber(
+        `${path}.minimumAnnual`,
+        value.minimumAnnual,
+        MODEL_CONFIG_SCHEMA.minimumAnnual
+      ),
+    };
+  };
+
+  const readTiers = (path: string, value: unknown) => {
+    if (!Array.isArray(value) || value.length === 0) {
+      fail(path, "Must be a non-empty list of tiers.");
+      return [];
+    }
+    const tiers = value.map((tier, index) => readTier(`${path}.${index}`, tier));
+    tiers.forEach((tier, index) => {
+      if (index > 0 && tier.maxAgents <= tiers[index - 1].maxAgents) {
+        fail(
+          `${path}.${index}.maxAgents`,
+          "Must be higher than the previous tier's maximum."
+        );
+      }
+    });
+    return tiers;
+  };
+
+  const readVolumeDiscounts = (path: string, value: unknown) => {
+    if (!Array.isArray(value)) {
+      fail(path, "Must be a list.");
+      return [];
+    }
+    return value.map((band, index) => {
+      const bandPath = `${path}.${index}`;
+      if (!isRecord(band)) {
+        fail(bandPath, "Must be an object.");
+        return { minAgents: 0, discountPct: 0 };
+      }
+      return {
+        minAgents: readNumber(
+          `${bandPath}.minAgents`,
+          band.minAgents,
+          MODEL_CONFIG_SCHEMA.minAgents
+        ),
+        discountPct: readNumber(
+          `${bandPath}.discountPct`,
+          band.discountPct,
+          MODEL_CONFIG_SCHEMA.discountPct
+        ),
+      };
+    });
+  };
+
+  const readModule = (path: string, value: unknown) => {
+    if (!isRecord(value)) {
+      fail(path, "Must be an object.");
+      return { label: "", benefitStream: "aht" as BenefitStream, sharePct: 0 };
+    }
+    const benefitStream = BENEFIT_STREAMS.find(
+      (stream) => stream === value.benefitStream
+    );
+    if (!benefitStream) {
+      fail(
+        `${path}.benefitStream`,
+        `Must be one of ${BENEFIT_STREAMS.join(", ")}.`
+      );
+    }
+    return {
+      label: readString(`${path}.label`, value.label),
+      benefitStream: benefitStream ?? "aht",
+      sharePct: readNumber(
+        `${path}.sharePct`,
+        value.sharePct,
+        MODEL_CONFIG_SCHEMA.moduleSharePct
+      ),
+    };
+  };
+
+  const readPriceBook = (path: string, value: unknown): PriceBook => {
+    const book = isRecord(value) ? value : {};
+    if (!isRecord(value)) fail(path, "Must be an object.");
+    const modules = readRecord(
+      `${path}.modules`,
+      book.modules,
+      PRICING_MODULES,
+      readModule
+    );
+    const shareTotal = PRICING_MODULES.reduce(
+      (sum, module) => sum + (modules[module]?.sharePct ?? 0),
+      0
+    );
+    const modulesValid = !issues.some((issue) =>
+      issue.path.startsWith(`${path}.modules`)
+    );
+    if (modulesValid && Math.abs(shareTotal - 100) > 0.01) {
+      fail(
+        `${path}.modules`,
+        `Module shares must add up to 100% (currently ${shareTotal}%).`
+      );
+    }
+    return {
+      version: readString(`${path}.version`, book.version),
+      tiers: readTiers(`${path}.tiers`, book.tiers),
+      modules,
+      volumeDiscounts: readVolumeDiscounts(
+        `${path}.volumeDiscounts`,
+        book.volumeDiscounts
+      ),
+      termDiscounts: readRecord(
+        `${path}.termDiscounts`,
+        book.termDiscounts,
+        CONTRACT_TERMS,
+        (fieldPath, discount) =>
+          readNumber(fieldPath, discount, MODEL_CONFIG_SCHEMA.discountPct)
+      ),
+    };
+  };
+
+  if (!isRecord(raw)) {
+    return { issues: [{ path: "", message: "Config must be a JSON object." }] };
+  }
+
+  const config: ModelConfig = {
+    version: readString("version", raw.version),
+    aiImprovements: readRecord(
+      "aiImprovements",
+      raw.aiImprovements,
+      AI_LEVELS,
+      (path, value) =>
+        readRecord(path, value, IMPROVEMENT_FIELDS, (fieldPath, pct) =>
+          readNumber(fieldPath, pct, MODEL_CONFIG_SCHEMA.improvementPct)
+        )
+    ),
+    complexityAhtMins: readRecord(
+      "complexityAhtMins",
+      raw.complexityAhtMins,
+      COMPLEXITY_KEYS,
+      (path, value) => readNumber(path, value, MODEL_CONFIG_SCHEMA.ahtMins)
+    ),
+    defaultCostPerAgent: readRecord(
+      "defaultCostPerAgent",
+      raw.defaultCostPerAgent,
+      CURRENCY_CODES,
+      (path, value) =>
+        readNumber(path, value, MODEL_CONFIG_SCHEMA.costPerAgent)
+    ),
+    priceBook: readPriceBook("priceBook", raw.priceBook),
+  };
+
+  const knownKeys = Object.keys(DEFAULT_MODEL_CONFIG);
+  Object.keys(raw)
+    .filter((key) => !knownKeys.includes(key))
+    .forEach((key) => fail(key, "Unknown field."));
+
+  return issues.length > 0 ? { issues } : { config, issues };
+};
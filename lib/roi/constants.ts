@@ -0,0 +1,130 @@
+export const WORKING_HOURS_PER_YEAR = 1760;
+export const WORKING_DAYS_PER_MONTH = 21;
+export const DEFAULT_COST_PER_AGENT = 45000; // simple internal assumption
+
+export const TEAM_SIZE_MAP = {
+  "1-10": 8,
+  "11-25": 20,
+  "26-50": 40,
+  "51-100": 80,
+  "101-250": 150,
+  "250+": 300,
+} as const;
+export type TeamSizeBand = keyof typeof TEAM_SIZE_MAP;
+
+export const CONTACTS_PER_AGENT_MAP = {
+  "10-20": 15,
+  "20-30": 25,
+  "30-40": 35,
+  "40-60": 50,
+  "60+": 70,
+} as const;
+export type ContactVolumeBand = keyof typeof CONTACTS_PER_AGENT_MAP;
+
+// Plausible min / max for each band, used by the uncertainty mode
+export const CONTACTS_PER_AGENT_RANGES: Record<
+  ContactVolumeBand,
+  [number, number]
+> = {
+  "10-20": [10, 20],
+  "20-30": [20, 30],
+  "30-40": [30, 40],
+  "40-60": [40, 60],
+  "60+": [60, 90],
+};
+
+export type ComplexityLevel = 1 | 2 | 3 | 4 | 5;
+
+export const COMPLEXITY_LEVELS: Record<
+  ComplexityLevel,
+  {
+    label: string;
+    description: string;
+    ahtMins: number;
+    impactSummary: string;
+  }
+> = {
+  1: {
+    label: "Very quick / transactional",
+    description:
+      "Short, repetitive queries – order checks, simple account questions. Common in e-commerce and gaming support.",
+    ahtMins: 3.5,
+    impactSummary:
+      "EdgeTier typically helps by tightening responses and surfacing best answers faster.",
+  },
+  2: {
+    label: "Mostly simple",
+    description:
+      "Low–moderate complexity – billing queries, plan changes, simple itinerary questions. Typical in telecom, e-commerce and travel.",
+    ahtMins: 5,
+    impactSummary:
+      "Good opportunity to reduce handling time and QA effort without changing headcount.",
+  },
+  3: {
+    label: "Mixed – some quick, some investigation",
+    description:
+      "Blend of quick questions and deeper cases – refunds, reschedules, payment or gameplay issues. Common in travel, e-commerce and gaming.",
+    ahtMins: 7,
+    impactSummary:
+      "EdgeTier typically drives a 10–12% AHT reduction and strong gains in QA coverage.",
+  },
+  4: {
+    label: "Complex",
+    description:
+      "Multi-step cases – disrupted itineraries, chargebacks, complex account work, VIP or high-value customers.",
+    ahtMins: 10,
+    impactSummary:
+      "The more complex the work, the more EdgeTier’s guidance and QA automation compound over time.",
+  },
+  5: {
+    label: "Very complex / highly regulated",
+    description:
+      "Heavy investigation, multiple systems and compliance checks – fraud, KYC/AML, complex financial decisions.",
+    ahtMins: 14,
+    impactSummary:
+      "Biggest upside for QA automation, risk reduction and time savings per case.",
+  },
+};
+
+export type AiLevel = "low" | "medium" | "high";
+
+export const AI_LEVEL_LABELS: Record<AiLevel, string> = {
+  low: "Low – mostly manual, QA sampled manually",
+  medium: "Medium – some AI in routing, bots or QA",
+  high: "High – AI supports core workflows",
+};
+
+export type AiImprovements = {
+  ahtReductionPct: number;
+  qaEfficiencyGainPct: number;
+  contactDeflectionPct: number;
+};
+
+export const AI_IMPROVEMENTS: Record<AiLevel, AiImprovements> = {
+  low: {
+    ahtReductionPct: 15,
+    qaEfficiencyGainPct: 60,
+    contactDeflectionPct: 20,
+  },
+  medium: {
+    ahtReductionPct: 12,
+    qaEfficiencyGainPct: 50,
+    contactDeflectionPct: 15,
+  },
+  high: {
+    ahtReductionPct: 8,
+    qaEfficiencyGainPct: 35,
+    contactDeflectionPct: 10,
+  },
+};
+
+export type RevenueBand = "unknown" | "lt50" | "50-250" | "250-1000" | "gt1000";
+
+export const ASSUMPTIONS = {
+  qaCoveragePct: 5,
+  qaTimePerContactMins: 6,
+  qaHourlyMultiplier: 1.2,
+  revenueInfluencedPct: 30, // share of revenue influenced by this team
+  revenueProtectionPct: 1, // improvement on that influenced base
+  nonPriorityAhtFactor: 0.3, // AHT gains still partly land when not a priority
+};
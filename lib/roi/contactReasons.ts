@@ -0,0 +1,175 @@
+import { SHARE_TOLERANCE_PCT } from "./validation";
+
+// How a contact reason can be taken out of the queue
+export type PreventionLever =
+  | "proactive"
+  | "selfService"
+  | "firstContactFix"
+  | "none";
+
+export type ContactReason = {
+  label: string;
+  // Share of all contacts
+  sharePct: number;
+  lever: PreventionLever;
+  // Share of this reason's contacts EdgeTier can prevent
+  preventablePct: number;
+};
+
+export type ContactReasonField = "sharePct" | "preventablePct";
+
+export type ContactReasonResult = ContactReason & {
+  contactsPerYear: number;
+  // This reason's part of the deflection rate before priority weighting
+  deflectionPct: number;
+  contactsAvoidedPerYear: number;
+  savingsDeflection: number;
+};
+
+export const PREVENTION_LEVERS: Record<
+  PreventionLever,
+  { label: string; description: string; defaultPreventablePct: number }
+> = {
+  proactive: {
+    label: "Proactive notice",
+    description:
+      "Tell customers before they ask, e.g. delivery delays or outages.",
+    defaultPreventablePct: 40,
+  },
+  selfService: {
+    label: "Self-service",
+    description: "Answers customers can find themselves with better content.",
+    defaultPreventablePct: 25,
+  },
+  firstContactFix: {
+    label: "First-contact fix",
+    description: "Follow-ups that go away when the first contact resolves it.",
+    defaultPreventablePct: 20,
+  },
+  none: {
+    label: "Not preventable",
+    description: "Needs an agent whatever happens.",
+    defaultPreventablePct: 0,
+  },
+};
+
+export const PREVENTION_LEVER_IDS = Object.keys(
+  PREVENTION_LEVERS
+) as PreventionLever[];
+
+export const CONTACT_REASON_FIELDS: ContactReasonField[] = [
+  "sharePct",
+  "preventablePct",
+];
+
+export const CONTACT_REASON_FIELD_BOUNDS: Record<
+  ContactReasonField,
+  { label: string; min: number; max: number }
+> = {
+  sharePct: { label: "Share of contacts", min: 0, max: 100 },
+  preventablePct: { label: "Preventable", min: 0, max: 100 },
+};
+
+export const MAX_CONTACT_REASONS = 10;
+export const CONTACT_REASON_LABEL_MAX_LENGTH = 60;
+
+// A typical e-commerce top four, roughly matching the medium AI level's
+// flat deflection rate
+export const DEFAULT_CONTACT_REASONS: ContactReason[] = [
+  {
+    label: "Where is my order?",
+    sharePct: 20,
+    lever: "proactive",
+    preventablePct: 40,
+  },
+  {
+    label: "Refunds and returns",
+    sharePct: 15,
+    lever: "selfService",
+    preventablePct: 25,
+  },
+  {
+    label: "Account access",
+    sharePct: 10,
+    lever: "selfService",
+    preventablePct: 25,
+  },
+  {
+    label: "Chasing an open case",
+    sharePct: 10,
+    lever: "firstContactFix",
+    preventablePct: 20,
+  },
+];
+
+export const isPreventionLever = (value: unknown): value is PreventionLever =>
+  typeof value === "string" && value in PREVENTION_LEVERS;
+
+export const isValidContactReasonValue = (
+  field: ContactReasonField,
+  value: unknown
+) => {
+  const bounds = CONTACT_REASON_FIELD_BOUNDS[field];
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= bounds.min &&
+    value <= bounds.max
+  );
+};
+
+export const isValidContactReasonLabel = (value: unknown) =>
+  typeof value === "string" &&
+  value.trim() !== "" &&
+  value.length <= CONTACT_REASON_LABEL_MAX_LENGTH;
+
+export const contactReasonShareTotal = (reasons: ContactReason[]) =>
+  reasons.reduce((sum, reason) => sum + reason.sharePct, 0);
+
+// Reasons don't have to cover every contact; the rest count as not
+// preventable
+export const isValidContactReasons = (
+  reasons: ContactReason[] | undefined
+): reasons is ContactReason[] =>
+  reasons !== undefined &&
+  reasons.length > 0 &&
+  reasons.length <= MAX_CONTACT_REASONS &&
+  reasons.every(
+    (reason) =>
+      isValidContactReasonLabel(reason.label) &&
+      isPreventionLever(reason.lever) &&
+      CONTACT_REASON_FIELDS.every((field) =>
+        isValidContactReasonValue(field, reason[field])
+      )
+  ) &&
+  contactReasonShareTotal(reasons) <= 100 + SHARE_TOLERANCE_PCT;
+
+export const reasonDeflectionPct = (reason: ContactReason) =>
+  (reason.sharePct * reason.preventablePct) / 100;
+
+// Deflection rate the reasons add up to, replacing the AI level's flat rate
+export const contactReasonsDeflectionPct = (reasons: ContactReason[]) =>
+  reasons.reduce((sum, reason) => sum + reasonDeflectionPct(reason), 0);
+
+// Splits the engine's contacts avoided and savings across reasons in
+// proportion to each one's part of the deflection rate, so the rows always
+// add up to the headline figures
+export const contactReasonResults = (
+  reasons: ContactReason[],
+  contactsPerYear: number,
+  contactsAvoidedPerYear: number,
+  savingsDeflection: number
+): ContactReasonResult[] => {
+  const total = contactReasonsDeflectionPct(reasons);
+  return reasons.map((reason) => {
+    const deflectionPct = reasonDeflectionPct(reason);
+    const weight = total > 0 ? deflectionPct / total : 0;
+    return {
+      ...reason,
+      contactsPerYear: contactsPerYear * (reason.sharePct / 100),
+      deflectionPct,
+      contactsAvoidedPerYear: contactsAvoidedPerYear * weight,
+      savingsDeflection: savingsDeflection * weight,
+    };
+  });
+};
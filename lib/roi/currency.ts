@@ -0,0 +1,77 @@
+import type { RevenueBand } from "./constants";
+
+export type CurrencyCode = "EUR" | "GBP" | "USD";
+
+export type CurrencyConfig = {
+  label: string;
+  locale: string;
+  // Units of this currency per €1 – used to convert the EUR price list
+  ratePerEur: number;
+  defaultCostPerAgent: number;
+  revenueBands: Record<
+    Exclude<RevenueBand, "unknown">,
+    { label: string; midpoint: number }
+  >;
+};
+
+export const BASE_CURRENCY: CurrencyCode = "EUR";
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyConfig> = {
+  EUR: {
+    label: "Euro (€)",
+    locale: "en-IE",
+    ratePerEur: 1,
+    defaultCostPerAgent: 45_000,
+    revenueBands: {
+      lt50: { label: "< €50m annual revenue", midpoint: 25_000_000 },
+      "50-250": { label: "€50m – €250m", midpoint: 150_000_000 },
+      "250-1000": { label: "€250m – €1bn", midpoint: 500_000_000 },
+      gt1000: { label: "> €1bn", midpoint: 1_500_000_000 },
+    },
+  },
+  GBP: {
+    label: "Pound sterling (£)",
+    locale: "en-GB",
+    ratePerEur: 0.85,
+    defaultCostPerAgent: 36_000,
+    revenueBands: {
+      lt50: { label: "< £40m annual revenue", midpoint: 20_000_000 },
+      "50-250": { label: "£40m – £200m", midpoint: 120_000_000 },
+      "250-1000": { label: "£200m – £850m", midpoint: 425_000_000 },
+      gt1000: { label: "> £850m", midpoint: 1_300_000_000 },
+    },
+  },
+  USD: {
+    label: "US dollar ($)",
+    locale: "en-US",
+    ratePerEur: 1.08,
+    defaultCostPerAgent: 52_000,
+    revenueBands: {
+      lt50: { label: "< $50m annual revenue", midpoint: 25_000_000 },
+      "50-250": { label: "$50m – $250m", midpoint: 150_000_000 },
+      "250-1000": { label: "$250m – $1bn", midpoint: 500_000_000 },
+      gt1000: { label: "> $1bn", midpoint: 1_500_000_000 },
+    },
+  },
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  typeof value === "string" && value in CURRENCIES;
+
+export const convertFromEur = (amount: number, currency: CurrencyCode) =>
+  amount * CURRENCIES[currency].ratePerEur;
+
+export const revenueBandLabel = (
+  band: RevenueBand,
+  currency: CurrencyCode
+) =>
+  band === "unknown"
+    ? "I don't know / prefer not to say"
+    : CURRENCIES[currency].revenueBands[band].label;
+
+export const revenueBandMidpoint = (
+  band: RevenueBand,
+  currency: CurrencyCode
+) => (band === "unknown" ? 0 : CURRENCIES[currency].revenueBands[band].midpoint);
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  COMPLEXITY_LEVELS,
+  TEAM_SIZE_MAP,
+  type ComplexityLevel,
+  type TeamSizeBand,
+} from "./constants";
+import { DEFAULT_CHANNEL_MIX } from "./channels";
+import { DEFAULT_ROI_INPUTS, calculateRoi } from "./engine";
+
+const TEAM_SIZE_BANDS = Object.keys(TEAM_SIZE_MAP) as TeamSizeBand[];
+const LEVELS = Object.keys(COMPLEXITY_LEVELS).map(Number) as ComplexityLevel[];
+
+const round = (value: number, places = 2) =>
+  Math.round(value * 10 ** places) / 10 ** places;
+
+const headline = (
+  teamSizeBand: TeamSizeBand,
+  complexityLevel: ComplexityLevel
+) => {
+  const result = calculateRoi({
+    ...DEFAULT_ROI_INPUTS,
+    teamSizeBand,
+    complexityLevel,
+  });
+  return {
+    savingsAht: round(result.savingsAht),
+    savingsQa: round(result.savingsQa),
+    savingsDeflection: round(result.savingsDeflection),
+    revenueProtected: round(result.revenueProtected),
+    totalHoursSaved: round(result.totalHoursSaved),
+    netGain: round(result.netGain),
+    roiPct: round(result.roiPct),
+    paybackMonths: round(result.paybackMonths, 3),
+  };
+};
+
+describe("calculateRoi", () => {
+  describe.each(TEAM_SIZE_BANDS)("%s agents", (teamSizeBand) => {
+    it.each(LEVELS)("complexity %i", (complexityLevel) => {
+      expect(headline(teamSizeBand, complexityLevel)).toMatchSnapshot();
+    });
+  });
+
+  it("matches the default scenario's published figures", () => {
+    expect(headline("26-50", 3)).toEqual({
+      savingsAht: 126286.36,
+      savingsQa: 27061.36,
+      savingsDeflection: 157857.95,
+      revenueProtected: 0,
+      totalHoursSaved: 5821.2,
+      netGain: 191205.68,
+      roiPct: 159.34,
+      paybackMonths: 4.627,
+    });
+  });
+
+  it("includes revenue protected only when asked", () => {
+    const withRevenue = calculateRoi({
+      ...DEFAULT_ROI_INPUTS,
+      priorities: { ...DEFAULT_ROI_INPUTS.priorities, cx: true },
+      revenueBand: "50-250",
+      includeRevenueImpact: true,
+    });
+    expect(withRevenue.revenueProtected).toBeGreaterThan(0);
+    expect(calculateRoi(DEFAULT_ROI_INPUTS).revenueProtected).toBe(0);
+  });
+
+  it("caps each channel's improvement at 100%", () => {
+    const result = calculateRoi({
+      ...DEFAULT_ROI_INPUTS,
+      channelMix: DEFAULT_CHANNEL_MIX,
+      improvements: {
+        ahtReductionPct: 95,
+        qaEfficiencyGainPct: 95,
+        contactDeflectionPct: 95,
+      },
+    });
+    result.channels.forEach((channel) => {
+      expect(channel.newHandlingHours).toBeGreaterThanOrEqual(0);
+      expect(channel.newQaHours).toBeGreaterThanOrEqual(0);
+      expect(channel.contactsAvoidedPerYear).toBeLessThanOrEqual(
+        channel.contactsPerYear
+      );
+    });
+  });
+
+  it("values compliance risk only at regulated complexity levels", () => {
+    const withCompliance = (complexityLevel: ComplexityLevel) =>
+      calculateRoi({
+        ...DEFAULT_ROI_INPUTS,
+        complexityLevel,
+        includeComplianceImpact: true,
+        compliance: { costPerIncident: 50_000 },
+      });
+    expect(withCompliance(1).riskCostAvoided).toBe(0);
+    expect(withCompliance(1).complianceIncluded).toBe(false);
+    expect(withCompliance(4).riskCostAvoided).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,682 @@
+import {
+  ASSUMPTIONS,
+  CONTACTS_PER_AGENT_MAP,
+  TEAM_SIZE_MAP,
+  type AiImprovements,
+  type AiLevel,
+  type ComplexityLevel,
+  type ContactVolumeBand,
+  type RevenueBand,
+  type TeamSizeBand,
+} from "./constants";
+import {
+  ahtMinsFor,
+  benchmarkCitation,
+  deflectableShareFactor,
+  retentionDefaultsFor,
+  type BenchmarkCitation,
+  type IndustryId,
+} from "./benchmarks";
+import { DEFAULT_MODEL_CONFIG, type ModelConfig } from "./config";
+import {
+  calculateCapacity,
+  defaultCapacitySettings,
+  resolveCapacity,
+  type CapacityInputs,
+  type CapacityResult,
+} from "./capacity";
+import {
+  CHANNELS,
+  CHANNEL_PROFILES,
+  agentMinsPerContact,
+  channelShareTotal,
+  isValidChannelMix,
+  type Channel,
+  type ChannelImprovementProfile,
+  type ChannelMix,
+  type ChannelSettings,
+} from "./channels";
+import {
+  contactReasonResults,
+  contactReasonsDeflectionPct,
+  isValidContactReasons,
+  type ContactReason,
+  type ContactReasonResult,
+} from "./contactReasons";
+import {
+  defaultAssumptionsFor,
+  resolveAssumptions,
+  type AssumptionOverrides,
+  type ModelAssumptions,
+} from "./assumptions";
+import {
+  BASE_CURRENCY,
+  convertFromEur,
+  revenueBandMidpoint,
+  type CurrencyCode,
+} from "./currency";
+import {
+  isValidExactValue,
+  type ExactField,
+  type ExactInputs,
+  type InputSource,
+} from "./exact";
+import {
+  includesStream,
+  quotePrice,
+  type BenefitStream,
+  type PriceQuote,
+  type PricingOptions,
+} from "./pricing";
+import {
+  calculateCompliance,
+  isRegulatedComplexity,
+  resolveCompliance,
+  type ComplianceInputs,
+  type ComplianceResult,
+} from "./compliance";
+import {
+  isValidSites,
+  rollUpSites,
+  siteInputs,
+  type SiteProfile,
+  type SiteResult,
+} from "./sites";
+import {
+  applyRollout,
+  type RolloutPlan,
+  type RolloutResult,
+} from "./rollout";
+import {
+  calculateRetention,
+  resolveRetention,
+  type RetentionInputs,
+  type RetentionResult,
+} from "./retention";
+
+export type RoiPriorities = {
+  aht: boolean;
+  qa: boolean;
+  deflection: boolean;
+  cx: boolean;
+};
+
+export type RoiInputs = {
+  teamSizeBand: TeamSizeBand;
+  contactVolumeBand: ContactVolumeBand;
+  complexityLevel: ComplexityLevel;
+  aiLevel: AiLevel;
+  priorities: RoiPriorities;
+  revenueBand: RevenueBand;
+  includeRevenueImpact: boolean;
+  // Measured values that replace the band estimates when valid
+  exact?: ExactInputs;
+  // Overrides for agent cost, working time and QA parameters
+  assumptions?: AssumptionOverrides;
+  // Currency for all money inputs and outputs; defaults to EUR
+  currency?: CurrencyCode;
+  // Scenario-specific improvement percentages, replacing the AI level row
+  improvements?: Partial<AiImprovements>;
+  // Modules, contract term and any negotiated price
+  pricing?: PricingOptions;
+  // Volume split by channel; replaces the single AHT when valid
+  channelMix?: ChannelMix;
+  // FTE conversion, redeploy vs avoid hiring, and attrition
+  capacity?: CapacityInputs;
+  // Customer numbers for the churn model; without them the band is used
+  retention?: RetentionInputs;
+  // Industry benchmark set used for the band defaults
+  industry?: IndustryId;
+  // Counts the compliance risk cost avoided as its own benefit line
+  includeComplianceImpact?: boolean;
+  // Incident rate, cost and detection uplift for the compliance model
+  compliance?: ComplianceInputs;
+  // Top contact reasons; when valid they set the deflection rate instead
+  // of the AI level's flat percentage
+  contactReasons?: ContactReason[];
+  // Several sites or teams, each with its own answers to the first four
+  // questions; when valid the results are their roll-up
+  sites?: SiteProfile[];
+  // Agents switched on in waves rather than all at once; payback then
+  // follows the plan
+  rollout?: RolloutPlan;
+  // Model constants loaded at runtime; defaults to the built-in config
+  config?: ModelConfig;
+};
+
+export const DEFAULT_ROI_INPUTS: RoiInputs = {
+  teamSizeBand: "26-50",
+  contactVolumeBand: "30-40",
+  complexityLevel: 3,
+  aiLevel: "medium",
+  priorities: { aht: true, qa: true, deflection: true, cx: false },
+  revenueBand: "unknown",
+  includeRevenueImpact: false,
+};
+
+export type ChannelResult = {
+  channel: Channel;
+  sharePct: number;
+  contactsPerYear: number;
+  ahtMins: number;
+  concurrency: number;
+  agentMinsPerContact: number;
+  baselineHandlingHours: number;
+  newHandlingHours: number;
+  hoursSavedAht: number;
+  savingsAht: number;
+  baselineQaHours: number;
+  newQaHours: number;
+  hoursSavedQa: number;
+  savingsQa: number;
+  contactsAvoidedPerYear: number;
+  savingsDeflection: number;
+  totalSavings: number;
+};
+
+export type RoiResult = {
+  currency: CurrencyCode;
+  configVersion: string;
+  inputSources: Record<ExactField, InputSource>;
+  assumptions: ModelAssumptions;
+  benchmark: BenchmarkCitation | null;
+
+  // Volume
+  numAgents: number;
+  annualCostPerAgent: number;
+  contactsPerAgentPerDay: number;
+  workingDaysPerMonth: number;
+  contactsPerMonth: number;
+  contactsPerYear: number;
+  ahtMins: number;
+  costPerAgentHour: number;
+
+  // Baseline
+  baselineHandlingHours: number;
+  baselineHandlingCost: number;
+  costPerContactBaseline: number;
+
+  // Improvements before and after priority weighting
+  baseImprovements: AiImprovements;
+  // Priority weighting, zeroed for streams whose module isn't licensed
+  priorityFactors: { aht: number; qa: number; deflection: number };
+  // Industry deflectable share relative to the reference; 1 without one
+  deflectableShareFactor: number;
+  ahtReductionPct: number;
+  qaEfficiencyGainPct: number;
+  contactDeflectionPct: number;
+
+  // Handling time
+  newAhtMins: number;
+  newHandlingHours: number;
+  newHandlingCost: number;
+  hoursSavedAht: number;
+  savingsAht: number;
+
+  // QA
+  qaHourlyCost: number;
+  baselineQaHours: number;
+  baselineQaCost: number;
+  newQaHours: number;
+  newQaCost: number;
+  hoursSavedQa: number;
+  savingsQa: number;
+
+  // Deflection
+  contactsAvoidedPerYear: number;
+  savingsDeflection: number;
+  hoursSavedDeflection: number;
+
+  // Per-channel breakdown; empty unless a channel mix is applied
+  channels: ChannelResult[];
+  // Per-reason breakdown; empty unless contact reasons are applied
+  contactReasons: ContactReasonResult[];
+  // Per-site breakdown; empty unless several sites are rolled up
+  sites: SiteResult[];
+
+  // Capacity, avoided hires and faster ramp
+  capacity: CapacityResult;
+  savingsHiring: number;
+  savingsRamp: number;
+
+  // Revenue
+  revenueMethod: "retention" | "band";
+  retention: RetentionResult | null;
+  revenueIncluded: boolean;
+  annualRevenueInfluenced: number;
+  revenueProtectionPct: number;
+  revenueProtected: number;
+
+  // Compliance risk
+  compliance: ComplianceResult | null;
+  complianceIncluded: boolean;
+  riskCostAvoided: number;
+
+  // Totals
+  pricing: PriceQuote;
+  edgetierAnnualCost: number;
+  totalAnnualBenefit: number;
+  netGain: number;
+  roiPct: number;
+  totalHoursSaved: number;
+  monthlyBenefit: number;
+  paybackMonths: number;
+  // Month-by-month schedule; null unless a phased rollout is planned
+  rollout: RolloutResult | null;
+};
+
+const resolveExact = (
+  inputs: RoiInputs,
+  field: ExactField,
+  bandValue: number
+): [number, InputSource] => {
+  const value = inputs.exact?.[field];
+  return isValidExactValue(field, value)
+    ? [value as number, "exact"]
+    : [bandValue, "band"];
+};
+
+type VolumeSegment = {
+  channel: Channel;
+  sharePct: number;
+  settings: ChannelSettings;
+  improvements: ChannelImprovementProfile;
+};
+
+// Without a channel mix the whole volume is one segment at the blended AHT
+const volumeSegments = (
+  channelMix: ChannelMix | undefined,
+  ahtMins: number
+): VolumeSegment[] => {
+  if (!channelMix) {
+    return [
+      {
+        channel: "voice",
+        sharePct: 100,
+        settings: { sharePct: 100, ahtMins, concurrency: 1 },
+        improvements: { aht: 1, qa: 1, deflection: 1 },
+      },
+    ];
+  }
+  const total = channelShareTotal(channelMix);
+  return CHANNELS.map((channel) => ({
+    channel,
+    sharePct: (channelMix[channel].sharePct / total) * 100,
+    settings: channelMix[channel],
+    improvements: CHANNEL_PROFILES[channel].improvements,
+  }));
+};
+
+// Improvement rates before priority weighting: the AI level's row, with
+// deflection worked out from contact reasons when they're given
+export const baseImprovementsFor = (inputs: RoiInputs): AiImprovements => {
+  const config = inputs.config ?? DEFAULT_MODEL_CONFIG;
+  const levelImprovements = config.aiImprovements[inputs.aiLevel];
+  return isValidContactReasons(inputs.contactReasons)
+    ? {
+        ...levelImprovements,
+        contactDeflectionPct: contactReasonsDeflectionPct(
+          inputs.contactReasons
+        ),
+      }
+    : levelImprovements;
+};
+
+const sumOf = (
+  channels: ChannelResult[],
+  key: Exclude<keyof ChannelResult, "channel">
+) => channels.reduce((sum, channel) => sum + channel[key], 0);
+
+// A channel's multiplier can't take an improvement past 100%: there's no
+// handling time or QA effort below zero
+const channelRatePct = (pct: number, multiplier: number) =>
+  Math.min((pct || 0) * multiplier, 100);
+
+const calculateTeamRoi = (inputs: RoiInputs): RoiResult => {
+  const { priorities } = inputs;
+  const currency = inputs.currency ?? BASE_CURRENCY;
+  const config = inputs.config ?? DEFAULT_MODEL_CONFIG;
+  const { priceBook } = config;
+  const assumptions = resolveAssumptions(
+    inputs.assumptions,
+    defaultAssumptionsFor(currency, inputs.industry, config)
+  );
+
+  const [numAgents, numAgentsSource] = resolveExact(
+    inputs,
+    "numAgents",
+    TEAM_SIZE_MAP[inputs.teamSizeBand] ?? TEAM_SIZE_MAP["26-50"]
+  );
+  const annualCostPerAgent = assumptions.annualCostPerAgent;
+
+  const [contactsPerAgentPerDay, contactsSource] = resolveExact(
+    inputs,
+    "contactsPerAgentPerDay",
+    CONTACTS_PER_AGENT_MAP[inputs.contactVolumeBand] ??
+      CONTACTS_PER_AGENT_MAP["30-40"]
+  );
+  const workingDaysPerMonth = assumptions.workingDaysPerMonth;
+  const contactsPerMonth =
+    numAgents * contactsPerAgentPerDay * workingDaysPerMonth;
+  const contactsPerYear = contactsPerMonth * 12;
+
+  const channelMix = isValidChannelMix(inputs.channelMix)
+    ? inputs.channelMix
+    : undefined;
+
+  const [singleAhtMins, singleAhtSource] = resolveExact(
+    inputs,
+    "ahtMins",
+    ahtMinsFor(inputs.complexityLevel, inputs.industry, config)
+  );
+
+  const costPerAgentHour =
+    assumptions.workingHoursPerYear > 0
+      ? annualCostPerAgent / assumptions.workingHoursPerYear
+      : 0;
+
+  const contactReasons = isValidContactReasons(inputs.contactReasons)
+    ? inputs.contactReasons
+    : undefined;
+  const baseImprovements: AiImprovements = {
+    ...baseImprovementsFor(inputs),
+    ...inputs.improvements,
+  };
+
+  const pricing = quotePrice(numAgents, inputs.pricing, priceBook);
+  const moduleFactor = (stream: BenefitStream) =>
+    includesStream(pricing.modules, stream, priceBook) ? 1 : 0;
+
+  const ahtFactor =
+    (priorities.aht ? 1 : ASSUMPTIONS.nonPriorityAhtFactor) *
+    moduleFactor("aht");
+  const qaFactor = (priorities.qa ? 1 : 0) * moduleFactor("qa");
+  const deflectionFactor =
+    (priorities.deflection ? 1 : 0) * moduleFactor("deflection");
+
+  const ahtReductionPct = baseImprovements.ahtReductionPct * ahtFactor;
+  const qaEfficiencyGainPct =
+    baseImprovements.qaEfficiencyGainPct * qaFactor;
+  // Reason shares already say how much volume is deflectable, so the
+  // industry's deflectable share only applies to the flat rate
+  const deflectableShare = contactReasons
+    ? 1
+    : deflectableShareFactor(inputs.industry);
+  const contactDeflectionPct =
+    baseImprovements.contactDeflectionPct *
+    deflectionFactor *
+    deflectableShare;
+
+  // Revenue side – the churn model when customer numbers are known,
+  // otherwise the band heuristic
+  const retentionSettings = resolveRetention(
+    inputs.retention,
+    retentionDefaultsFor(inputs.industry)
+  );
+  const retention = retentionSettings
+    ? calculateRetention(retentionSettings)
+    : null;
+  const revenueMethod = retention ? "retention" : "band";
+
+  let annualRevenueInfluenced = 0;
+  let revenueProtectionPct = 0;
+  const revenueIncluded =
+    inputs.includeRevenueImpact &&
+    (retention !== null || inputs.revenueBand !== "unknown") &&
+    priorities.cx;
+
+  if (revenueIncluded && retention) {
+    annualRevenueInfluenced = retention.revenueAtRisk;
+    revenueProtectionPct = retention.churnPreventedPct;
+  } else if (revenueIncluded) {
+    annualRevenueInfluenced =
+      revenueBandMidpoint(inputs.revenueBand, currency) *
+      (assumptions.revenueInfluencedPct / 100);
+    revenueProtectionPct = assumptions.revenueProtectionPct;
+  }
+
+  const edgetierAnnualCost =
+    pricing.source === "quote"
+      ? (inputs.pricing?.quotedAnnualPrice as number)
+      : convertFromEur(pricing.annualCostEur, currency);
+
+  const qaHourlyCost = costPerAgentHour * assumptions.qaHourlyMultiplier;
+
+  // Each segment carries its own handle time, concurrency and improvement
+  // profile; the headline figures are the sums across segments
+  const segments = volumeSegments(channelMix, singleAhtMins).map(
+    ({ channel, sharePct, settings, improvements }): ChannelResult => {
+      const segmentContacts = contactsPerYear * (sharePct / 100);
+      const agentMins = agentMinsPerContact(settings);
+
+      const segmentBaselineHours =
+        segmentContacts * (agentMins > 0 ? agentMins / 60 : 0);
+      const segmentNewHours =
+        segmentBaselineHours *
+        (1 - channelRatePct(ahtReductionPct, improvements.aht) / 100);
+
+      const segmentBaselineQaHours =
+        segmentContacts *
+        (assumptions.qaCoveragePct / 100) *
+        (assumptions.qaTimePerContactMins / 60);
+      const segmentNewQaHours =
+        segmentBaselineQaHours *
+        (1 - channelRatePct(qaEfficiencyGainPct, improvements.qa) / 100);
+
+      const segmentAvoided =
+        segmentContacts *
+        (channelRatePct(contactDeflectionPct, improvements.deflection) / 100);
+
+      const segmentSavingsAht =
+        (segmentBaselineHours - segmentNewHours) * costPerAgentHour;
+      const segmentSavingsQa =
+        (segmentBaselineQaHours - segmentNewQaHours) * qaHourlyCost;
+      const segmentSavingsDeflection =
+        segmentAvoided * (agentMins / 60) * costPerAgentHour;
+
+      return {
+        channel,
+        sharePct,
+        contactsPerYear: segmentContacts,
+        ahtMins: settings.ahtMins,
+        concurrency: settings.concurrency,
+        agentMinsPerContact: agentMins,
+        baselineHandlingHours: segmentBaselineHours,
+        newHandlingHours: segmentNewHours,
+        hoursSavedAht: segmentBaselineHours - segmentNewHours,
+        savingsAht: segmentSavingsAht,
+        baselineQaHours: segmentBaselineQaHours,
+        newQaHours: segmentNewQaHours,
+        hoursSavedQa: segmentBaselineQaHours - segmentNewQaHours,
+        savingsQa: segmentSavingsQa,
+        contactsAvoidedPerYear: segmentAvoided,
+        savingsDeflection: segmentSavingsDeflection,
+        totalSavings:
+          segmentSavingsAht + segmentSavingsQa + segmentSavingsDeflection,
+      };
+    }
+  );
+
+  const baselineHandlingHours = sumOf(segments, "baselineHandlingHours");
+  const baselineHandlingCost = baselineHandlingHours * costPerAgentHour;
+  const costPerContactBaseline =
+    contactsPerYear > 0 ? baselineHandlingCost / contactsPerYear : 0;
+
+  const newHandlingHours = sumOf(segments, "newHandlingHours");
+  const newHandlingCost = newHandlingHours * costPerAgentHour;
+
+  // With a channel mix, AHT is reported as blended agent minutes per contact
+  const blendedMins = (hours: number) =>
+    contactsPerYear > 0 ? (hours * 60) / contactsPerYear : 0;
+  const ahtMins = channelMix
+    ? blendedMins(baselineHandlingHours)
+    : singleAhtMins;
+  const ahtSource: InputSource = channelMix ? "channels" : singleAhtSource;
+  const newAhtMins = channelMix
+    ? blendedMins(newHandlingHours)
+    : ahtMins * (1 - (ahtReductionPct || 0) / 100);
+
+  const savingsAht = baselineHandlingCost - newHandlingCost;
+  const hoursSavedAht = baselineHandlingHours - newHandlingHours;
+
+  const baselineQaHours = sumOf(segments, "baselineQaHours");
+  const baselineQaCost = baselineQaHours * qaHourlyCost;
+
+  const newQaHours = sumOf(segments, "newQaHours");
+  const newQaCost = newQaHours * qaHourlyCost;
+
+  const savingsQa = baselineQaCost - newQaCost;
+  const hoursSavedQa = baselineQaHours - newQaHours;
+
+  const contactsAvoidedPerYear = sumOf(segments, "contactsAvoidedPerYear");
+  const savingsDeflection = sumOf(segments, "savingsDeflection");
+  const hoursSavedDeflection =
+    costPerAgentHour > 0 ? savingsDeflection / costPerAgentHour : 0;
+
+  const totalHoursSaved = (hoursSavedAht || 0) + (hoursSavedQa || 0);
+
+  const capacity = calculateCapacity({
+    settings: resolveCapacity(
+      inputs.capacity,
+      defaultCapacitySettings(currency)
+    ),
+    hoursSaved: totalHoursSaved + (hoursSavedDeflection || 0),
+    numAgents,
+    workingHoursPerYear: assumptions.workingHoursPerYear,
+    costPerAgentHour,
+    guidanceLicensed: includesStream(pricing.modules, "aht", priceBook),
+  });
+  const { savingsHiring, savingsRamp } = capacity;
+
+  const revenueProtected =
+    annualRevenueInfluenced * ((revenueProtectionPct || 0) / 100);
+
+  // Compliance side – values moving from sampled QA to full coverage, so it
+  // needs the QA module
+  const complianceSettings = resolveCompliance(inputs.compliance);
+  const compliance = complianceSettings
+    ? calculateCompliance(
+        complianceSettings,
+        contactsPerYear,
+        assumptions.qaCoveragePct
+      )
+    : null;
+  const complianceIncluded =
+    Boolean(inputs.includeComplianceImpact) &&
+    isRegulatedComplexity(inputs.complexityLevel) &&
+    compliance !== null &&
+    moduleFactor("qa") > 0;
+  const riskCostAvoided =
+    complianceIncluded && compliance ? compliance.riskCostAvoided : 0;
+
+  const totalAnnualBenefit =
+    (savingsAht || 0) +
+    (savingsQa || 0) +
+    (savingsDeflection || 0) +
+    (savingsHiring || 0) +
+    (savingsRamp || 0) +
+    (revenueProtected || 0) +
+    (riskCostAvoided || 0);
+
+  const netGain = totalAnnualBenefit - (edgetierAnnualCost || 0);
+
+  const roiPct =
+    edgetierAnnualCost > 0 ? (netGain / edgetierAnnualCost) * 100 : 0;
+
+  const monthlyBenefit =
+    totalAnnualBenefit > 0 ? totalAnnualBenefit / 12 : 0;
+  const paybackMonths =
+    monthlyBenefit > 0 ? edgetierAnnualCost / monthlyBenefit : 0;
+
+  return {
+    currency,
+    configVersion: config.version,
+    inputSources: {
+      numAgents: numAgentsSource,
+      contactsPerAgentPerDay: contactsSource,
+      ahtMins: ahtSource,
+    },
+    assumptions,
+    benchmark: benchmarkCitation(inputs.industry),
+    numAgents,
+    annualCostPerAgent,
+    contactsPerAgentPerDay,
+    workingDaysPerMonth,
+    contactsPerMonth,
+    contactsPerYear,
+    ahtMins,
+    costPerAgentHour,
+    baselineHandlingHours,
+    baselineHandlingCost,
+    costPerContactBaseline,
+    baseImprovements,
+    priorityFactors: {
+      aht: ahtFactor,
+      qa: qaFactor,
+      deflection: deflectionFactor,
+    },
+    deflectableShareFactor: deflectableShare,
+    ahtReductionPct,
+    qaEfficiencyGainPct,
+    contactDeflectionPct,
+    newAhtMins,
+    newHandlingHours,
+    newHandlingCost,
+    hoursSavedAht,
+    savingsAht,
+    qaHourlyCost,
+    baselineQaHours,
+    baselineQaCost,
+    newQaHours,
+    newQaCost,
+    hoursSavedQa,
+    savingsQa,
+    contactsAvoidedPerYear,
+    savingsDeflection,
+    hoursSavedDeflection,
+    channels: channelMix ? segments : [],
+    contactReasons: contactReasons
+      ? contactReasonResults(
+          contactReasons,
+          contactsPerYear,
+          contactsAvoidedPerYear,
+          savingsDeflection
+        )
+      : [],
+    sites: [],
+    capacity,
+    savingsHiring,
+    savingsRamp,
+    revenueMethod,
+    retention,
+    revenueIncluded,
+    annualRevenueInfluenced,
+    revenueProtectionPct,
+    revenueProtected,
+    compliance,
+    complianceIncluded,
+    riskCostAvoided,
+    pricing,
+    edgetierAnnualCost,
+    totalAnnualBenefit,
+    netGain,
+    roiPct,
+    totalHoursSaved,
+    monthlyBenefit,
+    paybackMonths,
+    rollout: null,
+  };
+};
+
+export const calculateRoi = (inputs: RoiInputs): RoiResult => {
+  const { sites } = inputs;
+  const result = isValidSites(sites)
+    ? rollUpSites(
+        inputs,
+        sites,
+        calculateTeamRoi({ ...inputs, sites: undefined }),
+        sites.map((site) => calculateTeamRoi(siteInputs(inputs, site)))
+      )
+    : calculateTeamRoi(inputs);
+  return applyRollout(result, inputs.rollout);
+};
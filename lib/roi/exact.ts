@@ -0,0 +1,47 @@
+import { isWithinBounds, parseBoundedNumber } from "./validation";
+
+export type ExactField = "numAgents" | "contactsPerAgentPerDay" | "ahtMins";
+
+export type ExactInputs = Partial<Record<ExactField, number>>;
+
+// "channels" marks AHT blended from a per-channel split, "sites" a figure
+// added up or blended across several sites
+export type InputSource = "exact" | "band" | "channels" | "sites";
+
+export const EXACT_INPUT_BOUNDS: Record<
+  ExactField,
+  { label: string; unit: string; min: number; max: number; integer: boolean }
+> = {
+  numAgents: {
+    label: "Agents in scope",
+    unit: "agents",
+    min: 1,
+    max: 20_000,
+    integer: true,
+  },
+  contactsPerAgentPerDay: {
+    label: "Contacts per agent per day",
+    unit: "contacts",
+    min: 1,
+    max: 500,
+    integer: false,
+  },
+  ahtMins: {
+    label: "Average handle time",
+    unit: "minutes",
+    min: 0.5,
+    max: 120,
+    integer: false,
+  },
+};
+
+export const isValidExactValue = (field: ExactField, value: unknown) =>
+  isWithinBounds(EXACT_INPUT_BOUNDS[field], value);
+
+// Parses a raw text field; an empty string means "use the band instead"
+export const parseExactValue = (field: ExactField, raw: string) =>
+  parseBoundedNumber(
+    EXACT_INPUT_BOUNDS[field],
+    raw,
+    EXACT_INPUT_BOUNDS[field].unit
+  );
@@ -0,0 +1,34 @@
+import { CURRENCIES, type CurrencyCode } from "./currency";
+
+const DEFAULT_LOCALE = "en-IE";
+
+export const localeFor = (currency: CurrencyCode) =>
+  CURRENCIES[currency].locale;
+
+export const formatCurrency = (
+  value: number,
+  currency: CurrencyCode = "EUR"
+) => {
+  if (!Number.isFinite(value)) return "-";
+  return value.toLocaleString(localeFor(currency), {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  });
+};
+
+export const formatNumber = (value: number, locale = DEFAULT_LOCALE) => {
+  if (!Number.isFinite(value)) return "-";
+  return value.toLocaleString(locale, {
+    maximumFractionDigits: 0,
+  });
+};
+
+export const formatPercent = (value: number, locale = DEFAULT_LOCALE) => {
+  if (!Number.isFinite(value)) return "-";
+  return (value / 100).toLocaleString(locale, {
+    style: "percent",
+    maximumFractionDigits: 0,
+  });
+};
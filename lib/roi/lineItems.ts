@@ -0,0 +1,1344 @@
+import { BENCHMARK_LIBRARY, benchmarkFor } from "./benchmarks";
+import { CHANNEL_PROFILES } from "./channels";
+import {
+  COMPLIANCE_FIELDS,
+  COMPLIANCE_FIELD_KEYS,
+  isRegulatedComplexity,
+} from "./compliance";
+import { PREVENTION_LEVERS } from "./contactReasons";
+import { RETENTION_FIELDS, RETENTION_FIELD_KEYS } from "./retention";
+import { ASSUMPTIONS, COMPLEXITY_LEVELS } from "./constants";
+import { CURRENCIES, revenueBandMidpoint } from "./currency";
+import type { RoiInputs, RoiResult } from "./engine";
+import { DEFAULT_MODEL_CONFIG } from "./config";
+import {
+  PRICING_MODULES,
+  type BenefitStream,
+  type PriceBook,
+  type PriceTier,
+  type PricingModule,
+} from "./pricing";
+
+export type LineItemSection = "Inputs" | "Assumptions" | "Calculations";
+
+export type LineItem = {
+  section: LineItemSection;
+  key: string;
+  label: string;
+  value: number | string;
+  unit: string;
+  // Spreadsheet formula with {key} references to other line items
+  formula?: string;
+};
+
+const flag = (value: boolean) => (value ? 1 : 0);
+
+const moduleKey = (module: PricingModule) =>
+  `module${module[0].toUpperCase()}${module.slice(1)}`;
+
+// Multiplier that zeroes a benefit stream when its module isn't licensed
+const streamModuleFormula = (stream: BenefitStream, book: PriceBook) => {
+  const refs = PRICING_MODULES.filter(
+    (module) => book.modules[module].benefitStream === stream
+  ).map((module) => `{${moduleKey(module)}}`);
+  return refs.length > 0 ? `MIN(1,${refs.join("+")})` : "0";
+};
+
+const tierPriceFormula = (tier: PriceTier) =>
+  `MAX(${tier.minimumAnnual},{numAgents}*${tier.annualPerSeat})`;
+
+// Nested IF over the price tiers so changing agent count re-prices the sheet.
+// Like the engine, anyone past the last tier pays its price, capped or not.
+const listPriceFormula = (book: PriceBook) =>
+  book.tiers
+    .slice(0, -1)
+    .reduceRight<string>(
+      (inner, tier) =>
+        `IF({numAgents}<=${tier.maxAgents},${tierPriceFormula(tier)},${inner})`,
+      tierPriceFormula(book.tiers[book.tiers.length - 1])
+    );
+
+const volumeDiscountFormula = (book: PriceBook) =>
+  [...book.volumeDiscounts]
+    .sort((a, b) => a.minAgents - b.minAgents)
+    .reduce<string>(
+      (inner, band) =>
+        `IF({numAgents}>=${band.minAgents},${band.discountPct},${inner})`,
+      "0"
+    );
+
+const termDiscountFormula = (book: PriceBook) =>
+  Object.entries(book.termDiscounts).reduce<string>(
+    (inner, [years, pct]) => `IF({termYears}=${years},${pct},${inner})`,
+    "0"
+  );
+
+export const buildLineItems = (
+  inputs: RoiInputs,
+  results: RoiResult
+): LineItem[] => {
+  const { currency } = results;
+  const money = currency; // unit label for monetary rows
+  const book = (inputs.config ?? DEFAULT_MODEL_CONFIG).priceBook;
+
+  const input = (
+    key: string,
+    label: string,
+    value: number | string,
+    unit = ""
+  ): LineItem => ({ section: "Inputs", key, label, value, unit });
+  const assumption = (
+    key: string,
+    label: string,
+    value: number,
+    unit = "",
+    formula?: string
+  ): LineItem => ({ section: "Assumptions", key, label, value, unit, formula });
+  const calc = (
+    key: string,
+    label: string,
+    value: number,
+    unit: string,
+    formula?: string
+  ): LineItem => ({ section: "Calculations", key, label, value, unit, formula });
+
+  // Pricing depends only on the agent count, modules and term, so a roll-up
+  // across sites reuses these rows
+  const pricingInputs: LineItem[] = [
+    ...PRICING_MODULES.map((module) =>
+      input(
+        moduleKey(module),
+        `Module: ${book.modules[module].label}`,
+        flag(results.pricing.modules.includes(module)),
+        "1 = yes"
+      )
+    ),
+    input("termYears", "Contract term", results.pricing.termYears, "years"),
+  ];
+  const pricingAssumptions: LineItem[] = [
+    assumption(
+      "ratePerEur",
+      `Price list conversion (EUR → ${currency})`,
+      CURRENCIES[currency].ratePerEur,
+      "×"
+    ),
+    assumption(
+      "listPrice",
+      `List price, price book ${results.pricing.priceBookVersion} (EUR)`,
+      results.pricing.listPrice,
+      "EUR",
+      listPriceFormula(book)
+    ),
+    assumption(
+      "moduleSharePct",
+      "Share of suite licensed",
+      results.pricing.moduleSharePct,
+      "%",
+      PRICING_MODULES.map(
+        (module) =>
+          `{${moduleKey(module)}}*${book.modules[module].sharePct}`
+      ).join("+")
+    ),
+    assumption(
+      "volumeDiscountPct",
+      "Volume discount",
+      results.pricing.volumeDiscountPct,
+      "%",
+      volumeDiscountFormula(book)
+    ),
+    assumption(
+      "termDiscountPct",
+      "Multi-year discount",
+      results.pricing.termDiscountPct,
+      "%",
+      termDiscountFormula(book)
+    ),
+    results.pricing.source === "quote"
+      ? assumption(
+          "edgetierAnnualCost",
+          "EdgeTier annual price (quoted)",
+          results.edgetierAnnualCost,
+          money
+        )
+      : assumption(
+          "edgetierAnnualCost",
+          "EdgeTier annual price",
+          results.edgetierAnnualCost,
+          money,
+          "{listPrice}*{moduleSharePct}/100*(1-{volumeDiscountPct}/100)*(1-{termDiscountPct}/100)*{ratePerEur}"
+        ),
+  ];
+
+  // A phased rollout's waves; its payback comes from the monthly schedule,
+  // which is too long to repeat as formulas
+  const { rollout } = results;
+  const rolloutInputs: LineItem[] = rollout
+    ? [
+        input(
+          "rolloutMonths",
+          "Rollout plan length",
+          rollout.horizonMonths,
+          "months"
+        ),
+        ...rollout.waves.flatMap((wave, index) => [
+          input(
+            `wave${index + 1}StartMonth`,
+            `Wave ${index + 1} go-live month`,
+            wave.startMonth,
+            "month"
+          ),
+          input(
+            `wave${index + 1}Agents`,
+            `Wave ${index + 1} agents`,
+            wave.agents,
+            "agents"
+          ),
+        ]),
+      ]
+    : [];
+
+  // Benefit, return and payback rows shared by the single-team and multi-site
+  // sheets; only how the benefit adds up differs
+  const totalCalculations = (benefitFormula: string): LineItem[] => [
+    calc(
+      "totalAnnualBenefit",
+      "Total annual benefit",
+      results.totalAnnualBenefit,
+      money,
+      benefitFormula
+    ),
+    calc(
+      "netGain",
+      "Net gain",
+      results.netGain,
+      money,
+      "{totalAnnualBenefit}-{edgetierAnnualCost}"
+    ),
+    calc(
+      "roiPct",
+      "ROI",
+      results.roiPct,
+      "%",
+      "IF({edgetierAnnualCost}>0,{netGain}/{edgetierAnnualCost}*100,0)"
+    ),
+    calc(
+      "monthlyBenefit",
+      "Monthly benefit",
+      results.monthlyBenefit,
+      money,
+      "IF({totalAnnualBenefit}>0,{totalAnnualBenefit}/12,0)"
+    ),
+    ...(rollout
+      ? [
+          calc(
+            "instantPaybackMonths",
+            "Payback period (all agents live in month 1)",
+            rollout.instantPaybackMonths,
+            "months",
+            "IF({monthlyBenefit}>0,{edgetierAnnualCost}/{monthlyBenefit},0)"
+          ),
+          calc(
+            "paybackMonths",
+            "Payback period (phased rollout)",
+            results.paybackMonths,
+            "months"
+          ),
+        ]
+      : [
+          calc(
+            "paybackMonths",
+            "Payback period",
+            results.paybackMonths,
+            "months",
+            "IF({monthlyBenefit}>0,{edgetierAnnualCost}/{monthlyBenefit},0)"
+          ),
+        ]),
+  ];
+
+  // Each site runs through the model on its own, so a multi-site sheet lists
+  // the site results and rolls them up rather than repeating every formula
+  const { sites } = results;
+  if (sites.length > 0) {
+    const siteKey = (index: number) => `site${index + 1}`;
+    const siteSum = (suffix: string) =>
+      sites.map((_site, index) => `{${siteKey(index)}${suffix}}`).join("+");
+    const siteTotal = (
+      key: string,
+      label: string,
+      value: number,
+      suffix: string
+    ) => calc(key, label, value, money, siteSum(suffix));
+
+    return [
+      input("currency", "Currency", currency),
+      input("configVersion", "Model config version", results.configVersion),
+      input(
+        "industry",
+        "Industry benchmarks",
+        results.benchmark
+          ? `${results.benchmark.label} (v${results.benchmark.version})`
+          : "None"
+      ),
+      ...pricingInputs,
+      ...rolloutInputs,
+      ...sites.map((site, index) =>
+        input(`${siteKey(index)}Name`, `Site ${index + 1}`, site.name)
+      ),
+
+      ...sites.flatMap((site, index) => {
+        const key = siteKey(index);
+        return [
+          assumption(
+            `${key}Agents`,
+            `${site.name}: agents`,
+            site.numAgents,
+            "agents"
+          ),
+          assumption(
+            `${key}ContactsPerYear`,
+            `${site.name}: contacts per year`,
+            site.contactsPerYear,
+            "contacts"
+          ),
+          assumption(
+            `${key}AhtMins`,
+            `${site.name}: average handle time`,
+            site.ahtMins,
+            "minutes"
+          ),
+          assumption(
+            `${key}CostPerAgent`,
+            `${site.name}: fully loaded cost per agent`,
+            site.annualCostPerAgent,
+            `${money} / year`
+          ),
+          assumption(
+            `${key}SavingsAht`,
+            `${site.name}: handling time savings`,
+            site.savingsAht,
+            money
+          ),
+          assumption(
+            `${key}SavingsQa`,
+            `${site.name}: QA and coaching savings`,
+            site.savingsQa,
+            money
+          ),
+          assumption(
+            `${key}SavingsDeflection`,
+            `${site.name}: contact reduction savings`,
+            site.savingsDeflection,
+            money
+          ),
+          assumption(
+            `${key}SavingsHiring`,
+            `${site.name}: hiring cost avoided`,
+            site.savingsHiring,
+            money
+          ),
+          assumption(
+            `${key}SavingsRamp`,
+            `${site.name}: faster ramp savings`,
+            site.savingsRamp,
+            money
+          ),
+          assumption(
+            `${key}RiskCostAvoided`,
+            `${site.name}: compliance risk cost avoided`,
+            site.riskCostAvoided,
+            money
+          ),
+        ];
+      }),
+      assumption(
+        "revenueProtected",
+        "Revenue protected (whole business)",
+        results.revenueProtected,
+        money
+      ),
+      assumption(
+        "numAgents",
+        "Agents across all sites",
+        results.numAgents,
+        "agents",
+        siteSum("Agents")
+      ),
+      ...pricingAssumptions,
+
+      ...sites.flatMap((site, index) => {
+        const key = siteKey(index);
+        return [
+          calc(
+            `${key}Benefit`,
+            `${site.name}: annual benefit`,
+            site.totalAnnualBenefit,
+            money,
+            `{${key}SavingsAht}+{${key}SavingsQa}+{${key}SavingsDeflection}+{${key}SavingsHiring}+{${key}SavingsRamp}+{${key}RiskCostAvoided}`
+          ),
+          calc(
+            `${key}AnnualCost`,
+            `${site.name}: share of EdgeTier price`,
+            site.edgetierAnnualCost,
+            money,
+            `IF({numAgents}>0,{edgetierAnnualCost}*{${key}Agents}/{numAgents},0)`
+          ),
+          calc(
+            `${key}RoiPct`,
+            `${site.name}: ROI`,
+            site.roiPct,
+            "%",
+            `IF({${key}AnnualCost}>0,({${key}Benefit}-{${key}AnnualCost})/{${key}AnnualCost}*100,0)`
+          ),
+        ];
+      }),
+      calc(
+        "contactsPerYear",
+        "Contacts per year",
+        results.contactsPerYear,
+        "contacts",
+        siteSum("ContactsPerYear")
+      ),
+      siteTotal(
+        "savingsAht",
+        "Handling time savings",
+        results.savingsAht,
+        "SavingsAht"
+      ),
+      siteTotal(
+        "savingsQa",
+        "QA and coaching savings",
+        results.savingsQa,
+        "SavingsQa"
+      ),
+      siteTotal(
+        "savingsDeflection",
+        "Contact reduction savings",
+        results.savingsDeflection,
+        "SavingsDeflection"
+      ),
+      siteTotal(
+        "savingsHiring",
+        "Hiring cost avoided",
+        results.savingsHiring,
+        "SavingsHiring"
+      ),
+      siteTotal(
+        "savingsRamp",
+        "Faster ramp savings",
+        results.savingsRamp,
+        "SavingsRamp"
+      ),
+      siteTotal(
+        "riskCostAvoided",
+        "Compliance risk cost avoided",
+        results.riskCostAvoided,
+        "RiskCostAvoided"
+      ),
+      ...totalCalculations(
+        "{savingsAht}+{savingsQa}+{savingsDeflection}+{savingsHiring}+{savingsRamp}+{revenueProtected}+{riskCostAvoided}"
+      ),
+    ];
+  }
+
+  // Channel rows only appear when the engine applied a channel mix
+  const { channels } = results;
+  const channelMix = channels.length > 0 ? inputs.channelMix : undefined;
+  const channelSum = (suffix: string) =>
+    channels.map(({ channel }) => `{${channel}${suffix}}`).join("+");
+
+  const channelAssumptions: LineItem[] = channelMix
+    ? [
+        ...channels.flatMap(({ channel }) => {
+          const profile = CHANNEL_PROFILES[channel];
+          const settings = channelMix[channel];
+          return [
+            assumption(
+              `${channel}SharePct`,
+              `${profile.label}: share of contacts`,
+              settings.sharePct,
+              "%"
+            ),
+            assumption(
+              `${channel}AhtMins`,
+              `${profile.label}: average handle time`,
+              settings.ahtMins,
+              "minutes"
+            ),
+            assumption(
+              `${channel}Concurrency`,
+              `${profile.label}: concurrent contacts per agent`,
+              settings.concurrency,
+              "×"
+            ),
+            assumption(
+              `${channel}AhtMultiplier`,
+              `${profile.label}: AHT improvement multiplier`,
+              profile.improvements.aht,
+              "×"
+            ),
+            assumption(
+              `${channel}QaMultiplier`,
+              `${profile.label}: QA improvement multiplier`,
+              profile.improvements.qa,
+              "×"
+            ),
+            assumption(
+              `${channel}DeflectionMultiplier`,
+              `${profile.label}: deflection multiplier`,
+              profile.improvements.deflection,
+              "×"
+            ),
+          ];
+        }),
+        assumption(
+          "channelShareTotal",
+          "Channel shares total",
+          channels.reduce(
+            (sum, { channel }) => sum + channelMix[channel].sharePct,
+            0
+          ),
+          "%",
+          channelSum("SharePct")
+        ),
+      ]
+    : [];
+
+  const channelCalculations: LineItem[] = channels.flatMap((result) => {
+    const { channel } = result;
+    const label = CHANNEL_PROFILES[channel].label;
+    const ref = (suffix: string) => `{${channel}${suffix}}`;
+    return [
+      calc(
+        `${channel}ContactsPerYear`,
+        `${label}: contacts per year`,
+        result.contactsPerYear,
+        "contacts",
+        `{contactsPerYear}*${ref("SharePct")}/{channelShareTotal}`
+      ),
+      calc(
+        `${channel}AgentMins`,
+        `${label}: agent minutes per contact`,
+        result.agentMinsPerContact,
+        "minutes",
+        `IF(${ref("Concurrency")}>0,${ref("AhtMins")}/${ref("Concurrency")},0)`
+      ),
+      calc(
+        `${channel}BaselineHours`,
+        `${label}: baseline handling hours`,
+        result.baselineHandlingHours,
+        "hours",
+        `${ref("ContactsPerYear")}*${ref("AgentMins")}/60`
+      ),
+      calc(
+        `${channel}NewHours`,
+        `${label}: new handling hours`,
+        result.newHandlingHours,
+        "hours",
+        `${ref("BaselineHours")}*(1-MIN({ahtReductionPct}*${ref("AhtMultiplier")},100)/100)`
+      ),
+      calc(
+        `${channel}SavingsAht`,
+        `${label}: handling time savings`,
+        result.savingsAht,
+        money,
+        `(${ref("BaselineHours")}-${ref("NewHours")})*{costPerAgentHour}`
+      ),
+      calc(
+        `${channel}BaselineQaHours`,
+        `${label}: QA hours before`,
+        result.baselineQaHours,
+        "hours",
+        `${ref("ContactsPerYear")}*({qaCoveragePct}/100)*({qaTimePerContactMins}/60)`
+      ),
+      calc(
+        `${channel}NewQaHours`,
+        `${label}: QA hours after`,
+        result.newQaHours,
+        "hours",
+        `${ref("BaselineQaHours")}*(1-MIN({qaEfficiencyGainPct}*${ref("QaMultiplier")},100)/100)`
+      ),
+      calc(
+        `${channel}SavingsQa`,
+        `${label}: QA and coaching savings`,
+        result.savingsQa,
+        money,
+        `(${ref("BaselineQaHours")}-${ref("NewQaHours")})*{qaHourlyCost}`
+      ),
+      calc(
+        `${channel}ContactsAvoided`,
+        `${label}: contacts avoided`,
+        result.contactsAvoidedPerYear,
+        "contacts",
+        `${ref("ContactsPerYear")}*MIN({contactDeflectionPct}*${ref("DeflectionMultiplier")},100)/100`
+      ),
+      calc(
+        `${channel}SavingsDeflection`,
+        `${label}: contact reduction savings`,
+        result.savingsDeflection,
+        money,
+        `${ref("ContactsAvoided")}*${ref("AgentMins")}/60*{costPerAgentHour}`
+      ),
+    ];
+  });
+
+  // Contact reason rows only appear when the engine used them for deflection
+  const { contactReasons } = results;
+  const reasonKey = (index: number, suffix: string) =>
+    `reason${index + 1}${suffix}`;
+  const reasonAssumptions: LineItem[] =
+    contactReasons.length > 0
+      ? [
+          ...contactReasons.flatMap((reason, index) => [
+            assumption(
+              reasonKey(index, "SharePct"),
+              `${reason.label}: share of contacts`,
+              reason.sharePct,
+              "%"
+            ),
+            assumption(
+              reasonKey(index, "PreventablePct"),
+              `${reason.label}: preventable (${
+                PREVENTION_LEVERS[reason.lever].label
+              })`,
+              reason.preventablePct,
+              "%"
+            ),
+          ]),
+          assumption(
+            "reasonDeflectionPct",
+            "Deflection from contact reasons",
+            contactReasons.reduce(
+              (sum, reason) => sum + reason.deflectionPct,
+              0
+            ),
+            "%",
+            contactReasons
+              .map(
+                (_reason, index) =>
+                  `{${reasonKey(index, "SharePct")}}*{${reasonKey(
+                    index,
+                    "PreventablePct"
+                  )}}/100`
+              )
+              .join("+")
+          ),
+        ]
+      : [];
+  const reasonCalculations: LineItem[] = contactReasons.flatMap(
+    (reason, index) => {
+      const weight = `IF({reasonDeflectionPct}>0,{${reasonKey(
+        index,
+        "SharePct"
+      )}}*{${reasonKey(index, "PreventablePct")}}/100/{reasonDeflectionPct},0)`;
+      return [
+        calc(
+          reasonKey(index, "ContactsAvoided"),
+          `${reason.label}: contacts avoided`,
+          reason.contactsAvoidedPerYear,
+          "contacts",
+          `{contactsAvoidedPerYear}*${weight}`
+        ),
+        calc(
+          reasonKey(index, "SavingsDeflection"),
+          `${reason.label}: contact reduction savings`,
+          reason.savingsDeflection,
+          money,
+          `{savingsDeflection}*${weight}`
+        ),
+      ];
+    }
+  );
+  // A scenario can still override the rate the reasons give
+  const reasonsSetDeflection =
+    contactReasons.length > 0 &&
+    inputs.improvements?.contactDeflectionPct === undefined;
+
+  // Industry benchmarks scale deflection by their deflectable share, unless
+  // contact reasons already say how much is deflectable
+  const benchmark =
+    contactReasons.length > 0 ? undefined : benchmarkFor(inputs.industry);
+  const deflectableShareAssumptions: LineItem[] = benchmark
+    ? [
+        assumption(
+          "deflectableSharePct",
+          "Deflectable share of contacts (industry benchmark)",
+          benchmark.deflectableSharePct,
+          "%"
+        ),
+        assumption(
+          "referenceDeflectableSharePct",
+          "Deflectable share the improvement rates assume",
+          BENCHMARK_LIBRARY.referenceDeflectableSharePct,
+          "%"
+        ),
+        assumption(
+          "deflectableShareFactor",
+          "Deflectable share factor",
+          results.deflectableShareFactor,
+          "×",
+          "{deflectableSharePct}/{referenceDeflectableSharePct}"
+        ),
+      ]
+    : [
+        assumption(
+          "deflectableShareFactor",
+          "Deflectable share factor",
+          results.deflectableShareFactor,
+          "×"
+        ),
+      ];
+
+  // The churn model replaces the band heuristic's revenue rows
+  const { retention } = results;
+  const retentionAssumptions: LineItem[] = retention
+    ? RETENTION_FIELD_KEYS.map((field) =>
+        assumption(
+          field,
+          RETENTION_FIELDS[field].label,
+          retention[field],
+          RETENTION_FIELDS[field].money
+            ? `${money} / year`
+            : RETENTION_FIELDS[field].unit
+        )
+      )
+    : [];
+  const retentionCalculations: LineItem[] = retention
+    ? [
+        calc(
+          "customersChurning",
+          "Customers churning per year",
+          retention.customersChurning,
+          "customers",
+          "{customerCount}*{churnRatePct}/100"
+        ),
+        calc(
+          "serviceLinkedChurners",
+          "Churners lost to service experience",
+          retention.serviceLinkedChurners,
+          "customers",
+          "{customersChurning}*{serviceChurnSharePct}/100"
+        ),
+        calc(
+          "customersRetained",
+          "Customers retained",
+          retention.customersRetained,
+          "customers",
+          "{serviceLinkedChurners}*{churnPreventedPct}/100"
+        ),
+      ]
+    : [];
+
+  // Compliance rows need an incident cost; without one the benefit is zero
+  const { compliance } = results;
+  const complianceAssumptions: LineItem[] = compliance
+    ? [
+        ...COMPLIANCE_FIELD_KEYS.map((field) =>
+          assumption(
+            field,
+            COMPLIANCE_FIELDS[field].label,
+            compliance[field],
+            COMPLIANCE_FIELDS[field].money
+              ? `${money} ${COMPLIANCE_FIELDS[field].unit}`
+              : COMPLIANCE_FIELDS[field].unit
+          )
+        ),
+        assumption(
+          "regulatedComplexity",
+          "Complexity level is regulated",
+          flag(isRegulatedComplexity(inputs.complexityLevel)),
+          "1 = yes"
+        ),
+        assumption(
+          "complianceIncluded",
+          "Compliance risk applied",
+          flag(results.complianceIncluded),
+          "1 = yes",
+          `{includeComplianceImpact}*{regulatedComplexity}*${streamModuleFormula(
+            "qa",
+            book
+          )}`
+        ),
+      ]
+    : [];
+  const complianceCalculations: LineItem[] = compliance
+    ? [
+        calc(
+          "incidentsPerYear",
+          "Compliance incidents per year",
+          compliance.incidentsPerYear,
+          "incidents",
+          "{contactsPerYear}*{incidentsPer10kContacts}/10000"
+        ),
+        calc(
+          "incidentsMissed",
+          "Incidents missed by sampled QA",
+          compliance.incidentsMissed,
+          "incidents",
+          "{incidentsPerYear}*(1-{qaCoveragePct}/100)"
+        ),
+        calc(
+          "incidentsCaught",
+          "Incidents caught with full coverage",
+          compliance.incidentsCaught,
+          "incidents",
+          "{incidentsMissed}*{detectionUpliftPct}/100"
+        ),
+        calc(
+          "riskCostAvoided",
+          "Compliance risk cost avoided",
+          results.riskCostAvoided,
+          money,
+          "{complianceIncluded}*{incidentsCaught}*{costPerIncident}"
+        ),
+      ]
+    : [
+        calc(
+          "riskCostAvoided",
+          "Compliance risk cost avoided",
+          results.riskCostAvoided,
+          money,
+          "0"
+        ),
+      ];
+
+  return [
+    input("teamSizeBand", "Team size band", inputs.teamSizeBand),
+    input("contactVolumeBand", "Contact volume band", inputs.contactVolumeBand),
+    input(
+      "complexityLevel",
+      "Interaction complexity",
+      `${inputs.complexityLevel} – ${COMPLEXITY_LEVELS[inputs.complexityLevel].label}`
+    ),
+    input("aiLevel", "Current AI automation level", inputs.aiLevel),
+    input(
+      "priorityAht",
+      "Priority: handling time & queues",
+      flag(inputs.priorities.aht),
+      "1 = yes"
+    ),
+    input(
+      "priorityQa",
+      "Priority: QA / coaching",
+      flag(inputs.priorities.qa),
+      "1 = yes"
+    ),
+    input(
+      "priorityDeflection",
+      "Priority: repeat contacts",
+      flag(inputs.priorities.deflection),
+      "1 = yes"
+    ),
+    input(
+      "priorityCx",
+      "Priority: CSAT / retention",
+      flag(inputs.priorities.cx),
+      "1 = yes"
+    ),
+    input("revenueBand", "Revenue band", inputs.revenueBand),
+    input(
+      "includeRevenueImpact",
+      "Include revenue impact",
+      flag(inputs.includeRevenueImpact),
+      "1 = yes"
+    ),
+    input(
+      "includeComplianceImpact",
+      "Include compliance risk",
+      flag(Boolean(inputs.includeComplianceImpact)),
+      "1 = yes"
+    ),
+    input("currency", "Currency", currency),
+    input("configVersion", "Model config version", results.configVersion),
+    input(
+      "industry",
+      "Industry benchmarks",
+      results.benchmark
+        ? `${results.benchmark.label} (v${results.benchmark.version})`
+        : "None"
+    ),
+    ...pricingInputs,
+    ...rolloutInputs,
+    input(
+      "capacityAvoidHiring",
+      "Use freed capacity to avoid hiring",
+      flag(results.capacity.settings.mode === "avoidHiring"),
+      "1 = yes"
+    ),
+    input(
+      "includeAttrition",
+      "Include attrition and hiring",
+      flag(results.capacity.settings.includeAttrition),
+      "1 = yes"
+    ),
+
+    assumption(
+      "numAgents",
+      `Agents in scope (${results.inputSources.numAgents})`,
+      results.numAgents,
+      "agents"
+    ),
+    assumption(
+      "contactsPerAgentPerDay",
+      `Contacts per agent per day (${results.inputSources.contactsPerAgentPerDay})`,
+      results.contactsPerAgentPerDay,
+      "contacts"
+    ),
+    channelMix
+      ? assumption(
+          "ahtMins",
+          "Blended agent minutes per contact (channels)",
+          results.ahtMins,
+          "minutes",
+          "IF({contactsPerYear}>0,{baselineHandlingHours}*60/{contactsPerYear},0)"
+        )
+      : assumption(
+          "ahtMins",
+          `Average handle time (${
+            results.inputSources.ahtMins === "band" && results.benchmark
+              ? "industry benchmark"
+              : results.inputSources.ahtMins
+          })`,
+          results.ahtMins,
+          "minutes"
+        ),
+    ...channelAssumptions,
+    assumption(
+      "annualCostPerAgent",
+      "Fully loaded cost per agent",
+      results.assumptions.annualCostPerAgent,
+      `${money} / year`
+    ),
+    assumption(
+      "workingHoursPerYear",
+      "WORKING_HOURS_PER_YEAR",
+      results.assumptions.workingHoursPerYear,
+      "hours"
+    ),
+    assumption(
+      "workingDaysPerMonth",
+      "Working days per month",
+      results.assumptions.workingDaysPerMonth,
+      "days"
+    ),
+    assumption(
+      "qaCoveragePct",
+      "ASSUMPTIONS.qaCoveragePct",
+      results.assumptions.qaCoveragePct,
+      "%"
+    ),
+    assumption(
+      "qaTimePerContactMins",
+      "ASSUMPTIONS.qaTimePerContactMins",
+      results.assumptions.qaTimePerContactMins,
+      "minutes"
+    ),
+    assumption(
+      "qaHourlyMultiplier",
+      "ASSUMPTIONS.qaHourlyMultiplier",
+      results.assumptions.qaHourlyMultiplier,
+      "×"
+    ),
+    assumption(
+      "baseAhtReductionPct",
+      `AI_IMPROVEMENTS.${inputs.aiLevel}.ahtReductionPct`,
+      results.baseImprovements.ahtReductionPct,
+      "%"
+    ),
+    assumption(
+      "baseQaEfficiencyGainPct",
+      `AI_IMPROVEMENTS.${inputs.aiLevel}.qaEfficiencyGainPct`,
+      results.baseImprovements.qaEfficiencyGainPct,
+      "%"
+    ),
+    ...reasonAssumptions,
+    reasonsSetDeflection
+      ? assumption(
+          "baseContactDeflectionPct",
+          "Contact deflection (contact reasons)",
+          results.baseImprovements.contactDeflectionPct,
+          "%",
+          "{reasonDeflectionPct}"
+        )
+      : assumption(
+          "baseContactDeflectionPct",
+          `AI_IMPROVEMENTS.${inputs.aiLevel}.contactDeflectionPct`,
+          results.baseImprovements.contactDeflectionPct,
+          "%"
+        ),
+    ...deflectableShareAssumptions,
+    assumption(
+      "nonPriorityAhtFactor",
+      "AHT gain kept when not a priority",
+      ASSUMPTIONS.nonPriorityAhtFactor,
+      "×"
+    ),
+    assumption(
+      "ahtFactor",
+      "AHT priority factor",
+      results.priorityFactors.aht,
+      "×",
+      `IF({priorityAht}=1,1,{nonPriorityAhtFactor})*${streamModuleFormula(
+        "aht",
+        book
+      )}`
+    ),
+    assumption(
+      "qaFactor",
+      "QA priority factor",
+      results.priorityFactors.qa,
+      "×",
+      `IF({priorityQa}=1,1,0)*${streamModuleFormula("qa", book)}`
+    ),
+    assumption(
+      "deflectionFactor",
+      "Deflection priority factor",
+      results.priorityFactors.deflection,
+      "×",
+      `IF({priorityDeflection}=1,1,0)*${streamModuleFormula("deflection", book)}`
+    ),
+    assumption(
+      "revenueMidpoint",
+      "Revenue band midpoint",
+      revenueBandMidpoint(inputs.revenueBand, currency),
+      money
+    ),
+    assumption(
+      "revenueInfluencedPct",
+      "Revenue influenced by this team",
+      results.assumptions.revenueInfluencedPct,
+      "%"
+    ),
+    assumption(
+      "revenueProtectionPct",
+      "Revenue protection rate",
+      results.assumptions.revenueProtectionPct,
+      "%"
+    ),
+    ...retentionAssumptions,
+    assumption(
+      "revenueIncluded",
+      "Revenue impact applied",
+      flag(results.revenueIncluded),
+      "1 = yes",
+      retention
+        ? "IF(AND({includeRevenueImpact}=1,{priorityCx}=1),1,0)"
+        : "IF(AND({includeRevenueImpact}=1,{priorityCx}=1,{revenueMidpoint}>0),1,0)"
+    ),
+    ...complianceAssumptions,
+    assumption(
+      "shrinkagePct",
+      "Shrinkage",
+      results.capacity.settings.shrinkagePct,
+      "%"
+    ),
+    assumption(
+      "occupancyPct",
+      "Occupancy",
+      results.capacity.settings.occupancyPct,
+      "%"
+    ),
+    assumption(
+      "attritionPct",
+      "Annual attrition",
+      results.capacity.settings.attritionPct,
+      "%"
+    ),
+    assumption(
+      "costToHire",
+      "Cost to hire and train",
+      results.capacity.settings.costToHire,
+      `${money} / agent`
+    ),
+    assumption(
+      "rampWeeks",
+      "Ramp time for new agents",
+      results.capacity.settings.rampWeeks,
+      "weeks"
+    ),
+    assumption(
+      "rampProductivityPct",
+      "Productivity while ramping",
+      results.capacity.settings.rampProductivityPct,
+      "%"
+    ),
+    assumption(
+      "rampReductionPct",
+      "Ramp time saved with guidance",
+      results.capacity.settings.rampReductionPct,
+      "%"
+    ),
+    ...pricingAssumptions,
+
+    calc(
+      "contactsPerMonth",
+      "Contacts per month",
+      results.contactsPerMonth,
+      "contacts",
+      "{numAgents}*{contactsPerAgentPerDay}*{workingDaysPerMonth}"
+    ),
+    calc(
+      "contactsPerYear",
+      "Contacts per year",
+      results.contactsPerYear,
+      "contacts",
+      "{contactsPerMonth}*12"
+    ),
+    calc(
+      "costPerAgentHour",
+      "Cost per agent hour",
+      results.costPerAgentHour,
+      money,
+      "IF({workingHoursPerYear}>0,{annualCostPerAgent}/{workingHoursPerYear},0)"
+    ),
+    ...channelCalculations,
+    calc(
+      "baselineHandlingHours",
+      "Baseline handling hours",
+      results.baselineHandlingHours,
+      "hours",
+      channelMix ? channelSum("BaselineHours") : "{contactsPerYear}*{ahtMins}/60"
+    ),
+    calc(
+      "baselineHandlingCost",
+      "Baseline handling cost",
+      results.baselineHandlingCost,
+      money,
+      "{baselineHandlingHours}*{costPerAgentHour}"
+    ),
+    calc(
+      "costPerContactBaseline",
+      "Baseline cost per contact",
+      results.costPerContactBaseline,
+      money,
+      "IF({contactsPerYear}>0,{baselineHandlingCost}/{contactsPerYear},0)"
+    ),
+    calc(
+      "ahtReductionPct",
+      "AHT reduction applied",
+      results.ahtReductionPct,
+      "%",
+      "{baseAhtReductionPct}*{ahtFactor}"
+    ),
+    calc(
+      "qaEfficiencyGainPct",
+      "QA efficiency gain applied",
+      results.qaEfficiencyGainPct,
+      "%",
+      "{baseQaEfficiencyGainPct}*{qaFactor}"
+    ),
+    calc(
+      "contactDeflectionPct",
+      "Contact deflection applied",
+      results.contactDeflectionPct,
+      "%",
+      "{baseContactDeflectionPct}*{deflectionFactor}*{deflectableShareFactor}"
+    ),
+    calc(
+      "newAhtMins",
+      "New AHT",
+      results.newAhtMins,
+      "minutes",
+      channelMix
+        ? "IF({contactsPerYear}>0,{newHandlingHours}*60/{contactsPerYear},0)"
+        : "{ahtMins}*(1-{ahtReductionPct}/100)"
+    ),
+    calc(
+      "newHandlingHours",
+      "New handling hours",
+      results.newHandlingHours,
+      "hours",
+      channelMix ? channelSum("NewHours") : "{contactsPerYear}*{newAhtMins}/60"
+    ),
+    calc(
+      "newHandlingCost",
+      "New handling cost",
+      results.newHandlingCost,
+      money,
+      "{newHandlingHours}*{costPerAgentHour}"
+    ),
+    calc(
+      "hoursSavedAht",
+      "Hours saved (handling)",
+      results.hoursSavedAht,
+      "hours",
+      "{baselineHandlingHours}-{newHandlingHours}"
+    ),
+    calc(
+      "savingsAht",
+      "Handling time savings",
+      results.savingsAht,
+      money,
+      "{baselineHandlingCost}-{newHandlingCost}"
+    ),
+    calc(
+      "qaHourlyCost",
+      "QA hourly cost",
+      results.qaHourlyCost,
+      money,
+      "{costPerAgentHour}*{qaHourlyMultiplier}"
+    ),
+    calc(
+      "baselineQaHours",
+      "QA hours before",
+      results.baselineQaHours,
+      "hours",
+      "{contactsPerYear}*({qaCoveragePct}/100)*({qaTimePerContactMins}/60)"
+    ),
+    calc(
+      "baselineQaCost",
+      "QA cost before",
+      results.baselineQaCost,
+      money,
+      "{baselineQaHours}*{qaHourlyCost}"
+    ),
+    calc(
+      "newQaHours",
+      "QA hours after",
+      results.newQaHours,
+      "hours",
+      channelMix
+        ? channelSum("NewQaHours")
+        : "{baselineQaHours}*(1-{qaEfficiencyGainPct}/100)"
+    ),
+    calc(
+      "newQaCost",
+      "QA cost after",
+      results.newQaCost,
+      money,
+      "{newQaHours}*{qaHourlyCost}"
+    ),
+    calc(
+      "hoursSavedQa",
+      "Hours saved (QA)",
+      results.hoursSavedQa,
+      "hours",
+      "{baselineQaHours}-{newQaHours}"
+    ),
+    calc(
+      "savingsQa",
+      "QA and coaching savings",
+      results.savingsQa,
+      money,
+      "{baselineQaCost}-{newQaCost}"
+    ),
+    calc(
+      "contactsAvoidedPerYear",
+      "Contacts avoided per year",
+      results.contactsAvoidedPerYear,
+      "contacts",
+      channelMix
+        ? channelSum("ContactsAvoided")
+        : "{contactsPerYear}*{contactDeflectionPct}/100"
+    ),
+    calc(
+      "savingsDeflection",
+      "Contact reduction savings",
+      results.savingsDeflection,
+      money,
+      channelMix
+        ? channelSum("SavingsDeflection")
+        : "{contactsAvoidedPerYear}*{costPerContactBaseline}"
+    ),
+    ...reasonCalculations,
+    calc(
+      "hoursSavedDeflection",
+      "Hours saved (contacts avoided)",
+      results.hoursSavedDeflection,
+      "hours",
+      "IF({costPerAgentHour}>0,{savingsDeflection}/{costPerAgentHour},0)"
+    ),
+    calc(
+      "productiveHoursPerFte",
+      "Productive hours per FTE",
+      results.capacity.productiveHoursPerFte,
+      "hours",
+      "{workingHoursPerYear}*(1-{shrinkagePct}/100)*{occupancyPct}/100"
+    ),
+    calc(
+      "fteSaved",
+      "Capacity freed",
+      results.capacity.fteSaved,
+      "FTE",
+      "IF({productiveHoursPerFte}>0,({totalHoursSaved}+{hoursSavedDeflection})/{productiveHoursPerFte},0)"
+    ),
+    calc(
+      "leaversPerYear",
+      "Agents leaving per year",
+      results.capacity.leaversPerYear,
+      "agents",
+      "{includeAttrition}*{numAgents}*{attritionPct}/100"
+    ),
+    calc(
+      "avoidedHires",
+      "Hires avoided",
+      results.capacity.avoidedHires,
+      "agents",
+      "{capacityAvoidHiring}*MIN({fteSaved},{leaversPerYear})"
+    ),
+    calc(
+      "hiresPerYear",
+      "Hires still needed",
+      results.capacity.hiresPerYear,
+      "agents",
+      "{leaversPerYear}-{avoidedHires}"
+    ),
+    calc(
+      "savingsHiring",
+      "Hiring cost avoided",
+      results.savingsHiring,
+      money,
+      "{avoidedHires}*{costToHire}"
+    ),
+    calc(
+      "rampHoursSavedPerHire",
+      "Ramp hours saved per new hire",
+      results.capacity.rampHoursSavedPerHire,
+      "hours",
+      `${streamModuleFormula("aht", book)}*{rampWeeks}*{rampReductionPct}/100*{workingHoursPerYear}/52*(1-{rampProductivityPct}/100)`
+    ),
+    calc(
+      "rampHoursSaved",
+      "Ramp hours saved",
+      results.capacity.rampHoursSaved,
+      "hours",
+      "{hiresPerYear}*{rampHoursSavedPerHire}"
+    ),
+    calc(
+      "savingsRamp",
+      "Faster ramp savings",
+      results.savingsRamp,
+      money,
+      "{rampHoursSaved}*{costPerAgentHour}"
+    ),
+    ...retentionCalculations,
+    calc(
+      "annualRevenueInfluenced",
+      retention ? "Revenue at risk from service churn" : "Revenue influenced",
+      results.annualRevenueInfluenced,
+      money,
+      retention
+        ? "{revenueIncluded}*{serviceLinkedChurners}*{revenuePerCustomer}"
+        : "{revenueIncluded}*{revenueMidpoint}*{revenueInfluencedPct}/100"
+    ),
+    calc(
+      "revenueProtected",
+      "Revenue protected",
+      results.revenueProtected,
+      money,
+      retention
+        ? "{annualRevenueInfluenced}*{churnPreventedPct}/100"
+        : "{annualRevenueInfluenced}*{revenueProtectionPct}/100"
+    ),
+    ...complianceCalculations,
+    calc(
+      "totalHoursSaved",
+      "Hours saved per year",
+      results.totalHoursSaved,
+      "hours",
+      "{hoursSavedAht}+{hoursSavedQa}"
+    ),
+    ...totalCalculations(
+      "{savingsAht}+{savingsQa}+{savingsDeflection}+{savingsHiring}+{savingsRamp}+{revenueProtected}+{riskCostAvoided}"
+    ),
+  ];
+};
@@ -0,0 +1,257 @@
+import { scaleChannelAht } from "./channels";
+import { CONTACTS_PER_AGENT_RANGES, type AiImprovements } from "./constants";
+import { calculateRoi, type RoiInputs, type RoiResult } from "./engine";
+import { EXACT_INPUT_BOUNDS } from "./exact";
+import { isValidSites, type SiteProfile } from "./sites";
+
+export type MonteCarloSettings = {
+  iterations: number;
+  seed: number;
+  // Spread applied around measured (exact) values, e.g. 10 = ±10%
+  exactSpreadPct: number;
+  // Low / high multipliers on the complexity AHT
+  ahtRange: [number, number];
+  // Low / high multipliers on each improvement percentage
+  improvementRange: [number, number];
+  histogramBins: number;
+};
+
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettings = {
+  iterations: 5000,
+  seed: 42,
+  exactSpreadPct: 10,
+  ahtRange: [0.8, 1.25],
+  improvementRange: [0.5, 1.3],
+  histogramBins: 20,
+};
+
+export type Percentiles = { p10: number; p50: number; p90: number };
+
+export type HistogramBin = { from: number; to: number; count: number };
+
+export type MonteCarloSummary = {
+  iterations: number;
+  totalAnnualBenefit: Percentiles;
+  netGain: Percentiles;
+  paybackMonths: Percentiles;
+  probabilityPositiveRoi: number;
+  netGainHistogram: HistogramBin[];
+};
+
+// Small seeded PRNG so the same inputs always give the same ranges
+const mulberry32 = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const triangular = (
+  rand: () => number,
+  min: number,
+  mode: number,
+  max: number
+) => {
+  if (max <= min) return mode;
+  const u = rand();
+  const cut = (mode - min) / (max - min);
+  return u < cut
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+};
+
+const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.round((p / 100) * (sorted.length - 1)))
+  );
+  return sorted[index];
+};
+
+const summarise = (values: number[]): Percentiles => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 10),
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+  };
+};
+
+const histogram = (values: number[], bins: number): HistogramBin[] => {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = max > min ? (max - min) / bins : 1;
+  const result: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  values.forEach((value) => {
+    const index = Math.min(bins - 1, Math.floor((value - min) / width));
+    result[index].count += 1;
+  });
+  return result;
+};
+
+const withinBounds = (
+  field: "contactsPerAgentPerDay" | "ahtMins",
+  value: number
+) =>
+  Math.min(
+    Math.max(value, EXACT_INPUT_BOUNDS[field].min),
+    EXACT_INPUT_BOUNDS[field].max
+  );
+
+export const runMonteCarlo = (
+  inputs: RoiInputs,
+  results: RoiResult,
+  settings: MonteCarloSettings = DEFAULT_MONTE_CARLO_SETTINGS
+): MonteCarloSummary => {
+  const rand = mulberry32(settings.seed);
+  const spread = settings.exactSpreadPct / 100;
+  const [contactsMin, contactsMax] =
+    results.inputSources.contactsPerAgentPerDay === "exact"
+      ? [
+          results.contactsPerAgentPerDay * (1 - spread),
+          results.contactsPerAgentPerDay * (1 + spread),
+        ]
+      : CONTACTS_PER_AGENT_RANGES[inputs.contactVolumeBand];
+  const [ahtLow, ahtHigh] =
+    results.inputSources.ahtMins === "exact"
+      ? [1 - spread, 1 + spread]
+      : settings.ahtRange;
+  const [improvementLow, improvementHigh] = settings.improvementRange;
+  const base = results.baseImprovements;
+
+  const sampleImprovement = (pct: number) =>
+    Math.min(
+      100,
+      triangular(rand, pct * improvementLow, pct, pct * improvementHigh)
+    );
+
+  // Sites are each sampled around their own answers. The improvement draw is
+  // shared, as it's EdgeTier's effect that's uncertain rather than the site's.
+  const sampleSites = (sites: SiteProfile[]): RoiInputs => {
+    const factors = Object.fromEntries(
+      (Object.keys(base) as (keyof AiImprovements)[]).map((key) => [
+        key,
+        triangular(rand, improvementLow, 1, improvementHigh),
+      ])
+    ) as AiImprovements;
+    // A channel mix sets every site's handle times, so sample it once
+    const channelMix =
+      inputs.channelMix && results.channels.length > 0
+        ? scaleChannelAht(
+            inputs.channelMix,
+            triangular(rand, settings.ahtRange[0], 1, settings.ahtRange[1])
+          )
+        : inputs.channelMix;
+
+    return {
+      ...inputs,
+      channelMix,
+      sites: sites.map((site, index) => {
+        const own = results.sites[index];
+        const exactContacts = site.exact?.contactsPerAgentPerDay !== undefined;
+        const [low, high] = exactContacts
+          ? [
+              own.contactsPerAgentPerDay * (1 - spread),
+              own.contactsPerAgentPerDay * (1 + spread),
+            ]
+          : CONTACTS_PER_AGENT_RANGES[site.contactVolumeBand];
+        const [siteAhtLow, siteAhtHigh] =
+          site.exact?.ahtMins !== undefined
+            ? [1 - spread, 1 + spread]
+            : settings.ahtRange;
+        const contacts = low + rand() * (high - low);
+        const aht = triangular(
+          rand,
+          own.ahtMins * siteAhtLow,
+          own.ahtMins,
+          own.ahtMins * siteAhtHigh
+        );
+        return {
+          ...site,
+          exact: {
+            ...site.exact,
+            contactsPerAgentPerDay: withinBounds(
+              "contactsPerAgentPerDay",
+              contacts
+            ),
+            ahtMins: withinBounds("ahtMins", aht),
+          },
+          improvements: Object.fromEntries(
+            (Object.keys(factors) as (keyof AiImprovements)[]).map((key) => [
+              key,
+              Math.min(100, own.baseImprovements[key] * factors[key]),
+            ])
+          ),
+        };
+      }),
+    };
+  };
+
+  const sampleTeam = (): RoiInputs => {
+    const contacts = contactsMin + rand() * (contactsMax - contactsMin);
+    const aht = triangular(
+      rand,
+      results.ahtMins * ahtLow,
+      results.ahtMins,
+      results.ahtMins * ahtHigh
+    );
+
+    return {
+      ...inputs,
+      exact: {
+        ...inputs.exact,
+        contactsPerAgentPerDay: withinBounds(
+          "contactsPerAgentPerDay",
+          contacts
+        ),
+        ahtMins: withinBounds("ahtMins", aht),
+      },
+      // With a channel mix the sampled AHT scales every channel's handle time
+      channelMix:
+        inputs.channelMix && results.channels.length > 0
+          ? scaleChannelAht(inputs.channelMix, aht / results.ahtMins)
+          : inputs.channelMix,
+      improvements: {
+        ahtReductionPct: sampleImprovement(base.ahtReductionPct),
+        qaEfficiencyGainPct: sampleImprovement(base.qaEfficiencyGainPct),
+        contactDeflectionPct: sampleImprovement(base.contactDeflectionPct),
+      },
+    };
+  };
+
+  const sites = isValidSites(inputs.sites) ? inputs.sites : null;
+  const benefits: number[] = [];
+  const netGains: number[] = [];
+  const paybacks: number[] = [];
+  let positive = 0;
+
+  for (let i = 0; i < settings.iterations; i += 1) {
+    const run = calculateRoi(sites ? sampleSites(sites) : sampleTeam());
+
+    benefits.push(run.totalAnnualBenefit);
+    netGains.push(run.netGain);
+    // No benefit means no payback – sort those to the far end
+    paybacks.push(run.paybackMonths > 0 ? run.paybackMonths : Infinity);
+    if (run.roiPct > 0) positive += 1;
+  }
+
+  return {
+    iterations: settings.iterations,
+    totalAnnualBenefit: summarise(benefits),
+    netGain: summarise(netGains),
+    paybackMonths: summarise(paybacks),
+    probabilityPositiveRoi:
+      settings.iterations > 0 ? positive / settings.iterations : 0,
+    netGainHistogram: histogram(netGains, settings.histogramBins),
+  };
+};
@@ -0,0 +1,15 @@
+import type { RoiInputs, RoiResult } from "./engine";
+import { runMonteCarlo, type MonteCarloSettings } from "./monteCarlo";
+
+export type MonteCarloRequest = {
+  inputs: RoiInputs;
+  results: RoiResult;
+  settings: MonteCarloSettings;
+};
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { inputs, results, settings } = event.data;
+  ctx.postMessage(runMonteCarlo(inputs, results, settings));
+};
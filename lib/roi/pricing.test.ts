@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MODEL_CONFIG } from "./config";
+import { DEFAULT_ROI_INPUTS, calculateRoi } from "./engine";
+import { buildLineItems } from "./lineItems";
+import {
+  DEFAULT_PRICE_BOOK,
+  isValidQuotedPrice,
+  quotePrice,
+  tierIndexFor,
+  type PriceBook,
+} from "./pricing";
+
+// Works out the sheet's list price formula for a given agent count
+const sheetListPrice = (book: PriceBook, numAgents: number) => {
+  const inputs = {
+    ...DEFAULT_ROI_INPUTS,
+    exact: { numAgents },
+    config: { ...DEFAULT_MODEL_CONFIG, priceBook: book },
+  };
+  const item = buildLineItems(inputs, calculateRoi(inputs)).find(
+    (line) => line.key === "listPrice"
+  );
+  const formula = item?.formula?.replace(/\{numAgents\}/g, String(numAgents));
+  if (!formula) throw new Error("No list price formula.");
+  return new Function("IF", "MAX", `return ${formula};`)(
+    (test: boolean, yes: number, no: number) => (test ? yes : no),
+    Math.max
+  ) as number;
+};
+
+describe("quotePrice", () => {
+  it.each([
+    [25, 0, 80_000],
+    [26, 1, 120_000],
+    [50, 1, 120_000],
+    [51, 2, 180_000],
+    [100, 2, 180_000],
+    [101, 3, 250_000],
+  ])("puts %i agents in tier %i at %i a year", (agents, tier, listPrice) => {
+    expect(tierIndexFor(agents)).toBe(tier);
+    expect(quotePrice(agents).listPrice).toBe(listPrice);
+  });
+
+  it("charges per seat once the minimum is passed", () => {
+    expect(quotePrice(400).listPrice).toBe(400_000);
+  });
+
+  it("keeps the price book when the quote is zero", () => {
+    expect(isValidQuotedPrice(0)).toBe(false);
+    expect(quotePrice(40, { quotedAnnualPrice: 0 }).source).toBe("price-book");
+    expect(quotePrice(40, { quotedAnnualPrice: 90_000 }).source).toBe("quote");
+  });
+});
+
+describe("list price formula", () => {
+  it.each([1, 25, 26, 50, 51, 100, 101, 250, 251, 1_000])(
+    "agrees with the engine at %i agents",
+    (agents) => {
+      expect(sheetListPrice(DEFAULT_PRICE_BOOK, agents)).toBe(
+        quotePrice(agents).listPrice
+      );
+    }
+  );
+
+  // A book whose top tier is capped still prices teams beyond it
+  const capped: PriceBook = {
+    ...DEFAULT_PRICE_BOOK,
+    tiers: DEFAULT_PRICE_BOOK.tiers.slice(0, 3),
+  };
+
+  it.each([100, 101, 500])(
+    "uses the last finite tier past its cap at %i agents",
+    (agents) => {
+      const { listPrice } = quotePrice(agents, {}, capped);
+      expect(listPrice).toBe(Math.max(180_000, agents * 1_800));
+      expect(sheetListPrice(capped, agents)).toBe(listPrice);
+    }
+  );
+});
@@ -0,0 +1,167 @@
+export type PricingModule = "agentAssist" | "autoQa" | "insights";
+
+export type BenefitStream = "aht" | "qa" | "deflection";
+
+export type PriceTier = {
+  maxAgents: number;
+  annualPerSeat: number;
+  // Minimum annual commitment for the tier
+  minimumAnnual: number;
+};
+
+export type PriceBook = {
+  version: string;
+  // All amounts are in EUR and converted for other currencies
+  tiers: PriceTier[];
+  // Tier prices cover the full suite; each module carries a share of it
+  modules: Record<
+    PricingModule,
+    { label: string; benefitStream: BenefitStream; sharePct: number }
+  >;
+  volumeDiscounts: { minAgents: number; discountPct: number }[];
+  termDiscounts: Record<ContractTerm, number>;
+};
+
+export type ContractTerm = 1 | 2 | 3;
+
+export type PricingOptions = {
+  modules?: PricingModule[];
+  termYears?: ContractTerm;
+  // Negotiated annual price in the selected currency; replaces the price book
+  quotedAnnualPrice?: number;
+};
+
+export type PriceQuote = {
+  source: "price-book" | "quote";
+  priceBookVersion: string;
+  tier: PriceTier;
+  tierIndex: number;
+  listPrice: number;
+  modules: PricingModule[];
+  moduleSharePct: number;
+  volumeDiscountPct: number;
+  termYears: ContractTerm;
+  termDiscountPct: number;
+  // EUR, before any quote override
+  annualCostEur: number;
+};
+
+export const PRICING_MODULES: PricingModule[] = [
+  "agentAssist",
+  "autoQa",
+  "insights",
+];
+
+export const CONTRACT_TERMS: ContractTerm[] = [1, 2, 3];
+
+export const DEFAULT_PRICE_BOOK: PriceBook = {
+  version: "2024.1",
+  tiers: [
+    { maxAgents: 25, annualPerSeat: 3_200, minimumAnnual: 80_000 },
+    { maxAgents: 50, annualPerSeat: 2_400, minimumAnnual: 120_000 },
+    { maxAgents: 100, annualPerSeat: 1_800, minimumAnnual: 180_000 },
+    { maxAgents: 250, annualPerSeat: 1_000, minimumAnnual: 250_000 },
+    { maxAgents: Infinity, annualPerSeat: 1_000, minimumAnnual: 350_000 },
+  ],
+  modules: {
+    agentAssist: {
+      label: "Agent assist",
+      benefitStream: "aht",
+      sharePct: 45,
+    },
+    autoQa: { label: "Auto-QA", benefitStream: "qa", sharePct: 30 },
+    insights: {
+      label: "Insights & alerts",
+      benefitStream: "deflection",
+      sharePct: 25,
+    },
+  },
+  volumeDiscounts: [
+    { minAgents: 500, discountPct: 5 },
+    { minAgents: 1_000, discountPct: 10 },
+  ],
+  termDiscounts: { 1: 0, 2: 5, 3: 10 },
+};
+
+export const tierIndexFor = (
+  numAgents: number,
+  book: PriceBook = DEFAULT_PRICE_BOOK
+) => {
+  const index = book.tiers.findIndex((tier) => numAgents <= tier.maxAgents);
+  return index === -1 ? book.tiers.length - 1 : index;
+};
+
+export const tierLabel = (
+  index: number,
+  book: PriceBook = DEFAULT_PRICE_BOOK
+) => {
+  const tier = book.tiers[index];
+  const from = index === 0 ? 1 : book.tiers[index - 1].maxAgents + 1;
+  return Number.isFinite(tier.maxAgents)
+    ? `${from}–${tier.maxAgents} agents`
+    : `${from}+ agents`;
+};
+
+export const volumeDiscountFor = (
+  numAgents: number,
+  book: PriceBook = DEFAULT_PRICE_BOOK
+) =>
+  book.volumeDiscounts.reduce(
+    (best, band) =>
+      numAgents >= band.minAgents ? Math.max(best, band.discountPct) : best,
+    0
+  );
+
+// A free quote would leave ROI and payback with nothing to divide by
+export const isValidQuotedPrice = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+export const quotePrice = (
+  numAgents: number,
+  options: PricingOptions = {},
+  book: PriceBook = DEFAULT_PRICE_BOOK
+): PriceQuote => {
+  const tierIndex = tierIndexFor(numAgents, book);
+  const tier = book.tiers[tierIndex];
+  const listPrice = Math.max(
+    tier.minimumAnnual,
+    numAgents * tier.annualPerSeat
+  );
+
+  const modules = options.modules ?? PRICING_MODULES;
+  const moduleSharePct = modules.reduce(
+    (sum, module) => sum + book.modules[module].sharePct,
+    0
+  );
+  const volumeDiscountPct = volumeDiscountFor(numAgents, book);
+  const termYears = options.termYears ?? 1;
+  const termDiscountPct = book.termDiscounts[termYears] ?? 0;
+
+  const annualCostEur =
+    listPrice *
+    (moduleSharePct / 100) *
+    (1 - volumeDiscountPct / 100) *
+    (1 - termDiscountPct / 100);
+
+  return {
+    source: isValidQuotedPrice(options.quotedAnnualPrice)
+      ? "quote"
+      : "price-book",
+    priceBookVersion: book.version,
+    tier,
+    tierIndex,
+    listPrice,
+    modules,
+    moduleSharePct,
+    volumeDiscountPct,
+    termYears,
+    termDiscountPct,
+    annualCostEur,
+  };
+};
+
+export const includesStream = (
+  modules: PricingModule[],
+  stream: BenefitStream,
+  book: PriceBook = DEFAULT_PRICE_BOOK
+) => modules.some((module) => book.modules[module].benefitStream === stream);
@@ -0,0 +1,335 @@
+import type { RoiResult } from "./engine";
+
+export type ArrivalProfileId = "business" | "extended" | "allDay";
+
+export type QueueField = "targetServiceLevelPct" | "targetAnswerSecs" | "shiftHours";
+
+export type QueueSettings = {
+  // Relative contacts per hour, 00:00–23:00; closed hours are 0
+  arrivalProfile: number[];
+  targetServiceLevelPct: number;
+  targetAnswerSecs: number;
+  // Paid hours per agent per day, before shrinkage
+  shiftHours: number;
+};
+
+export type QueueMetrics = {
+  serviceLevelPct: number;
+  asaSecs: number;
+  occupancyPct: number;
+};
+
+export type QueueInterval = {
+  hour: number;
+  arrivals: number;
+  agentsStaffed: number;
+  before: QueueMetrics;
+  after: QueueMetrics;
+  agentsNeededBefore: number;
+  agentsNeededAfter: number;
+};
+
+export type QueueResult = {
+  queuedContactsPerDay: number;
+  ahtBeforeMins: number;
+  ahtAfterMins: number;
+  staffedAgentHours: number;
+  intervals: QueueInterval[];
+  // Arrival-weighted across the open hours
+  before: QueueMetrics;
+  after: QueueMetrics;
+  agentHoursNeededBefore: number;
+  agentHoursNeededAfter: number;
+  peakAgentsNeededBefore: number;
+  peakAgentsNeededAfter: number;
+};
+
+// Hourly weights from 00:00 to 23:00
+export const ARRIVAL_PROFILES: Record<
+  ArrivalProfileId,
+  { label: string; profile: number[] }
+> = {
+  business: {
+    label: "Business hours (9–17)",
+    profile: [
+      0, 0, 0, 0, 0, 0, 0, 0, 0, 9, 14, 15, 12, 12, 14, 13, 11, 0, 0, 0, 0, 0,
+      0, 0,
+    ],
+  },
+  extended: {
+    label: "Extended hours (8–20)",
+    profile: [
+      0, 0, 0, 0, 0, 0, 0, 0, 5, 9, 11, 11, 10, 10, 10, 9, 8, 7, 6, 4, 0, 0, 0,
+      0,
+    ],
+  },
+  allDay: {
+    label: "24/7",
+    profile: [
+      1, 1, 1, 1, 1, 2, 3, 4, 6, 7, 7, 7, 6, 6, 6, 6, 6, 5, 5, 5, 4, 4, 3, 2,
+    ],
+  },
+};
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+  arrivalProfile: ARRIVAL_PROFILES.extended.profile,
+  targetServiceLevelPct: 80,
+  targetAnswerSecs: 20,
+  shiftHours: 8,
+};
+
+export const QUEUE_FIELDS: Record<
+  QueueField,
+  { label: string; unit: string; min: number; max: number; step: number }
+> = {
+  targetServiceLevelPct: {
+    label: "Target service level",
+    unit: "% answered",
+    min: 1,
+    max: 99,
+    step: 1,
+  },
+  targetAnswerSecs: {
+    label: "Answered within",
+    unit: "seconds",
+    min: 1,
+    max: 600,
+    step: 5,
+  },
+  shiftHours: {
+    label: "Paid hours per agent",
+    unit: "hours / day",
+    min: 1,
+    max: 12,
+    step: 0.5,
+  },
+};
+
+export const QUEUE_FIELD_KEYS = Object.keys(QUEUE_FIELDS) as QueueField[];
+
+export const isValidQueueValue = (key: QueueField, value: unknown) => {
+  const field = QUEUE_FIELDS[key];
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= field.min &&
+    value <= field.max
+  );
+};
+
+// One step of the Erlang B recursion, from agents - 1 to agents
+const nextErlangB = (erlangB: number, agents: number, traffic: number) =>
+  (traffic * erlangB) / (agents + traffic * erlangB);
+
+const erlangCFromB = (agents: number, traffic: number, erlangB: number) =>
+  (agents * erlangB) / (agents - traffic * (1 - erlangB));
+
+const serviceLevelFrom = (
+  waitProbability: number,
+  agents: number,
+  traffic: number,
+  ahtSecs: number,
+  targetAnswerSecs: number
+) =>
+  (1 -
+    waitProbability *
+      Math.exp((-(agents - traffic) * targetAnswerSecs) / ahtSecs)) *
+  100;
+
+// Probability a contact has to wait, via the Erlang B recursion so large
+// agent counts don't overflow
+export const erlangC = (agents: number, trafficErlangs: number) => {
+  if (trafficErlangs <= 0) return 0;
+  if (agents <= trafficErlangs) return 1;
+  let erlangB = 1;
+  for (let n = 1; n <= agents; n += 1) {
+    erlangB = nextErlangB(erlangB, n, trafficErlangs);
+  }
+  return erlangCFromB(agents, trafficErlangs, erlangB);
+};
+
+export const queueMetrics = (
+  agents: number,
+  arrivalsPerHour: number,
+  ahtMins: number,
+  targetAnswerSecs: number
+): QueueMetrics => {
+  const ahtSecs = ahtMins * 60;
+  const traffic = (arrivalsPerHour * ahtSecs) / 3600;
+  if (traffic <= 0) {
+    return { serviceLevelPct: 100, asaSecs: 0, occupancyPct: 0 };
+  }
+  if (agents <= traffic) {
+    // The queue grows without bound for the whole interval
+    return {
+      serviceLevelPct: 0,
+      asaSecs: Infinity,
+      occupancyPct: 100,
+    };
+  }
+  const waitProbability = erlangC(agents, traffic);
+  return {
+    serviceLevelPct: serviceLevelFrom(
+      waitProbability,
+      agents,
+      traffic,
+      ahtSecs,
+      targetAnswerSecs
+    ),
+    asaSecs: (waitProbability * ahtSecs) / (agents - traffic),
+    occupancyPct: (traffic / agents) * 100,
+  };
+};
+
+export const agentsForServiceLevel = (
+  arrivalsPerHour: number,
+  ahtMins: number,
+  targetServiceLevelPct: number,
+  targetAnswerSecs: number
+) => {
+  const ahtSecs = ahtMins * 60;
+  const traffic = (arrivalsPerHour * ahtSecs) / 3600;
+  if (traffic <= 0) return 0;
+  // Service level only approaches 100%, so bound the search
+  const maxAgents = Math.ceil(traffic * 3) + 100;
+
+  // Walk upwards carrying Erlang B along, so the search stays linear
+  let erlangB = 1;
+  for (let agents = 1; agents < maxAgents; agents += 1) {
+    erlangB = nextErlangB(erlangB, agents, traffic);
+    if (agents <= traffic) continue;
+    const serviceLevelPct = serviceLevelFrom(
+      erlangCFromB(agents, traffic, erlangB),
+      agents,
+      traffic,
+      ahtSecs,
+      targetAnswerSecs
+    );
+    if (serviceLevelPct >= targetServiceLevelPct) return agents;
+  }
+  return maxAgents;
+};
+
+const weightedMetrics = (
+  intervals: QueueInterval[],
+  pick: (interval: QueueInterval) => QueueMetrics
+): QueueMetrics => {
+  const total = intervals.reduce((sum, i) => sum + i.arrivals, 0);
+  const average = (key: keyof QueueMetrics) =>
+    total > 0
+      ? intervals.reduce((sum, i) => sum + pick(i)[key] * i.arrivals, 0) /
+        total
+      : 0;
+  return {
+    serviceLevelPct: average("serviceLevelPct"),
+    asaSecs: average("asaSecs"),
+    occupancyPct: average("occupancyPct"),
+  };
+};
+
+// Real-time queues only: with a channel mix that's the voice channel, which
+// keeps its share of the staffed hours
+const queuedWorkload = (result: RoiResult) => {
+  const voice = result.channels.find((c) => c.channel === "voice");
+  if (!voice) {
+    return {
+      contactsPerYear: result.contactsPerYear,
+      ahtBeforeMins: result.ahtMins,
+      ahtAfterMins: result.newAhtMins,
+      staffShare: 1,
+    };
+  }
+  return {
+    contactsPerYear: voice.contactsPerYear,
+    ahtBeforeMins: voice.ahtMins,
+    ahtAfterMins:
+      voice.baselineHandlingHours > 0
+        ? voice.ahtMins * (voice.newHandlingHours / voice.baselineHandlingHours)
+        : voice.ahtMins,
+    staffShare:
+      result.baselineHandlingHours > 0
+        ? voice.baselineHandlingHours / result.baselineHandlingHours
+        : 0,
+  };
+};
+
+export const calculateQueue = (
+  result: RoiResult,
+  settings: QueueSettings
+): QueueResult => {
+  const workload = queuedWorkload(result);
+  const daysPerYear = result.workingDaysPerMonth * 12;
+  const queuedContactsPerDay =
+    daysPerYear > 0 ? workload.contactsPerYear / daysPerYear : 0;
+  const staffedAgentHours =
+    result.numAgents *
+    (1 - result.capacity.settings.shrinkagePct / 100) *
+    settings.shiftHours *
+    workload.staffShare;
+
+  const weightTotal = settings.arrivalProfile.reduce(
+    (sum, weight) => sum + Math.max(weight, 0),
+    0
+  );
+  const { targetServiceLevelPct, targetAnswerSecs } = settings;
+
+  // Staff follow demand, so each open hour gets the same share of both
+  const intervals: QueueInterval[] = settings.arrivalProfile.flatMap(
+    (weight, hour) => {
+      if (weight <= 0 || weightTotal <= 0) return [];
+      const share = weight / weightTotal;
+      const arrivals = queuedContactsPerDay * share;
+      const agentsStaffed = Math.floor(staffedAgentHours * share);
+      return [
+        {
+          hour,
+          arrivals,
+          agentsStaffed,
+          before: queueMetrics(
+            agentsStaffed,
+            arrivals,
+            workload.ahtBeforeMins,
+            targetAnswerSecs
+          ),
+          after: queueMetrics(
+            agentsStaffed,
+            arrivals,
+            workload.ahtAfterMins,
+            targetAnswerSecs
+          ),
+          agentsNeededBefore: agentsForServiceLevel(
+            arrivals,
+            workload.ahtBeforeMins,
+            targetServiceLevelPct,
+            targetAnswerSecs
+          ),
+          agentsNeededAfter: agentsForServiceLevel(
+            arrivals,
+            workload.ahtAfterMins,
+            targetServiceLevelPct,
+            targetAnswerSecs
+          ),
+        },
+      ];
+    }
+  );
+
+  const sumOf = (key: "agentsNeededBefore" | "agentsNeededAfter") =>
+    intervals.reduce((sum, interval) => sum + interval[key], 0);
+  const peakOf = (key: "agentsNeededBefore" | "agentsNeededAfter") =>
+    intervals.reduce((peak, interval) => Math.max(peak, interval[key]), 0);
+
+  return {
+    queuedContactsPerDay,
+    ahtBeforeMins: workload.ahtBeforeMins,
+    ahtAfterMins: workload.ahtAfterMins,
+    staffedAgentHours,
+    intervals,
+    before: weightedMetrics(intervals, (i) => i.before),
+    after: weightedMetrics(intervals, (i) => i.after),
+    agentHoursNeededBefore: sumOf("agentsNeededBefore"),
+    agentHoursNeededAfter: sumOf("agentsNeededAfter"),
+    peakAgentsNeededBefore: peakOf("agentsNeededBefore"),
+    peakAgentsNeededAfter: peakOf("agentsNeededAfter"),
+  };
+};
@@ -0,0 +1,131 @@
+import { isWithinBounds, parseBoundedNumber } from "./validation";
+
+export type RetentionField =
+  | "customerCount"
+  | "revenuePerCustomer"
+  | "churnRatePct"
+  | "serviceChurnSharePct"
+  | "churnPreventedPct";
+
+export type RetentionInputs = Partial<Record<RetentionField, number>>;
+
+export type RetentionSettings = Record<RetentionField, number>;
+
+export type RetentionResult = RetentionSettings & {
+  customersChurning: number;
+  serviceLinkedChurners: number;
+  customersRetained: number;
+  // Revenue walking out of the door each year because of service
+  revenueAtRisk: number;
+  revenueRetained: number;
+};
+
+export const RETENTION_FIELDS: Record<
+  RetentionField,
+  {
+    label: string;
+    unit: string;
+    min: number;
+    max: number;
+    integer: boolean;
+    // Rates have sensible defaults; customer numbers must come from the user
+    defaultValue?: number;
+    money?: boolean;
+  }
+> = {
+  customerCount: {
+    label: "Active customers",
+    unit: "customers",
+    min: 1,
+    max: 100_000_000,
+    integer: true,
+  },
+  revenuePerCustomer: {
+    label: "Average annual revenue per customer",
+    unit: "per year",
+    min: 1,
+    max: 10_000_000,
+    integer: false,
+    money: true,
+  },
+  churnRatePct: {
+    label: "Annual churn rate",
+    unit: "% of customers",
+    min: 0,
+    max: 100,
+    integer: false,
+    defaultValue: 15,
+  },
+  serviceChurnSharePct: {
+    label: "Churn linked to service experience",
+    unit: "% of churn",
+    min: 0,
+    max: 100,
+    integer: false,
+    defaultValue: 30,
+  },
+  churnPreventedPct: {
+    label: "Service-linked churn prevented by CSAT / FCR uplift",
+    unit: "%",
+    min: 0,
+    max: 100,
+    integer: false,
+    defaultValue: 10,
+  },
+};
+
+export const RETENTION_FIELD_KEYS = Object.keys(
+  RETENTION_FIELDS
+) as RetentionField[];
+
+export const isValidRetentionValue = (field: RetentionField, value: unknown) =>
+  isWithinBounds(RETENTION_FIELDS[field], value);
+
+// Parses a raw text field; an empty string means "use the default", or for
+// customer numbers "fall back to the revenue band"
+export const parseRetentionValue = (field: RetentionField, raw: string) =>
+  parseBoundedNumber(RETENTION_FIELDS[field], raw);
+
+// Null unless both customer numbers are known; rates fall back to the given
+// defaults (e.g. an industry benchmark), then the field defaults
+export const resolveRetention = (
+  inputs: RetentionInputs | undefined,
+  defaults: RetentionInputs = {}
+): RetentionSettings | null => {
+  if (
+    !inputs ||
+    !isValidRetentionValue("customerCount", inputs.customerCount) ||
+    !isValidRetentionValue("revenuePerCustomer", inputs.revenuePerCustomer)
+  ) {
+    return null;
+  }
+  const settings = {} as RetentionSettings;
+  RETENTION_FIELD_KEYS.forEach((field) => {
+    const value = inputs[field];
+    settings[field] = isValidRetentionValue(field, value)
+      ? (value as number)
+      : defaults[field] ?? RETENTION_FIELDS[field].defaultValue ?? 0;
+  });
+  return settings;
+};
+
+export const calculateRetention = (
+  settings: RetentionSettings
+): RetentionResult => {
+  const customersChurning =
+    settings.customerCount * (settings.churnRatePct / 100);
+  const serviceLinkedChurners =
+    customersChurning * (settings.serviceChurnSharePct / 100);
+  const customersRetained =
+    serviceLinkedChurners * (settings.churnPreventedPct / 100);
+  const revenueAtRisk = serviceLinkedChurners * settings.revenuePerCustomer;
+
+  return {
+    ...settings,
+    customersChurning,
+    serviceLinkedChurners,
+    customersRetained,
+    revenueAtRisk,
+    revenueRetained: customersRetained * settings.revenuePerCustomer,
+  };
+};
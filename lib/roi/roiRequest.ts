@@ -0,0 +1,588 @@
+import { ASSUMPTION_KEYS, isValidAssumption } from "./assumptions";
+import { INDUSTRY_IDS } from "./benchmarks";
+import {
+  CAPACITY_KEYS,
+  CAPACITY_MODE_LABELS,
+  isValidCapacityValue,
+  type CapacityInputs,
+  type CapacityMode,
+} from "./capacity";
+import {
+  CHANNELS,
+  CHANNEL_FIELDS,
+  isValidChannelMix,
+  isValidChannelValue,
+  type ChannelMix,
+} from "./channels";
+import {
+  COMPLIANCE_FIELD_KEYS,
+  isValidComplianceValue,
+  type ComplianceInputs,
+} from "./compliance";
+import { AI_LEVELS } from "./config";
+import {
+  CONTACT_REASON_FIELDS,
+  CONTACT_REASON_LABEL_MAX_LENGTH,
+  MAX_CONTACT_REASONS,
+  PREVENTION_LEVER_IDS,
+  contactReasonShareTotal,
+  isValidContactReasonLabel,
+  isValidContactReasonValue,
+  type ContactReason,
+} from "./contactReasons";
+import {
+  COMPLEXITY_LEVELS,
+  CONTACTS_PER_AGENT_MAP,
+  TEAM_SIZE_MAP,
+  type AiImprovements,
+  type ComplexityLevel,
+  type ContactVolumeBand,
+  type RevenueBand,
+  type TeamSizeBand,
+} from "./constants";
+import { CURRENCY_CODES } from "./currency";
+import {
+  DEFAULT_ROI_INPUTS,
+  type RoiInputs,
+  type RoiPriorities,
+  type RoiResult,
+} from "./engine";
+import { EXACT_INPUT_BOUNDS, isValidExactValue, type ExactField } from "./exact";
+import {
+  CONTRACT_TERMS,
+  PRICING_MODULES,
+  isValidQuotedPrice,
+  type PricingOptions,
+} from "./pricing";
+import {
+  RETENTION_FIELD_KEYS,
+  isValidRetentionValue,
+  type RetentionInputs,
+} from "./retention";
+import {
+  MAX_ROLLOUT_WAVES,
+  ROLLOUT_HORIZONS,
+  ROLLOUT_WAVE_FIELDS,
+  ROLLOUT_WAVE_FIELD_BOUNDS,
+  isValidRolloutWaveValue,
+  type RolloutPlan,
+  type RolloutWave,
+} from "./rollout";
+import {
+  MAX_SITES,
+  MIN_SITES,
+  SITE_NAME_MAX_LENGTH,
+  isValidSiteName,
+  type SiteProfile,
+} from "./sites";
+import { isRecord } from "./validation";
+
+// Bump when a request or response field is renamed or changes meaning
+export const ROI_API_SCHEMA_VERSION = 1;
+
+export type RequestIssue = {
+  // Dotted path into the request body, e.g. "inputs.exact.numAgents"
+  path: string;
+  message: string;
+};
+
+export type RoiApiResponse = {
+  schemaVersion: number;
+  configVersion: string;
+  // Inputs after defaults are filled in, so callers can see what was used
+  inputs: RoiInputs;
+  results: RoiResult;
+};
+
+const TEAM_SIZE_BANDS = Object.keys(TEAM_SIZE_MAP) as TeamSizeBand[];
+const CONTACT_VOLUME_BANDS = Object.keys(
+  CONTACTS_PER_AGENT_MAP
+) as ContactVolumeBand[];
+const COMPLEXITY_KEYS = Object.keys(COMPLEXITY_LEVELS).map(
+  Number
+) as ComplexityLevel[];
+const REVENUE_BANDS: RevenueBand[] = [
+  "unknown",
+  "lt50",
+  "50-250",
+  "250-1000",
+  "gt1000",
+];
+const PRIORITY_KEYS: (keyof RoiPriorities)[] = ["aht", "qa", "deflection", "cx"];
+const EXACT_FIELDS = Object.keys(EXACT_INPUT_BOUNDS) as ExactField[];
+const IMPROVEMENT_FIELDS: (keyof AiImprovements)[] = [
+  "ahtReductionPct",
+  "qaEfficiencyGainPct",
+  "contactDeflectionPct",
+];
+const CAPACITY_MODES = Object.keys(CAPACITY_MODE_LABELS) as CapacityMode[];
+
+// Validates a POST /api/roi body – { schemaVersion?, inputs } – against the
+// same bounds the wizard uses. Unknown fields are rejected rather than
+// ignored so typos don't silently fall back to defaults.
+export const parseRoiRequest = (
+  body: unknown
+): { inputs?: RoiInputs; issues: RequestIssue[] } => {
+  const issues: RequestIssue[] = [];
+  const fail = (path: string, message: string) => {
+    issues.push({ path, message });
+  };
+
+  const rejectUnknown = (
+    path: string,
+    value: Record<string, unknown>,
+    known: readonly string[]
+  ) =>
+    Object.keys(value)
+      .filter((key) => !known.includes(key))
+      .forEach((key) =>
+        fail(path ? `${path}.${key}` : key, "Unknown field.")
+      );
+
+  const readObject = (path: string, value: unknown) => {
+    if (!isRecord(value)) {
+      fail(path, "Must be an object.");
+      return undefined;
+    }
+    return value;
+  };
+
+  const readEnum = <T extends string | number>(
+    path: string,
+    value: unknown,
+    allowed: readonly T[]
+  ): T | undefined => {
+    if (!allowed.includes(value as T)) {
+      fail(path, `Must be one of ${allowed.join(", ")}.`);
+      return undefined;
+    }
+    return value as T;
+  };
+
+  const readBoolean = (path: string, value: unknown) => {
+    if (typeof value !== "boolean") {
+      fail(path, "Must be true or false.");
+      return undefined;
+    }
+    return value;
+  };
+
+  // Reads an object of optional numbers, each checked by the module's own
+  // validator so the API and the wizard share bounds
+  const readNumbers = <K extends string>(
+    path: string,
+    value: unknown,
+    keys: readonly K[],
+    isValid: (key: K, value: unknown) => boolean
+  ) => {
+    const source = readObject(path, value);
+    if (!source) return undefined;
+    rejectUnknown(path, source, keys);
+    const result: Partial<Record<K, number>> = {};
+    keys.forEach((key) => {
+      if (source[key] === undefined) return;
+      if (isValid(key, source[key])) {
+        result[key] = source[key] as number;
+      } else {
+        fail(`${path}.${key}`, "Must be a number within the allowed range.");
+      }
+    });
+    return result;
+  };
+
+  const readPriorities = (path: string, value: unknown) => {
+    const source = readObject(path, value);
+    if (!source) return undefined;
+    rejectUnknown(path, source, PRIORITY_KEYS);
+    const priorities = { ...DEFAULT_ROI_INPUTS.priorities };
+    PRIORITY_KEYS.forEach((key) => {
+      if (source[key] === undefined) return;
+      const flag = readBoolean(`${path}.${key}`, source[key]);
+      if (flag !== undefined) priorities[key] = flag;
+    });
+    return priorities;
+  };
+
+  const readPricing = (path: string, value: unknown) => {
+    const source = readObject(path, value);
+    if (!source) return undefined;
+    rejectUnknown(path, source, ["modules", "termYears", "quotedAnnualPrice"]);
+    const pricing: PricingOptions = {};
+    if (source.modules !== undefined) {
+      if (!Array.isArray(source.modules)) {
+        fail(`${path}.modules`, "Must be a list of modules.");
+      } else {
+        source.modules.forEach((module, index) =>
+          readEnum(`${path}.modules.${index}`, module, PRICING_MODULES)
+        );
+        pricing.modules = PRICING_MODULES.filter((module) =>
+          (source.modules as unknown[]).includes(module)
+        );
+      }
+    }
+    if (source.termYears !== undefined) {
+      pricing.termYears = readEnum(
+        `${path}.termYears`,
+        source.termYears,
+        CONTRACT_TERMS
+      );
+    }
+    if (source.quotedAnnualPrice !== undefined) {
+      if (isValidQuotedPrice(source.quotedAnnualPrice)) {
+        pricing.quotedAnnualPrice = source.quotedAnnualPrice;
+      } else {
+        fail(`${path}.quotedAnnualPrice`, "Must be a number above 0.");
+      }
+    }
+    return pricing;
+  };
+
+  const readChannelMix = (path: string, value: unknown) => {
+    const source = readObject(path, value);
+    if (!source) return undefined;
+    const issuesBefore = issues.length;
+    rejectUnknown(path, source, CHANNELS);
+    const mix = {} as ChannelMix;
+    CHANNELS.forEach((channel) => {
+      const channelPath = `${path}.${channel}`;
+      const settings = readObject(channelPath, source[channel]);
+      if (!settings) return;
+      rejectUnknown(channelPath, settings, CHANNEL_FIELDS);
+      mix[channel] = { sharePct: 0, ahtMins: 0, concurrency: 1 };
+      CHANNEL_FIELDS.forEach((field) => {
+        if (isValidChannelValue(field, settings[field])) {
+          mix[channel][field] = settings[field] as number;
+        } else {
+          fail(
+            `${channelPath}.${field}`,
+            "Must be a number within the allowed range."
+          );
+        }
+      });
+    });
+    if (issues.length === issuesBefore && !isValidChannelMix(mix)) {
+      fail(path, "Channel shares must add up to 100%.");
+    }
+    return mix;
+  };
+
+  const readContactReasons = (path: string, value: unknown) => {
+    if (
+      !Array.isArray(value) ||
+      value.length === 0 ||
+      value.length > MAX_CONTACT_REASONS
+    ) {
+      fail(path, `Must be a list of 1 to ${MAX_CONTACT_REASONS} reasons.`);
+      return undefined;
+    }
+    const issuesBefore = issues.length;
+    const reasons = value.map((entry, index): ContactReason => {
+      const reasonPath = `${path}.${index}`;
+      const reason: ContactReason = {
+        label: "",
+        sharePct: 0,
+        lever: "none",
+        preventablePct: 0,
+      };
+      const source = readObject(reasonPath, entry);
+      if (!source) return reason;
+      rejectUnknown(reasonPath, source, [
+        "label",
+        "lever",
+        ...CONTACT_REASON_FIELDS,
+      ]);
+      if (isValidContactReasonLabel(source.label)) {
+        reason.label = (source.label as string).trim();
+      } else {
+        fail(
+          `${reasonPath}.label`,
+          `Must be 1 to ${CONTACT_REASON_LABEL_MAX_LENGTH} characters.`
+        );
+      }
+      reason.lever =
+        readEnum(`${reasonPath}.lever`, source.lever, PREVENTION_LEVER_IDS) ??
+        reason.lever;
+      CONTACT_REASON_FIELDS.forEach((field) => {
+        if (isValidContactReasonValue(field, source[field])) {
+          reason[field] = source[field] as number;
+        } else {
+          fail(`${reasonPath}.${field}`, "Must be a number from 0 to 100.");
+        }
+      });
+      return reason;
+    });
+    if (
+      issues.length === issuesBefore &&
+      contactReasonShareTotal(reasons) > 100.5
+    ) {
+      fail(path, "Contact reason shares can't add up to more than 100%.");
+    }
+    return reasons;
+  };
+
+  const readSites = (path: string, value: unknown) => {
+    if (
+      !Array.isArray(value) ||
+      value.length < MIN_SITES ||
+      value.length > MAX_SITES
+    ) {
+      fail(path, `Must be a list of ${MIN_SITES} to ${MAX_SITES} sites.`);
+      return undefined;
+    }
+    return value.map((entry, index): SiteProfile => {
+      const sitePath = `${path}.${index}`;
+      const site: SiteProfile = {
+        name: "",
+        teamSizeBand: DEFAULT_ROI_INPUTS.teamSizeBand,
+        contactVolumeBand: DEFAULT_ROI_INPUTS.contactVolumeBand,
+        complexityLevel: DEFAULT_ROI_INPUTS.complexityLevel,
+        aiLevel: DEFAULT_ROI_INPUTS.aiLevel,
+      };
+      const source = readObject(sitePath, entry);
+      if (!source) return site;
+      rejectUnknown(sitePath, source, [
+        "name",
+        "teamSizeBand",
+        "contactVolumeBand",
+        "complexityLevel",
+        "aiLevel",
+        "exact",
+        "annualCostPerAgent",
+      ]);
+      if (isValidSiteName(source.name)) {
+        site.name = (source.name as string).trim();
+      } else {
+        fail(
+          `${sitePath}.name`,
+          `Must be 1 to ${SITE_NAME_MAX_LENGTH} characters.`
+        );
+      }
+      site.teamSizeBand =
+        readEnum(
+          `${sitePath}.teamSizeBand`,
+          source.teamSizeBand,
+          TEAM_SIZE_BANDS
+        ) ?? site.teamSizeBand;
+      site.contactVolumeBand =
+        readEnum(
+          `${sitePath}.contactVolumeBand`,
+          source.contactVolumeBand,
+          CONTACT_VOLUME_BANDS
+        ) ?? site.contactVolumeBand;
+      site.complexityLevel =
+        readEnum(
+          `${sitePath}.complexityLevel`,
+          source.complexityLevel,
+          COMPLEXITY_KEYS
+        ) ?? site.complexityLevel;
+      site.aiLevel =
+        readEnum(`${sitePath}.aiLevel`, source.aiLevel, AI_LEVELS) ??
+        site.aiLevel;
+      if (source.exact !== undefined) {
+        site.exact = readNumbers(
+          `${sitePath}.exact`,
+          source.exact,
+          EXACT_FIELDS,
+          isValidExactValue
+        );
+      }
+      if (source.annualCostPerAgent !== undefined) {
+        if (isValidAssumption("annualCostPerAgent", source.annualCostPerAgent)) {
+          site.annualCostPerAgent = source.annualCostPerAgent as number;
+        } else {
+          fail(
+            `${sitePath}.annualCostPerAgent`,
+            "Must be a number within the allowed range."
+          );
+        }
+      }
+      return site;
+    });
+  };
+
+  const readRollout = (path: string, value: unknown) => {
+    const source = readObject(path, value);
+    if (!source) return undefined;
+    rejectUnknown(path, source, ["horizonMonths", "waves"]);
+    const horizonMonths = readEnum(
+      `${path}.horizonMonths`,
+      source.horizonMonths,
+      ROLLOUT_HORIZONS
+    );
+    const { waves } = source;
+    if (
+      !Array.isArray(waves) ||
+      waves.length === 0 ||
+      waves.length > MAX_ROLLOUT_WAVES
+    ) {
+      fail(
+        `${path}.waves`,
+        `Must be a list of 1 to ${MAX_ROLLOUT_WAVES} waves.`
+      );
+      return undefined;
+    }
+    const plan: RolloutPlan = {
+      horizonMonths: horizonMonths ?? ROLLOUT_HORIZONS[0],
+      waves: waves.map((entry, index): RolloutWave => {
+        const wavePath = `${path}.waves.${index}`;
+        const wave: RolloutWave = { startMonth: 1, agents: 1 };
+        const waveSource = readObject(wavePath, entry);
+        if (!waveSource) return wave;
+        rejectUnknown(wavePath, waveSource, ROLLOUT_WAVE_FIELDS);
+        ROLLOUT_WAVE_FIELDS.forEach((field) => {
+          const bounds = ROLLOUT_WAVE_FIELD_BOUNDS[field];
+          if (isValidRolloutWaveValue(field, waveSource[field])) {
+            wave[field] = waveSource[field] as number;
+          } else {
+            fail(
+              `${wavePath}.${field}`,
+              `Must be a whole number from ${bounds.min} to ${bounds.max}.`
+            );
+          }
+        });
+        if (horizonMonths && wave.startMonth > horizonMonths) {
+          fail(
+            `${wavePath}.startMonth`,
+            `Must be within the ${horizonMonths}-month plan.`
+          );
+        }
+        return wave;
+      }),
+    };
+    return plan;
+  };
+
+  const readCapacity = (path: string, value: unknown) => {
+    const source = readObject(path, value);
+    if (!source) return undefined;
+    const { mode, includeAttrition, ...numbers } = source;
+    const capacity: CapacityInputs = {
+      ...readNumbers(path, numbers, CAPACITY_KEYS, isValidCapacityValue),
+    };
+    if (mode !== undefined) {
+      capacity.mode = readEnum(`${path}.mode`, mode, CAPACITY_MODES);
+    }
+    if (includeAttrition !== undefined) {
+      capacity.includeAttrition = readBoolean(
+        `${path}.includeAttrition`,
+        includeAttrition
+      );
+    }
+    return capacity;
+  };
+
+  if (!isRecord(body)) {
+    return { issues: [{ path: "", message: "Body must be a JSON object." }] };
+  }
+  rejectUnknown("", body, ["schemaVersion", "inputs"]);
+  if (
+    body.schemaVersion !== undefined &&
+    body.schemaVersion !== ROI_API_SCHEMA_VERSION
+  ) {
+    fail(
+      "schemaVersion",
+      `Unsupported version; this API speaks version ${ROI_API_SCHEMA_VERSION}.`
+    );
+  }
+
+  const raw = readObject("inputs", body.inputs);
+  if (!raw) return { issues };
+
+  rejectUnknown("inputs", raw, [
+    ...Object.keys(DEFAULT_ROI_INPUTS),
+    "exact",
+    "assumptions",
+    "currency",
+    "improvements",
+    "pricing",
+    "channelMix",
+    "capacity",
+    "retention",
+    "industry",
+    "contactReasons",
+    "includeComplianceImpact",
+    "compliance",
+    "sites",
+    "rollout",
+  ]);
+
+  // Bands and answers fall back to the wizard's starting values
+  const inputs: RoiInputs = {
+    ...DEFAULT_ROI_INPUTS,
+    priorities: { ...DEFAULT_ROI_INPUTS.priorities },
+  };
+  const optional = <T>(key: string, read: (path: string, value: unknown) => T) =>
+    raw[key] === undefined ? undefined : read(`inputs.${key}`, raw[key]);
+
+  inputs.teamSizeBand =
+    optional("teamSizeBand", (path, value) =>
+      readEnum(path, value, TEAM_SIZE_BANDS)
+    ) ?? inputs.teamSizeBand;
+  inputs.contactVolumeBand =
+    optional("contactVolumeBand", (path, value) =>
+      readEnum(path, value, CONTACT_VOLUME_BANDS)
+    ) ?? inputs.contactVolumeBand;
+  inputs.complexityLevel =
+    optional("complexityLevel", (path, value) =>
+      readEnum(path, value, COMPLEXITY_KEYS)
+    ) ?? inputs.complexityLevel;
+  inputs.aiLevel =
+    optional("aiLevel", (path, value) => readEnum(path, value, AI_LEVELS)) ??
+    inputs.aiLevel;
+  inputs.priorities =
+    optional("priorities", readPriorities) ?? inputs.priorities;
+  inputs.revenueBand =
+    optional("revenueBand", (path, value) =>
+      readEnum(path, value, REVENUE_BANDS)
+    ) ?? inputs.revenueBand;
+  inputs.includeRevenueImpact =
+    optional("includeRevenueImpact", readBoolean) ??
+    inputs.includeRevenueImpact;
+
+  inputs.exact = optional("exact", (path, value) =>
+    readNumbers(path, value, EXACT_FIELDS, isValidExactValue)
+  );
+  inputs.assumptions = optional("assumptions", (path, value) =>
+    readNumbers(path, value, ASSUMPTION_KEYS, isValidAssumption)
+  );
+  inputs.currency = optional("currency", (path, value) =>
+    readEnum(path, value, CURRENCY_CODES)
+  );
+  inputs.improvements = optional("improvements", (path, value) =>
+    readNumbers(
+      path,
+      value,
+      IMPROVEMENT_FIELDS,
+      (_key, pct) =>
+        typeof pct === "number" &&
+        Number.isFinite(pct) &&
+        pct >= 0 &&
+        pct <= 100
+    )
+  );
+  inputs.pricing = optional("pricing", readPricing);
+  inputs.channelMix = optional("channelMix", readChannelMix);
+  inputs.capacity = optional("capacity", readCapacity);
+  inputs.retention = optional(
+    "retention",
+    (path, value): RetentionInputs | undefined =>
+      readNumbers(path, value, RETENTION_FIELD_KEYS, isValidRetentionValue)
+  );
+  inputs.industry = optional("industry", (path, value) =>
+    readEnum(path, value, INDUSTRY_IDS)
+  );
+  inputs.contactReasons = optional("contactReasons", readContactReasons);
+  inputs.includeComplianceImpact = optional(
+    "includeComplianceImpact",
+    readBoolean
+  );
+  inputs.compliance = optional(
+    "compliance",
+    (path, value): ComplianceInputs | undefined =>
+      readNumbers(path, value, COMPLIANCE_FIELD_KEYS, isValidComplianceValue)
+  );
+  inputs.sites = optional("sites", readSites);
+  inputs.rollout = optional("rollout", readRollout);
+
+  return issues.length > 0 ? { issues } : { inputs, issues };
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ROI_INPUTS, calculateRoi } from "./engine";
+import { applyRollout, calculateRollout, type RolloutPlan } from "./rollout";
+
+const result = calculateRoi(DEFAULT_ROI_INPUTS);
+const { numAgents } = result;
+
+const allAtOnce: RolloutPlan = {
+  horizonMonths: 36,
+  waves: [{ startMonth: 1, agents: numAgents }],
+};
+
+describe("calculateRollout", () => {
+  it("matches the instant payback with every agent live in month 1", () => {
+    const rollout = calculateRollout(allAtOnce, result);
+    expect(result.paybackMonths).toBeGreaterThan(0);
+    expect(rollout.paybackMonths).toBeCloseTo(result.paybackMonths, 9);
+    expect(rollout.instantPaybackMonths).toBe(result.paybackMonths);
+  });
+
+  it("renews each wave's licences every 12 months from go-live", () => {
+    const { months } = calculateRollout(allAtOnce, result);
+    const invoiced = months
+      .filter((row) => row.licenceCost > 0)
+      .map((row) => row.month);
+    expect(invoiced).toEqual([1, 13, 25]);
+    expect(months[12].licenceCost).toBeCloseTo(result.edgetierAnnualCost, 6);
+  });
+
+  it("trims waves to the agents in scope", () => {
+    const rollout = calculateRollout(
+      {
+        horizonMonths: 24,
+        waves: [
+          { startMonth: 6, agents: 500 },
+          { startMonth: 1, agents: 10 },
+          { startMonth: 9, agents: 5 },
+        ],
+      },
+      result
+    );
+    expect(rollout.waves).toEqual([
+      { startMonth: 1, agents: 10 },
+      { startMonth: 6, agents: numAgents - 10 },
+    ]);
+    expect(rollout.agentsPlanned).toBe(numAgents);
+    expect(rollout.months[23].agentsLive).toBe(numAgents);
+  });
+
+  it("has no payback when the plan never pays for itself", () => {
+    const losing = calculateRoi({
+      ...DEFAULT_ROI_INPUTS,
+      teamSizeBand: "1-10",
+      complexityLevel: 1,
+    });
+    expect(losing.netGain).toBeLessThan(0);
+
+    const plan: RolloutPlan = {
+      horizonMonths: 24,
+      waves: [{ startMonth: 1, agents: losing.numAgents }],
+    };
+    expect(calculateRollout(plan, losing).paybackMonths).toBeNull();
+    expect(applyRollout(losing, plan).paybackMonths).toBe(0);
+  });
+});
+
+describe("applyRollout", () => {
+  it("swaps in the plan's payback", () => {
+    const plan: RolloutPlan = {
+      horizonMonths: 24,
+      waves: [
+        { startMonth: 1, agents: 10 },
+        { startMonth: 4, agents: numAgents - 10 },
+      ],
+    };
+    const applied = applyRollout(result, plan);
+    expect(applied.rollout).toBeDefined();
+    expect(applied.paybackMonths).toBeGreaterThan(result.paybackMonths);
+    expect(applied.netGain).toBe(result.netGain);
+  });
+
+  it("leaves the result alone without a valid plan", () => {
+    expect(applyRollout(result, undefined)).toBe(result);
+    expect(
+      applyRollout(result, {
+        horizonMonths: 24,
+        waves: [{ startMonth: 30, agents: 10 }],
+      })
+    ).toBe(result);
+  });
+});
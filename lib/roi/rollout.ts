@@ -0,0 +1,178 @@
+import type { RoiResult } from "./engine";
+
+export type RolloutHorizon = 24 | 36;
+
+// A group of agents switched on together
+export type RolloutWave = {
+  // Month the wave goes live, counting the start of the plan as month 1
+  startMonth: number;
+  agents: number;
+};
+
+export type RolloutWaveField = keyof RolloutWave;
+
+export type RolloutPlan = {
+  horizonMonths: RolloutHorizon;
+  waves: RolloutWave[];
+};
+
+export type RolloutMonth = {
+  month: number;
+  agentsLive: number;
+  // Licences are billed a year in advance, from each wave's go-live month
+  licenceCost: number;
+  benefit: number;
+  netCashFlow: number;
+  cumulativeNet: number;
+};
+
+export type RolloutResult = {
+  horizonMonths: RolloutHorizon;
+  // Waves in go-live order, trimmed so they never add up to more agents than
+  // are in scope
+  waves: RolloutWave[];
+  agentsPlanned: number;
+  months: RolloutMonth[];
+  totalBenefit: number;
+  totalCost: number;
+  // Null when the plan doesn't pay back within the horizon
+  paybackMonths: number | null;
+  // Payback with every agent live from month 1
+  instantPaybackMonths: number;
+};
+
+export const ROLLOUT_HORIZONS: RolloutHorizon[] = [24, 36];
+
+export const MAX_ROLLOUT_WAVES = 6;
+
+export const ROLLOUT_WAVE_FIELDS: RolloutWaveField[] = ["startMonth", "agents"];
+
+export const ROLLOUT_WAVE_FIELD_BOUNDS: Record<
+  RolloutWaveField,
+  { label: string; min: number; max: number }
+> = {
+  startMonth: { label: "Go-live month", min: 1, max: 36 },
+  agents: { label: "Agents", min: 1, max: 20_000 },
+};
+
+export const isRolloutHorizon = (value: unknown): value is RolloutHorizon =>
+  ROLLOUT_HORIZONS.includes(value as RolloutHorizon);
+
+export const isValidRolloutWaveValue = (
+  field: RolloutWaveField,
+  value: unknown
+) => {
+  const bounds = ROLLOUT_WAVE_FIELD_BOUNDS[field];
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= bounds.min &&
+    value <= bounds.max
+  );
+};
+
+export const isValidRolloutPlan = (
+  plan: RolloutPlan | undefined
+): plan is RolloutPlan =>
+  plan !== undefined &&
+  isRolloutHorizon(plan.horizonMonths) &&
+  Array.isArray(plan.waves) &&
+  plan.waves.length > 0 &&
+  plan.waves.length <= MAX_ROLLOUT_WAVES &&
+  plan.waves.every(
+    (wave) =>
+      ROLLOUT_WAVE_FIELDS.every((field) =>
+        isValidRolloutWaveValue(field, wave[field])
+      ) && wave.startMonth <= plan.horizonMonths
+  );
+
+// A pilot with a quarter of the team, then everyone else three months later
+export const defaultRolloutPlan = (numAgents: number): RolloutPlan => {
+  const agents = Math.max(1, Math.round(numAgents));
+  const pilot = Math.max(1, Math.round(agents / 4));
+  return {
+    horizonMonths: 24,
+    waves:
+      pilot < agents
+        ? [
+            { startMonth: 1, agents: pilot },
+            { startMonth: 4, agents: agents - pilot },
+          ]
+        : [{ startMonth: 1, agents }],
+  };
+};
+
+// Each live agent brings their share of the annual benefit every month and
+// costs their share of the annual price up front, renewed every 12 months.
+// With one wave of every agent in month 1 this matches the instant payback.
+export const calculateRollout = (
+  plan: RolloutPlan,
+  result: RoiResult
+): RolloutResult => {
+  const { numAgents } = result;
+  const benefitPerAgentMonth =
+    numAgents > 0 ? result.totalAnnualBenefit / numAgents / 12 : 0;
+  const licencePerAgent =
+    numAgents > 0 ? result.edgetierAnnualCost / numAgents : 0;
+
+  let remaining = numAgents;
+  const waves = [...plan.waves]
+    .sort((a, b) => a.startMonth - b.startMonth)
+    .map((wave) => {
+      const agents = Math.min(wave.agents, Math.max(remaining, 0));
+      remaining -= agents;
+      return { ...wave, agents };
+    })
+    .filter((wave) => wave.agents > 0);
+
+  const months: RolloutMonth[] = [];
+  let cumulativeNet = 0;
+  let paybackMonths: number | null = null;
+
+  for (let month = 1; month <= plan.horizonMonths; month += 1) {
+    const live = waves.filter((wave) => wave.startMonth <= month);
+    const agentsLive = live.reduce((sum, wave) => sum + wave.agents, 0);
+    const licenceCost = live
+      .filter((wave) => (month - wave.startMonth) % 12 === 0)
+      .reduce((sum, wave) => sum + wave.agents * licencePerAgent, 0);
+    const benefit = agentsLive * benefitPerAgentMonth;
+
+    // Benefit builds up through the month, after that month's invoices
+    const afterInvoices = cumulativeNet - licenceCost;
+    cumulativeNet = afterInvoices + benefit;
+    if (paybackMonths === null && agentsLive > 0 && cumulativeNet >= 0) {
+      paybackMonths =
+        month - 1 + (benefit > 0 ? Math.max(-afterInvoices, 0) / benefit : 0);
+    }
+
+    months.push({
+      month,
+      agentsLive,
+      licenceCost,
+      benefit,
+      netCashFlow: benefit - licenceCost,
+      cumulativeNet,
+    });
+  }
+
+  return {
+    horizonMonths: plan.horizonMonths,
+    waves,
+    agentsPlanned: waves.reduce((sum, wave) => sum + wave.agents, 0),
+    months,
+    totalBenefit: months.reduce((sum, row) => sum + row.benefit, 0),
+    totalCost: months.reduce((sum, row) => sum + row.licenceCost, 0),
+    paybackMonths,
+    instantPaybackMonths: result.paybackMonths,
+  };
+};
+
+// Swaps the instant payback for the plan's; 0 still means it never pays back
+export const applyRollout = (
+  result: RoiResult,
+  plan: RolloutPlan | undefined
+): RoiResult => {
+  if (!isValidRolloutPlan(plan)) return result;
+  const rollout = calculateRollout(plan, result);
+  return { ...result, rollout, paybackMonths: rollout.paybackMonths ?? 0 };
+};
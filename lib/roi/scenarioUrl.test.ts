@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CHANNEL_MIX } from "./channels";
+import { DEFAULT_CONTACT_REASONS } from "./contactReasons";
+import { DEFAULT_ROI_INPUTS, type RoiInputs } from "./engine";
+import {
+  SCENARIO_URL_VERSION,
+  decodeScenario,
+  encodeScenario,
+} from "./scenarioUrl";
+
+// Every input the wizard can put in a link
+const FULL_INPUTS: RoiInputs = {
+  teamSizeBand: "51-100",
+  contactVolumeBand: "40-60",
+  complexityLevel: 4,
+  aiLevel: "low",
+  priorities: { aht: true, qa: false, deflection: true, cx: true },
+  revenueBand: "50-250",
+  includeRevenueImpact: true,
+  exact: { numAgents: 80, contactsPerAgentPerDay: 42.5, ahtMins: 7.5 },
+  assumptions: { annualCostPerAgent: 48_000, qaCoveragePct: 5 },
+  currency: "GBP",
+  industry: "telecom",
+  pricing: {
+    modules: ["agentAssist", "autoQa"],
+    termYears: 3,
+    quotedAnnualPrice: 150_000,
+  },
+  capacity: {
+    mode: "avoidHiring",
+    includeAttrition: true,
+    attritionPct: 30,
+    costToHire: 5_000,
+  },
+  retention: { customerCount: 50_000, revenuePerCustomer: 400 },
+  includeComplianceImpact: true,
+  compliance: { costPerIncident: 25_000, detectionUpliftPct: 60 },
+  channelMix: DEFAULT_CHANNEL_MIX,
+  contactReasons: [
+    ...DEFAULT_CONTACT_REASONS.slice(1),
+    { ...DEFAULT_CONTACT_REASONS[0], label: "Where's my order: 50% off?" },
+  ],
+  sites: [
+    {
+      name: "Dublin, HQ",
+      teamSizeBand: "51-100",
+      contactVolumeBand: "30-40",
+      complexityLevel: 4,
+      aiLevel: "medium",
+      exact: { ahtMins: 9 },
+      annualCostPerAgent: 55_000,
+    },
+    {
+      name: "Manila",
+      teamSizeBand: "101-250",
+      contactVolumeBand: "40-60",
+      complexityLevel: 2,
+      aiLevel: "low",
+      exact: {},
+    },
+  ],
+  rollout: {
+    horizonMonths: 36,
+    waves: [
+      { startMonth: 1, agents: 20 },
+      { startMonth: 4, agents: 60 },
+    ],
+  },
+};
+
+// A link as the first version of the share button wrote it
+const V1_LINK =
+  "?v=1&team=11-25&vol=20-30&cx=2&ai=high&p=aht%2Ccx&rev=lt50&inc=1&cur=USD" +
+  "&agents=18&aht=5.5&a_cost=40000&a_qacov=4";
+
+describe("scenario links", () => {
+  it("round-trips every input", () => {
+    expect(decodeScenario(encodeScenario(FULL_INPUTS))).toEqual(FULL_INPUTS);
+  });
+
+  it("round-trips the defaults", () => {
+    expect(decodeScenario(encodeScenario(DEFAULT_ROI_INPUTS))).toMatchObject(
+      DEFAULT_ROI_INPUTS
+    );
+  });
+
+  it("keeps decoding links from the first version", () => {
+    expect(decodeScenario(V1_LINK)).toMatchObject({
+      teamSizeBand: "11-25",
+      contactVolumeBand: "20-30",
+      complexityLevel: 2,
+      aiLevel: "high",
+      priorities: { aht: true, qa: false, deflection: false, cx: true },
+      revenueBand: "lt50",
+      includeRevenueImpact: true,
+      currency: "USD",
+      exact: { numAgents: 18, ahtMins: 5.5 },
+      assumptions: { annualCostPerAgent: 40_000, qaCoveragePct: 4 },
+      includeComplianceImpact: false,
+      channelMix: undefined,
+      sites: undefined,
+      rollout: undefined,
+    });
+  });
+
+  it.each([
+    ["without a version", "team=11-25&cx=2"],
+    ["with an unknown version", "v=0&team=11-25"],
+    ["from a newer version", `v=${SCENARIO_URL_VERSION + 1}&team=11-25`],
+    ["with a version that isn't a number", "v=latest&team=11-25"],
+  ])("returns null for a link %s", (_name, search) => {
+    expect(decodeScenario(search)).toBeNull();
+  });
+
+  it("falls back to the defaults for values it can't read", () => {
+    const inputs = decodeScenario("v=1&team=huge&cx=9&agents=-4&cur=XYZ");
+    expect(inputs).toMatchObject({
+      teamSizeBand: DEFAULT_ROI_INPUTS.teamSizeBand,
+      complexityLevel: DEFAULT_ROI_INPUTS.complexityLevel,
+      exact: {},
+      currency: undefined,
+    });
+  });
+});
@@ -0,0 +1,484 @@
+import {
+  ASSUMPTION_KEYS,
+  isValidAssumption,
+  type AssumptionKey,
+  type AssumptionOverrides,
+} from "./assumptions";
+import { isIndustryId } from "./benchmarks";
+import {
+  CAPACITY_KEYS,
+  isCapacityMode,
+  isValidCapacityValue,
+  type CapacityInputs,
+  type CapacityKey,
+} from "./capacity";
+import {
+  RETENTION_FIELD_KEYS,
+  isValidRetentionValue,
+  type RetentionField,
+  type RetentionInputs,
+} from "./retention";
+import {
+  COMPLIANCE_FIELD_KEYS,
+  isValidComplianceValue,
+  type ComplianceField,
+  type ComplianceInputs,
+} from "./compliance";
+import {
+  CHANNELS,
+  CHANNEL_FIELDS,
+  isValidChannelMix,
+  type ChannelMix,
+} from "./channels";
+import {
+  MAX_CONTACT_REASONS,
+  isValidContactReasons,
+  type ContactReason,
+} from "./contactReasons";
+import {
+  COMPLEXITY_LEVELS,
+  CONTACTS_PER_AGENT_MAP,
+  TEAM_SIZE_MAP,
+  type AiLevel,
+  type ComplexityLevel,
+  type ContactVolumeBand,
+  type RevenueBand,
+  type TeamSizeBand,
+} from "./constants";
+import { isCurrencyCode } from "./currency";
+import { DEFAULT_ROI_INPUTS, type RoiInputs, type RoiPriorities } from "./engine";
+import { isValidExactValue, type ExactField, type ExactInputs } from "./exact";
+import {
+  MAX_ROLLOUT_WAVES,
+  isValidRolloutPlan,
+  type RolloutPlan,
+} from "./rollout";
+import { MAX_SITES, isValidSites, type SiteProfile } from "./sites";
+import {
+  CONTRACT_TERMS,
+  PRICING_MODULES,
+  isValidQuotedPrice,
+  type ContractTerm,
+  type PricingOptions,
+} from "./pricing";
+
+// Bump when a param is renamed or its meaning changes, and add a migration
+// from the previous version below. New optional params don't need a bump.
+export const SCENARIO_URL_VERSION = 1;
+
+const VERSION_PARAM = "v";
+
+// Each entry upgrades params from version N to N + 1
+const MIGRATIONS: Record<number, (params: URLSearchParams) => URLSearchParams> =
+  {};
+
+const PRIORITY_KEYS: (keyof RoiPriorities)[] = ["aht", "qa", "deflection", "cx"];
+
+const EXACT_PARAMS: Record<ExactField, string> = {
+  numAgents: "agents",
+  contactsPerAgentPerDay: "cpd",
+  ahtMins: "aht",
+};
+
+const ASSUMPTION_PARAMS: Record<AssumptionKey, string> = {
+  annualCostPerAgent: "a_cost",
+  workingHoursPerYear: "a_hours",
+  workingDaysPerMonth: "a_days",
+  qaCoveragePct: "a_qacov",
+  qaTimePerContactMins: "a_qamins",
+  qaHourlyMultiplier: "a_qamult",
+  revenueInfluencedPct: "a_revinf",
+  revenueProtectionPct: "a_revprot",
+};
+
+const CAPACITY_PARAMS: Record<CapacityKey, string> = {
+  shrinkagePct: "c_shrink",
+  occupancyPct: "c_occ",
+  attritionPct: "c_attr",
+  costToHire: "c_hire",
+  rampWeeks: "c_ramp",
+  rampProductivityPct: "c_rampprod",
+  rampReductionPct: "c_rampcut",
+};
+
+const RETENTION_PARAMS: Record<RetentionField, string> = {
+  customerCount: "r_cust",
+  revenuePerCustomer: "r_arpc",
+  churnRatePct: "r_churn",
+  serviceChurnSharePct: "r_svc",
+  churnPreventedPct: "r_prev",
+};
+
+const COMPLIANCE_PARAMS: Record<ComplianceField, string> = {
+  incidentsPer10kContacts: "k_rate",
+  costPerIncident: "k_cost",
+  detectionUpliftPct: "k_up",
+};
+
+const AI_LEVELS: AiLevel[] = ["low", "medium", "high"];
+const REVENUE_BANDS: RevenueBand[] = [
+  "unknown",
+  "lt50",
+  "50-250",
+  "250-1000",
+  "gt1000",
+];
+
+// "voice:45:7:1,chat:30:11:2,…" – share, AHT and concurrency per channel
+const encodeChannelMix = (mix: ChannelMix) =>
+  CHANNELS.map((channel) =>
+    [channel, ...CHANNEL_FIELDS.map((field) => mix[channel][field])].join(":")
+  ).join(",");
+
+const decodeChannelMix = (value: string): ChannelMix | undefined => {
+  const entries = new Map(
+    value.split(",").map((entry) => {
+      const [channel, ...fields] = entry.split(":");
+      return [channel, fields.map(Number)] as const;
+    })
+  );
+  const mix = Object.fromEntries(
+    CHANNELS.map((channel) => {
+      const values = entries.get(channel) ?? [];
+      return [
+        channel,
+        Object.fromEntries(
+          CHANNEL_FIELDS.map((field, index) => [field, values[index]])
+        ),
+      ];
+    })
+  ) as ChannelMix;
+  return isValidChannelMix(mix) ? mix : undefined;
+};
+
+// "Where%20is%20my%20order%3F:20:proactive:40,…" – label, share, lever and
+// preventable % per reason; labels are escaped so they can't clash
+const encodeContactReasons = (reasons: ContactReason[]) =>
+  reasons
+    .map((reason) =>
+      [
+        encodeURIComponent(reason.label),
+        reason.sharePct,
+        reason.lever,
+        reason.preventablePct,
+      ].join(":")
+    )
+    .join(",");
+
+const decodeContactReasons = (value: string): ContactReason[] | undefined => {
+  try {
+    const reasons = value
+      .split(",")
+      .slice(0, MAX_CONTACT_REASONS)
+      .map((entry) => {
+        const [label, sharePct, lever, preventablePct] = entry.split(":");
+        return {
+          label: decodeURIComponent(label),
+          sharePct: Number(sharePct),
+          lever,
+          preventablePct: Number(preventablePct),
+        } as ContactReason;
+      });
+    return isValidContactReasons(reasons) ? reasons : undefined;
+  } catch {
+    // Malformed escape in a hand-edited link
+    return undefined;
+  }
+};
+
+const SITE_EXACT_FIELDS = Object.keys(EXACT_PARAMS) as ExactField[];
+
+// "Dublin:50-100:medium:3:medium:80:::42000,…" – name, bands, then each
+// measured value and the cost per agent, left empty when not set
+const encodeSites = (sites: SiteProfile[]) =>
+  sites
+    .map((site) =>
+      [
+        encodeURIComponent(site.name),
+        site.teamSizeBand,
+        site.contactVolumeBand,
+        site.complexityLevel,
+        site.aiLevel,
+        ...SITE_EXACT_FIELDS.map((field) => site.exact?.[field] ?? ""),
+        site.annualCostPerAgent ?? "",
+      ].join(":")
+    )
+    .join(",");
+
+const decodeSites = (value: string): SiteProfile[] | undefined => {
+  try {
+    const sites = value
+      .split(",")
+      .slice(0, MAX_SITES)
+      .map((entry) => {
+        const [name, team, vol, cx, ai, ...rest] = entry.split(":");
+        const exact: ExactInputs = {};
+        SITE_EXACT_FIELDS.forEach((field, index) => {
+          if (rest[index]) exact[field] = Number(rest[index]);
+        });
+        const cost = rest[SITE_EXACT_FIELDS.length];
+        return {
+          name: decodeURIComponent(name),
+          teamSizeBand: team,
+          contactVolumeBand: vol,
+          complexityLevel: Number(cx),
+          aiLevel: ai,
+          exact,
+          annualCostPerAgent: cost ? Number(cost) : undefined,
+        } as SiteProfile;
+      });
+    return isValidSites(sites) ? sites : undefined;
+  } catch {
+    // Malformed escape in a hand-edited link
+    return undefined;
+  }
+};
+
+// "1:40,4:100" – go-live month and agents per wave
+const encodeRollout = (plan: RolloutPlan) =>
+  plan.waves.map((wave) => `${wave.startMonth}:${wave.agents}`).join(",");
+
+const decodeRollout = (
+  horizon: string | null,
+  value: string
+): RolloutPlan | undefined => {
+  const plan = {
+    horizonMonths: Number(horizon),
+    waves: value
+      .split(",")
+      .slice(0, MAX_ROLLOUT_WAVES)
+      .map((entry) => {
+        const [startMonth, agents] = entry.split(":").map(Number);
+        return { startMonth, agents };
+      }),
+  } as RolloutPlan;
+  return isValidRolloutPlan(plan) ? plan : undefined;
+};
+
+const pick = <T extends string>(
+  value: string | null,
+  allowed: readonly T[],
+  fallback: T
+): T => (value !== null && allowed.includes(value as T) ? (value as T) : fallback);
+
+export const encodeScenario = (inputs: RoiInputs) => {
+  const params = new URLSearchParams();
+  params.set(VERSION_PARAM, String(SCENARIO_URL_VERSION));
+  params.set("team", inputs.teamSizeBand);
+  params.set("vol", inputs.contactVolumeBand);
+  params.set("cx", String(inputs.complexityLevel));
+  params.set("ai", inputs.aiLevel);
+  params.set(
+    "p",
+    PRIORITY_KEYS.filter((key) => inputs.priorities[key]).join(",")
+  );
+  params.set("rev", inputs.revenueBand);
+  params.set("inc", inputs.includeRevenueImpact ? "1" : "0");
+  if (inputs.currency) params.set("cur", inputs.currency);
+  if (inputs.industry) params.set("ind", inputs.industry);
+
+  (Object.keys(EXACT_PARAMS) as ExactField[]).forEach((field) => {
+    const value = inputs.exact?.[field];
+    if (value !== undefined) params.set(EXACT_PARAMS[field], String(value));
+  });
+
+  ASSUMPTION_KEYS.forEach((key) => {
+    const value = inputs.assumptions?.[key];
+    if (value !== undefined) params.set(ASSUMPTION_PARAMS[key], String(value));
+  });
+
+  if (inputs.channelMix && isValidChannelMix(inputs.channelMix)) {
+    params.set("mix", encodeChannelMix(inputs.channelMix));
+  }
+
+  if (isValidContactReasons(inputs.contactReasons)) {
+    params.set("why", encodeContactReasons(inputs.contactReasons));
+  }
+
+  if (isValidSites(inputs.sites)) {
+    params.set("sites", encodeSites(inputs.sites));
+  }
+
+  if (isValidRolloutPlan(inputs.rollout)) {
+    params.set("ro_h", String(inputs.rollout.horizonMonths));
+    params.set("ro", encodeRollout(inputs.rollout));
+  }
+
+  RETENTION_FIELD_KEYS.forEach((field) => {
+    const value = inputs.retention?.[field];
+    if (value !== undefined) params.set(RETENTION_PARAMS[field], String(value));
+  });
+
+  if (inputs.includeComplianceImpact) params.set("k_inc", "1");
+  COMPLIANCE_FIELD_KEYS.forEach((field) => {
+    const value = inputs.compliance?.[field];
+    if (value !== undefined) {
+      params.set(COMPLIANCE_PARAMS[field], String(value));
+    }
+  });
+
+  const { capacity } = inputs;
+  if (capacity?.mode) params.set("c_mode", capacity.mode);
+  if (capacity?.includeAttrition !== undefined) {
+    params.set("c_inc", capacity.includeAttrition ? "1" : "0");
+  }
+  CAPACITY_KEYS.forEach((key) => {
+    const value = capacity?.[key];
+    if (value !== undefined) params.set(CAPACITY_PARAMS[key], String(value));
+  });
+
+  const { pricing } = inputs;
+  if (pricing?.modules) params.set("mods", pricing.modules.join(","));
+  if (pricing?.termYears) params.set("term", String(pricing.termYears));
+  if (pricing?.quotedAnnualPrice !== undefined) {
+    params.set("quote", String(pricing.quotedAnnualPrice));
+  }
+
+  return params.toString();
+};
+
+const migrate = (params: URLSearchParams) => {
+  let version = Number(params.get(VERSION_PARAM));
+  let current = params;
+  while (version < SCENARIO_URL_VERSION && MIGRATIONS[version]) {
+    current = MIGRATIONS[version](current);
+    version += 1;
+  }
+  return version === SCENARIO_URL_VERSION ? current : null;
+};
+
+// Returns null when the string doesn't hold a scenario we understand.
+// Individual bad values fall back to the wizard defaults.
+export const decodeScenario = (search: string): RoiInputs | null => {
+  const raw = new URLSearchParams(search.replace(/^[?#]/, ""));
+  if (!raw.has(VERSION_PARAM)) return null;
+
+  const params = migrate(raw);
+  if (!params) return null;
+
+  const complexity = Number(params.get("cx"));
+  const priorityList = (params.get("p") ?? "").split(",");
+
+  const exact: ExactInputs = {};
+  (Object.keys(EXACT_PARAMS) as ExactField[]).forEach((field) => {
+    const value = Number(params.get(EXACT_PARAMS[field]));
+    if (params.has(EXACT_PARAMS[field]) && isValidExactValue(field, value)) {
+      exact[field] = value;
+    }
+  });
+
+  const assumptions: AssumptionOverrides = {};
+  ASSUMPTION_KEYS.forEach((key) => {
+    const value = Number(params.get(ASSUMPTION_PARAMS[key]));
+    if (params.has(ASSUMPTION_PARAMS[key]) && isValidAssumption(key, value)) {
+      assumptions[key] = value;
+    }
+  });
+
+  const currency = params.get("cur");
+  const industry = params.get("ind");
+
+  const retention: RetentionInputs = {};
+  RETENTION_FIELD_KEYS.forEach((field) => {
+    const value = Number(params.get(RETENTION_PARAMS[field]));
+    if (
+      params.has(RETENTION_PARAMS[field]) &&
+      isValidRetentionValue(field, value)
+    ) {
+      retention[field] = value;
+    }
+  });
+
+  const compliance: ComplianceInputs = {};
+  COMPLIANCE_FIELD_KEYS.forEach((field) => {
+    const value = Number(params.get(COMPLIANCE_PARAMS[field]));
+    if (
+      params.has(COMPLIANCE_PARAMS[field]) &&
+      isValidComplianceValue(field, value)
+    ) {
+      compliance[field] = value;
+    }
+  });
+
+  const capacity: CapacityInputs = {};
+  const capacityMode = params.get("c_mode");
+  if (isCapacityMode(capacityMode)) capacity.mode = capacityMode;
+  if (params.has("c_inc")) {
+    capacity.includeAttrition = params.get("c_inc") === "1";
+  }
+  CAPACITY_KEYS.forEach((key) => {
+    const value = Number(params.get(CAPACITY_PARAMS[key]));
+    if (params.has(CAPACITY_PARAMS[key]) && isValidCapacityValue(key, value)) {
+      capacity[key] = value;
+    }
+  });
+
+  const pricing: PricingOptions = {};
+  if (params.has("mods")) {
+    const listed = (params.get("mods") ?? "").split(",");
+    pricing.modules = PRICING_MODULES.filter((module) =>
+      listed.includes(module)
+    );
+  }
+  const term = Number(params.get("term"));
+  if (CONTRACT_TERMS.includes(term as ContractTerm)) {
+    pricing.termYears = term as ContractTerm;
+  }
+  const quote = Number(params.get("quote"));
+  if (params.has("quote") && isValidQuotedPrice(quote)) {
+    pricing.quotedAnnualPrice = quote;
+  }
+
+  return {
+    teamSizeBand: pick(
+      params.get("team"),
+      Object.keys(TEAM_SIZE_MAP) as TeamSizeBand[],
+      DEFAULT_ROI_INPUTS.teamSizeBand
+    ),
+    contactVolumeBand: pick(
+      params.get("vol"),
+      Object.keys(CONTACTS_PER_AGENT_MAP) as ContactVolumeBand[],
+      DEFAULT_ROI_INPUTS.contactVolumeBand
+    ),
+    complexityLevel:
+      complexity in COMPLEXITY_LEVELS
+        ? (complexity as ComplexityLevel)
+        : DEFAULT_ROI_INPUTS.complexityLevel,
+    aiLevel: pick(params.get("ai"), AI_LEVELS, DEFAULT_ROI_INPUTS.aiLevel),
+    priorities: params.has("p")
+      ? {
+          aht: priorityList.includes("aht"),
+          qa: priorityList.includes("qa"),
+          deflection: priorityList.includes("deflection"),
+          cx: priorityList.includes("cx"),
+        }
+      : { ...DEFAULT_ROI_INPUTS.priorities },
+    revenueBand: pick(
+      params.get("rev"),
+      REVENUE_BANDS,
+      DEFAULT_ROI_INPUTS.revenueBand
+    ),
+    includeRevenueImpact: params.get("inc") === "1",
+    exact,
+    assumptions,
+    currency: isCurrencyCode(currency) ? currency : undefined,
+    industry: isIndustryId(industry) ? industry : undefined,
+    pricing,
+    capacity,
+    retention,
+    includeComplianceImpact: params.get("k_inc") === "1",
+    compliance,
+    channelMix: params.has("mix")
+      ? decodeChannelMix(params.get("mix") ?? "")
+      : undefined,
+    contactReasons: params.has("why")
+      ? decodeContactReasons(params.get("why") ?? "")
+      : undefined,
+    sites: params.has("sites")
+      ? decodeSites(params.get("sites") ?? "")
+      : undefined,
+    rollout: params.has("ro")
+      ? decodeRollout(params.get("ro_h"), params.get("ro") ?? "")
+      : undefined,
+  };
+};
@@ -0,0 +1,74 @@
+import type { AiImprovements } from "./constants";
+import { calculateRoi, type RoiInputs, type RoiResult } from "./engine";
+import { isValidSites, scaleSites } from "./sites";
+
+export type Scenario = {
+  id: string;
+  name: string;
+  improvements: AiImprovements;
+};
+
+export type PresetScenarioId = "conservative" | "expected" | "optimistic";
+
+export const PRESET_SCENARIOS: Record<
+  PresetScenarioId,
+  { name: string; multiplier: number }
+> = {
+  conservative: { name: "Conservative", multiplier: 0.5 },
+  expected: { name: "Expected", multiplier: 1 },
+  optimistic: { name: "Optimistic", multiplier: 1.3 },
+};
+
+export const PRESET_SCENARIO_IDS = Object.keys(
+  PRESET_SCENARIOS
+) as PresetScenarioId[];
+
+export const IMPROVEMENT_KEYS: (keyof AiImprovements)[] = [
+  "ahtReductionPct",
+  "qaEfficiencyGainPct",
+  "contactDeflectionPct",
+];
+
+export const clampImprovementPct = (value: number) =>
+  Math.min(Math.max(value, 0), 100);
+
+export const scaleImprovements = (
+  base: AiImprovements,
+  multiplier: number
+): AiImprovements => ({
+  ahtReductionPct: clampImprovementPct(base.ahtReductionPct * multiplier),
+  qaEfficiencyGainPct: clampImprovementPct(
+    base.qaEfficiencyGainPct * multiplier
+  ),
+  contactDeflectionPct: clampImprovementPct(
+    base.contactDeflectionPct * multiplier
+  ),
+});
+
+// Scaled from the rates the results used: the AI level's, the contact
+// reason deflection when reasons are given, or the sites' blend
+export const presetScenarios = (results: RoiResult): Scenario[] =>
+  PRESET_SCENARIO_IDS.map((id) => ({
+    id,
+    name: PRESET_SCENARIOS[id].name,
+    improvements: scaleImprovements(
+      results.baseImprovements,
+      PRESET_SCENARIOS[id].multiplier
+    ),
+  }));
+
+// With sites, each one's rates move in proportion so the blend matches
+// the scenario and every site keeps its own AI level's shape
+export const runScenario = (
+  inputs: RoiInputs,
+  results: RoiResult,
+  scenario: Scenario
+): RoiResult =>
+  calculateRoi(
+    isValidSites(inputs.sites)
+      ? {
+          ...inputs,
+          sites: scaleSites(inputs.sites, results, scenario.improvements),
+        }
+      : { ...inputs, improvements: scenario.improvements }
+  );
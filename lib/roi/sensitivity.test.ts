@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ROI_INPUTS, calculateRoi, type RoiInputs } from "./engine";
+import { findBreakEvens, withDriverValue } from "./sensitivity";
+
+const SMALL_SIMPLE_TEAM: RoiInputs = {
+  ...DEFAULT_ROI_INPUTS,
+  teamSizeBand: "11-25",
+  complexityLevel: 1,
+};
+
+// Avoided hires are capped at the leavers, so net gain bends part way
+const CAPPED_HIRING: RoiInputs = {
+  ...DEFAULT_ROI_INPUTS,
+  teamSizeBand: "51-100",
+  contactVolumeBand: "10-20",
+  complexityLevel: 1,
+  aiLevel: "medium",
+  capacity: {
+    mode: "avoidHiring",
+    includeAttrition: true,
+    attritionPct: 5,
+    costToHire: 20_000,
+  },
+};
+
+describe("findBreakEvens", () => {
+  it.each([
+    ["a small, simple team", SMALL_SIMPLE_TEAM],
+    ["capped avoided hires", CAPPED_HIRING],
+  ])("lands on zero net gain with %s", (_name, inputs) => {
+    const results = calculateRoi(inputs);
+    const breakEvens = findBreakEvens(inputs, results).filter(
+      (row) => row.status === "breaks-even"
+    );
+    expect(breakEvens.length).toBeGreaterThan(0);
+    breakEvens.forEach((row) => {
+      const at = (pct: number) =>
+        calculateRoi(withDriverValue(inputs, results, row.driver, pct))
+          .netGain;
+      expect(at(row.breakEvenPct as number)).toBeGreaterThanOrEqual(0);
+      expect(at((row.breakEvenPct as number) - 0.01)).toBeLessThan(0);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { ASSUMPTION_FIELDS, type AssumptionKey } from "./assumptions";
+import { scaleChannelAht } from "./channels";
+import type { AiImprovements } from "./constants";
+import { calculateRoi, type RoiInputs, type RoiResult } from "./engine";
+import { EXACT_INPUT_BOUNDS, type ExactField } from "./exact";
+import { isValidSites, scaleSites, type SiteDriver } from "./sites";
+
+export type SensitivityDriver =
+  | "numAgents"
+  | "contactsPerAgentPerDay"
+  | "ahtMins"
+  | "annualCostPerAgent"
+  | "ahtReductionPct"
+  | "qaEfficiencyGainPct"
+  | "contactDeflectionPct"
+  | "revenueInfluencedPct"
+  | "revenueProtectionPct";
+
+type DriverKind = "exact" | "assumption" | "improvement";
+
+export const SENSITIVITY_DRIVERS: Record<
+  SensitivityDriver,
+  { label: string; kind: DriverKind }
+> = {
+  numAgents: { label: "Agent count", kind: "exact" },
+  contactsPerAgentPerDay: { label: "Contacts per agent", kind: "exact" },
+  ahtMins: { label: "Average handle time", kind: "exact" },
+  annualCostPerAgent: { label: "Cost per agent", kind: "assumption" },
+  ahtReductionPct: { label: "AHT reduction %", kind: "improvement" },
+  qaEfficiencyGainPct: { label: "QA efficiency gain %", kind: "improvement" },
+  contactDeflectionPct: { label: "Contact deflection %", kind: "improvement" },
+  revenueInfluencedPct: {
+    label: "Revenue influenced share",
+    kind: "assumption",
+  },
+  revenueProtectionPct: {
+    label: "Revenue protection rate",
+    kind: "assumption",
+  },
+};
+
+export const SENSITIVITY_DRIVER_KEYS = Object.keys(
+  SENSITIVITY_DRIVERS
+) as SensitivityDriver[];
+
+export type SensitivityOutcome = { netGain: number; roiPct: number };
+
+export type SensitivityRow = {
+  driver: SensitivityDriver;
+  label: string;
+  baseValue: number;
+  low: SensitivityOutcome;
+  high: SensitivityOutcome;
+  // Spread in net gain between the low and high case
+  swing: number;
+};
+
+export type BreakEven = {
+  driver: keyof AiImprovements;
+  label: string;
+  currentPct: number;
+  // null when net gain stays positive even at 0%, or is already negative
+  breakEvenPct: number | null;
+  status: "breaks-even" | "always-positive" | "already-negative" | "inactive";
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+const baseValueOf = (driver: SensitivityDriver, results: RoiResult) => {
+  switch (SENSITIVITY_DRIVERS[driver].kind) {
+    case "exact":
+      return results[driver as ExactField];
+    case "assumption":
+      // Sites can each have their own cost, so use the agent-weighted one
+      return driver === "annualCostPerAgent"
+        ? results.annualCostPerAgent
+        : results.assumptions[driver as AssumptionKey];
+    default:
+      return results.baseImprovements[driver as keyof AiImprovements];
+  }
+};
+
+// Returns inputs with one driver set to a specific value, everything else
+// pinned to what the base result used
+export const withDriverValue = (
+  inputs: RoiInputs,
+  results: RoiResult,
+  driver: SensitivityDriver,
+  value: number
+): RoiInputs => {
+  const kind = SENSITIVITY_DRIVERS[driver].kind;
+
+  // A channel mix replaces the single AHT, so scale each channel instead
+  if (driver === "ahtMins" && inputs.channelMix && results.channels.length) {
+    return {
+      ...inputs,
+      channelMix: scaleChannelAht(
+        inputs.channelMix,
+        results.ahtMins > 0 ? value / results.ahtMins : 1
+      ),
+    };
+  }
+
+  // Each site's own answers replace the top-level ones, so move the sites
+  if (
+    isValidSites(inputs.sites) &&
+    (kind !== "assumption" || driver === "annualCostPerAgent")
+  ) {
+    return {
+      ...inputs,
+      sites: scaleSites(inputs.sites, results, {
+        [driver as SiteDriver]: value,
+      }),
+    };
+  }
+
+  if (kind === "exact") {
+    const field = driver as ExactField;
+    const bounds = EXACT_INPUT_BOUNDS[field];
+    const next = clamp(value, bounds.min, bounds.max);
+    return {
+      ...inputs,
+      exact: {
+        ...inputs.exact,
+        [field]: bounds.integer ? Math.round(next) : next,
+      },
+    };
+  }
+
+  if (kind === "assumption") {
+    const key = driver as AssumptionKey;
+    const field = ASSUMPTION_FIELDS[key];
+    return {
+      ...inputs,
+      assumptions: {
+        ...inputs.assumptions,
+        [key]: clamp(value, field.min, field.max),
+      },
+    };
+  }
+
+  return {
+    ...inputs,
+    improvements: {
+      ...results.baseImprovements,
+      [driver]: clamp(value, 0, 100),
+    },
+  };
+};
+
+const outcome = (result: RoiResult): SensitivityOutcome => ({
+  netGain: result.netGain,
+  roiPct: result.roiPct,
+});
+
+export const runSensitivity = (
+  inputs: RoiInputs,
+  results: RoiResult,
+  variationPct: number
+): SensitivityRow[] =>
+  SENSITIVITY_DRIVER_KEYS.map((driver) => {
+    const baseValue = baseValueOf(driver, results);
+    const delta = variationPct / 100;
+    const low = calculateRoi(
+      withDriverValue(inputs, results, driver, baseValue * (1 - delta))
+    );
+    const high = calculateRoi(
+      withDriverValue(inputs, results, driver, baseValue * (1 + delta))
+    );
+    return {
+      driver,
+      label: SENSITIVITY_DRIVERS[driver].label,
+      baseValue,
+      low: outcome(low),
+      high: outcome(high),
+      swing: Math.abs(high.netGain - low.netGain),
+    };
+  }).sort((a, b) => b.swing - a.swing);
+
+const IMPROVEMENT_DRIVERS: (keyof AiImprovements)[] = [
+  "ahtReductionPct",
+  "qaEfficiencyGainPct",
+  "contactDeflectionPct",
+];
+
+// Close enough for a break-even shown to one decimal place
+const BREAK_EVEN_TOLERANCE_PCT = 0.001;
+
+// Net gain rises with each improvement % but isn't linear in it: avoided
+// hires stop at the number of leavers, for one. So the zero point is found
+// by bisection between 0% and the current rate.
+export const findBreakEvens = (
+  inputs: RoiInputs,
+  results: RoiResult
+): BreakEven[] =>
+  IMPROVEMENT_DRIVERS.map((driver) => {
+    const base = {
+      driver,
+      label: SENSITIVITY_DRIVERS[driver].label,
+      currentPct: results.baseImprovements[driver],
+    };
+    const netGainAt = (pct: number) =>
+      calculateRoi(withDriverValue(inputs, results, driver, pct)).netGain;
+    const atCurrent = results.netGain;
+    const atZero = netGainAt(0);
+
+    if (Math.abs(atCurrent - atZero) < 1e-9) {
+      return { ...base, breakEvenPct: null, status: "inactive" };
+    }
+    if (atZero >= 0) {
+      return { ...base, breakEvenPct: null, status: "always-positive" };
+    }
+    if (atCurrent <= 0) {
+      return { ...base, breakEvenPct: null, status: "already-negative" };
+    }
+
+    let low = 0;
+    let high = base.currentPct;
+    while (high - low > BREAK_EVEN_TOLERANCE_PCT) {
+      const mid = (low + high) / 2;
+      if (netGainAt(mid) < 0) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return { ...base, breakEvenPct: high, status: "breaks-even" };
+  });
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ROI_INPUTS, calculateRoi } from "./engine";
+import { DEFAULT_MONTE_CARLO_SETTINGS, runMonteCarlo } from "./monteCarlo";
+import { presetScenarios, runScenario } from "./scenarios";
+import { runSensitivity } from "./sensitivity";
+import type { SiteProfile } from "./sites";
+
+const SITES: SiteProfile[] = [
+  {
+    name: "Dublin",
+    teamSizeBand: "51-100",
+    contactVolumeBand: "30-40",
+    complexityLevel: 3,
+    aiLevel: "medium",
+    annualCostPerAgent: 55_000,
+  },
+  {
+    name: "Manila",
+    teamSizeBand: "101-250",
+    contactVolumeBand: "40-60",
+    complexityLevel: 2,
+    aiLevel: "low",
+    annualCostPerAgent: 14_000,
+  },
+];
+
+const inputs = { ...DEFAULT_ROI_INPUTS, sites: SITES };
+const results = calculateRoi(inputs);
+
+describe("perturbing a multi-site assessment", () => {
+  it("spreads the Monte Carlo outcomes", () => {
+    const { netGain } = runMonteCarlo(inputs, results, {
+      ...DEFAULT_MONTE_CARLO_SETTINGS,
+      iterations: 200,
+    });
+    expect(netGain.p10).toBeLessThan(netGain.p50);
+    expect(netGain.p50).toBeLessThan(netGain.p90);
+  });
+
+  it("gives every site-level driver a swing", () => {
+    const swings = Object.fromEntries(
+      runSensitivity(inputs, results, 20).map((row) => [row.driver, row.swing])
+    );
+    [
+      "numAgents",
+      "contactsPerAgentPerDay",
+      "ahtMins",
+      "annualCostPerAgent",
+      "ahtReductionPct",
+    ].forEach((driver) => expect(swings[driver]).toBeGreaterThan(0));
+  });
+
+  it("keeps each site's own AI level in the expected scenario", () => {
+    const expected = presetScenarios(results).find(
+      (scenario) => scenario.id === "expected"
+    );
+    if (!expected) throw new Error("No expected scenario.");
+    const run = runScenario(inputs, results, expected);
+    expect(run.netGain).toBeCloseTo(results.netGain, 6);
+    expect(run.sites.map((site) => site.baseImprovements)).toEqual(
+      results.sites.map((site) => site.baseImprovements)
+    );
+  });
+});
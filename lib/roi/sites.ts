@@ -0,0 +1,447 @@
+import { ASSUMPTION_FIELDS, isValidAssumption } from "./assumptions";
+import { isRegulatedComplexity, type ComplianceResult } from "./compliance";
+import { DEFAULT_MODEL_CONFIG } from "./config";
+import {
+  AI_LEVEL_LABELS,
+  COMPLEXITY_LEVELS,
+  CONTACTS_PER_AGENT_MAP,
+  TEAM_SIZE_MAP,
+  type AiImprovements,
+  type AiLevel,
+  type ComplexityLevel,
+  type ContactVolumeBand,
+  type TeamSizeBand,
+} from "./constants";
+import { contactReasonResults, isValidContactReasons } from "./contactReasons";
+import { convertFromEur } from "./currency";
+import type { ChannelResult, RoiInputs, RoiResult } from "./engine";
+import {
+  EXACT_INPUT_BOUNDS,
+  isValidExactValue,
+  type ExactField,
+  type ExactInputs,
+} from "./exact";
+import { quotePrice } from "./pricing";
+
+// One contact centre or team inside a larger assessment, answering the
+// wizard's first four questions for itself
+export type SiteProfile = {
+  name: string;
+  teamSizeBand: TeamSizeBand;
+  contactVolumeBand: ContactVolumeBand;
+  complexityLevel: ComplexityLevel;
+  aiLevel: AiLevel;
+  // Measured values for this site
+  exact?: ExactInputs;
+  // Falls back to the shared cost per agent when not set
+  annualCostPerAgent?: number;
+  // Rates replacing the site's AI level; set by scenarios and the
+  // uncertainty runs rather than the wizard
+  improvements?: Partial<AiImprovements>;
+};
+
+export type SiteResult = {
+  name: string;
+  numAgents: number;
+  contactsPerAgentPerDay: number;
+  contactsPerYear: number;
+  ahtMins: number;
+  annualCostPerAgent: number;
+  baseImprovements: AiImprovements;
+  savingsAht: number;
+  savingsQa: number;
+  savingsDeflection: number;
+  savingsHiring: number;
+  savingsRamp: number;
+  riskCostAvoided: number;
+  // Everything but revenue, which belongs to the business as a whole
+  totalAnnualBenefit: number;
+  // The rolled-up price split by agent count
+  edgetierAnnualCost: number;
+  netGain: number;
+  roiPct: number;
+};
+
+export const MIN_SITES = 2;
+export const MAX_SITES = 10;
+export const SITE_NAME_MAX_LENGTH = 60;
+
+const EXACT_FIELDS: ExactField[] = [
+  "numAgents",
+  "contactsPerAgentPerDay",
+  "ahtMins",
+];
+
+export const isValidSiteName = (value: unknown) =>
+  typeof value === "string" &&
+  value.trim() !== "" &&
+  value.length <= SITE_NAME_MAX_LENGTH;
+
+export const isValidSite = (site: SiteProfile) =>
+  isValidSiteName(site.name) &&
+  site.teamSizeBand in TEAM_SIZE_MAP &&
+  site.contactVolumeBand in CONTACTS_PER_AGENT_MAP &&
+  site.complexityLevel in COMPLEXITY_LEVELS &&
+  site.aiLevel in AI_LEVEL_LABELS &&
+  EXACT_FIELDS.every(
+    (field) =>
+      site.exact?.[field] === undefined ||
+      isValidExactValue(field, site.exact[field])
+  ) &&
+  (site.annualCostPerAgent === undefined ||
+    isValidAssumption("annualCostPerAgent", site.annualCostPerAgent)) &&
+  Object.values(site.improvements ?? {}).every(
+    (pct) => typeof pct === "number" && pct >= 0 && pct <= 100
+  );
+
+export const isValidSites = (
+  sites: SiteProfile[] | undefined
+): sites is SiteProfile[] =>
+  sites !== undefined &&
+  sites.length >= MIN_SITES &&
+  sites.length <= MAX_SITES &&
+  sites.every(isValidSite);
+
+// The shared answers with one site's first four questions swapped in.
+// Revenue is left to the roll-up, and compliance risk only counts where the
+// work is regulated.
+export const siteInputs = (inputs: RoiInputs, site: SiteProfile): RoiInputs => ({
+  ...inputs,
+  teamSizeBand: site.teamSizeBand,
+  contactVolumeBand: site.contactVolumeBand,
+  complexityLevel: site.complexityLevel,
+  aiLevel: site.aiLevel,
+  exact: site.exact,
+  improvements: site.improvements ?? inputs.improvements,
+  assumptions:
+    site.annualCostPerAgent === undefined
+      ? inputs.assumptions
+      : { ...inputs.assumptions, annualCostPerAgent: site.annualCostPerAgent },
+  includeRevenueImpact: false,
+  includeComplianceImpact:
+    Boolean(inputs.includeComplianceImpact) &&
+    isRegulatedComplexity(site.complexityLevel),
+  sites: undefined,
+});
+
+// Figures a perturbation can move; each site has its own value of each
+export type SiteDriver =
+  | ExactField
+  | "annualCostPerAgent"
+  | keyof AiImprovements;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+// Moves every site by the factor that takes the roll-up's figure to the
+// target, so a perturbed run keeps the sites in proportion instead of
+// giving them all the blended value. A zero roll-up figure can't be
+// scaled, so each site takes the target as it is.
+export const scaleSites = (
+  sites: SiteProfile[],
+  results: RoiResult,
+  targets: Partial<Record<SiteDriver, number>>
+): SiteProfile[] =>
+  sites.map((site, index) => {
+    const own = results.sites[index];
+    const scaled = (
+      target: number,
+      rolledUp: number,
+      value: number,
+      [min, max]: [number, number]
+    ) =>
+      clamp(rolledUp > 0 ? value * (target / rolledUp) : target, min, max);
+
+    const exact: ExactInputs = { ...site.exact };
+    EXACT_FIELDS.forEach((field) => {
+      const target = targets[field];
+      if (target === undefined) return;
+      const bounds = EXACT_INPUT_BOUNDS[field];
+      const value = scaled(target, results[field], own[field], [
+        bounds.min,
+        bounds.max,
+      ]);
+      exact[field] = bounds.integer ? Math.round(value) : value;
+    });
+
+    const improvementKeys = (
+      Object.keys(own.baseImprovements) as (keyof AiImprovements)[]
+    ).filter((key) => targets[key] !== undefined);
+    const costBounds = ASSUMPTION_FIELDS.annualCostPerAgent;
+
+    return {
+      ...site,
+      exact,
+      annualCostPerAgent:
+        targets.annualCostPerAgent === undefined
+          ? site.annualCostPerAgent
+          : scaled(
+              targets.annualCostPerAgent,
+              results.annualCostPerAgent,
+              own.annualCostPerAgent,
+              [costBounds.min, costBounds.max]
+            ),
+      improvements:
+        improvementKeys.length === 0
+          ? site.improvements
+          : {
+              ...site.improvements,
+              ...Object.fromEntries(
+                improvementKeys.map((key) => [
+                  key,
+                  scaled(
+                    targets[key] as number,
+                    results.baseImprovements[key],
+                    own.baseImprovements[key],
+                    [0, 100]
+                  ),
+                ])
+              ),
+            },
+    };
+  });
+
+type NumericKey<T> = {
+  [K in keyof T]: T[K] extends number ? K : never;
+}[keyof T];
+
+const sumOf = <T>(items: T[], key: NumericKey<T>) =>
+  items.reduce((sum, item) => sum + (item[key] as number), 0);
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator > 0 ? numerator / denominator : 0;
+
+const CHANNEL_TOTAL_KEYS: NumericKey<ChannelResult>[] = [
+  "contactsPerYear",
+  "baselineHandlingHours",
+  "newHandlingHours",
+  "hoursSavedAht",
+  "savingsAht",
+  "baselineQaHours",
+  "newQaHours",
+  "hoursSavedQa",
+  "savingsQa",
+  "contactsAvoidedPerYear",
+  "savingsDeflection",
+  "totalSavings",
+];
+
+// Channels share their handle times across sites, so only volumes and
+// savings need adding up
+const rollUpChannels = (
+  teams: RoiResult[],
+  contactsPerYear: number
+): ChannelResult[] =>
+  teams[0].channels.map((first, index) => {
+    const channels = teams.map((team) => team.channels[index]);
+    const totals = Object.fromEntries(
+      CHANNEL_TOTAL_KEYS.map((key) => [key, sumOf(channels, key)])
+    ) as Pick<ChannelResult, (typeof CHANNEL_TOTAL_KEYS)[number]>;
+    return {
+      ...first,
+      ...totals,
+      sharePct: ratio(totals.contactsPerYear, contactsPerYear) * 100,
+      agentMinsPerContact: ratio(
+        totals.baselineHandlingHours * 60,
+        totals.contactsPerYear
+      ),
+    };
+  });
+
+const rollUpCompliance = (
+  teams: RoiResult[],
+  sites: SiteProfile[]
+): ComplianceResult | null => {
+  const regulated = teams
+    .filter((_team, index) =>
+      isRegulatedComplexity(sites[index].complexityLevel)
+    )
+    .map((team) => team.compliance)
+    .filter((result): result is ComplianceResult => result !== null);
+  if (regulated.length === 0) return null;
+  return {
+    ...regulated[0],
+    incidentsPerYear: sumOf(regulated, "incidentsPerYear"),
+    incidentsMissed: sumOf(regulated, "incidentsMissed"),
+    incidentsCaught: sumOf(regulated, "incidentsCaught"),
+    riskCostAtStake: sumOf(regulated, "riskCostAtStake"),
+    riskCostAvoided: sumOf(regulated, "riskCostAvoided"),
+  };
+};
+
+// Adds up the per-site results into one. Pricing is quoted once on the
+// combined agent count, so volume discounts apply across sites, and revenue
+// comes from the business-level run rather than once per site.
+export const rollUpSites = (
+  inputs: RoiInputs,
+  sites: SiteProfile[],
+  business: RoiResult,
+  teams: RoiResult[]
+): RoiResult => {
+  const { currency } = business;
+  const { priceBook } = inputs.config ?? DEFAULT_MODEL_CONFIG;
+  const total = (key: NumericKey<RoiResult>) => sumOf(teams, key);
+
+  const numAgents = total("numAgents");
+  const contactsPerMonth = total("contactsPerMonth");
+  const contactsPerYear = total("contactsPerYear");
+  const baselineHandlingHours = total("baselineHandlingHours");
+  const baselineHandlingCost = total("baselineHandlingCost");
+  const newHandlingHours = total("newHandlingHours");
+  const hoursSavedAht = total("hoursSavedAht");
+  const savingsAht = total("savingsAht");
+  const baselineQaHours = total("baselineQaHours");
+  const baselineQaCost = total("baselineQaCost");
+  const hoursSavedQa = total("hoursSavedQa");
+  const savingsQa = total("savingsQa");
+  const contactsAvoidedPerYear = total("contactsAvoidedPerYear");
+  const savingsDeflection = total("savingsDeflection");
+  const savingsHiring = total("savingsHiring");
+  const savingsRamp = total("savingsRamp");
+  const riskCostAvoided = total("riskCostAvoided");
+
+  // Improvement rates weighted by each site's contacts
+  const weighted = (rate: (team: RoiResult) => number) =>
+    ratio(
+      teams.reduce((sum, team) => sum + rate(team) * team.contactsPerYear, 0),
+      contactsPerYear
+    );
+  const baseImprovements: AiImprovements = {
+    ahtReductionPct: weighted((team) => team.baseImprovements.ahtReductionPct),
+    qaEfficiencyGainPct: weighted(
+      (team) => team.baseImprovements.qaEfficiencyGainPct
+    ),
+    contactDeflectionPct: weighted(
+      (team) => team.baseImprovements.contactDeflectionPct
+    ),
+  };
+
+  const pricing = quotePrice(numAgents, inputs.pricing, priceBook);
+  const edgetierAnnualCost =
+    pricing.source === "quote"
+      ? (inputs.pricing?.quotedAnnualPrice as number)
+      : convertFromEur(pricing.annualCostEur, currency);
+
+  const { revenueProtected } = business;
+  const totalAnnualBenefit =
+    savingsAht +
+    savingsQa +
+    savingsDeflection +
+    savingsHiring +
+    savingsRamp +
+    (revenueProtected || 0) +
+    riskCostAvoided;
+  const netGain = totalAnnualBenefit - (edgetierAnnualCost || 0);
+  const monthlyBenefit =
+    totalAnnualBenefit > 0 ? totalAnnualBenefit / 12 : 0;
+
+  const capacities = teams.map((team) => team.capacity);
+  const compliance = rollUpCompliance(teams, sites);
+
+  return {
+    ...business,
+    inputSources: {
+      numAgents: "sites",
+      contactsPerAgentPerDay: "sites",
+      ahtMins: "sites",
+    },
+    numAgents,
+    annualCostPerAgent: ratio(
+      teams.reduce(
+        (sum, team) => sum + team.annualCostPerAgent * team.numAgents,
+        0
+      ),
+      numAgents
+    ),
+    contactsPerAgentPerDay: ratio(
+      contactsPerMonth,
+      numAgents * business.workingDaysPerMonth
+    ),
+    contactsPerMonth,
+    contactsPerYear,
+    ahtMins: ratio(baselineHandlingHours * 60, contactsPerYear),
+    costPerAgentHour: ratio(baselineHandlingCost, baselineHandlingHours),
+    baselineHandlingHours,
+    baselineHandlingCost,
+    costPerContactBaseline: ratio(baselineHandlingCost, contactsPerYear),
+    baseImprovements,
+    ahtReductionPct: ratio(hoursSavedAht, baselineHandlingHours) * 100,
+    qaEfficiencyGainPct: ratio(hoursSavedQa, baselineQaHours) * 100,
+    contactDeflectionPct: ratio(contactsAvoidedPerYear, contactsPerYear) * 100,
+    newAhtMins: ratio(newHandlingHours * 60, contactsPerYear),
+    newHandlingHours,
+    newHandlingCost: total("newHandlingCost"),
+    hoursSavedAht,
+    savingsAht,
+    qaHourlyCost: ratio(baselineQaCost, baselineQaHours),
+    baselineQaHours,
+    baselineQaCost,
+    newQaHours: total("newQaHours"),
+    newQaCost: total("newQaCost"),
+    hoursSavedQa,
+    savingsQa,
+    contactsAvoidedPerYear,
+    savingsDeflection,
+    hoursSavedDeflection: total("hoursSavedDeflection"),
+    channels:
+      teams[0].channels.length > 0
+        ? rollUpChannels(teams, contactsPerYear)
+        : [],
+    contactReasons: isValidContactReasons(inputs.contactReasons)
+      ? contactReasonResults(
+          inputs.contactReasons,
+          contactsPerYear,
+          contactsAvoidedPerYear,
+          savingsDeflection
+        )
+      : [],
+    capacity: {
+      ...capacities[0],
+      fteSaved: sumOf(capacities, "fteSaved"),
+      leaversPerYear: sumOf(capacities, "leaversPerYear"),
+      avoidedHires: sumOf(capacities, "avoidedHires"),
+      hiresPerYear: sumOf(capacities, "hiresPerYear"),
+      savingsHiring,
+      rampHoursSaved: sumOf(capacities, "rampHoursSaved"),
+      savingsRamp,
+    },
+    savingsHiring,
+    savingsRamp,
+    compliance,
+    complianceIncluded: teams.some((team) => team.complianceIncluded),
+    riskCostAvoided,
+    pricing,
+    edgetierAnnualCost,
+    totalAnnualBenefit,
+    netGain,
+    roiPct:
+      edgetierAnnualCost > 0 ? (netGain / edgetierAnnualCost) * 100 : 0,
+    totalHoursSaved: total("totalHoursSaved"),
+    monthlyBenefit,
+    paybackMonths:
+      monthlyBenefit > 0 ? edgetierAnnualCost / monthlyBenefit : 0,
+    sites: teams.map((team, index) => {
+      const siteCost = edgetierAnnualCost * ratio(team.numAgents, numAgents);
+      const siteNetGain = team.totalAnnualBenefit - siteCost;
+      return {
+        name: sites[index].name,
+        numAgents: team.numAgents,
+        contactsPerAgentPerDay: team.contactsPerAgentPerDay,
+        contactsPerYear: team.contactsPerYear,
+        ahtMins: team.ahtMins,
+        annualCostPerAgent: team.annualCostPerAgent,
+        baseImprovements: team.baseImprovements,
+        savingsAht: team.savingsAht,
+        savingsQa: team.savingsQa,
+        savingsDeflection: team.savingsDeflection,
+        savingsHiring: team.savingsHiring,
+        savingsRamp: team.savingsRamp,
+        riskCostAvoided: team.riskCostAvoided,
+        totalAnnualBenefit: team.totalAnnualBenefit,
+        edgetierAnnualCost: siteCost,
+        netGain: siteNetGain,
+        roiPct: siteCost > 0 ? (siteNetGain / siteCost) * 100 : 0,
+      };
+    }),
+  };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { irr, npvAt } from "./tco";
+
+describe("irr", () => {
+  it("finds an ordinary rate", () => {
+    const flows = [-100, 60, 60];
+    const rate = irr(flows);
+    expect(rate).not.toBeNull();
+    expect(npvAt(rate as number, flows)).toBeCloseTo(0, 1);
+  });
+
+  it("finds rates above 1000%", () => {
+    const flows = [-1_000, 50_000, 50_000];
+    const rate = irr(flows) as number;
+    expect(rate).toBeGreaterThan(1_000);
+    expect(Number.isFinite(rate)).toBe(true);
+    expect(npvAt(rate, flows)).toBeCloseTo(0, 1);
+  });
+
+  it("is unbounded when nothing is paid up front", () => {
+    expect(irr([0, 10_000, 10_000])).toBe(Infinity);
+  });
+
+  it("goes negative when the flows don't recover the cost", () => {
+    expect(irr([-1_000, 100, 100])).toBeLessThan(0);
+  });
+
+  it("has no rate when every flow is a cost", () => {
+    expect(irr([-1_000, -100, -100])).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { convertFromEur, type CurrencyCode } from "./currency";
+import type { RoiResult } from "./engine";
+
+export type TcoSettings = {
+  years: number;
+  // Adoption per quarter from go-live; the last value holds for later quarters
+  quarterlyRampPct: number[];
+  implementationCost: number;
+  trainingCost: number;
+  priceEscalatorPct: number;
+  discountRatePct: number;
+};
+
+export type TcoYear = {
+  year: number;
+  avgAdoptionPct: number;
+  benefit: number;
+  licenceCost: number;
+  netCashFlow: number;
+  cumulativeCashFlow: number;
+  discountedCashFlow: number;
+};
+
+export type TcoResult = {
+  upfrontCost: number;
+  years: TcoYear[];
+  totalBenefit: number;
+  totalCost: number;
+  npv: number;
+  // Infinity when it's above IRR_MAX_PCT, null when there's no IRR
+  irrPct: number | null;
+  paybackMonth: number | null;
+};
+
+const DEFAULT_IMPLEMENTATION_COST_EUR = 20_000;
+const DEFAULT_TRAINING_COST_EUR = 5_000;
+
+export const defaultTcoSettings = (currency: CurrencyCode): TcoSettings => ({
+  years: 3,
+  quarterlyRampPct: [50, 75, 90, 100],
+  implementationCost: convertFromEur(DEFAULT_IMPLEMENTATION_COST_EUR, currency),
+  trainingCost: convertFromEur(DEFAULT_TRAINING_COST_EUR, currency),
+  priceEscalatorPct: 3,
+  discountRatePct: 8,
+});
+
+export const adoptionForMonth = (month: number, rampPct: number[]) => {
+  if (rampPct.length === 0) return 1;
+  const quarter = Math.floor((month - 1) / 3);
+  const pct = rampPct[Math.min(quarter, rampPct.length - 1)];
+  return Math.min(Math.max(pct, 0), 100) / 100;
+};
+
+// Net present value of [t0, t1, ...] cash flows at an annual rate
+export const npvAt = (ratePct: number, cashFlows: number[]) =>
+  cashFlows.reduce(
+    (sum, flow, t) => sum + flow / Math.pow(1 + ratePct / 100, t),
+    0
+  );
+
+// Highest rate the IRR search tries before giving up
+export const IRR_MAX_PCT = 1_000_000;
+
+// Bisection search. The upper bracket doubles until NPV changes sign, so a
+// quick payback on a small upfront cost still gets a figure; past
+// IRR_MAX_PCT it returns Infinity. Returns null when NPV is negative at
+// every rate.
+export const irr = (cashFlows: number[]) => {
+  let low = -99;
+  let high = 100;
+  let npvLow = npvAt(low, cashFlows);
+  let npvHigh = npvAt(high, cashFlows);
+  while (npvLow * npvHigh > 0 && npvHigh > 0 && high < IRR_MAX_PCT) {
+    high = Math.min(high * 2, IRR_MAX_PCT);
+    npvHigh = npvAt(high, cashFlows);
+  }
+  if (npvLow * npvHigh > 0) return npvHigh > 0 ? Infinity : null;
+
+  for (let i = 0; i < 200; i += 1) {
+    const mid = (low + high) / 2;
+    const npvMid = npvAt(mid, cashFlows);
+    if (Math.abs(npvMid) < 0.01) return mid;
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+export const calculateTco = (
+  result: RoiResult,
+  settings: TcoSettings
+): TcoResult => {
+  const upfrontCost = settings.implementationCost + settings.trainingCost;
+  const monthlyFullBenefit = result.totalAnnualBenefit / 12;
+
+  const years: TcoYear[] = [];
+  let cumulative = -upfrontCost;
+  let paybackMonth: number | null = upfrontCost <= 0 ? 0 : null;
+
+  for (let year = 1; year <= settings.years; year += 1) {
+    const licenceCost =
+      result.edgetierAnnualCost *
+      Math.pow(1 + settings.priceEscalatorPct / 100, year - 1);
+
+    let benefit = 0;
+    let adoptionTotal = 0;
+    for (let m = 1; m <= 12; m += 1) {
+      const month = (year - 1) * 12 + m;
+      const adoption = adoptionForMonth(month, settings.quarterlyRampPct);
+      const monthBenefit = monthlyFullBenefit * adoption;
+      benefit += monthBenefit;
+      adoptionTotal += adoption;
+
+      cumulative += monthBenefit - licenceCost / 12;
+      if (paybackMonth === null && cumulative >= 0) paybackMonth = month;
+    }
+
+    const netCashFlow = benefit - licenceCost;
+    years.push({
+      year,
+      avgAdoptionPct: (adoptionTotal / 12) * 100,
+      benefit,
+      licenceCost,
+      netCashFlow,
+      cumulativeCashFlow: cumulative,
+      discountedCashFlow:
+        netCashFlow / Math.pow(1 + settings.discountRatePct / 100, year),
+    });
+  }
+
+  const cashFlows = [-upfrontCost, ...years.map((y) => y.netCashFlow)];
+  const irrPct = irr(cashFlows);
+
+  return {
+    upfrontCost,
+    years,
+    totalBenefit: years.reduce((sum, y) => sum + y.benefit, 0),
+    totalCost: upfrontCost + years.reduce((sum, y) => sum + y.licenceCost, 0),
+    npv: npvAt(settings.discountRatePct, cashFlows),
+    irrPct,
+    paybackMonth,
+  };
+};
@@ -0,0 +1,49 @@
+// Checks shared by the input modules and the parsers of stored or posted
+// data
+
+export type NumberBounds = {
+  min: number;
+  max: number;
+  integer: boolean;
+};
+
+// Shares are whole-number percentages in the UI, so allow for rounding
+export const SHARE_TOLERANCE_PCT = 0.5;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isWithinBounds = (bounds: NumberBounds, value: unknown) =>
+  typeof value === "number" &&
+  Number.isFinite(value) &&
+  value >= bounds.min &&
+  value <= bounds.max &&
+  (!bounds.integer || Number.isInteger(value));
+
+// Parses a raw text field. An empty string gives neither a value nor an
+// error, leaving the caller to fall back; the unit ends the range message.
+export const parseBoundedNumber = (
+  bounds: NumberBounds,
+  raw: string,
+  unit?: string
+): { value?: number; error?: string } => {
+  const trimmed = raw.trim();
+  if (trimmed === "") return {};
+
+  const value = Number(trimmed);
+
+  if (!Number.isFinite(value)) {
+    return { error: "Enter a number." };
+  }
+  if (bounds.integer && !Number.isInteger(value)) {
+    return { error: "Enter a whole number." };
+  }
+  if (value < bounds.min || value > bounds.max) {
+    return {
+      error: `Enter a value between ${bounds.min} and ${bounds.max.toLocaleString(
+        "en-IE"
+      )}${unit ? ` ${unit}` : ""}.`,
+    };
+  }
+  return { value };
+};
@@ -0,0 +1,31 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+
+export const ADMIN_PASSWORD_HEADER = "x-admin-password";
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+// Admin routes stay disabled until ADMIN_PASSWORD is set on the server
+export const checkAdminPassword = (
+  request: Request
+): "ok" | "unauthorized" | "disabled" => {
+  const expected = process.env.ADMIN_PASSWORD;
+  if (!expected) return "disabled";
+  const given = request.headers.get(ADMIN_PASSWORD_HEADER) ?? "";
+  // Compare digests so the check takes the same time whatever the input
+  return timingSafeEqual(digest(given), digest(expected))
+    ? "ok"
+    : "unauthorized";
+};
+
+// Error response for a request that fails the check, or null to carry on
+export const adminAuthError = (request: Request, disabledMessage: string) => {
+  switch (checkAdminPassword(request)) {
+    case "disabled":
+      return NextResponse.json({ error: disabledMessage }, { status: 503 });
+    case "unauthorized":
+      return NextResponse.json({ error: "Wrong password." }, { status: 401 });
+    default:
+      return null;
+  }
+};
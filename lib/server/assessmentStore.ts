@@ -0,0 +1,70 @@
+import path from "path";
+import {
+  parseStoredAssessments,
+  sortAssessments,
+  type SavedAssessment,
+} from "../roi/assessments";
+import { readJsonFile, writeJsonFile } from "./jsonFile";
+
+const ASSESSMENTS_PATH =
+  process.env.ASSESSMENTS_PATH ??
+  path.join(process.cwd(), "data", "assessments.json");
+
+const readAll = async (): Promise<SavedAssessment[]> => {
+  try {
+    return parseStoredAssessments(await readJsonFile(ASSESSMENTS_PATH));
+  } catch (error) {
+    console.error(
+      `Ignoring unreadable assessments at ${ASSESSMENTS_PATH}`,
+      error
+    );
+    return [];
+  }
+};
+
+const writeAll = (assessments: SavedAssessment[]) =>
+  writeJsonFile(ASSESSMENTS_PATH, JSON.stringify(assessments, null, 2));
+
+// Each change rewrites the whole file, so run them one at a time to stop
+// two overlapping requests from dropping each other's edits
+let pending: Promise<unknown> = Promise.resolve();
+const serialized = <T>(change: () => Promise<T>): Promise<T> => {
+  const run = pending.then(change, change);
+  pending = run.catch(() => undefined);
+  return run;
+};
+
+export const listAssessments = async () => sortAssessments(await readAll());
+
+export const getAssessment = async (id: string) =>
+  (await readAll()).find((assessment) => assessment.id === id);
+
+export const insertAssessment = (assessment: SavedAssessment) =>
+  serialized(async () => {
+    await writeAll([...(await readAll()), assessment]);
+    return assessment;
+  });
+
+// Resolves to undefined when there is no assessment with that id
+export const updateAssessment = (
+  id: string,
+  change: (assessment: SavedAssessment) => SavedAssessment
+) =>
+  serialized(async () => {
+    const assessments = await readAll();
+    const index = assessments.findIndex((assessment) => assessment.id === id);
+    if (index === -1) return undefined;
+    const updated = change(assessments[index]);
+    assessments[index] = updated;
+    await writeAll(assessments);
+    return updated;
+  });
+
+export const deleteAssessment = (id: string) =>
+  serialized(async () => {
+    const assessments = await readAll();
+    const remaining = assessments.filter((assessment) => assessment.id !== id);
+    if (remaining.length === assessments.length) return false;
+    await writeAll(remaining);
+    return true;
+  });
@@ -0,0 +1,21 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Undefined when nothing has been saved yet; throws when the file isn't JSON
+export const readJsonFile = async (filePath: string): Promise<unknown> => {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf8");
+  } catch {
+    return undefined;
+  }
+  return JSON.parse(raw);
+};
+
+export const writeJsonFile = async (filePath: string, contents: string) => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  // Write then rename so a reader never sees a half-written file
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, contents, "utf8");
+  await fs.rename(tempPath, filePath);
+};
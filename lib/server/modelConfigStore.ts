@@ -0,0 +1,29 @@
+import path from "path";
+import {
+  DEFAULT_MODEL_CONFIG,
+  parseModelConfig,
+  serializeModelConfig,
+  type ModelConfig,
+} from "../roi/config";
+import { readJsonFile, writeJsonFile } from "./jsonFile";
+
+// Lives on disk rather than in the bundle so it can change without a redeploy
+const CONFIG_PATH =
+  process.env.MODEL_CONFIG_PATH ??
+  path.join(process.cwd(), "data", "model-config.json");
+
+export const readModelConfig = async (): Promise<ModelConfig> => {
+  try {
+    const stored = await readJsonFile(CONFIG_PATH);
+    if (stored === undefined) return DEFAULT_MODEL_CONFIG;
+    const { config, issues } = parseModelConfig(stored);
+    if (config) return config;
+    console.error(`Ignoring invalid model config at ${CONFIG_PATH}`, issues);
+  } catch (error) {
+    console.error(`Ignoring unreadable model config at ${CONFIG_PATH}`, error);
+  }
+  return DEFAULT_MODEL_CONFIG;
+};
+
+export const writeModelConfig = (config: ModelConfig) =>
+  writeJsonFile(CONFIG_PATH, serializeModelConfig(config));